@@ -7,6 +7,7 @@
  * Provides AI assistants with access to log search, APM transactions, errors, and traces.
  */
 
+import type { IncomingMessage } from "node:http";
 import { FastMCP } from "fastmcp";
 
 // Library imports
@@ -16,6 +17,11 @@ import {
   getLogLevel,
   fastMcpLogger,
 } from "./lib/logging.js";
+import { assertSessionActive, createMcpAuthenticator, type Principal } from "./lib/auth.js";
+import { withToolAudit } from "./lib/audit.js";
+import { listClusterNames, ES_DEFAULT_CLUSTER } from "./tools/elasticsearch/common/clusters.js";
+import { authenticateCaller, type SessionAuth } from "./tools/elasticsearch/common/credentials.js";
+import { ES_PASSTHROUGH_CONFIG } from "./tools/elasticsearch/common/schema.js";
 
 // Tool imports - Elasticsearch APM
 import {
@@ -38,7 +44,21 @@ import {
   getLogContextTool,
   aggregateLogsTool,
   comparePeriodsTool,
+  getAsyncResultsTool,
+  queryEsqlTool,
+  categorizeLogsTool,
+  detectLogAnomaliesTool,
+  logFieldCorrelationsTool,
+  tailLogsTool,
+  exportLogsTool,
+  profileLogFieldsTool,
+  listSavedSearchesTool,
+  runSavedSearchTool,
+  listAlertRulesTool,
+  getAlertsTool,
+  getMlAnomaliesTool,
 } from "./tools/elasticsearch/logs/tools.js";
+import { exportOwner, readExport } from "./tools/elasticsearch/logs/export.js";
 
 // ============================================================================
 // Constants
@@ -47,34 +67,103 @@ import {
 const VERSION = "1.0.0";
 const SERVER_NAME = "Elasticsearch Logs & APM MCP Server";
 
+// ============================================================================
+// Session Authentication
+// ============================================================================
+
+// Undefined when neither MCP_AUTH_TOKENS_FILE nor MCP_JWKS_FILE is set
+const mcpAuthenticator = createMcpAuthenticator();
+
+/**
+ * Runs once per MCP session. In httpStream mode it authenticates the caller
+ * (MCP_AUTH_TOKENS_FILE / MCP_JWKS_FILE) and captures their Elasticsearch
+ * credential (ES_CREDENTIAL_PASSTHROUGH); stdio has no request.
+ *
+ * The Authorization header is not checked again on later requests: the
+ * `mcp-session-id` is then a bearer credential for the whole session. Tool
+ * calls and resource reads are rejected once the principal's `expiresAt` (the
+ * JWT's exp, capped at MCP_SESSION_MAX_MINUTES) has passed.
+ */
+async function authenticate(request: IncomingMessage | undefined): Promise<SessionAuth | undefined> {
+  if (!request) {
+    return undefined;
+  }
+
+  let principal: Principal | undefined;
+  try {
+    principal = mcpAuthenticator ? await mcpAuthenticator(request.headers) : undefined;
+  } catch (error) {
+    logger.warn("mcp_session_rejected", {
+      reason: error instanceof Error ? error.message : String(error),
+      remote_address: request.socket.remoteAddress,
+    });
+    throw error;
+  }
+
+  const esCredential = authenticateCaller(request.headers);
+  logger.info("mcp_session_authenticated", {
+    principal: principal?.id ?? "anonymous",
+    auth_method: principal?.method ?? "none",
+    es_credential_source: esCredential ? "caller" : "config",
+  });
+
+  return { principal, esCredential };
+}
+
 // ============================================================================
 // MCP Server Setup
 // ============================================================================
 
-const server = new FastMCP({
+const server = new FastMCP<SessionAuth | undefined>({
   name: SERVER_NAME,
   version: VERSION,
   logger: fastMcpLogger,
+  authenticate,
 });
 
 // Register Elasticsearch APM tools (8 tools)
-server.addTool(apmHealthCheckTool);
-server.addTool(listApmServicesTool);
-server.addTool(getTransactionsTool);
-server.addTool(getErrorsTool);
-server.addTool(getTraceTool);
-server.addTool(getLatencyStatsTool);
-server.addTool(getErrorRateTool);
-server.addTool(searchApmTool);
-
-// Register Elasticsearch Logs tools (7 tools)
-server.addTool(listDataViewsTool);
-server.addTool(getLogFieldsTool);
-server.addTool(getFieldValuesTool);
-server.addTool(searchLogsTool);
-server.addTool(getLogContextTool);
-server.addTool(aggregateLogsTool);
-server.addTool(comparePeriodsTool);
+server.addTool(withToolAudit(apmHealthCheckTool));
+server.addTool(withToolAudit(listApmServicesTool));
+server.addTool(withToolAudit(getTransactionsTool));
+server.addTool(withToolAudit(getErrorsTool));
+server.addTool(withToolAudit(getTraceTool));
+server.addTool(withToolAudit(getLatencyStatsTool));
+server.addTool(withToolAudit(getErrorRateTool));
+server.addTool(withToolAudit(searchApmTool));
+
+// Register Elasticsearch Logs tools (20 tools)
+server.addTool(withToolAudit(listDataViewsTool));
+server.addTool(withToolAudit(getLogFieldsTool));
+server.addTool(withToolAudit(getFieldValuesTool));
+server.addTool(withToolAudit(searchLogsTool));
+server.addTool(withToolAudit(getLogContextTool));
+server.addTool(withToolAudit(aggregateLogsTool));
+server.addTool(withToolAudit(comparePeriodsTool));
+server.addTool(withToolAudit(getAsyncResultsTool));
+server.addTool(withToolAudit(queryEsqlTool));
+server.addTool(withToolAudit(categorizeLogsTool));
+server.addTool(withToolAudit(detectLogAnomaliesTool));
+server.addTool(withToolAudit(logFieldCorrelationsTool));
+server.addTool(withToolAudit(tailLogsTool));
+server.addTool(withToolAudit(exportLogsTool));
+server.addTool(withToolAudit(profileLogFieldsTool));
+server.addTool(withToolAudit(listSavedSearchesTool));
+server.addTool(withToolAudit(runSavedSearchTool));
+server.addTool(withToolAudit(listAlertRulesTool));
+server.addTool(withToolAudit(getAlertsTool));
+server.addTool(withToolAudit(getMlAnomaliesTool));
+
+// Files written by export_logs, readable by the sessions that could write them
+server.addResourceTemplate({
+  uriTemplate: "logs-export://{name}",
+  name: "Log export",
+  description: "NDJSON or CSV file written by export_logs",
+  arguments: [{ name: "name", description: "File name returned by export_logs", required: true }],
+  load: async ({ name }, auth) => {
+    assertSessionActive(auth?.principal);
+    return readExport(name, exportOwner(auth));
+  },
+});
 
 // ============================================================================
 // CLI Argument Parsing
@@ -126,7 +215,16 @@ async function main() {
   logger.info(`Starting ${SERVER_NAME} v${VERSION}`);
   logger.info(`Transport: ${transport}`);
   logger.info(`Log Level: ${getLogLevel()}`);
-  logger.info(`Tools: Elasticsearch APM (8) + Logs (7) = 15 total`);
+  logger.info(`Clusters: ${listClusterNames().join(", ") || "none"} (default: ${ES_DEFAULT_CLUSTER})`);
+  if (transport === "httpStream") {
+    logger.info(`Elasticsearch credential passthrough: ${ES_PASSTHROUGH_CONFIG.mode}`);
+    if (mcpAuthenticator) {
+      logger.info("MCP endpoint authentication: enabled");
+    } else {
+      logger.warn("MCP endpoint authentication is disabled - set MCP_AUTH_TOKENS_FILE or MCP_JWKS_FILE");
+    }
+  }
+  logger.info(`Tools: Elasticsearch APM (8) + Logs (20) = 28 total`);
 
   if (transport === "httpStream") {
     await server.start({
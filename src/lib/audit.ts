@@ -0,0 +1,74 @@
+/**
+ * Tool call audit logging
+ *
+ * Every tool call is logged with the authenticated principal of its MCP
+ * session, so logs record who ran what:
+ *   {"message":"mcp_tool_call","tool":"search_logs","principal":"alice",...}
+ *
+ * Calls of sessions whose token has expired are rejected (and logged) here,
+ * since every tool goes through this wrapper.
+ *
+ * Usage:
+ *   server.addTool(withToolAudit(searchLogsTool));
+ */
+
+import { assertSessionActive, type Principal } from "./auth.js";
+import { logger } from "./logging.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The part of the FastMCP tool context the audit log relies on
+ */
+export interface AuditContext {
+  session?: { principal?: Principal };
+  sessionId?: string;
+  requestId?: string;
+}
+
+type AuditedExecute = (args: unknown, context?: AuditContext) => Promise<unknown>;
+
+// ============================================================================
+// Wrapper
+// ============================================================================
+
+/**
+ * Wrap a tool so each call is logged with principal, outcome and duration,
+ * and rejected once the session has expired
+ */
+export function withToolAudit<T extends { name: string; execute: (...args: never[]) => Promise<unknown> }>(
+  tool: T
+): T {
+  const execute = tool.execute as unknown as AuditedExecute;
+
+  const audited: AuditedExecute = async (args, context) => {
+    const principal = context?.session?.principal;
+    const entry = {
+      tool: tool.name,
+      principal: principal?.id ?? "anonymous",
+      auth_method: principal?.method ?? "none",
+      session_id: context?.sessionId,
+      request_id: context?.requestId,
+    };
+    const startedAt = Date.now();
+
+    try {
+      assertSessionActive(principal);
+      const result = await execute(args, context);
+      logger.info("mcp_tool_call", { ...entry, outcome: "success", duration_ms: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      logger.info("mcp_tool_call", {
+        ...entry,
+        outcome: "error",
+        error: error instanceof Error ? error.message : String(error),
+        duration_ms: Date.now() - startedAt,
+      });
+      throw error;
+    }
+  };
+
+  return { ...tool, execute: audited as unknown as T["execute"] };
+}
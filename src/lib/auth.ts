@@ -0,0 +1,196 @@
+/**
+ * Authentication for the httpStream MCP endpoint
+ *
+ * Callers send `Authorization: Bearer <token>`, where the token is either:
+ * - a static token listed in MCP_AUTH_TOKENS_FILE
+ * - a JWT signed by a key in the local MCP_JWKS_FILE, checked against
+ *   MCP_JWT_ISSUER / MCP_JWT_AUDIENCE
+ *
+ * The token is checked once, when an MCP session is initialized; from then on
+ * the `mcp-session-id` header alone authenticates requests, so the session id
+ * is a bearer credential. Sessions therefore end when their token would:
+ * - at the JWT's `exp`
+ * - after MCP_SESSION_MAX_MINUTES at most, for static tokens too (a token
+ *   removed from the tokens file stops opening sessions at the next restart)
+ *
+ * Tokens file format (JSON):
+ *   [{ "principal": "ci-bot", "token": "..." }, { "principal": "alice", "token": "..." }]
+ *
+ * Usage:
+ *   const authenticator = createMcpAuthenticator();
+ *   const principal = await authenticator?.(request.headers);
+ *   assertSessionActive(principal); // on every later request of the session
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { IncomingHttpHeaders } from "node:http";
+import { createLocalJWKSet, jwtVerify, type JSONWebKeySet } from "jose";
+import { z } from "zod";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Positive whole number from an environment variable, else the default: a
+ * typo must not leave sessions without an end (NaN) or end them at once (0)
+ */
+function positiveInt(value: string | undefined, defaultValue: number): number {
+  const parsed = parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
+}
+
+/**
+ * MCP endpoint authentication configuration from environment variables
+ */
+export const MCP_AUTH_CONFIG = {
+  tokensFile: process.env.MCP_AUTH_TOKENS_FILE,
+  jwksFile: process.env.MCP_JWKS_FILE,
+  jwtIssuer: process.env.MCP_JWT_ISSUER,
+  jwtAudience: process.env.MCP_JWT_AUDIENCE
+    ? process.env.MCP_JWT_AUDIENCE.split(",").map((a) => a.trim()).filter(Boolean)
+    : undefined,
+  principalClaim: process.env.MCP_JWT_PRINCIPAL_CLAIM || "sub",
+  clockToleranceSeconds: parseInt(process.env.MCP_JWT_CLOCK_TOLERANCE_SECONDS || "30", 10),
+  sessionMaxMinutes: positiveInt(process.env.MCP_SESSION_MAX_MINUTES, 60),
+};
+
+export type McpAuthConfig = typeof MCP_AUTH_CONFIG;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Authenticated caller of the MCP endpoint
+ */
+export interface Principal {
+  id: string;
+  method: "token" | "jwt";
+  /** Epoch ms after which the session this principal opened is rejected */
+  expiresAt: number;
+}
+
+export type McpAuthenticator = (headers: IncomingHttpHeaders) => Promise<Principal>;
+
+const staticTokensSchema = z.array(
+  z.object({
+    principal: z.string().min(1),
+    token: z.string().min(16, "tokens must be at least 16 characters"),
+  })
+);
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when an MCP request cannot be authenticated.
+ * The "Unauthorized" prefix makes the HTTP layer answer with 401.
+ */
+export class McpAuthenticationError extends Error {
+  constructor(message: string) {
+    super(`Unauthorized: ${message}`);
+    this.name = "McpAuthenticationError";
+  }
+}
+
+// ============================================================================
+// Static Tokens
+// ============================================================================
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Load static tokens, keeping only their hashes in memory
+ */
+function loadStaticTokens(path: string): Array<{ principal: string; hash: Buffer }> {
+  const parsed = staticTokensSchema.safeParse(JSON.parse(readFileSync(path, "utf-8")));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`Invalid MCP tokens file ${path}: ${issues}`);
+  }
+  return parsed.data.map((entry) => ({ principal: entry.principal, hash: sha256(entry.token) }));
+}
+
+// ============================================================================
+// Authenticator
+// ============================================================================
+
+function looksLikeJwt(token: string): boolean {
+  return token.split(".").length === 3;
+}
+
+function bearerToken(headers: IncomingHttpHeaders): string {
+  const header = headers.authorization;
+  if (!header) {
+    throw new McpAuthenticationError("missing Authorization header");
+  }
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    throw new McpAuthenticationError("Authorization header must be 'Bearer <token>'");
+  }
+  return match[1];
+}
+
+/**
+ * Create the MCP endpoint authenticator, or undefined when neither a tokens
+ * file nor a JWKS file is configured (authentication disabled).
+ */
+export function createMcpAuthenticator(config: McpAuthConfig = MCP_AUTH_CONFIG): McpAuthenticator | undefined {
+  if (!config.tokensFile && !config.jwksFile) {
+    return undefined;
+  }
+
+  const staticTokens = config.tokensFile ? loadStaticTokens(config.tokensFile) : [];
+  const jwks = config.jwksFile
+    ? createLocalJWKSet(JSON.parse(readFileSync(config.jwksFile, "utf-8")) as JSONWebKeySet)
+    : undefined;
+
+  return async (headers) => {
+    const token = bearerToken(headers);
+    const maxExpiresAt = Date.now() + config.sessionMaxMinutes * 60 * 1000;
+
+    if (jwks && looksLikeJwt(token)) {
+      try {
+        const { payload } = await jwtVerify(token, jwks, {
+          issuer: config.jwtIssuer,
+          audience: config.jwtAudience,
+          clockTolerance: config.clockToleranceSeconds,
+        });
+        const principal = payload[config.principalClaim];
+        if (typeof principal !== "string" || !principal) {
+          throw new McpAuthenticationError(`JWT is missing the '${config.principalClaim}' claim`);
+        }
+        const expiresAt = payload.exp !== undefined ? Math.min(payload.exp * 1000, maxExpiresAt) : maxExpiresAt;
+        return { id: principal, method: "jwt", expiresAt };
+      } catch (error) {
+        if (error instanceof McpAuthenticationError) {
+          throw error;
+        }
+        throw new McpAuthenticationError(`invalid JWT: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const hash = sha256(token);
+    const match = staticTokens.find((entry) => timingSafeEqual(entry.hash, hash));
+    if (match) {
+      return { id: match.principal, method: "token", expiresAt: maxExpiresAt };
+    }
+
+    throw new McpAuthenticationError("invalid token");
+  };
+}
+
+/**
+ * Reject requests of a session whose token has expired. Sessions without a
+ * principal (stdio, or authentication disabled) never expire.
+ */
+export function assertSessionActive(principal: Principal | undefined, now: number = Date.now()): void {
+  if (principal && now >= principal.expiresAt) {
+    throw new McpAuthenticationError("session expired, reconnect with a valid token");
+  }
+}
@@ -3,4 +3,5 @@
  */
 
 export * from "./logging.js";
-
+export * from "./auth.js";
+export * from "./audit.js";
@@ -3,14 +3,22 @@
  * 
  * Handles API calls to Elasticsearch for APM data.
  * 
- * Authentication comes from environment variables only:
- * - ES_URL: Elasticsearch URL (required)
- * - ES_API_KEY: API key for authentication (recommended)
- * - ES_USERNAME / ES_PASSWORD: Basic auth credentials (alternative)
+ * Connection, credentials and limits come from the cluster profile named by
+ * the `cluster` argument (see clusters.ts):
+ * - the "default" profile is built from ES_URL or ES_CLOUD_ID plus
+ *   credentials (see ../common/schema.ts)
+ * - further named profiles come from ES_CLUSTERS or ES_CLUSTERS_FILE, and
+ *   ES_DEFAULT_CLUSTER picks the one used when no cluster is named
+ * - a profile's `apmIndex` overrides ES_APM_INDEX
+ * With credential passthrough, the caller's credential replaces the profile's
+ * (see ../common/credentials.ts).
  */
 
 import { z } from "zod";
 import { BaseElasticsearchClient, ElasticsearchApiError, SearchResponse } from "../common/client.js";
+import { getClusterProfile } from "../common/clusters.js";
+import { credentialFingerprint, type CallerCredential } from "../common/credentials.js";
+import { ES_PASSTHROUGH_CONFIG } from "../common/schema.js";
 import { apmAuthSchema, ES_APM_CONFIG } from "./schema.js";
 import { logger } from "../../../lib/logging.js";
 
@@ -21,9 +29,10 @@ export { ElasticsearchApiError };
 export class ApmElasticsearchClient extends BaseElasticsearchClient {
   private apmIndex: string;
 
-  constructor(params: ApmAuthParams = {}) {
-    super();
-    this.apmIndex = params.apmIndex || ES_APM_CONFIG.apmIndex;
+  constructor(params: ApmAuthParams = {}, credential?: CallerCredential) {
+    const profile = getClusterProfile(params.cluster);
+    super(profile, credential);
+    this.apmIndex = params.apmIndex || profile.apmIndex || ES_APM_CONFIG.apmIndex;
   }
 
   /**
@@ -369,17 +378,44 @@ export class ApmElasticsearchClient extends BaseElasticsearchClient {
 
 const MAX_POOL_SIZE = parseInt(process.env.MAX_CLIENT_POOL_SIZE || "50", 10);
 const CACHE_TTL_MS = parseInt(process.env.CACHE_TTL_MINUTES || "30", 10) * 60 * 1000;
+const CREDENTIAL_TTL_MS = ES_PASSTHROUGH_CONFIG.ttlMinutes * 60 * 1000;
+
+interface PoolEntry {
+  client: ApmElasticsearchClient;
+  lastUsed: number;
+  createdAt: number;
+  /** Entries holding a caller credential always expire */
+  hasCallerCredential: boolean;
+}
 
-const clientPool = new Map<string, { client: ApmElasticsearchClient; lastUsed: number; createdAt: number }>();
+const clientPool = new Map<string, PoolEntry>();
 
-function isExpired(entry: { createdAt: number }): boolean {
+function isExpired(entry: PoolEntry): boolean {
+  if (entry.hasCallerCredential) {
+    return Date.now() - entry.createdAt > CREDENTIAL_TTL_MS;
+  }
   if (CACHE_TTL_MS === 0) return false;
   return Date.now() - entry.createdAt > CACHE_TTL_MS;
 }
 
-function getConnectionFingerprint(params: ApmAuthParams): string {
-  // Since auth comes from env vars, only apmIndex can vary per request
-  return `apm|${params.apmIndex || ES_APM_CONFIG.apmIndex}`;
+/**
+ * Drop expired entries so caller credentials don't outlive their TTL in memory
+ */
+function evictExpired(): void {
+  for (const [key, entry] of clientPool.entries()) {
+    if (isExpired(entry)) {
+      clientPool.delete(key);
+    }
+  }
+}
+
+setInterval(evictExpired, 60 * 1000).unref();
+
+function getConnectionFingerprint(params: ApmAuthParams, credential?: CallerCredential): string {
+  // Cluster profile, apmIndex and the (hashed) caller credential can vary per request
+  const profile = getClusterProfile(params.cluster);
+  const index = params.apmIndex || profile.apmIndex || ES_APM_CONFIG.apmIndex;
+  return `apm|${profile.name}|${index}|${credentialFingerprint(credential)}`;
 }
 
 function evictLRUIfNeeded(): void {
@@ -412,8 +448,10 @@ export function clearApmPool(): void {
   clientPool.clear();
 }
 
-export function createApmClient(params: ApmAuthParams): ApmElasticsearchClient {
-  const fingerprint = getConnectionFingerprint(params);
+export function createApmClient(params: ApmAuthParams, credential?: CallerCredential): ApmElasticsearchClient {
+  evictExpired();
+
+  const fingerprint = getConnectionFingerprint(params, credential);
   const cached = clientPool.get(fingerprint);
   
   if (cached) {
@@ -425,12 +463,12 @@ export function createApmClient(params: ApmAuthParams): ApmElasticsearchClient {
     }
   }
 
-  const client = new ApmElasticsearchClient(params);
+  const client = new ApmElasticsearchClient(params, credential);
 
   evictLRUIfNeeded();
 
   const now = Date.now();
-  clientPool.set(fingerprint, { client, lastUsed: now, createdAt: now });
+  clientPool.set(fingerprint, { client, lastUsed: now, createdAt: now, hasCallerCredential: !!credential });
 
   return client;
 }
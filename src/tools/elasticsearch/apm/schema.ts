@@ -1,14 +1,18 @@
 /**
  * APM-specific schema definitions
  * 
- * Authentication comes from environment variables only:
- * - ES_URL: Elasticsearch URL
- * - ES_API_KEY: API key for authentication (recommended)
- * - ES_USERNAME / ES_PASSWORD: Basic auth credentials (alternative)
+ * Connections and credentials are configured at deployment, never by agents,
+ * as named cluster profiles (see ../common/clusters.ts):
+ * - the "default" profile is built from ES_URL or ES_CLOUD_ID plus
+ *   credentials (see ../common/schema.ts)
+ * - further named profiles come from ES_CLUSTERS or ES_CLUSTERS_FILE, and
+ *   ES_DEFAULT_CLUSTER picks the one used when no cluster is named
+ * - a profile's `apmIndex` overrides ES_APM_INDEX
+ * Agents only choose a profile, with the optional `cluster` argument.
  */
 
 import { z } from "zod";
-import { timeRangeSchema } from "../common/schema.js";
+import { elasticsearchBaseAuthSchema, timeRangeSchema } from "../common/schema.js";
 
 /**
  * APM configuration from environment variables
@@ -18,14 +22,15 @@ export const ES_APM_CONFIG = {
 };
 
 /**
- * APM schema - only index pattern exposed to agents
+ * APM schema - only cluster profile and index pattern exposed to agents
  * Authentication comes from environment variables only.
  */
 export const apmAuthSchema = {
+  ...elasticsearchBaseAuthSchema,
   apmIndex: z
     .string()
     .optional()
-    .describe("APM index pattern (uses ES_APM_INDEX env var, default: apm-*)"),
+    .describe("APM index pattern (uses the cluster's apmIndex or ES_APM_INDEX env var, default: apm-*)"),
 };
 
 /**
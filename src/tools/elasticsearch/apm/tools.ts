@@ -5,6 +5,7 @@
  */
 
 import { z } from "zod";
+import { getCallerCredential, type ToolContext } from "../common/credentials.js";
 import { createApmClient, ElasticsearchApiError } from "./client.js";
 import { apmAuthSchema, timeRangeSchema } from "./schema.js";
 
@@ -67,11 +68,11 @@ export const apmHealthCheckTool = {
   name: "apm_health_check",
   description: "Test connectivity to Elasticsearch APM cluster",
   parameters: apmHealthCheckParams,
-  execute: async (args: z.infer<typeof apmHealthCheckParams>) => {
+  execute: async (args: z.infer<typeof apmHealthCheckParams>, context?: ToolContext) => {
     const timestamp = new Date().toISOString();
 
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const connectionTest = await client.testConnection();
 
       if (connectionTest.connected) {
@@ -81,6 +82,10 @@ export const apmHealthCheckTool = {
           component: "elasticsearch-apm",
           version: VERSION,
           timestamp,
+          cluster: client.getClusterName(),
+          authMethod: client.getAuthMethod(),
+          kibanaUrl: client.getKibanaUrl() ?? null,
+          credentialSource: client.getCredentialSource(),
           clusterName: connectionTest.clusterName,
         }, null, 2);
       }
@@ -91,6 +96,10 @@ export const apmHealthCheckTool = {
         component: "elasticsearch-apm",
         version: VERSION,
         timestamp,
+        cluster: client.getClusterName(),
+        authMethod: client.getAuthMethod(),
+        kibanaUrl: client.getKibanaUrl() ?? null,
+        credentialSource: client.getCredentialSource(),
         error: connectionTest.error,
       }, null, 2);
     } catch (error) {
@@ -100,6 +109,7 @@ export const apmHealthCheckTool = {
         component: "elasticsearch-apm",
         version: VERSION,
         timestamp,
+        cluster: args.cluster || null,
         error: error instanceof Error ? error.message : String(error),
       }, null, 2);
     }
@@ -110,9 +120,9 @@ export const listApmServicesTool = {
   name: "list_apm_services",
   description: "List all APM services that have reported data in the given time range",
   parameters: listApmServicesParams,
-  execute: async (args: z.infer<typeof listApmServicesParams>) => {
+  execute: async (args: z.infer<typeof listApmServicesParams>, context?: ToolContext) => {
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const services = await client.getServices(args.startTime, args.endTime);
 
       return JSON.stringify({
@@ -136,9 +146,9 @@ export const getTransactionsTool = {
   name: "get_apm_transactions",
   description: "Get recent transactions for a service with timing and result information",
   parameters: getTransactionsParams,
-  execute: async (args: z.infer<typeof getTransactionsParams>) => {
+  execute: async (args: z.infer<typeof getTransactionsParams>, context?: ToolContext) => {
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const transactions = await client.getTransactions(
         args.serviceName,
         args.startTime,
@@ -169,9 +179,9 @@ export const getErrorsTool = {
   name: "get_apm_errors",
   description: "Get recent errors for a service with exception details",
   parameters: getErrorsParams,
-  execute: async (args: z.infer<typeof getErrorsParams>) => {
+  execute: async (args: z.infer<typeof getErrorsParams>, context?: ToolContext) => {
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const errors = await client.getErrors(
         args.serviceName,
         args.startTime,
@@ -201,9 +211,9 @@ export const getTraceTool = {
   name: "get_apm_trace",
   description: "Get all spans for a specific trace ID to analyze request flow across services",
   parameters: getTraceParams,
-  execute: async (args: z.infer<typeof getTraceParams>) => {
+  execute: async (args: z.infer<typeof getTraceParams>, context?: ToolContext) => {
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const spans = await client.getTrace(args.traceId);
 
       return JSON.stringify({
@@ -225,9 +235,9 @@ export const getLatencyStatsTool = {
   name: "get_apm_latency",
   description: "Get latency statistics (avg, p50, p95, p99, max) for a service",
   parameters: getLatencyStatsParams,
-  execute: async (args: z.infer<typeof getLatencyStatsParams>) => {
+  execute: async (args: z.infer<typeof getLatencyStatsParams>, context?: ToolContext) => {
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const stats = await client.getLatencyStats(
         args.serviceName,
         args.startTime,
@@ -263,9 +273,9 @@ export const getErrorRateTool = {
   name: "get_apm_error_rate",
   description: "Get error rate percentage for a service",
   parameters: getErrorRateParams,
-  execute: async (args: z.infer<typeof getErrorRateParams>) => {
+  execute: async (args: z.infer<typeof getErrorRateParams>, context?: ToolContext) => {
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const stats = await client.getErrorRate(
         args.serviceName,
         args.startTime,
@@ -295,9 +305,9 @@ export const searchApmTool = {
   name: "search_apm",
   description: "Execute a raw Elasticsearch query against APM indices for advanced queries",
   parameters: searchApmParams,
-  execute: async (args: z.infer<typeof searchApmParams>) => {
+  execute: async (args: z.infer<typeof searchApmParams>, context?: ToolContext) => {
     try {
-      const client = createApmClient(args);
+      const client = createApmClient(args, getCallerCredential(context));
       const queryObj = JSON.parse(args.query);
       const results = await client.searchApm(queryObj);
 
@@ -0,0 +1,119 @@
+/**
+ * Elasticsearch authentication helpers
+ *
+ * Supported credentials, in priority order:
+ * - API key (`ApiKey`): ES_API_KEY, either base64 encoded or as id:key
+ * - Service account token (`Bearer`): ES_SERVICE_TOKEN
+ * - Bearer token (`Bearer`): ES_BEARER_TOKEN, e.g. an OAuth2/OIDC access token
+ * - Basic auth (`Basic`): ES_USERNAME / ES_PASSWORD
+ *
+ * Elastic Cloud deployments can be addressed by ES_CLOUD_ID instead of ES_URL.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AuthMethod = "api_key" | "service_account" | "bearer" | "basic" | "none";
+
+export interface AuthCredentials {
+  apiKey?: string;
+  serviceToken?: string;
+  bearerToken?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface ResolvedAuth {
+  method: AuthMethod;
+  header?: string;
+}
+
+export interface CloudEndpoints {
+  deploymentName: string;
+  esUrl: string;
+  kibanaUrl?: string;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when an Elastic Cloud ID cannot be decoded
+ */
+export class InvalidCloudIdError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCloudIdError";
+  }
+}
+
+// ============================================================================
+// Cloud ID
+// ============================================================================
+
+/**
+ * Decode an Elastic Cloud ID into Elasticsearch and Kibana endpoints.
+ *
+ * Format: `<deployment name>:<base64("<host>[:port]$<es uuid>$<kibana uuid>")>`
+ */
+export function decodeCloudId(cloudId: string): CloudEndpoints {
+  const separator = cloudId.indexOf(":");
+  if (separator === -1) {
+    throw new InvalidCloudIdError("Invalid Cloud ID: expected '<deployment name>:<base64 data>'");
+  }
+
+  const deploymentName = cloudId.slice(0, separator);
+  const decoded = Buffer.from(cloudId.slice(separator + 1), "base64").toString("utf-8");
+  const [hostPart, esUuid, kibanaUuid] = decoded.split("$");
+
+  if (!hostPart || !esUuid) {
+    throw new InvalidCloudIdError("Invalid Cloud ID: missing host or Elasticsearch cluster id");
+  }
+
+  const [host, port = "443"] = hostPart.split(":");
+
+  return {
+    deploymentName,
+    esUrl: `https://${esUuid}.${host}:${port}`,
+    kibanaUrl: kibanaUuid ? `https://${kibanaUuid}.${host}:${port}` : undefined,
+  };
+}
+
+// ============================================================================
+// Authorization Header
+// ============================================================================
+
+/**
+ * Build the Authorization header for a set of credentials
+ *
+ * Priority: API Key > Service Account Token > Bearer Token > Basic Auth
+ */
+export function resolveAuth(credentials: AuthCredentials): ResolvedAuth {
+  const { apiKey, serviceToken, bearerToken, username, password } = credentials;
+
+  if (apiKey) {
+    // ES API key can be provided as-is (already base64 encoded) or as id:key
+    // If it contains a colon, encode it; otherwise use as-is
+    const encodedKey = apiKey.includes(":")
+      ? Buffer.from(apiKey).toString("base64")
+      : apiKey;
+    return { method: "api_key", header: `ApiKey ${encodedKey}` };
+  }
+
+  if (serviceToken) {
+    return { method: "service_account", header: `Bearer ${serviceToken}` };
+  }
+
+  if (bearerToken) {
+    return { method: "bearer", header: `Bearer ${bearerToken}` };
+  }
+
+  if (username && password) {
+    const basicAuth = Buffer.from(`${username}:${password}`).toString("base64");
+    return { method: "basic", header: `Basic ${basicAuth}` };
+  }
+
+  return { method: "none" };
+}
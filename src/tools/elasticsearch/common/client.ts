@@ -5,7 +5,11 @@
  * with timeout, retry logic, and circuit breaker pattern.
  */
 
-import { ES_BASE_CONFIG } from "./schema.js";
+import type { Dispatcher } from "undici";
+import { getClusterProfile, type ClusterProfile } from "./clusters.js";
+import { getTlsDispatcher } from "./tls.js";
+import { resolveAuth, type AuthMethod } from "./auth.js";
+import type { CallerCredential } from "./credentials.js";
 
 // ============================================================================
 // Configuration
@@ -42,7 +46,7 @@ interface CircuitBreakerState {
   lastError?: string;
 }
 
-/** Circuit breaker state per ES host */
+/** Circuit breaker state per cluster profile and ES host ("<cluster>|<host>") */
 const circuitBreakers = new Map<string, CircuitBreakerState>();
 
 function getCircuitBreaker(host: string): CircuitBreakerState {
@@ -133,11 +137,11 @@ export function getCircuitBreakerStats(): Record<string, CircuitBreakerState> {
 }
 
 /**
- * Reset circuit breaker for a host (useful for testing)
+ * Reset circuit breaker for a "<cluster>|<host>" key (useful for testing)
  */
-export function resetCircuitBreaker(host?: string): void {
-  if (host) {
-    circuitBreakers.delete(host);
+export function resetCircuitBreaker(key?: string): void {
+  if (key) {
+    circuitBreakers.delete(key);
   } else {
     circuitBreakers.clear();
   }
@@ -184,9 +188,56 @@ export interface SearchResponse<T = unknown> {
       _id: string;
       _source: T;
       _score?: number;
+      sort?: unknown[];
+      /** Values requested with `fields`, e.g. runtime fields */
+      fields?: Record<string, unknown[]>;
+      /** Matched fragments per field, when `highlight` was requested */
+      highlight?: Record<string, string[]>;
     }>;
   };
   aggregations?: Record<string, unknown>;
+  /** Updated point-in-time id, present on point-in-time searches */
+  pit_id?: string;
+}
+
+export interface AsyncSearchResponse<T = unknown> {
+  /** Present while the search runs or when it is stored on completion */
+  id?: string;
+  is_partial: boolean;
+  is_running: boolean;
+  expiration_time_in_millis?: number;
+  response: SearchResponse<T>;
+}
+
+export interface EsqlResponse {
+  columns: Array<{ name: string; type: string }>;
+  values: unknown[][];
+  took?: number;
+  is_partial?: boolean;
+}
+
+export interface MlJobsResponse {
+  count: number;
+  jobs: Array<{
+    job_id: string;
+    description?: string;
+    groups?: string[];
+    analysis_config: {
+      bucket_span: string;
+      detectors: Array<{ detector_description?: string; function: string; field_name?: string }>;
+      influencers?: string[];
+    };
+    custom_settings?: Record<string, unknown>;
+  }>;
+}
+
+export interface MlJobStatsResponse {
+  count: number;
+  jobs: Array<{
+    job_id: string;
+    state: string;
+    data_counts?: { latest_record_timestamp?: number };
+  }>;
 }
 
 export interface MappingResponse {
@@ -204,47 +255,54 @@ export interface MappingResponse {
 /**
  * Base Elasticsearch client with common request handling
  * 
- * Authentication comes from environment variables only:
- * - ES_URL: Elasticsearch URL (required)
+ * Connection settings come from a named cluster profile (see clusters.ts),
+ * which in turn is built from environment variables:
+ * - ES_URL or ES_CLOUD_ID: Elasticsearch endpoint (required)
  * - ES_API_KEY: API key for authentication (recommended)
+ * - ES_SERVICE_TOKEN / ES_BEARER_TOKEN: Token auth (alternative)
  * - ES_USERNAME / ES_PASSWORD: Basic auth credentials (alternative)
  * 
- * Priority: API Key > Basic Auth
+ * Priority: API Key > Service Account Token > Bearer Token > Basic Auth (see auth.ts)
+ * 
+ * A caller credential (httpStream passthrough, see credentials.ts) replaces the
+ * profile's credentials so Elasticsearch security applies to the caller.
+ * 
+ * The profile's TLS settings (CA bundle, mTLS, fingerprint pin, insecure mode)
+ * apply to every request through a per-profile undici dispatcher.
  */
 export abstract class BaseElasticsearchClient {
   protected baseUrl: string;
   protected headers: Record<string, string>;
-  private host: string;
+  protected profile: ClusterProfile;
+  private circuitKey: string;
+  private dispatcher?: Dispatcher;
+  private authMethod: AuthMethod;
+  private callerCredential: boolean;
 
-  constructor() {
-    const esUrl = ES_BASE_CONFIG.url;
-    const apiKey = ES_BASE_CONFIG.apiKey;
-    const username = ES_BASE_CONFIG.username;
-    const password = ES_BASE_CONFIG.password;
+  constructor(profile: ClusterProfile = getClusterProfile(), credential?: CallerCredential) {
+    const esUrl = profile.url;
 
     if (!esUrl) {
       throw new ElasticsearchApiError(
-        "Elasticsearch URL is required. Set ES_URL environment variable."
+        `Elasticsearch URL is required for cluster '${profile.name}'. Set ES_URL or ES_CLOUD_ID environment variable.`
       );
     }
 
+    this.profile = profile;
     this.baseUrl = esUrl.replace(/\/$/, "");
-    this.host = new URL(this.baseUrl).host;
+    // Breakers are keyed per profile so two profiles on one host don't trip each other
+    this.circuitKey = `${profile.name}|${new URL(this.baseUrl).host}`;
+    this.dispatcher = getTlsDispatcher(profile.name, profile.tls);
     this.headers = {
       "Content-Type": "application/json",
     };
 
-    // Set authentication - priority: API key > basic auth
-    if (apiKey) {
-      // ES API key can be provided as-is (already base64 encoded) or as id:key
-      // If it contains a colon, encode it; otherwise use as-is
-      const encodedKey = apiKey.includes(":") 
-        ? Buffer.from(apiKey).toString("base64")
-        : apiKey;
-      this.headers["Authorization"] = `ApiKey ${encodedKey}`;
-    } else if (username && password) {
-      const basicAuth = Buffer.from(`${username}:${password}`).toString("base64");
-      this.headers["Authorization"] = `Basic ${basicAuth}`;
+    // Set authentication - caller credential, else priority: API key > service token > bearer token > basic auth
+    const auth = resolveAuth(credential || profile);
+    this.authMethod = auth.method;
+    this.callerCredential = !!credential;
+    if (auth.header) {
+      this.headers["Authorization"] = auth.header;
     }
   }
 
@@ -255,7 +313,7 @@ export abstract class BaseElasticsearchClient {
     timeoutMs: number = REQUEST_TIMEOUT_MS
   ): Promise<T> {
     // Check circuit breaker
-    const circuitCheck = canRequest(this.host);
+    const circuitCheck = canRequest(this.circuitKey);
     if (!circuitCheck.allowed) {
       throw new CircuitBreakerError(circuitCheck.reason!);
     }
@@ -266,12 +324,16 @@ export abstract class BaseElasticsearchClient {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
-    const options: RequestInit = {
+    const options: RequestInit & { dispatcher?: Dispatcher } = {
       method,
       headers: this.headers,
       signal: controller.signal,
     };
 
+    if (this.dispatcher) {
+      options.dispatcher = this.dispatcher;
+    }
+
     if (body) {
       options.body = JSON.stringify(body);
     }
@@ -297,20 +359,20 @@ export abstract class BaseElasticsearchClient {
             
             // Record failure for 5xx errors (server-side issues)
             if (response.status >= 500) {
-              recordFailure(this.host, errorMessage);
+              recordFailure(this.circuitKey, errorMessage);
             }
             
             throw new ElasticsearchApiError(errorMessage, response.status);
           }
 
           // Success - record it
-          recordSuccess(this.host);
+          recordSuccess(this.circuitKey);
           return response.json() as Promise<T>;
         } catch (error) {
           // Handle abort (timeout)
           if (error instanceof Error && error.name === "AbortError") {
             const timeoutError = new TimeoutError(`Request timed out after ${timeoutMs}ms: ${url}`);
-            recordFailure(this.host, timeoutError.message);
+            recordFailure(this.circuitKey, timeoutError.message);
             throw timeoutError;
           }
 
@@ -330,7 +392,7 @@ export abstract class BaseElasticsearchClient {
             await new Promise(resolve => setTimeout(resolve, 100 * (attempt + 1)));
           } else {
             console.error(`[ElasticsearchClient] Fetch failed for ${url} after ${maxRetries + 1} attempts: ${errorDetails}`);
-            recordFailure(this.host, errorDetails);
+            recordFailure(this.circuitKey, errorDetails);
           }
         }
       }
@@ -343,11 +405,39 @@ export abstract class BaseElasticsearchClient {
     }
   }
 
+  /**
+   * Get the name of the cluster profile this client talks to
+   */
+  getClusterName(): string {
+    return this.profile.name;
+  }
+
+  /**
+   * Get the Kibana endpoint of the cluster profile, from kibanaUrl or its Cloud ID
+   */
+  getKibanaUrl(): string | undefined {
+    return this.profile.kibanaUrl;
+  }
+
+  /**
+   * Get the authentication method in use (api_key, service_account, bearer, basic, none)
+   */
+  getAuthMethod(): AuthMethod {
+    return this.authMethod;
+  }
+
+  /**
+   * Where the credential in use came from: the MCP caller or server configuration
+   */
+  getCredentialSource(): "caller" | "config" {
+    return this.callerCredential ? "caller" : "config";
+  }
+
   /**
    * Test connection to Elasticsearch
    */
   async testConnection(): Promise<{ connected: boolean; clusterName?: string; error?: string; circuitState?: CircuitState }> {
-    const breaker = getCircuitBreaker(this.host);
+    const breaker = getCircuitBreaker(this.circuitKey);
     
     try {
       const info = await this.request<{ cluster_name: string; version: { number: string } }>("GET", "/");
@@ -372,6 +462,99 @@ export abstract class BaseElasticsearchClient {
     return this.request<SearchResponse<T>>("POST", `/${index}/_search`, query, timeoutMs);
   }
 
+  /**
+   * Search within a point in time; the query carries `pit` instead of an index
+   */
+  async searchPointInTime<T = unknown>(query: object, timeoutMs?: number): Promise<SearchResponse<T>> {
+    return this.request<SearchResponse<T>>("POST", "/_search", query, timeoutMs);
+  }
+
+  /**
+   * Open a point in time over an index pattern and return its id
+   */
+  async openPointInTime(index: string, keepAlive: string): Promise<string> {
+    const response = await this.request<{ id?: string }>(
+      "POST",
+      `/${index}/_pit?keep_alive=${encodeURIComponent(keepAlive)}`
+    );
+    if (!response.id) {
+      throw new ElasticsearchApiError(`Elasticsearch did not return a point-in-time id for ${index}`);
+    }
+    return response.id;
+  }
+
+  /**
+   * Close a point in time, releasing its search contexts
+   */
+  async closePointInTime(id: string): Promise<void> {
+    await this.request<{ succeeded: boolean }>("DELETE", "/_pit", { id });
+  }
+
+  /**
+   * Submit an async search, waiting up to `waitMs` for it to finish.
+   * Returns partial results and an id when it is still running.
+   */
+  async submitAsyncSearch<T = unknown>(
+    index: string,
+    query: object,
+    options: { waitMs: number; keepAlive: string; keepOnCompletion?: boolean }
+  ): Promise<AsyncSearchResponse<T>> {
+    const params = new URLSearchParams({
+      wait_for_completion_timeout: `${options.waitMs}ms`,
+      keep_alive: options.keepAlive,
+      keep_on_completion: String(options.keepOnCompletion ?? false),
+    });
+    return this.request<AsyncSearchResponse<T>>(
+      "POST",
+      `/${index}/_async_search?${params}`,
+      query,
+      REQUEST_TIMEOUT_MS + options.waitMs
+    );
+  }
+
+  /**
+   * Fetch the current state of an async search, waiting up to `waitMs` for it to finish
+   */
+  async getAsyncSearch<T = unknown>(id: string, waitMs: number): Promise<AsyncSearchResponse<T>> {
+    return this.request<AsyncSearchResponse<T>>(
+      "GET",
+      `/_async_search/${encodeURIComponent(id)}?wait_for_completion_timeout=${waitMs}ms`,
+      undefined,
+      REQUEST_TIMEOUT_MS + waitMs
+    );
+  }
+
+  /**
+   * Delete a stored async search (cancels it if still running)
+   */
+  async deleteAsyncSearch(id: string): Promise<void> {
+    await this.request<{ acknowledged: boolean }>("DELETE", `/_async_search/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Run an ES|QL query; `filter` is query DSL applied before the query runs
+   */
+  async esqlQuery(query: string, filter?: object, timeoutMs?: number): Promise<EsqlResponse> {
+    return this.request<EsqlResponse>("POST", "/_query", { query, filter }, timeoutMs);
+  }
+
+  /**
+   * Get anomaly detection job configurations; `jobIds` are ids, groups or
+   * wildcards, all jobs when empty
+   */
+  async getMlJobs(jobIds: string[] = []): Promise<MlJobsResponse> {
+    const ids = jobIds.length > 0 ? jobIds.map(encodeURIComponent).join(",") : "_all";
+    return this.request<MlJobsResponse>("GET", `/_ml/anomaly_detectors/${ids}?allow_no_match=true`);
+  }
+
+  /**
+   * Get the state and data counts of anomaly detection jobs
+   */
+  async getMlJobStats(jobIds: string[] = []): Promise<MlJobStatsResponse> {
+    const ids = jobIds.length > 0 ? jobIds.map(encodeURIComponent).join(",") : "_all";
+    return this.request<MlJobStatsResponse>("GET", `/_ml/anomaly_detectors/${ids}/_stats?allow_no_match=true`);
+  }
+
   /**
    * Get field mappings for an index
    */
@@ -0,0 +1,211 @@
+/**
+ * Named Elasticsearch cluster profiles
+ *
+ * A single server process can talk to several clusters. Profiles come from:
+ * - ES_URL or ES_CLOUD_ID plus credentials (see schema.ts): the "default" profile
+ * - ES_CLUSTERS: JSON object of named profiles
+ * - ES_CLUSTERS_FILE: path to a JSON file with the same shape (takes precedence over ES_CLUSTERS)
+ * - ES_DEFAULT_CLUSTER: profile used when a tool call does not name one
+ *
+ * Example ES_CLUSTERS value:
+ *   {
+ *     "prod": { "cloudId": "prod:...", "serviceToken": "...", "apmIndex": "apm-prod*" },
+ *     "staging": { "url": "https://staging:9200", "username": "elastic", "password": "...",
+ *                  "tls": { "caCertPath": "/etc/ssl/internal-ca.pem" } }
+ *   }
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { ES_BASE_CONFIG } from "./schema.js";
+import type { TlsConfig } from "./tls.js";
+import { decodeCloudId } from "./auth.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEFAULT_CLUSTER_NAME = "default";
+
+/**
+ * Connection and limit settings for one named cluster.
+ * Optional index/limit fields fall back to the APM/logs env configuration.
+ * When configured by Cloud ID, `url` and `kibanaUrl` hold the decoded endpoints.
+ */
+export interface ClusterProfile {
+  name: string;
+  url?: string;
+  kibanaUrl?: string;
+  cloudId?: string;
+  apiKey?: string;
+  serviceToken?: string;
+  bearerToken?: string;
+  username?: string;
+  password?: string;
+  tls?: TlsConfig;
+  apmIndex?: string;
+  kibanaIndex?: string;
+  maxTimeRangeHours?: number;
+  maxResults?: number;
+}
+
+/**
+ * Schema for a single profile entry in ES_CLUSTERS / ES_CLUSTERS_FILE
+ */
+const clusterProfileConfigSchema = z.object({
+  url: z.string().url().optional(),
+  kibanaUrl: z.string().url().optional(),
+  cloudId: z.string().optional(),
+  apiKey: z.string().optional(),
+  serviceToken: z.string().optional(),
+  bearerToken: z.string().optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  tls: z
+    .object({
+      caCertPath: z.string().optional(),
+      clientCertPath: z.string().optional(),
+      clientKeyPath: z.string().optional(),
+      clientKeyPassphrase: z.string().optional(),
+      caFingerprint: z.string().optional(),
+      insecure: z.boolean().optional(),
+    })
+    .optional(),
+  apmIndex: z.string().optional(),
+  kibanaIndex: z.string().optional(),
+  maxTimeRangeHours: z.number().positive().optional(),
+  maxResults: z.number().int().positive().optional(),
+}).refine((profile) => profile.url || profile.cloudId, {
+  message: "either url or cloudId is required",
+});
+
+const clustersConfigSchema = z.record(clusterProfileConfigSchema);
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when a tool call names a cluster that is not configured
+ */
+export class UnknownClusterError extends Error {
+  constructor(
+    public clusterName: string,
+    public availableClusters: string[]
+  ) {
+    super(`Unknown cluster '${clusterName}'. Available clusters: ${availableClusters.join(", ") || "none"}`);
+    this.name = "UnknownClusterError";
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+function readClustersConfig(): string | undefined {
+  const configFile = process.env.ES_CLUSTERS_FILE;
+  if (configFile) {
+    return readFileSync(configFile, "utf-8");
+  }
+  return process.env.ES_CLUSTERS;
+}
+
+/**
+ * Fill in url/kibanaUrl from the Cloud ID; an explicit url wins
+ */
+function withCloudEndpoints(profile: ClusterProfile): ClusterProfile {
+  if (!profile.cloudId) {
+    return profile;
+  }
+
+  const endpoints = decodeCloudId(profile.cloudId);
+  return {
+    ...profile,
+    url: profile.url || endpoints.esUrl,
+    kibanaUrl: profile.kibanaUrl || endpoints.kibanaUrl,
+  };
+}
+
+function loadClusterProfiles(): Map<string, ClusterProfile> {
+  const profiles = new Map<string, ClusterProfile>();
+
+  if (ES_BASE_CONFIG.url || ES_BASE_CONFIG.cloudId) {
+    profiles.set(DEFAULT_CLUSTER_NAME, withCloudEndpoints({
+      name: DEFAULT_CLUSTER_NAME,
+      url: ES_BASE_CONFIG.url,
+      cloudId: ES_BASE_CONFIG.cloudId,
+      apiKey: ES_BASE_CONFIG.apiKey,
+      serviceToken: ES_BASE_CONFIG.serviceToken,
+      bearerToken: ES_BASE_CONFIG.bearerToken,
+      username: ES_BASE_CONFIG.username,
+      password: ES_BASE_CONFIG.password,
+      tls: ES_BASE_CONFIG.tls,
+    }));
+  }
+
+  const raw = readClustersConfig();
+  if (!raw) {
+    return profiles;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid cluster configuration JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = clustersConfigSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`Invalid cluster configuration: ${issues}`);
+  }
+
+  for (const [name, config] of Object.entries(result.data)) {
+    profiles.set(name, withCloudEndpoints({ name, ...config }));
+  }
+
+  return profiles;
+}
+
+const clusterProfiles = loadClusterProfiles();
+
+/**
+ * Name of the profile used when a tool call does not specify a cluster
+ */
+export const ES_DEFAULT_CLUSTER =
+  process.env.ES_DEFAULT_CLUSTER ||
+  (clusterProfiles.has(DEFAULT_CLUSTER_NAME) || clusterProfiles.size === 0
+    ? DEFAULT_CLUSTER_NAME
+    : clusterProfiles.keys().next().value!);
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Names of all configured cluster profiles
+ */
+export function listClusterNames(): string[] {
+  return Array.from(clusterProfiles.keys());
+}
+
+/**
+ * Resolve a cluster profile by name, falling back to the default cluster
+ */
+export function getClusterProfile(name?: string): ClusterProfile {
+  const clusterName = name || ES_DEFAULT_CLUSTER;
+  const profile = clusterProfiles.get(clusterName);
+
+  if (profile) {
+    return profile;
+  }
+
+  // Nothing configured at all - hand back an empty default profile so the
+  // client can report the missing ES_URL instead of an unknown cluster
+  if (!name && clusterProfiles.size === 0) {
+    return { name: DEFAULT_CLUSTER_NAME };
+  }
+
+  throw new UnknownClusterError(clusterName, listClusterNames());
+}
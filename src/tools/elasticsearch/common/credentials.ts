@@ -0,0 +1,139 @@
+/**
+ * Per-caller Elasticsearch credential passthrough
+ *
+ * In httpStream mode each MCP session can bring its own Elasticsearch
+ * credential so document- and field-level security apply per caller:
+ * - X-Elasticsearch-Authorization: "ApiKey <base64>" or "Bearer <token>"
+ * - X-Elasticsearch-Api-Key: API key, base64 encoded or as id:key
+ *
+ * The credential is captured by the server's authenticate hook, stored on the
+ * session and handed to the client pools, which fingerprint it by hash.
+ */
+
+import { createHash } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import type { SerializableValue } from "fastmcp";
+import type { Principal } from "../../../lib/auth.js";
+import type { AuthCredentials } from "./auth.js";
+import { ES_PASSTHROUGH_CONFIG } from "./schema.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Credential supplied by an MCP caller (never basic auth)
+ */
+export type CallerCredential = Pick<AuthCredentials, "apiKey" | "bearerToken">;
+
+/**
+ * Auth data attached to each MCP session by the authenticate hook
+ */
+export interface SessionAuth {
+  principal?: Principal;
+  esCredential?: CallerCredential;
+  [key: string]: unknown;
+}
+
+/**
+ * The part of the FastMCP tool context the Elasticsearch tools rely on
+ */
+export interface ToolContext {
+  session?: SessionAuth;
+  /** MCP progress notifications (sent only when the client asked for progress) */
+  reportProgress?: (progress: { progress: number; total?: number }) => Promise<void>;
+  /** MCP log notifications */
+  log?: {
+    info: (message: string, data?: SerializableValue) => void;
+  };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when a session must supply an Elasticsearch credential but did not.
+ * The message contains "Authentication" so the HTTP layer answers with 401.
+ */
+export class CredentialRequiredError extends Error {
+  constructor(message: string) {
+    super(`Authentication required: ${message}`);
+    this.name = "CredentialRequiredError";
+  }
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+function firstHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+/**
+ * Read the caller's Elasticsearch credential from request headers
+ */
+export function extractCallerCredential(headers: IncomingHttpHeaders): CallerCredential | undefined {
+  const authorization = firstHeader(headers, "x-elasticsearch-authorization");
+  if (authorization) {
+    const match = authorization.match(/^(ApiKey|Bearer)\s+(\S+)$/i);
+    if (!match) {
+      throw new CredentialRequiredError(
+        "X-Elasticsearch-Authorization must be 'ApiKey <key>' or 'Bearer <token>'"
+      );
+    }
+    return match[1].toLowerCase() === "apikey"
+      ? { apiKey: match[2] }
+      : { bearerToken: match[2] };
+  }
+
+  const apiKey = firstHeader(headers, "x-elasticsearch-api-key");
+  if (apiKey) {
+    return { apiKey };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the session's Elasticsearch credential according to ES_CREDENTIAL_PASSTHROUGH
+ */
+export function authenticateCaller(headers: IncomingHttpHeaders): CallerCredential | undefined {
+  if (ES_PASSTHROUGH_CONFIG.mode === "off") {
+    return undefined;
+  }
+
+  const credential = extractCallerCredential(headers);
+  if (!credential && ES_PASSTHROUGH_CONFIG.mode === "required") {
+    throw new CredentialRequiredError(
+      "send an Elasticsearch credential in the X-Elasticsearch-Authorization or X-Elasticsearch-Api-Key header"
+    );
+  }
+
+  return credential;
+}
+
+/**
+ * Get the caller credential from a tool context, if the session has one
+ */
+export function getCallerCredential(context?: ToolContext): CallerCredential | undefined {
+  return context?.session?.esCredential;
+}
+
+// ============================================================================
+// Fingerprinting
+// ============================================================================
+
+/**
+ * Stable, non-reversible pool key for a caller credential
+ */
+export function credentialFingerprint(credential?: CallerCredential): string {
+  if (!credential) {
+    return "env";
+  }
+  const material = credential.apiKey ? `apikey:${credential.apiKey}` : `bearer:${credential.bearerToken}`;
+  return createHash("sha256").update(material).digest("hex").slice(0, 32);
+}
@@ -3,6 +3,38 @@
  */
 
 export * from "./schema.js";
+export {
+  DEFAULT_CLUSTER_NAME,
+  ES_DEFAULT_CLUSTER,
+  UnknownClusterError,
+  getClusterProfile,
+  listClusterNames,
+  type ClusterProfile,
+} from "./clusters.js";
+export {
+  InvalidCloudIdError,
+  decodeCloudId,
+  resolveAuth,
+  type AuthMethod,
+  type AuthCredentials,
+  type CloudEndpoints,
+} from "./auth.js";
+export {
+  CredentialRequiredError,
+  authenticateCaller,
+  extractCallerCredential,
+  getCallerCredential,
+  credentialFingerprint,
+  type CallerCredential,
+  type SessionAuth,
+  type ToolContext,
+} from "./credentials.js";
+export {
+  TlsConfigurationError,
+  getTlsDispatcher,
+  clearTlsDispatchers,
+  type TlsConfig,
+} from "./tls.js";
 export {
   BaseElasticsearchClient,
   ElasticsearchApiError,
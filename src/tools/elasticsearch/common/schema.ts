@@ -2,12 +2,29 @@
  * Common schema definitions for Elasticsearch tools
  * 
  * Authentication is handled via environment variables:
- * - ES_URL: Elasticsearch URL (required)
+ * - ES_URL: Elasticsearch URL (required unless ES_CLOUD_ID is set)
+ * - ES_CLOUD_ID: Elastic Cloud deployment ID (alternative to ES_URL)
  * - ES_API_KEY: API key for authentication (recommended)
+ * - ES_SERVICE_TOKEN: Service account token (alternative to API key)
+ * - ES_BEARER_TOKEN: Bearer token, e.g. OAuth2/OIDC access token (alternative to API key)
  * - ES_USERNAME: Basic auth username (alternative to API key)
  * - ES_PASSWORD: Basic auth password (alternative to API key)
  * 
- * Priority: API Key > Basic Auth
+ * Priority: API Key > Service Account Token > Bearer Token > Basic Auth
+ * 
+ * TLS settings (see tls.ts):
+ * - ES_CA_CERT: Path to a PEM CA bundle
+ * - ES_CLIENT_CERT / ES_CLIENT_KEY: Paths to a client certificate pair for mTLS
+ * - ES_CLIENT_KEY_PASSPHRASE: Passphrase for an encrypted client key
+ * - ES_CA_FINGERPRINT: SHA-256 certificate fingerprint to pin
+ * - ES_TLS_INSECURE: "true" to disable certificate verification (not for production)
+ * 
+ * Per-caller credentials (httpStream only, see credentials.ts):
+ * - ES_CREDENTIAL_PASSTHROUGH: "off" (default), "optional" or "required"
+ * - ES_CREDENTIAL_TTL_MINUTES: How long pooled clients keep a caller credential (default: 15)
+ * 
+ * Additional named clusters can be configured via ES_CLUSTERS / ES_CLUSTERS_FILE
+ * (see clusters.ts). Agents pick one with the optional `cluster` argument.
  * 
  * Agents do not need to provide credentials - they're configured at deployment.
  */
@@ -19,16 +36,52 @@ import { z } from "zod";
  */
 export const ES_BASE_CONFIG = {
   url: process.env.ES_URL,
+  cloudId: process.env.ES_CLOUD_ID,
   apiKey: process.env.ES_API_KEY,
+  serviceToken: process.env.ES_SERVICE_TOKEN,
+  bearerToken: process.env.ES_BEARER_TOKEN,
   username: process.env.ES_USERNAME,
   password: process.env.ES_PASSWORD,
+  tls: {
+    caCertPath: process.env.ES_CA_CERT,
+    clientCertPath: process.env.ES_CLIENT_CERT,
+    clientKeyPath: process.env.ES_CLIENT_KEY,
+    clientKeyPassphrase: process.env.ES_CLIENT_KEY_PASSPHRASE,
+    caFingerprint: process.env.ES_CA_FINGERPRINT,
+    insecure: process.env.ES_TLS_INSECURE === "true",
+  },
+};
+
+/**
+ * Credential TTL in minutes. Anything but a positive number falls back to
+ * 15, since NaN would keep caller credentials in memory for good.
+ */
+function credentialTtlMinutes(value: string | undefined): number {
+  const minutes = parseInt(value || "", 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 15;
+}
+
+/**
+ * Per-caller credential passthrough configuration from environment variables
+ */
+export const ES_PASSTHROUGH_CONFIG = {
+  mode: (["optional", "required"].includes(process.env.ES_CREDENTIAL_PASSTHROUGH?.toLowerCase() || "")
+    ? process.env.ES_CREDENTIAL_PASSTHROUGH!.toLowerCase()
+    : "off") as "off" | "optional" | "required",
+  ttlMinutes: credentialTtlMinutes(process.env.ES_CREDENTIAL_TTL_MINUTES),
 };
 
 /**
  * Base schema for Elasticsearch tools - no auth params exposed to agents
- * Authentication comes from environment variables only.
+ * Authentication comes from environment variables only; agents can only
+ * choose which configured cluster profile to query.
  */
-export const elasticsearchBaseAuthSchema = {};
+export const elasticsearchBaseAuthSchema = {
+  cluster: z
+    .string()
+    .optional()
+    .describe("Named cluster profile to query (default: ES_DEFAULT_CLUSTER). Omit unless the user asks for a specific cluster."),
+};
 
 /**
  * Common time range schema for queries
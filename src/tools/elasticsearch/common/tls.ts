@@ -0,0 +1,187 @@
+/**
+ * TLS configuration for Elasticsearch connections
+ *
+ * Builds an undici dispatcher per cluster profile so self-hosted clusters with
+ * an internal CA or mTLS can be reached without NODE_TLS_REJECT_UNAUTHORIZED:
+ * - caCertPath: PEM CA bundle used to verify the cluster certificate
+ * - clientCertPath / clientKeyPath: client certificate pair for mTLS
+ * - caFingerprint: SHA-256 fingerprint that must appear in the presented chain
+ * - insecure: disable certificate verification entirely (logged loudly)
+ */
+
+import { readFileSync } from "node:fs";
+import type { TLSSocket } from "node:tls";
+import { Agent, buildConnector, type Dispatcher } from "undici";
+import { logger } from "../../../lib/logging.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TlsConfig {
+  caCertPath?: string;
+  clientCertPath?: string;
+  clientKeyPath?: string;
+  clientKeyPassphrase?: string;
+  caFingerprint?: string;
+  insecure?: boolean;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when TLS settings are invalid or the server fails the fingerprint pin
+ */
+export class TlsConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TlsConfigurationError";
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Normalize a fingerprint to upper-case hex without separators
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/[^a-fA-F0-9]/g, "").toUpperCase();
+}
+
+/**
+ * Check whether any certificate in the peer chain matches the pinned fingerprint
+ */
+function chainMatchesFingerprint(socket: TLSSocket, pin: string): boolean {
+  let cert = socket.getPeerCertificate(true);
+  const seen = new Set<string>();
+
+  while (cert && cert.fingerprint256 && !seen.has(cert.fingerprint256)) {
+    if (normalizeFingerprint(cert.fingerprint256) === pin) {
+      return true;
+    }
+    seen.add(cert.fingerprint256);
+    cert = cert.issuerCertificate;
+  }
+
+  return false;
+}
+
+function readPem(path: string, label: string): Buffer {
+  try {
+    return readFileSync(path);
+  } catch (error) {
+    throw new TlsConfigurationError(
+      `Unable to read ${label} at ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Whether a TLS config requires a custom dispatcher
+ */
+export function hasTlsSettings(tls?: TlsConfig): tls is TlsConfig {
+  return !!tls && !!(tls.caCertPath || tls.clientCertPath || tls.clientKeyPath || tls.caFingerprint || tls.insecure);
+}
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+/** Dispatchers per cluster profile, reused across pooled clients */
+const dispatchers = new Map<string, Dispatcher>();
+
+/**
+ * Build an undici dispatcher applying the TLS config
+ */
+function buildDispatcher(clusterName: string, tls: TlsConfig): Dispatcher {
+  if ((tls.clientCertPath && !tls.clientKeyPath) || (!tls.clientCertPath && tls.clientKeyPath)) {
+    throw new TlsConfigurationError(
+      `Cluster '${clusterName}': both a client certificate and a client key are required for mTLS`
+    );
+  }
+
+  const pin = tls.caFingerprint ? normalizeFingerprint(tls.caFingerprint) : undefined;
+  if (pin !== undefined && pin.length !== 64) {
+    throw new TlsConfigurationError(
+      `Cluster '${clusterName}': caFingerprint must be a SHA-256 fingerprint (64 hex characters)`
+    );
+  }
+
+  if (tls.insecure) {
+    logger.warn("elasticsearch_tls_insecure", {
+      cluster: clusterName,
+      warning: "TLS certificate verification is DISABLED. Connections are vulnerable to interception. Do not use in production.",
+    });
+  }
+
+  const ca = tls.caCertPath ? readPem(tls.caCertPath, "CA bundle") : undefined;
+  // A fingerprint pin without a CA bundle replaces chain verification (self-signed clusters)
+  const rejectUnauthorized = !tls.insecure && !(pin && !ca);
+
+  const baseConnect = buildConnector({
+    ca,
+    cert: tls.clientCertPath ? readPem(tls.clientCertPath, "client certificate") : undefined,
+    key: tls.clientKeyPath ? readPem(tls.clientKeyPath, "client key") : undefined,
+    passphrase: tls.clientKeyPassphrase,
+    rejectUnauthorized,
+  });
+
+  const connect: buildConnector.connector = (options, callback) => {
+    baseConnect(options, (error, socket) => {
+      if (error || !pin || options.protocol !== "https:") {
+        return error ? callback(error, null) : callback(null, socket!);
+      }
+
+      if (!chainMatchesFingerprint(socket as TLSSocket, pin)) {
+        socket!.destroy();
+        return callback(
+          new TlsConfigurationError(`Cluster '${clusterName}': server certificate does not match the pinned fingerprint`),
+          null
+        );
+      }
+
+      return callback(null, socket!);
+    });
+  };
+
+  logger.debug("elasticsearch_tls_configured", {
+    cluster: clusterName,
+    custom_ca: !!ca,
+    mtls: !!tls.clientCertPath,
+    fingerprint_pinned: !!pin,
+    insecure: !!tls.insecure,
+  });
+
+  return new Agent({ connect });
+}
+
+/**
+ * Get (or build) the dispatcher for a cluster profile.
+ * Returns undefined when no TLS settings are configured (global fetch defaults).
+ */
+export function getTlsDispatcher(clusterName: string, tls?: TlsConfig): Dispatcher | undefined {
+  if (!hasTlsSettings(tls)) {
+    return undefined;
+  }
+
+  let dispatcher = dispatchers.get(clusterName);
+  if (!dispatcher) {
+    dispatcher = buildDispatcher(clusterName, tls);
+    dispatchers.set(clusterName, dispatcher);
+  }
+  return dispatcher;
+}
+
+/**
+ * Drop cached dispatchers (useful for testing)
+ */
+export function clearTlsDispatchers(): void {
+  for (const dispatcher of dispatchers.values()) {
+    void dispatcher.close();
+  }
+  dispatchers.clear();
+}
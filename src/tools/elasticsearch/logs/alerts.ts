@@ -0,0 +1,322 @@
+/**
+ * Kibana alerting rules and alerts
+ *
+ * Rules are `alert` saved objects in the Kibana index; the alerts they raise
+ * are documents in the `.alerts-*` indices (alerts as data, 8.x), with
+ * dotted `kibana.alert.*` fields:
+ * - an alert is active until its rule stops finding the condition, then
+ *   recovered with an end time
+ * - alerts of log threshold and APM rules link back to the documents behind
+ *   them: the search_logs or APM tool call, with arguments, that shows them
+ */
+
+import { flattenDocument } from "./export.js";
+import { kqlPhrase } from "./kql.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AlertStatus = "active" | "recovered" | "untracked";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  /** Rule type id, e.g. "logs.alert.document.count" or "apm.error_rate" */
+  ruleType: string;
+  consumer?: string;
+  enabled: boolean;
+  muted: boolean;
+  tags: string[];
+  /** Check interval, e.g. "1m" */
+  schedule?: string;
+  params: Record<string, unknown>;
+  lastExecution?: {
+    status: string;
+    date?: string;
+    /** "succeeded", "warning" or "failed" (8.x) */
+    outcome?: string;
+    durationMs?: number;
+    error?: string;
+  };
+}
+
+/**
+ * The tool call showing the documents behind an alert
+ */
+export interface AlertDrillDown {
+  tool: string;
+  arguments: Record<string, string>;
+}
+
+export interface Alert {
+  id: string;
+  status: AlertStatus;
+  ruleId: string;
+  ruleName: string;
+  ruleType: string;
+  tags: string[];
+  start: string;
+  end?: string;
+  durationMs?: number;
+  reason?: string;
+  /** Alert instance, e.g. the group the rule evaluated */
+  instance?: string;
+  service?: string;
+  environment?: string;
+  /** Group values of a grouped rule, by field */
+  group?: Record<string, string>;
+  evaluation?: { value?: unknown; threshold?: unknown };
+  drillDown?: AlertDrillDown;
+}
+
+export interface AlertList {
+  /** Alerts per status over the whole query, not only those returned */
+  summary: Partial<Record<AlertStatus, number>>;
+  total: number;
+  alerts: Alert[];
+}
+
+export interface AlertFilters {
+  ruleTypes?: string[];
+  tags?: string[];
+  service?: string;
+}
+
+/**
+ * An `alert` saved object hit from the Kibana index
+ */
+export interface AlertRuleHit {
+  _id: string;
+  _source: { alert?: Record<string, unknown> };
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export const LOG_THRESHOLD_RULE_TYPE = "logs.alert.document.count";
+
+/**
+ * Index patterns of Kibana's default log view, used when a log threshold
+ * rule's log view cannot be resolved
+ */
+export const DEFAULT_LOG_INDICES = "logs-*,filebeat-*,kibana_sample_data_logs*";
+
+/**
+ * Service a rule watches, from the APM rule parameters
+ */
+function ruleService(params: Record<string, unknown>): string | undefined {
+  return typeof params.serviceName === "string" ? params.serviceName : undefined;
+}
+
+export function parseAlertRule(hit: AlertRuleHit): AlertRule {
+  const attributes = hit._source.alert ?? {};
+  const status = attributes.executionStatus as
+    | { status?: string; lastExecutionDate?: string; lastDuration?: number; error?: { message?: string } }
+    | undefined;
+  const lastRun = attributes.lastRun as { outcome?: string; outcomeMsg?: string[] | string } | undefined;
+  const outcomeMessage = Array.isArray(lastRun?.outcomeMsg) ? lastRun.outcomeMsg.join(" ") : lastRun?.outcomeMsg;
+
+  return {
+    id: hit._id.replace(/^alert:/, ""),
+    name: String(attributes.name ?? ""),
+    ruleType: String(attributes.alertTypeId ?? ""),
+    ...(typeof attributes.consumer === "string" && { consumer: attributes.consumer }),
+    enabled: attributes.enabled !== false,
+    muted: attributes.muteAll === true,
+    tags: (attributes.tags as string[] | undefined) ?? [],
+    schedule: (attributes.schedule as { interval?: string } | undefined)?.interval,
+    params: (attributes.params as Record<string, unknown> | undefined) ?? {},
+    ...(status?.status && {
+      lastExecution: {
+        status: status.status,
+        date: status.lastExecutionDate,
+        ...(lastRun?.outcome && { outcome: lastRun.outcome }),
+        ...(status.lastDuration !== undefined && { durationMs: status.lastDuration }),
+        ...((status.error?.message || outcomeMessage) && { error: status.error?.message ?? outcomeMessage }),
+      },
+    }),
+  };
+}
+
+/**
+ * Whether a rule passes the filters; a service filter keeps rules whose
+ * parameters name that service
+ */
+export function matchesRuleFilters(rule: AlertRule, filters: AlertFilters): boolean {
+  if (filters.ruleTypes?.length && !filters.ruleTypes.includes(rule.ruleType)) return false;
+  if (filters.tags?.length && !filters.tags.some((tag) => rule.tags.includes(tag))) return false;
+  if (filters.service && ruleService(rule.params) !== filters.service) return false;
+  return true;
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+/**
+ * Alerts active at any point of a time range: started before it ends, and
+ * not ended before it starts
+ */
+export function alertsQuery(
+  startTime: string,
+  endTime: string,
+  statuses: AlertStatus[],
+  filters: AlertFilters
+): object {
+  const filter: object[] = [
+    { range: { "kibana.alert.start": { lte: endTime } } },
+    {
+      bool: {
+        should: [
+          { bool: { must_not: { exists: { field: "kibana.alert.end" } } } },
+          { range: { "kibana.alert.end": { gte: startTime } } },
+        ],
+        minimum_should_match: 1,
+      },
+    },
+  ];
+  if (statuses.length > 0) filter.push({ terms: { "kibana.alert.status": statuses } });
+  if (filters.ruleTypes?.length) filter.push({ terms: { "kibana.alert.rule.rule_type_id": filters.ruleTypes } });
+  if (filters.tags?.length) filter.push({ terms: { "kibana.alert.rule.tags": filters.tags } });
+  if (filters.service) filter.push({ term: { "service.name": filters.service } });
+  return { bool: { filter } };
+}
+
+function asString(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined || first === null ? undefined : String(first);
+}
+
+/**
+ * Turn an alert document into an alert; its drill-down is added separately
+ */
+export function parseAlert(source: Record<string, unknown>): Alert {
+  const flat = flattenDocument(source);
+  const durationUs = flat["kibana.alert.duration.us"];
+  const tags = flat["kibana.alert.rule.tags"];
+
+  // Grouped rules record their group as [{ field, value }] (8.x)
+  const groups = source["kibana.alert.group"] ?? (source.kibana as { alert?: { group?: unknown } } | undefined)?.alert?.group;
+  const group = Array.isArray(groups)
+    ? Object.fromEntries((groups as Array<{ field?: string; value?: unknown }>)
+      .filter((entry) => entry.field)
+      .map((entry) => [entry.field!, String(entry.value)]))
+    : undefined;
+
+  const value = flat["kibana.alert.evaluation.value"];
+  const threshold = flat["kibana.alert.evaluation.threshold"];
+
+  const end = asString(flat["kibana.alert.end"]);
+  const reason = asString(flat["kibana.alert.reason"]);
+  const instance = asString(flat["kibana.alert.instance.id"]);
+  const service = asString(flat["service.name"]);
+  const environment = asString(flat["service.environment"]);
+
+  return {
+    id: asString(flat["kibana.alert.uuid"]) ?? "",
+    status: (asString(flat["kibana.alert.status"]) ?? "active") as AlertStatus,
+    ruleId: asString(flat["kibana.alert.rule.uuid"]) ?? "",
+    ruleName: asString(flat["kibana.alert.rule.name"]) ?? "",
+    ruleType: asString(flat["kibana.alert.rule.rule_type_id"]) ?? "",
+    tags: Array.isArray(tags) ? tags.map(String) : tags ? [String(tags)] : [],
+    start: asString(flat["kibana.alert.start"]) ?? asString(flat["@timestamp"]) ?? "",
+    ...(end && { end }),
+    ...(typeof durationUs === "number" && { durationMs: Math.round(durationUs / 1000) }),
+    ...(reason && { reason }),
+    ...(instance && { instance }),
+    ...(service && { service }),
+    ...(environment && { environment }),
+    ...(group && Object.keys(group).length > 0 && { group }),
+    ...((value !== undefined || threshold !== undefined) && { evaluation: { value, threshold } }),
+  };
+}
+
+// ============================================================================
+// Drill-down
+// ============================================================================
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** Log threshold comparators as KQL, by criterion field and value */
+const COMPARATORS: Record<string, (field: string, value: string) => string> = {
+  "more than": (field, value) => `${field} > ${value}`,
+  "more than or equals": (field, value) => `${field} >= ${value}`,
+  "less than": (field, value) => `${field} < ${value}`,
+  "less than or equals": (field, value) => `${field} <= ${value}`,
+  "equals": (field, value) => kqlPhrase(field, value),
+  "does not equal": (field, value) => `not ${kqlPhrase(field, value)}`,
+  "matches": (field, value) => kqlPhrase(field, value),
+  "does not match": (field, value) => `not ${kqlPhrase(field, value)}`,
+  "matches phrase": (field, value) => kqlPhrase(field, value),
+  "does not match phrase": (field, value) => `not ${kqlPhrase(field, value)}`,
+};
+
+/**
+ * KQL matching the documents a log threshold rule counts for an alert: its
+ * criteria plus the alert's group values
+ */
+export function logThresholdQuery(params: Record<string, unknown>, group?: Record<string, string>): string {
+  const criteria = (params.criteria as Array<{ field?: string; comparator?: string; value?: unknown }> | undefined) ?? [];
+  const clauses = criteria
+    .filter((criterion) => criterion.field && criterion.comparator && COMPARATORS[criterion.comparator])
+    .map((criterion) => COMPARATORS[criterion.comparator!](criterion.field!, String(criterion.value)));
+  for (const [field, value] of Object.entries(group ?? {})) {
+    clauses.push(kqlPhrase(field, value));
+  }
+  return clauses.join(" and ");
+}
+
+/**
+ * Start of the window a rule evaluated for an alert: the alert start minus
+ * the rule's look-back
+ */
+function windowStart(alert: Alert, params: Record<string, unknown>): string {
+  const size = Number(params.timeSize ?? params.windowSize);
+  const unit = UNIT_MS[String(params.timeUnit ?? params.windowUnit)];
+  const start = Date.parse(alert.start);
+  if (!size || !unit || isNaN(start)) return alert.start;
+  return new Date(start - size * unit).toISOString();
+}
+
+/**
+ * The tool call showing the documents behind an alert of a log threshold or
+ * APM rule; undefined for other rule types
+ */
+export function alertDrillDown(alert: Alert, rule: AlertRule | undefined, logIndices: string): AlertDrillDown | undefined {
+  const params = rule?.params ?? {};
+  const startTime = windowStart(alert, params);
+  const endTime = alert.end ?? "now";
+
+  if (alert.ruleType === LOG_THRESHOLD_RULE_TYPE) {
+    return {
+      tool: "search_logs",
+      arguments: { indexPattern: logIndices, query: logThresholdQuery(params, alert.group), startTime, endTime },
+    };
+  }
+
+  const serviceName = alert.service ?? ruleService(params);
+  if (!alert.ruleType.startsWith("apm.") || !serviceName) return undefined;
+
+  const tools: Record<string, string> = {
+    "apm.error_rate": "get_apm_errors",
+    "apm.transaction_error_rate": "get_apm_error_rate",
+    "apm.transaction_duration": "get_apm_latency",
+    "apm.anomaly": "get_apm_latency",
+  };
+  const tool = tools[alert.ruleType] ?? "get_apm_transactions";
+  // Only the latency and transaction tools take a transaction type
+  const transactionType = tool === "get_apm_latency" || tool === "get_apm_transactions"
+    ? asString(params.transactionType)
+    : undefined;
+  return {
+    tool,
+    arguments: { serviceName, ...(transactionType && { transactionType }), startTime, endTime },
+  };
+}
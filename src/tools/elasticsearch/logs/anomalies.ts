@@ -0,0 +1,184 @@
+/**
+ * Log volume anomalies
+ *
+ * detect_log_anomalies runs change-point detection over a date histogram of
+ * log counts. Clusters with the `change_point` aggregation (8.7+) detect one
+ * change per series there; otherwise the rolling detector here is used:
+ * - each bucket is scored against the median of the buckets before it, scaled
+ *   by their median absolute deviation (a robust z-score)
+ * - buckets scoring past the threshold are spikes (up) or dips (down)
+ * - runs of LEVEL_SHIFT_MIN_RUN or more anomalous buckets in the same
+ *   direction are reported once, as a level shift
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LogAnomalyType = "spike" | "dip" | "level_shift" | "trend_change" | "distribution_change";
+
+/**
+ * An anomaly in one histogram series, with the search that shows it
+ */
+export interface LogAnomaly {
+  /** groupBy value of the series; absent for the overall series */
+  group?: string;
+  type: LogAnomalyType;
+  direction: "up" | "down";
+  timestamp: string;
+  /** Logs per bucket at the anomaly (median over a level shift) */
+  actual: number;
+  /** Logs per bucket before the anomaly (median) */
+  expected: number;
+  /** Robust z-score (rolling detector) */
+  zScore?: number;
+  /** p-value (change_point aggregation); lower is more significant */
+  pValue?: number;
+  drillDown: { startTime: string; endTime: string; query: string };
+}
+
+export interface LogAnomalyDetection {
+  method: "change_point" | "rolling_mad";
+  interval: string;
+  /** Histogram series analyzed: one overall, or one per group */
+  series: number;
+  anomalies: LogAnomaly[];
+}
+
+/**
+ * A change found by the rolling detector, by bucket index
+ */
+export interface DetectedChange {
+  type: "spike" | "dip" | "level_shift";
+  direction: "up" | "down";
+  /** First and last bucket of the change */
+  start: number;
+  end: number;
+  actual: number;
+  expected: number;
+  zScore: number;
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** Buckets before a point that form its baseline */
+const ROLLING_WINDOW = 12;
+
+/** Baseline buckets needed before a point is scored */
+const MIN_HISTORY = 5;
+
+/** Robust z-score beyond which a bucket is anomalous */
+const Z_THRESHOLD = 3.5;
+
+/** Consecutive anomalous buckets reported as a level shift */
+const LEVEL_SHIFT_MIN_RUN = 3;
+
+/** Scales the MAD to a standard deviation for normally distributed data */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Robust z-score of a value against a baseline. A flat baseline (MAD 0)
+ * falls back to a Poisson-like scale so a jump from 0 to 1 is not flagged.
+ */
+function robustZScore(value: number, baseline: number[]): { z: number; expected: number } {
+  const expected = median(baseline);
+  const mad = median(baseline.map((v) => Math.abs(v - expected)));
+  const scale = mad > 0 ? MAD_SCALE * mad : Math.max(1, Math.sqrt(expected));
+  return { z: (value - expected) / scale, expected };
+}
+
+/**
+ * Find spikes, dips and level shifts in a series of bucket counts
+ */
+export function detectChanges(counts: number[]): DetectedChange[] {
+  const changes: DetectedChange[] = [];
+  let run: Array<{ index: number; z: number; expected: number }> = [];
+
+  const closeRun = () => {
+    if (run.length === 0) return;
+    const up = run[0].z > 0;
+    const direction = up ? "up" : "down";
+
+    if (run.length >= LEVEL_SHIFT_MIN_RUN) {
+      changes.push({
+        type: "level_shift",
+        direction,
+        start: run[0].index,
+        end: run[run.length - 1].index,
+        actual: median(run.map((p) => counts[p.index])),
+        expected: run[0].expected,
+        zScore: round(run[0].z),
+      });
+    } else {
+      const peak = run.reduce((a, b) => (Math.abs(b.z) > Math.abs(a.z) ? b : a));
+      changes.push({
+        type: up ? "spike" : "dip",
+        direction,
+        start: peak.index,
+        end: peak.index,
+        actual: counts[peak.index],
+        expected: peak.expected,
+        zScore: round(peak.z),
+      });
+    }
+    run = [];
+  };
+
+  for (let i = MIN_HISTORY; i < counts.length; i++) {
+    const baseline = counts.slice(Math.max(0, i - ROLLING_WINDOW), i);
+    const { z, expected } = robustZScore(counts[i], baseline);
+
+    if (Math.abs(z) < Z_THRESHOLD) {
+      closeRun();
+      continue;
+    }
+    if (run.length > 0 && Math.sign(run[0].z) !== Math.sign(z)) {
+      closeRun();
+    }
+    run.push({ index: i, z, expected });
+  }
+  closeRun();
+
+  return changes;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// Histogram Intervals
+// ============================================================================
+
+const INTERVALS: Array<[string, number]> = [
+  ["1m", 60 * 1000],
+  ["5m", 5 * 60 * 1000],
+  ["10m", 10 * 60 * 1000],
+  ["15m", 15 * 60 * 1000],
+  ["30m", 30 * 60 * 1000],
+  ["1h", 60 * 60 * 1000],
+  ["3h", 3 * 60 * 60 * 1000],
+  ["6h", 6 * 60 * 60 * 1000],
+  ["12h", 12 * 60 * 60 * 1000],
+  ["1d", 24 * 60 * 60 * 1000],
+];
+
+/** Buckets aimed for when picking an interval */
+const TARGET_BUCKETS = 60;
+
+/**
+ * The smallest standard interval giving at most TARGET_BUCKETS buckets
+ */
+export function pickInterval(rangeMs: number): string {
+  const found = INTERVALS.find(([, ms]) => rangeMs / ms <= TARGET_BUCKETS);
+  return (found ?? INTERVALS[INTERVALS.length - 1])[0];
+}
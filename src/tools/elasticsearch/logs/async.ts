@@ -0,0 +1,159 @@
+/**
+ * Async search handles for long-running log aggregations
+ *
+ * aggregate_logs and compare_log_periods can run as Elasticsearch async
+ * searches. When they do not finish in time the agent gets partial results
+ * and an opaque search id, which wraps the Elasticsearch async search id(s)
+ * together with what is needed to shape the final result. Search ids are
+ * signed (see signing.ts): a comparison's id holds the searches it runs on
+ * completion, and an edited id is rejected.
+ */
+
+import type { LogAggregation } from "./client.js";
+import type { ValueChange } from "./comparison.js";
+import type { GroupingMode } from "./grouping.js";
+import type { MetricContext, MetricValue } from "./metrics.js";
+import { signToken, verifyToken } from "./signing.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * State carried by an async aggregation search id
+ */
+export type AsyncSearchHandle =
+  | {
+      kind: "aggregate";
+      cluster: string;
+      ids: [string];
+      /** How to shape the buckets */
+      grouping: { fields: string[]; mode: GroupingMode; timeField: string };
+      metrics?: MetricContext;
+    }
+  | {
+      kind: "compare";
+      cluster: string;
+      /** One async search per period */
+      ids: [string, string];
+      metric: "count" | "avg" | "sum";
+      /** Requested metrics, per period */
+      metrics?: [MetricContext, MetricContext];
+      /** Period lengths */
+      durationsMs: [number, number];
+      /** For looking up groups missing from either period's top groups */
+      lookup: ComparisonLookup;
+    };
+
+/**
+ * The searches of a comparison, for looking up groups in the other period
+ */
+export interface ComparisonLookup {
+  indexPattern: string;
+  groupBy: string;
+  query?: string;
+  metricField?: string;
+  timeField: string;
+  /** Absolute start and end of each period */
+  periods: [[string, string], [string, string]];
+}
+
+/**
+ * Outcome of an async aggregation, complete or still running
+ */
+export interface AsyncAggregationResult<T> {
+  status: "complete" | "running";
+  /** True when some shards have not reported yet */
+  isPartial: boolean;
+  /** Set while the search is still running */
+  searchId?: string;
+  result: T;
+}
+
+export type AsyncLogResults =
+  | ({ kind: "aggregate" } & AsyncAggregationResult<LogAggregation>)
+  | ({ kind: "compare" } & AsyncAggregationResult<PeriodComparison>);
+
+/**
+ * Percent change of a metric value; named changes for percentiles and stats
+ */
+export type MetricChange = string | null | Record<string, string | null>;
+
+export interface ComparedPeriod {
+  total: number;
+  byGroup: Record<string, number>;
+  /** Length of the period */
+  hours?: number;
+  metricsByGroup?: Record<string, Record<string, MetricValue>>;
+}
+
+export interface PeriodComparison {
+  period1: ComparedPeriod;
+  period2: ComparedPeriod;
+  /** "per_hour" when counts and sums are compared per hour of each period */
+  normalization: "per_hour" | "none";
+  change: {
+    total: string;
+    byGroup: Record<string, string>;
+    details: { total: ValueChange; byGroup: Record<string, ValueChange> };
+    metricsByGroup?: Record<string, Record<string, MetricChange>>;
+  };
+  /** Groups with logs in period 2 only; set once both searches are complete */
+  appeared?: string[];
+  /** Groups with logs in period 1 only; set once both searches are complete */
+  disappeared?: string[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when a search id was not issued by this server
+ */
+export class InvalidAsyncSearchIdError extends Error {
+  constructor(message: string) {
+    super(`Invalid search id: ${message}`);
+    this.name = "InvalidAsyncSearchIdError";
+  }
+}
+
+/**
+ * Error thrown when Elasticsearch no longer holds the async search
+ */
+export class AsyncSearchExpiredError extends Error {
+  constructor() {
+    super("Async search has expired or was already collected. Run the aggregation again.");
+    this.name = "AsyncSearchExpiredError";
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/** Bumped whenever a handle field becomes required; older ids are rejected */
+const HANDLE_VERSION = 2;
+
+export function encodeAsyncSearchHandle(handle: AsyncSearchHandle): string {
+  return signToken({ v: HANDLE_VERSION, ...handle });
+}
+
+export function decodeAsyncSearchHandle(token: string): AsyncSearchHandle {
+  const parsed = verifyToken(token);
+  if (!parsed) {
+    throw new InvalidAsyncSearchIdError("not an async log search id, or it was altered");
+  }
+
+  const ids = parsed.ids;
+  const validIds = Array.isArray(ids) && ids.every((id) => typeof id === "string") &&
+    ((parsed.kind === "aggregate" && ids.length === 1) || (parsed.kind === "compare" && ids.length === 2));
+
+  if (parsed.v !== HANDLE_VERSION || typeof parsed.cluster !== "string" || !validIds) {
+    throw new InvalidAsyncSearchIdError("not an async log search id");
+  }
+
+  const handle = { ...parsed };
+  delete handle.v;
+  return handle as unknown as AsyncSearchHandle;
+}
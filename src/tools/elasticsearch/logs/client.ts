@@ -5,12 +5,168 @@
  * with time range enforcement to prevent expensive queries.
  */
 
+import { z } from "zod";
 import { BaseElasticsearchClient, ElasticsearchApiError } from "../common/client.js";
-import { ES_LOGS_CONFIG } from "./schema.js";
+import { getClusterProfile } from "../common/clusters.js";
+import { credentialFingerprint, type CallerCredential } from "../common/credentials.js";
+import { ES_PASSTHROUGH_CONFIG } from "../common/schema.js";
+import { logsAuthSchema, ES_LOGS_CONFIG, ES_ESQL_CONFIG } from "./schema.js";
+import { ES_APM_CONFIG } from "../apm/schema.js";
+import { matchesIndexPattern, validateEsqlQuery, type EsqlPolicy } from "./esql.js";
+import { kqlFields, kqlPhrase, kqlToDsl } from "./kql.js";
+import {
+  detectChanges,
+  median,
+  pickInterval,
+  type LogAnomaly,
+  type LogAnomalyDetection,
+  type LogAnomalyType,
+} from "./anomalies.js";
+import {
+  correlationFields,
+  toCorrelation,
+  type FieldCorrelation,
+  type LogFieldCorrelations,
+} from "./correlations.js";
+import { createExportWriter, exportOwner, exportUri, type ExportFormat, type LogExport } from "./export.js";
+import { SUMMARY_SOURCE_FIELDS, type LogOutputOptions } from "./output.js";
+import { groupingAggs, parseGroupedBuckets, type GroupingOptions } from "./grouping.js";
+import {
+  intervalToMs,
+  metricAggs,
+  metricFields,
+  type LogMetric,
+  type MetricContext,
+  type MetricValue,
+} from "./metrics.js";
+import {
+  isProfilable,
+  parseFieldProfile,
+  profileAggs,
+  type LogFieldProfiles,
+  type ProfileAggResult,
+} from "./profile.js";
+import { mineLogPatterns, patternQuery, type LogCategorization, type LogPattern } from "./patterns.js";
+import {
+  CursorExpiredError,
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  forgetPit,
+  releasePit,
+  trackPit,
+  type SearchCursor,
+} from "./cursor.js";
+import {
+  AsyncSearchExpiredError,
+  InvalidAsyncSearchIdError,
+  decodeAsyncSearchHandle,
+  encodeAsyncSearchHandle,
+  type AsyncAggregationResult,
+  type AsyncLogResults,
+  type ComparisonLookup,
+  type PeriodComparison,
+} from "./async.js";
+import { buildComparison, type GroupPresence } from "./comparison.js";
+import {
+  DEFAULT_LOG_INDICES,
+  LOG_THRESHOLD_RULE_TYPE,
+  alertDrillDown,
+  alertsQuery,
+  matchesRuleFilters,
+  parseAlert,
+  parseAlertRule,
+  type AlertFilters,
+  type AlertList,
+  type AlertRule,
+  type AlertRuleHit,
+  type AlertStatus,
+} from "./alerts.js";
+import {
+  mlResultsQuery,
+  parseAnomalyBucket,
+  parseAnomalyRecord,
+  parseMlJobs,
+  type MlAnomalies,
+  type MlResultSource,
+  type MlResultType,
+} from "./ml.js";
+import {
+  SavedSearchNotFoundError,
+  parseSavedSearch,
+  savedSearchRefinement,
+  type SavedSearch,
+  type SavedSearchHit,
+  type SearchSort,
+} from "./savedsearches.js";
 import { logger } from "../../../lib/logging.js";
 
+type LogsAuthParams = z.infer<z.ZodObject<typeof logsAuthSchema>>;
+
 export { ElasticsearchApiError };
 
+/** Time field used when no data view or override names one */
+const DEFAULT_TIME_FIELD = "@timestamp";
+
+/** How long data view lookups (time fields, runtime fields) are cached per client */
+const DATA_VIEW_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Most patterns categorize_logs returns */
+const MAX_PATTERNS = 100;
+
+/** Messages sampled for the template miner when categorize_text is unavailable */
+const TEMPLATE_MINER_SAMPLE_SIZE = 2000;
+
+/** Baseline share below which a pattern is flagged as rare */
+const RARE_PATTERN_SHARE = 0.01;
+
+/** Fields profiled per request by profile_log_fields */
+const PROFILE_BATCH_SIZE = 20;
+
+/** Most fields profile_log_fields profiles in one call */
+const MAX_PROFILE_FIELDS = 200;
+
+/** Logs fetched per export_logs page */
+const EXPORT_PAGE_SIZE = 1000;
+
+/** Logs fetched per tail_logs poll */
+const TAIL_BATCH_SIZE = 100;
+
+/** Most recent tailed logs repeated in the tail_logs summary */
+const TAIL_SUMMARY_LOGS = 20;
+
+/**
+ * Highlighting requested by search_logs. Analysis stops at max_analyzed_offset
+ * so huge fields are highlighted in part instead of failing the search.
+ */
+const HIGHLIGHT_REQUEST = {
+  fields: { "*": {} },
+  fragment_size: 150,
+  number_of_fragments: 3,
+  max_analyzed_offset: 100000,
+};
+
+/** Most groups per level of a terms grouping in aggregate_logs */
+const MAX_GROUPS = 50;
+
+/** Most combinations per composite page in aggregate_logs */
+const MAX_COMPOSITE_PAGE_SIZE = 500;
+
+/** Most sample documents per aggregate_logs group */
+const MAX_GROUP_SAMPLES = 10;
+
+/** Most groupBy series detect_log_anomalies analyzes */
+const MAX_ANOMALY_GROUPS = 20;
+
+/** Significant values requested per field by log_field_correlations */
+const CORRELATION_TERMS_PER_FIELD = 5;
+
+/** Foreground documents per shard that significant_text looks at */
+const SIGNIFICANT_TEXT_SAMPLE_SIZE = 500;
+
+/** Fields get_log_context matches on the target log, when present, so neighbours come from the same stream */
+const DEFAULT_CONTEXT_SCOPE_FIELDS = ["host.name", "container.id", "service.name", "log.file.path"];
+
 // ============================================================================
 // Time Range Enforcement
 // ============================================================================
@@ -31,9 +187,9 @@ export class TimeRangeExceededError extends Error {
 /**
  * Parse a relative time string like "now-24h" or "now-7d" to milliseconds offset
  */
-function parseRelativeTime(timeStr: string): number {
+function parseRelativeTime(timeStr: string, now: number = Date.now()): number {
   if (timeStr === "now") {
-    return Date.now();
+    return now;
   }
 
   // Handle ISO 8601 dates
@@ -50,7 +206,7 @@ function parseRelativeTime(timeStr: string): number {
       return parsed;
     }
     // Default to now if unparseable
-    return Date.now();
+    return now;
   }
 
   const value = parseInt(match[1], 10);
@@ -67,7 +223,170 @@ function parseRelativeTime(timeStr: string): number {
   };
 
   const offsetMs = value * (multipliers[unit] || 0);
-  return Date.now() - offsetMs;
+  return now - offsetMs;
+}
+
+/**
+ * Pin a relative time ("now", "now-1h") to an absolute ISO timestamp so that
+ * later pages of a search cover the same window. Other values pass through.
+ */
+function resolveRelativeTime(timeStr: string, now: number = Date.now()): string {
+  if (timeStr === "now" || /^now-(\d+)([smhdwMy])$/.test(timeStr)) {
+    return new Date(parseRelativeTime(timeStr, now)).toISOString();
+  }
+  return timeStr;
+}
+
+/**
+ * Read a field from a document source, whether stored flat ("event.created")
+ * or as nested objects ({ event: { created } })
+ */
+function readField(source: Record<string, unknown>, path: string): unknown {
+  if (path in source) {
+    return source[path];
+  }
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+/**
+ * Saved object attributes like runtimeFieldMap are stored as JSON strings
+ */
+function parseJsonAttribute<T>(value: unknown): T | undefined {
+  if (typeof value !== "string") {
+    return value && typeof value === "object" ? (value as T) : undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Runtime field names, expanding composite fields to their sub-fields
+ */
+function runtimeFieldNames(name: string, field: RuntimeField): string[] {
+  return field.type === "composite"
+    ? Object.keys(field.fields ?? {}).map((sub) => `${name}.${sub}`)
+    : [name];
+}
+
+/** Runtime field types for the types of Kibana scripted fields */
+const SCRIPTED_FIELD_TYPES: Record<string, string> = {
+  string: "keyword",
+  number: "double",
+  date: "date",
+  boolean: "boolean",
+  ip: "ip",
+};
+
+/** Painless turning one value a scripted field returned into what `emit` takes */
+const SCRIPTED_VALUE_CONVERSIONS: Record<string, string> = {
+  keyword: "String.valueOf(v)",
+  double: "((Number) v).doubleValue()",
+  date: "v instanceof Number ? ((Number) v).longValue() : v.toInstant().toEpochMilli()",
+  boolean: "(boolean) v",
+  ip: "String.valueOf(v)",
+};
+
+/**
+ * A Kibana scripted field as a runtime field. Scripted fields return their
+ * value where runtime fields emit it, so the script runs in a lambda, as
+ * Kibana does for scripted field filters, and its value (or each value of a
+ * list) is emitted. Only painless scripts of the types above can run this way.
+ */
+function scriptedRuntimeField(field: { type?: string; script?: string; lang?: string }): RuntimeField | undefined {
+  const type = field.type ? SCRIPTED_FIELD_TYPES[field.type] : undefined;
+  if (!type || !field.script || (field.lang && field.lang !== "painless")) {
+    return undefined;
+  }
+
+  const convert = SCRIPTED_VALUE_CONVERSIONS[type];
+  return {
+    type,
+    script: {
+      source: [
+        "def scripted(Supplier s) { return s.get(); }",
+        `def value = scripted(() -> { ${field.script} });`,
+        `if (value instanceof List) { for (def v : value) { if (v != null) { emit(${convert}); } } }`,
+        `else if (value != null) { def v = value; emit(${convert}); }`,
+      ].join("\n"),
+    },
+  };
+}
+
+/**
+ * Runtime mappings for the referenced fields; field names may contain `*`
+ */
+function runtimeMappingsFor(
+  runtimeFields: Record<string, RuntimeField>,
+  referenced: Array<string | undefined>
+): Record<string, RuntimeField> | undefined {
+  const mappings: Record<string, RuntimeField> = {};
+
+  for (const [name, field] of Object.entries(runtimeFields)) {
+    const names = runtimeFieldNames(name, field);
+    const isReferenced = referenced.some((ref) =>
+      ref && names.some((n) => (ref.includes("*") ? matchesIndexPattern(n, ref) : n === ref))
+    );
+    if (isReferenced) {
+      mappings[name] = field;
+    }
+  }
+
+  return Object.keys(mappings).length > 0 ? mappings : undefined;
+}
+
+/**
+ * Runtime fields to request with `fields`, since they are not part of _source
+ */
+function runtimeFieldRequest(
+  runtimeMappings: Record<string, RuntimeField> | undefined,
+  requested: string[]
+): string[] {
+  if (!runtimeMappings) {
+    return [];
+  }
+  const names = Object.entries(runtimeMappings).flatMap(([name, field]) => runtimeFieldNames(name, field));
+  return requested.filter((field) => names.includes(field));
+}
+
+/**
+ * Fields an aggregation references, for runtime field lookup
+ */
+function aggregationFields(
+  groupBy: string[],
+  kqlQuery?: string,
+  metricField?: string,
+  metrics: LogMetric[] = []
+): string[] {
+  return [
+    ...groupBy,
+    ...(metricField ? [metricField] : []),
+    ...metricFields(metrics),
+    ...(kqlQuery ? kqlFields(kqlQuery) : []),
+  ];
+}
+
+/**
+ * Bucket lengths rates are computed over
+ */
+function metricContext(metrics: LogMetric[], startTime: string, endTime: string, timeInterval?: string): MetricContext {
+  return {
+    metrics,
+    rangeMs: parseRelativeTime(endTime) - parseRelativeTime(startTime),
+    intervalMs: timeInterval ? intervalToMs(timeInterval) : undefined,
+  };
+}
+
+/**
+ * Requested source fields plus the time field, so every entry has a timestamp
+ */
+function sourceFields(timeField: string, fields: string[]): string[] {
+  return Array.from(new Set([timeField, ...fields]));
 }
 
 /**
@@ -106,6 +425,28 @@ export interface DataView {
   title: string;
   name?: string;
   timeFieldName?: string;
+  /** Runtime fields defined on the data view, in `runtime_mappings` form */
+  runtimeFieldMap?: Record<string, RuntimeField>;
+  /** Scripted fields of the data view, which are in `runtimeFieldMap` as runtime fields */
+  scriptedFields?: string[];
+  fieldFormats?: Record<string, FieldFormat>;
+  /** Custom labels set on fields in the data view */
+  fieldLabels?: Record<string, string>;
+}
+
+export interface RuntimeField {
+  type: string;
+  script?: { source: string };
+  /** Sub-fields of a composite runtime field */
+  fields?: Record<string, { type: string }>;
+}
+
+/**
+ * Kibana field format, e.g. { id: "bytes" } or { id: "duration", params: { inputFormat: "microseconds" } }
+ */
+export interface FieldFormat {
+  id: string;
+  params?: Record<string, unknown>;
 }
 
 export interface LogField {
@@ -113,6 +454,12 @@ export interface LogField {
   type: string;
   searchable: boolean;
   aggregatable: boolean;
+  /** Defined as a runtime field on the data view rather than in the mapping */
+  runtime?: boolean;
+  /** A scripted field of the data view, run as a runtime field */
+  scripted?: boolean;
+  format?: FieldFormat;
+  customLabel?: string;
 }
 
 export interface LogEntry {
@@ -120,13 +467,64 @@ export interface LogEntry {
   index: string;
   timestamp: string;
   source: Record<string, unknown>;
+  /** Fragments per field that matched the query, when highlighting was requested */
+  highlight?: Record<string, string[]>;
+}
+
+/**
+ * Filters and sort a search adds to its query, e.g. those of a saved search
+ */
+export interface SearchRefinement {
+  /** Query DSL filters, all of which must match */
+  filters?: object[];
+  /** Replaces the newest-first default */
+  sort?: SearchSort;
+}
+
+export interface EsqlTable {
+  columns: Array<{ name: string; type: string }>;
+  rows: unknown[][];
+  /** True when the row cap cut the result short */
+  truncated: boolean;
+  sources: string[];
+  /** Field the time range was applied to */
+  timeField: string;
+}
+
+/**
+ * Outcome of following logs with tailLogs
+ */
+export interface TailSummary {
+  total: number;
+  polls: number;
+  durationMs: number;
+  /** True when maxLogs was reached before the duration ran out */
+  truncated: boolean;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  /** The most recent logs seen, newest last */
+  latest: LogEntry[];
 }
 
 export interface AggregationBucket {
   key: string;
   doc_count: number;
-  over_time?: Array<{ time: string; count: number }>;
+  over_time?: Array<{ time: string; count: number; metrics?: Record<string, MetricValue> }>;
   metric_value?: number;
+  /** Values of the requested `metrics`, by metric name */
+  metrics?: Record<string, MetricValue>;
+  /** Value per groupBy field (flat and composite grouping) */
+  keys?: Record<string, string>;
+  /** Sub-groups by the next groupBy field (nested grouping) */
+  groups?: AggregationBucket[];
+  /** Sample documents of the group, newest first */
+  samples?: LogEntry[];
+}
+
+export interface LogAggregation {
+  buckets: AggregationBucket[];
+  /** Composite grouping: pass back as `after` for the next page */
+  after?: string;
 }
 
 // ============================================================================
@@ -137,12 +535,14 @@ export class LogsElasticsearchClient extends BaseElasticsearchClient {
   private kibanaIndex: string;
   private maxResults: number;
   private maxTimeRangeHours: number;
-
-  constructor() {
-    super();
-    this.kibanaIndex = ES_LOGS_CONFIG.kibanaIndex;
-    this.maxResults = ES_LOGS_CONFIG.maxResults;
-    this.maxTimeRangeHours = ES_LOGS_CONFIG.maxTimeRangeHours;
+  private dataViewCache?: { dataViews: DataView[]; fetchedAt: number };
+
+  constructor(params: LogsAuthParams = {}, credential?: CallerCredential) {
+    const profile = getClusterProfile(params.cluster);
+    super(profile, credential);
+    this.kibanaIndex = profile.kibanaIndex || ES_LOGS_CONFIG.kibanaIndex;
+    this.maxResults = profile.maxResults ?? ES_LOGS_CONFIG.maxResults;
+    this.maxTimeRangeHours = profile.maxTimeRangeHours ?? ES_LOGS_CONFIG.maxTimeRangeHours;
   }
 
   /**
@@ -176,6 +576,29 @@ export class LogsElasticsearchClient extends BaseElasticsearchClient {
   async listDataViews(filterPattern?: string): Promise<DataView[]> {
     logger.debug("elasticsearch_logs_list_data_views", { filter: filterPattern, kibanaIndex: this.kibanaIndex });
 
+    let dataViews = await this.fetchDataViews();
+
+    // Exclude system/internal indices
+    dataViews = dataViews.filter(dv => dv.title && !this.isExcludedDataView(dv.title));
+
+    // Filter by pattern if provided
+    if (filterPattern) {
+      const lowerFilter = filterPattern.toLowerCase();
+      dataViews = dataViews.filter(
+        (dv) =>
+          dv.title.toLowerCase().includes(lowerFilter) ||
+          (dv.name && dv.name.toLowerCase().includes(lowerFilter))
+      );
+    }
+
+    logger.debug("elasticsearch_logs_data_views_found", { count: dataViews.length });
+    return dataViews;
+  }
+
+  /**
+   * Fetch all data views from the Kibana index and refresh the cache
+   */
+  private async fetchDataViews(): Promise<DataView[]> {
     // Query for both Kibana 7.x (index-pattern) and 8.x (data-view) types
     const query = {
       size: 1000,
@@ -193,16 +616,24 @@ export class LogsElasticsearchClient extends BaseElasticsearchClient {
         "index-pattern.title", 
         "index-pattern.name", 
         "index-pattern.timeFieldName",
+        "index-pattern.runtimeFieldMap",
+        "index-pattern.fieldFormatMap",
+        "index-pattern.fieldAttrs",
+        "index-pattern.fields",
         // Kibana 8.x fields
         "data-view.title",
         "data-view.name",
         "data-view.timeFieldName",
+        "data-view.runtimeFieldMap",
+        "data-view.fieldFormatMap",
+        "data-view.fieldAttrs",
+        "data-view.fields",
       ],
     };
 
     const response = await this.search<Record<string, unknown>>(this.kibanaIndex, query);
     
-    let dataViews = response.hits.hits.map((hit) => {
+    const dataViews = response.hits.hits.map((hit) => {
       // Try Kibana 8.x format first, then fall back to 7.x
       const dataView = hit._source["data-view"] as Record<string, unknown> | undefined;
       const indexPattern = hit._source["index-pattern"] as Record<string, unknown> | undefined;
@@ -221,391 +652,1812 @@ export class LogsElasticsearchClient extends BaseElasticsearchClient {
         title: String(source?.title || ""),
         name: source?.name ? String(source.name) : undefined,
         timeFieldName: source?.timeFieldName ? String(source.timeFieldName) : undefined,
+        ...this.parseFieldAttributes(source),
       };
     });
 
-    // Exclude system/internal indices
-    dataViews = dataViews.filter(dv => dv.title && !this.isExcludedDataView(dv.title));
+    this.dataViewCache = { dataViews, fetchedAt: Date.now() };
+    return dataViews;
+  }
 
-    // Filter by pattern if provided
-    if (filterPattern) {
-      const lowerFilter = filterPattern.toLowerCase();
-      dataViews = dataViews.filter(
-        (dv) =>
-          dv.title.toLowerCase().includes(lowerFilter) ||
-          (dv.name && dv.name.toLowerCase().includes(lowerFilter))
+  /**
+   * Runtime and scripted fields, formats and labels from a data view saved object
+   */
+  private parseFieldAttributes(
+    source: Record<string, unknown> | undefined
+  ): Pick<DataView, "runtimeFieldMap" | "scriptedFields" | "fieldFormats" | "fieldLabels"> {
+    const attributes: Pick<DataView, "runtimeFieldMap" | "scriptedFields" | "fieldFormats" | "fieldLabels"> = {};
+
+    const runtimeFieldMap = parseJsonAttribute<Record<string, RuntimeField>>(source?.runtimeFieldMap);
+    if (runtimeFieldMap && Object.keys(runtimeFieldMap).length > 0) {
+      // Keep only what runtime_mappings accepts
+      attributes.runtimeFieldMap = Object.fromEntries(
+        Object.entries(runtimeFieldMap).map(([name, field]) => [name, {
+          type: field.type,
+          ...(field.script && { script: { source: field.script.source } }),
+          ...(field.fields && {
+            fields: Object.fromEntries(Object.entries(field.fields).map(([sub, f]) => [sub, { type: f.type }])),
+          }),
+        }])
       );
     }
 
-    logger.debug("elasticsearch_logs_data_views_found", { count: dataViews.length });
-    return dataViews;
+    // Scripted fields are in the field list, which otherwise mirrors the mapping
+    const fieldList = parseJsonAttribute<Array<{ name: string; type?: string; scripted?: boolean; script?: string; lang?: string }>>(
+      source?.fields
+    );
+    const scripted = (Array.isArray(fieldList) ? fieldList : [])
+      .filter((field) => field.scripted && !attributes.runtimeFieldMap?.[field.name])
+      .map((field) => [field.name, scriptedRuntimeField(field)] as const)
+      .filter((entry): entry is readonly [string, RuntimeField] => entry[1] !== undefined);
+    if (scripted.length > 0) {
+      attributes.runtimeFieldMap = { ...attributes.runtimeFieldMap, ...Object.fromEntries(scripted) };
+      attributes.scriptedFields = scripted.map(([name]) => name);
+    }
+
+    const fieldFormats = parseJsonAttribute<Record<string, FieldFormat>>(source?.fieldFormatMap);
+    if (fieldFormats && Object.keys(fieldFormats).length > 0) {
+      attributes.fieldFormats = fieldFormats;
+    }
+
+    const fieldAttrs = parseJsonAttribute<Record<string, { customLabel?: string }>>(source?.fieldAttrs);
+    const fieldLabels = Object.entries(fieldAttrs ?? {})
+      .filter(([, attrs]) => attrs?.customLabel)
+      .map(([name, attrs]) => [name, String(attrs.customLabel)]);
+    if (fieldLabels.length > 0) {
+      attributes.fieldLabels = Object.fromEntries(fieldLabels);
+    }
+
+    return attributes;
   }
 
   /**
-   * Get field mappings for an index pattern
+   * Find the data view for an index pattern by title, name or id (cached)
    */
-  async getFields(indexPattern: string): Promise<LogField[]> {
-    logger.debug("elasticsearch_logs_get_fields", { index: indexPattern });
+  async findDataView(indexPattern: string): Promise<DataView | undefined> {
+    const dataViews = await this.cachedDataViews();
+    return dataViews.find((dv) => dv.title === indexPattern) ||
+      dataViews.find((dv) => dv.name === indexPattern || dv.id === indexPattern);
+  }
 
-    const mapping = await this.getMapping(indexPattern);
-    const fields: LogField[] = [];
+  private async cachedDataViews(): Promise<DataView[]> {
+    const cached = this.dataViewCache;
+    return cached && Date.now() - cached.fetchedAt < DATA_VIEW_CACHE_TTL_MS
+      ? cached.dataViews
+      : this.fetchDataViews();
+  }
 
-    // Extract fields from mapping
-    for (const indexName in mapping) {
-      const properties = mapping[indexName]?.mappings?.properties || {};
-      this.extractFields(properties, "", fields);
-    }
+  /**
+   * List Discover saved searches from the Kibana index, with their data
+   * views resolved
+   */
+  async listSavedSearches(filterPattern?: string): Promise<SavedSearch[]> {
+    logger.debug("elasticsearch_logs_list_saved_searches", { filter: filterPattern, kibanaIndex: this.kibanaIndex });
 
-    // Deduplicate by name
-    const uniqueFields = new Map<string, LogField>();
-    for (const field of fields) {
-      if (!uniqueFields.has(field.name)) {
-        uniqueFields.set(field.name, field);
+    const response = await this.search<SavedSearchHit["_source"]>(this.kibanaIndex, {
+      size: 1000,
+      query: { term: { type: "search" } },
+      _source: ["search", "references"],
+    });
+    const dataViews = await this.cachedDataViews();
+
+    let savedSearches = response.hits.hits.map((hit) => {
+      const savedSearch = parseSavedSearch(hit);
+      const dataView = savedSearch.dataViewId ? dataViews.find((dv) => dv.id === savedSearch.dataViewId) : undefined;
+      if (dataView) {
+        savedSearch.indexPattern = dataView.title;
+        savedSearch.timeField = dataView.timeFieldName;
       }
+      return savedSearch;
+    });
+
+    if (filterPattern) {
+      const lowerFilter = filterPattern.toLowerCase();
+      savedSearches = savedSearches.filter(
+        (search) =>
+          search.title.toLowerCase().includes(lowerFilter) ||
+          (search.description ?? "").toLowerCase().includes(lowerFilter)
+      );
     }
 
-    return Array.from(uniqueFields.values()).sort((a, b) => a.name.localeCompare(b.name));
+    logger.debug("elasticsearch_logs_saved_searches_found", { count: savedSearches.length });
+    return savedSearches;
   }
 
-  private extractFields(
-    properties: Record<string, { type: string; properties?: Record<string, unknown>; fields?: Record<string, unknown> }>,
-    prefix: string,
-    fields: LogField[]
-  ): void {
-    for (const [name, prop] of Object.entries(properties)) {
-      const fullName = prefix ? `${prefix}.${name}` : name;
-      
-      if (prop.type) {
-        fields.push({
-          name: fullName,
-          type: prop.type,
-          searchable: prop.type !== "binary",
-          aggregatable: ["keyword", "long", "integer", "short", "byte", "double", "float", "date", "boolean", "ip"].includes(prop.type),
-        });
-      }
-
-      // Handle nested properties
-      if (prop.properties) {
-        this.extractFields(
-          prop.properties as Record<string, { type: string; properties?: Record<string, unknown> }>,
-          fullName,
-          fields
-        );
-      }
+  /**
+   * Find a saved search by id, or by title (case-insensitive)
+   */
+  async getSavedSearch(idOrTitle: string): Promise<SavedSearch> {
+    const savedSearches = await this.listSavedSearches();
+    const lowerTitle = idOrTitle.toLowerCase();
+    const savedSearch = savedSearches.find((search) => search.id === idOrTitle) ||
+      savedSearches.find((search) => search.title.toLowerCase() === lowerTitle);
+    if (!savedSearch) {
+      throw new SavedSearchNotFoundError(idOrTitle);
     }
+    return savedSearch;
   }
 
   /**
-   * Get unique values for a field
+   * Run a saved search over a time range through searchLogs
    */
-  async getFieldValues(
-    indexPattern: string,
-    field: string,
+  async runSavedSearch(
+    idOrTitle: string,
     startTime: string,
     endTime: string,
-    limit: number = 20
-  ): Promise<string[]> {
-    // Validate time range
-    validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
-    
-    logger.debug("elasticsearch_logs_get_field_values", { index: indexPattern, field });
+    limit: number = 100,
+    output: LogOutputOptions = {}
+  ): Promise<{ savedSearch: SavedSearch; logs: LogEntry[]; total: number; cursor?: string; timeField: string }> {
+    const savedSearch = await this.getSavedSearch(idOrTitle);
+    if (!savedSearch.indexPattern) {
+      throw new Error(
+        `Saved search '${savedSearch.title}' uses data view '${savedSearch.dataViewId}', which was not found in Kibana`
+      );
+    }
 
-    const query = {
-      size: 0,
-      query: {
-        bool: {
-          filter: [
-            { range: { "@timestamp": { gte: startTime, lte: endTime } } },
-          ],
-        },
-      },
-      aggs: {
-        field_values: {
-          terms: {
-            field,
-            size: limit,
-          },
-        },
-      },
-    };
+    logger.debug("elasticsearch_logs_run_saved_search", { id: savedSearch.id, index: savedSearch.indexPattern });
 
-    const response = await this.search(indexPattern, query);
-    const buckets = (response.aggregations?.field_values as { buckets: Array<{ key: string }> })?.buckets || [];
-    return buckets.map((b) => String(b.key));
+    const timeField = await this.resolveTimeField(savedSearch.indexPattern, savedSearch.timeField);
+    const result = await this.searchLogs(
+      savedSearch.indexPattern,
+      startTime,
+      endTime,
+      savedSearch.query?.language === "kuery" ? savedSearch.query.query : undefined,
+      savedSearch.columns.length > 0 ? savedSearch.columns : undefined,
+      limit,
+      output,
+      savedSearchRefinement(savedSearch),
+      timeField
+    );
+    return { savedSearch, ...result, timeField };
   }
 
   /**
-   * Search logs
+   * List Kibana alerting rules from the Kibana index, by name
    */
-  async searchLogs(
-    indexPattern: string,
+  async listAlertRules(filters: AlertFilters = {}): Promise<AlertRule[]> {
+    logger.debug("elasticsearch_logs_list_alert_rules", { ...filters, kibanaIndex: this.kibanaIndex });
+
+    const response = await this.search<AlertRuleHit["_source"]>(this.kibanaIndex, {
+      size: 1000,
+      query: { term: { type: "alert" } },
+      _source: ["alert"],
+    });
+
+    return response.hits.hits
+      .map(parseAlertRule)
+      .filter((rule) => matchesRuleFilters(rule, filters))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Alerts active at any point of a time range from the alerts-as-data
+   * indices, newest first, with links to the documents behind log threshold
+   * and APM alerts
+   */
+  async getAlerts(
     startTime: string,
     endTime: string,
-    kqlQuery?: string,
-    fields?: string[],
-    limit: number = 100
-  ): Promise<{ logs: LogEntry[]; total: number }> {
-    // Validate time range
+    statuses: AlertStatus[] = ["active"],
+    filters: AlertFilters = {},
+    limit: number = 50
+  ): Promise<AlertList> {
+    // Alerts are returned one by one, like searched logs
     validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
-    
-    logger.debug("elasticsearch_logs_search", {
-      index: indexPattern,
-      has_query: !!kqlQuery,
-      limit,
-    });
 
-    // Enforce max results
-    const effectiveLimit = Math.min(limit, this.maxResults);
+    logger.debug("elasticsearch_logs_get_alerts", { statuses, ...filters, limit });
 
-    const filters: object[] = [
-      { range: { "@timestamp": { gte: startTime, lte: endTime } } },
-    ];
+    const response = await this.search<Record<string, unknown>>(ES_LOGS_CONFIG.alertsIndex, {
+      size: Math.min(limit, this.maxResults),
+      track_total_hits: true,
+      query: alertsQuery(startTime, endTime, statuses, filters),
+      sort: [{ "kibana.alert.start": "desc" }],
+      aggs: { by_status: { terms: { field: "kibana.alert.status" } } },
+    });
 
-    // Convert KQL to query_string (simplified - real KQL parsing is complex)
-    if (kqlQuery) {
-      filters.push({
-        query_string: {
-          query: kqlQuery,
-          default_operator: "AND",
+    const alerts = response.hits.hits.map((hit) => parseAlert(hit._source));
+    const linked = alerts.filter((alert) => alert.ruleType === LOG_THRESHOLD_RULE_TYPE || alert.ruleType.startsWith("apm."));
+    const { rules, logIndices } = await this.alertRuleContext(Array.from(new Set(linked.map((alert) => alert.ruleId))));
+    for (const alert of linked) {
+      const rule = rules.get(alert.ruleId);
+      const drillDown = alertDrillDown(alert, rule, logIndices(rule));
+      if (drillDown) {
+        alert.drillDown = drillDown;
+      }
+    }
+
+    const statusBuckets = (response.aggregations?.by_status as { buckets: Array<{ key: string; doc_count: number }> } | undefined)?.buckets ?? [];
+    return {
+      summary: Object.fromEntries(statusBuckets.map((bucket) => [bucket.key, bucket.doc_count])),
+      total: response.hits.total.value,
+      alerts,
+    };
+  }
+
+  /**
+   * Rules of the given ids, and the log view indices of log threshold rules.
+   * An unreadable Kibana index leaves drill-downs to what the alerts hold.
+   */
+  private async alertRuleContext(ruleIds: string[]): Promise<{
+    rules: Map<string, AlertRule>;
+    logIndices: (rule: AlertRule | undefined) => string;
+  }> {
+    const rules = new Map<string, AlertRule>();
+    const logViews = new Map<string, string>();
+    if (ruleIds.length === 0) {
+      return { rules, logIndices: () => DEFAULT_LOG_INDICES };
+    }
+
+    try {
+      const response = await this.search<Record<string, unknown>>(this.kibanaIndex, {
+        size: ruleIds.length + 100,
+        query: {
+          bool: {
+            should: [
+              { ids: { values: ruleIds.map((id) => `alert:${id}`) } },
+              { term: { type: "infrastructure-monitoring-log-view" } },
+            ],
+            minimum_should_match: 1,
+          },
+        },
+        _source: ["alert", "infrastructure-monitoring-log-view.logIndices"],
+      });
+
+      for (const hit of response.hits.hits) {
+        if (hit._source.alert) {
+          const rule = parseAlertRule(hit as AlertRuleHit);
+          rules.set(rule.id, rule);
+          continue;
+        }
+        const logView = hit._source["infrastructure-monitoring-log-view"] as
+          | { logIndices?: { type?: string; indexName?: string; dataViewId?: string } }
+          | undefined;
+        const indices = logView?.logIndices;
+        const title = indices?.type === "data_view"
+          ? (await this.cachedDataViews()).find((dv) => dv.id === indices.dataViewId)?.title
+          : indices?.indexName;
+        if (title) {
+          logViews.set(hit._id.replace(/^infrastructure-monitoring-log-view:/, ""), title);
+        }
+      }
+    } catch (error) {
+      logger.debug("elasticsearch_logs_alert_rules_lookup_failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return {
+      rules,
+      logIndices: (rule) => {
+        const logViewId = (rule?.params.logView as { logViewId?: string } | undefined)?.logViewId ?? "default";
+        return logViews.get(logViewId) ?? DEFAULT_LOG_INDICES;
+      },
+    };
+  }
+
+  /**
+   * Anomaly detection jobs and their record and bucket results scoring at
+   * least `minScore` over a time range, highest scores first. `jobIds` are
+   * job ids, groups or wildcards; all jobs when empty.
+   */
+  async getMlAnomalies(
+    startTime: string,
+    endTime: string,
+    jobIds: string[] = [],
+    minScore: number = 50,
+    resultType: MlResultType = "all",
+    limit: number = 50
+  ): Promise<MlAnomalies> {
+    // Records and buckets are returned one by one, like searched logs
+    validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
+
+    logger.debug("elasticsearch_logs_ml_anomalies", { jobIds, minScore, resultType, limit });
+
+    const [config, stats] = await Promise.all([this.getMlJobs(jobIds), this.getMlJobStats(jobIds)]);
+    const jobs = parseMlJobs(config, stats);
+    if (jobIds.length > 0 && jobs.length === 0) {
+      return { jobs, records: [], buckets: [], totalRecords: 0, totalBuckets: 0 };
+    }
+
+    const jobsById = new Map(jobs.map((job) => [job.id, job]));
+    // Groups and wildcards resolve to job ids here; no filter means every job
+    const resultJobIds = jobIds.length > 0 ? jobs.map((job) => job.id) : undefined;
+    const size = Math.min(limit, this.maxResults);
+    const searchResults = (type: "record" | "bucket") =>
+      this.search<MlResultSource>(ES_LOGS_CONFIG.mlResultsIndex, {
+        size,
+        track_total_hits: true,
+        query: mlResultsQuery(type, startTime, endTime, minScore, resultJobIds),
+        sort: [{ [type === "record" ? "record_score" : "anomaly_score"]: "desc" }, { timestamp: "desc" }],
+      });
+
+    const [records, buckets] = await Promise.all([
+      resultType !== "buckets" ? searchResults("record") : undefined,
+      resultType !== "records" ? searchResults("bucket") : undefined,
+    ]);
+
+    return {
+      jobs,
+      records: (records?.hits.hits ?? []).map((hit) => parseAnomalyRecord(hit._source, jobsById.get(hit._source.job_id))),
+      buckets: (buckets?.hits.hits ?? []).map((hit) => parseAnomalyBucket(hit._source, jobsById.get(hit._source.job_id))),
+      totalRecords: records?.hits.total.value ?? 0,
+      totalBuckets: buckets?.hits.total.value ?? 0,
+    };
+  }
+
+  /**
+   * Time field for an index pattern: the explicit override, else the matching
+   * data view's time field, else @timestamp
+   */
+  async resolveTimeField(indexPattern: string, override?: string): Promise<string> {
+    if (override) {
+      return override;
+    }
+
+    const dataView = await this.lookupDataView(indexPattern);
+    return dataView?.timeFieldName || DEFAULT_TIME_FIELD;
+  }
+
+  /**
+   * Time field plus runtime mappings for the fields a request references,
+   * both taken from the index pattern's data view
+   */
+  private async resolveQueryFields(
+    indexPattern: string,
+    timeField: string | undefined,
+    referenced: Array<string | undefined>
+  ): Promise<{ timeField: string; runtimeMappings?: Record<string, RuntimeField> }> {
+    const dataView = await this.lookupDataView(indexPattern);
+    const timeFieldName = timeField || dataView?.timeFieldName || DEFAULT_TIME_FIELD;
+    const runtimeMappings = dataView?.runtimeFieldMap &&
+      runtimeMappingsFor(dataView.runtimeFieldMap, [timeFieldName, ...referenced]);
+
+    return { timeField: timeFieldName, runtimeMappings };
+  }
+
+  /**
+   * Data view lookup that treats an unreadable Kibana index as "no data view"
+   */
+  private async lookupDataView(indexPattern: string): Promise<DataView | undefined> {
+    try {
+      return await this.findDataView(indexPattern);
+    } catch (error) {
+      // No access to the Kibana index is common for restricted API keys
+      logger.debug("elasticsearch_logs_data_view_lookup_failed", {
+        index: indexPattern,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Get field mappings for an index pattern
+   */
+  async getFields(indexPattern: string): Promise<LogField[]> {
+    logger.debug("elasticsearch_logs_get_fields", { index: indexPattern });
+
+    const mapping = await this.getMapping(indexPattern);
+    const fields: LogField[] = [];
+
+    // Extract fields from mapping
+    for (const indexName in mapping) {
+      const properties = mapping[indexName]?.mappings?.properties || {};
+      this.extractFields(properties, "", fields);
+    }
+
+    // Deduplicate by name
+    const uniqueFields = new Map<string, LogField>();
+    for (const field of fields) {
+      if (!uniqueFields.has(field.name)) {
+        uniqueFields.set(field.name, field);
+      }
+    }
+
+    // Runtime and scripted fields shadow mapped fields of the same name
+    const dataView = await this.lookupDataView(indexPattern);
+    for (const [name, runtimeField] of Object.entries(dataView?.runtimeFieldMap ?? {})) {
+      const subTypes = runtimeField.type === "composite" ? runtimeField.fields ?? {} : { "": runtimeField };
+      for (const [sub, { type }] of Object.entries(subTypes)) {
+        const fieldName = sub ? `${name}.${sub}` : name;
+        const origin = dataView?.scriptedFields?.includes(fieldName) ? { scripted: true } : { runtime: true };
+        uniqueFields.set(fieldName, { name: fieldName, type, searchable: true, aggregatable: true, ...origin });
+      }
+    }
+
+    for (const field of uniqueFields.values()) {
+      const format = dataView?.fieldFormats?.[field.name];
+      const customLabel = dataView?.fieldLabels?.[field.name];
+      if (format) field.format = format;
+      if (customLabel) field.customLabel = customLabel;
+    }
+
+    return Array.from(uniqueFields.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private extractFields(
+    properties: Record<string, { type: string; properties?: Record<string, unknown>; fields?: Record<string, unknown> }>,
+    prefix: string,
+    fields: LogField[]
+  ): void {
+    for (const [name, prop] of Object.entries(properties)) {
+      const fullName = prefix ? `${prefix}.${name}` : name;
+      
+      if (prop.type) {
+        fields.push({
+          name: fullName,
+          type: prop.type,
+          searchable: prop.type !== "binary",
+          aggregatable: ["keyword", "long", "integer", "short", "byte", "double", "float", "date", "boolean", "ip"].includes(prop.type),
+        });
+      }
+
+      // Handle nested properties
+      if (prop.properties) {
+        this.extractFields(
+          prop.properties as Record<string, { type: string; properties?: Record<string, unknown> }>,
+          fullName,
+          fields
+        );
+      }
+    }
+  }
+
+  /**
+   * Get unique values for a field
+   */
+  async getFieldValues(
+    indexPattern: string,
+    field: string,
+    startTime: string,
+    endTime: string,
+    limit: number = 20,
+    timeField?: string
+  ): Promise<string[]> {
+    // Validate time range
+    validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
+    
+    logger.debug("elasticsearch_logs_get_field_values", { index: indexPattern, field });
+
+    const { timeField: timeFieldName, runtimeMappings } = await this.resolveQueryFields(
+      indexPattern, timeField, [field]
+    );
+
+    const query = {
+      ...(runtimeMappings && { runtime_mappings: runtimeMappings }),
+      size: 0,
+      query: {
+        bool: {
+          filter: [
+            { range: { [timeFieldName]: { gte: startTime, lte: endTime } } },
+          ],
+        },
+      },
+      aggs: {
+        field_values: {
+          terms: {
+            field,
+            size: limit,
+          },
         },
+      },
+    };
+
+    const response = await this.search(indexPattern, query);
+    const buckets = (response.aggregations?.field_values as { buckets: Array<{ key: string }> })?.buckets || [];
+    return buckets.map((b) => String(b.key));
+  }
+
+  /**
+   * Profile what aggregatable fields hold over a time range: presence,
+   * cardinality, top values or stats, percentiles and a histogram.
+   * Fields are profiled PROFILE_BATCH_SIZE per request.
+   */
+  async profileFields(
+    indexPattern: string,
+    startTime: string,
+    endTime: string,
+    kqlQuery?: string,
+    fields?: string[],
+    topValues: number = 5,
+    timeField?: string
+  ): Promise<LogFieldProfiles> {
+    const aggMaxHours = this.maxTimeRangeHours * 7;
+    validateTimeRange(startTime, endTime, aggMaxHours);
+
+    const kqlFilter = kqlQuery ? kqlToDsl(kqlQuery) : undefined;
+    const allFields = await this.getFields(indexPattern);
+    const candidates = fields && fields.length > 0
+      ? allFields.filter((field) => fields.includes(field.name))
+      : allFields;
+    const profilable = candidates.filter((field) => field.aggregatable && isProfilable(field.type));
+    const selected = profilable.slice(0, MAX_PROFILE_FIELDS);
+    const skipped = [
+      ...candidates.filter((field) => !profilable.includes(field)).map((field) => field.name),
+      ...(fields ?? []).filter((name) => !allFields.some((field) => field.name === name)),
+    ];
+
+    logger.debug("elasticsearch_logs_profile_fields", {
+      index: indexPattern,
+      fields: selected.length,
+      skipped: skipped.length,
+    });
+
+    const queryFields = await this.resolveQueryFields(indexPattern, timeField, [
+      ...(kqlQuery ? kqlFields(kqlQuery) : []),
+      ...selected.map((field) => field.name),
+    ]);
+    const query = this.buildSearchFilter(queryFields.timeField, startTime, endTime, kqlFilter);
+
+    // The first request runs even without fields, for the total
+    const result: LogFieldProfiles = { total: 0, profiles: [], skipped };
+    for (let start = 0; start === 0 || start < selected.length; start += PROFILE_BATCH_SIZE) {
+      const batch = selected.slice(start, start + PROFILE_BATCH_SIZE);
+      const response = await this.search(indexPattern, {
+        ...(queryFields.runtimeMappings && { runtime_mappings: queryFields.runtimeMappings }),
+        size: 0,
+        track_total_hits: true,
+        query,
+        aggs: Object.fromEntries(batch.map((field, i) => [`f${i}`, profileAggs(field.name, field.type, topValues)])),
+      });
+
+      result.total = response.hits.total.value;
+      batch.forEach((field, i) => {
+        const agg = response.aggregations?.[`f${i}`] as ProfileAggResult | undefined;
+        result.profiles.push(parseFieldProfile(field.name, field.type, agg ?? { doc_count: 0 }, result.total));
       });
     }
 
+    return result;
+  }
+
+  /**
+   * Search logs
+   *
+   * When more hits match than fit on the page, the page is served from a
+   * point in time and a cursor for the next page is returned. The summary
+   * projection only fetches the fields it shows, in place of `fields`.
+   */
+  async searchLogs(
+    indexPattern: string,
+    startTime: string,
+    endTime: string,
+    kqlQuery?: string,
+    requestedFields?: string[],
+    limit: number = 100,
+    output: LogOutputOptions = {},
+    refinement: SearchRefinement = {},
+    timeField?: string
+  ): Promise<{ logs: LogEntry[]; total: number; cursor?: string }> {
+    // Validate time range
+    validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
+    
+    logger.debug("elasticsearch_logs_search", {
+      index: indexPattern,
+      has_query: !!kqlQuery,
+      limit,
+      highlight: !!output.highlight,
+      projection: output.projection,
+    });
+
+    const fields = output.projection === "summary" ? SUMMARY_SOURCE_FIELDS : requestedFields;
+
+    // Enforce max results
+    const effectiveLimit = Math.min(limit, this.maxResults);
+    // Parse KQL first so syntax errors are reported before any request
+    const kqlFilter = kqlQuery ? kqlToDsl(kqlQuery) : undefined;
+    const sortFields = (refinement.sort ?? []).flatMap((sort) => Object.keys(sort));
+    const { timeField: timeFieldName, runtimeMappings } = await this.resolveQueryFields(
+      indexPattern, timeField, [...(kqlQuery ? kqlFields(kqlQuery) : []), ...(fields ?? []), ...sortFields]
+    );
+
+    // Any search may have more hits than fit on one page, so it is served
+    // from a point in time that following pages see the same snapshot of
+    let pitId: string | undefined;
+    try {
+      pitId = await this.openPointInTime(indexPattern, ES_LOGS_CONFIG.pitKeepAlive);
+    } catch (error) {
+      logger.warn("elasticsearch_logs_pit_unavailable", {
+        index: indexPattern,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (pitId) {
+      return this.fetchPage({
+        cluster: this.getClusterName(),
+        pitId,
+        searchAfter: [],
+        returned: 0,
+        indexPattern,
+        timeField: timeFieldName,
+        startTime: resolveRelativeTime(startTime),
+        endTime: resolveRelativeTime(endTime),
+        query: kqlQuery,
+        fields,
+        runtimeMappings,
+        output,
+        ...((refinement.filters?.length || refinement.sort) && { refinement }),
+      }, effectiveLimit);
+    }
+
+    // Without a point in time there is a single page
     const query: Record<string, unknown> = {
       size: effectiveLimit,
-      query: {
-        bool: { filter: filters },
+      query: this.buildSearchFilter(timeFieldName, startTime, endTime, kqlFilter, refinement.filters),
+      sort: refinement.sort ?? [{ [timeFieldName]: "desc" }],
+    };
+    this.applyRuntimeFields(query, runtimeMappings, timeFieldName, fields);
+    if (output.highlight) {
+      query.highlight = HIGHLIGHT_REQUEST;
+    }
+
+    // Limit fields if specified
+    if (fields && fields.length > 0) {
+      query._source = sourceFields(timeFieldName, fields);
+    }
+
+    const response = await this.search<Record<string, unknown>>(indexPattern, query);
+    const logs = response.hits.hits.map((hit) => this.toLogEntry(hit, timeFieldName));
+    return { logs, total: response.hits.total.value };
+  }
+
+  /**
+   * Fetch the next page of a search_logs cursor
+   */
+  async searchLogsPage(
+    cursorToken: string,
+    limit: number = 100
+  ): Promise<{ logs: LogEntry[]; total: number; cursor?: string; search: SearchCursor }> {
+    const cursor = decodeCursor(cursorToken);
+    if (cursor.cluster !== this.getClusterName()) {
+      throw new InvalidCursorError(`cursor belongs to cluster '${cursor.cluster}'`);
+    }
+    // The limit may have been lowered since the cursor was issued
+    validateTimeRange(cursor.startTime, cursor.endTime, this.maxTimeRangeHours);
+
+    logger.debug("elasticsearch_logs_search_page", {
+      index: cursor.indexPattern,
+      returned: cursor.returned,
+      limit,
+    });
+
+    const page = await this.fetchPage(cursor, Math.min(limit, this.maxResults));
+    return { ...page, search: cursor };
+  }
+
+  /**
+   * Serve one page from a point in time, closing it after the last page
+   */
+  private async fetchPage(
+    cursor: SearchCursor,
+    size: number
+  ): Promise<{ logs: LogEntry[]; total: number; cursor?: string }> {
+    const query: Record<string, unknown> = {
+      size,
+      query: this.buildSearchFilter(
+        cursor.timeField,
+        cursor.startTime,
+        cursor.endTime,
+        cursor.query ? kqlToDsl(cursor.query) : undefined,
+        cursor.refinement?.filters
+      ),
+      pit: { id: cursor.pitId, keep_alive: ES_LOGS_CONFIG.pitKeepAlive },
+      // _shard_doc breaks sort ties so no hit is skipped or repeated
+      sort: [...(cursor.refinement?.sort ?? [{ [cursor.timeField]: "desc" }]), { _shard_doc: "asc" }],
+    };
+
+    this.applyRuntimeFields(query, cursor.runtimeMappings, cursor.timeField, cursor.fields);
+    if (cursor.output?.highlight) {
+      query.highlight = HIGHLIGHT_REQUEST;
+    }
+
+    if (cursor.searchAfter.length > 0) {
+      query.search_after = cursor.searchAfter;
+    }
+    if (cursor.fields && cursor.fields.length > 0) {
+      query._source = sourceFields(cursor.timeField, cursor.fields);
+    }
+
+    let response;
+    try {
+      response = await this.searchPointInTime<Record<string, unknown>>(query);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError && error.statusCode === 404) {
+        forgetPit(cursor.pitId);
+        throw new CursorExpiredError();
+      }
+      throw error;
+    }
+
+    const hits = response.hits.hits;
+    const logs = hits.map((hit) => this.toLogEntry(hit, cursor.timeField));
+    const total = response.hits.total.value;
+    const pitId = response.pit_id || cursor.pitId;
+    const returned = cursor.returned + logs.length;
+    const close = () => this.closePointInTime(pitId);
+
+    const lastSort = hits[hits.length - 1]?.sort;
+    const exhausted = logs.length < size || !lastSort ||
+      (response.hits.total.relation === "eq" && returned >= total);
+
+    if (exhausted) {
+      releasePit(pitId, close);
+      return { logs, total };
+    }
+
+    trackPit(pitId, close, cursor.pitId);
+    return {
+      logs,
+      total,
+      cursor: encodeCursor({ ...cursor, pitId, searchAfter: lastSort, returned }),
+    };
+  }
+
+  /**
+   * Time range plus optional KQL and DSL filters shared by search pages
+   */
+  private buildSearchFilter(
+    timeField: string,
+    startTime: string,
+    endTime: string,
+    kqlFilter?: object,
+    extraFilters: object[] = []
+  ): object {
+    const filters: object[] = [
+      { range: { [timeField]: { gte: startTime, lte: endTime } } },
+    ];
+
+    if (kqlFilter) {
+      filters.push(kqlFilter);
+    }
+    filters.push(...extraFilters);
+
+    return { bool: { filter: filters } };
+  }
+
+  /**
+   * Add runtime mappings to a search, requesting the runtime fields the
+   * caller asked for (and the time field) since they are not in _source
+   */
+  private applyRuntimeFields(
+    query: Record<string, unknown>,
+    runtimeMappings: Record<string, RuntimeField> | undefined,
+    timeField: string,
+    fields?: string[]
+  ): void {
+    if (!runtimeMappings) {
+      return;
+    }
+    query.runtime_mappings = runtimeMappings;
+
+    const requested = runtimeFieldRequest(runtimeMappings, [timeField, ...(fields ?? [])]);
+    if (requested.length > 0) {
+      query.fields = requested;
+    }
+  }
+
+  private toLogEntry(
+    hit: {
+      _id: string;
+      _index: string;
+      _source: Record<string, unknown>;
+      fields?: Record<string, unknown[]>;
+      highlight?: Record<string, string[]>;
+    },
+    timeField: string
+  ): LogEntry {
+    // Runtime field values come back in `fields`, as arrays
+    const source = { ...hit._source };
+    for (const [name, values] of Object.entries(hit.fields ?? {})) {
+      source[name] = values.length === 1 ? values[0] : values;
+    }
+
+    return {
+      id: hit._id,
+      index: hit._index,
+      timestamp: String(readField(source, timeField) || ""),
+      source,
+      ...(hit.highlight && { highlight: hit.highlight }),
+    };
+  }
+
+  /**
+   * Run an ES|QL query against allowed log/APM indices.
+   * The time range is applied as a filter and the row count is capped.
+   */
+  async queryEsql(
+    esql: string,
+    startTime: string,
+    endTime: string,
+    limit: number = 100,
+    timeField?: string
+  ): Promise<EsqlTable> {
+    validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
+
+    const { sources } = validateEsqlQuery(esql, this.getEsqlPolicy());
+    const effectiveLimit = Math.min(limit, this.maxResults);
+    const timeFieldName = await this.resolveTimeField(sources.join(","), timeField);
+
+    logger.debug("elasticsearch_logs_esql", { sources, limit: effectiveLimit });
+
+    // One extra row tells whether the cap cut the result short; a trailing
+    // LIMIT also caps any larger LIMIT in the query itself
+    const response = await this.esqlQuery(
+      `${esql.trim()}\n| LIMIT ${effectiveLimit + 1}`,
+      { range: { [timeFieldName]: { gte: startTime, lte: endTime } } }
+    );
+
+    return {
+      columns: response.columns,
+      rows: response.values.slice(0, effectiveLimit),
+      truncated: response.values.length > effectiveLimit,
+      sources,
+      timeField: timeFieldName,
+    };
+  }
+
+  private getEsqlPolicy(): EsqlPolicy {
+    const apmIndex = this.profile.apmIndex || ES_APM_CONFIG.apmIndex;
+    return {
+      deniedCommands: ES_ESQL_CONFIG.deniedCommands,
+      allowedIndices: ES_ESQL_CONFIG.allowedIndices ?? ["logs-*", ...apmIndex.split(",").map((i) => i.trim())],
+    };
+  }
+
+  /**
+   * Write every log matching a query to an NDJSON or CSV file, paging through
+   * a point in time. At most `maxRows` rows, capped by ES_EXPORT_MAX_ROWS.
+   * Only sessions of the same `owner` (see exportOwner) can read the file.
+   */
+  async exportLogs(
+    indexPattern: string,
+    startTime: string,
+    endTime: string,
+    kqlQuery?: string,
+    fields?: string[],
+    format: ExportFormat = "ndjson",
+    maxRows: number = ES_LOGS_CONFIG.maxExportRows,
+    timeField?: string,
+    owner: string = exportOwner()
+  ): Promise<LogExport> {
+    validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
+
+    const rowLimit = Math.min(maxRows, ES_LOGS_CONFIG.maxExportRows);
+    logger.debug("elasticsearch_logs_export", { index: indexPattern, format, max_rows: rowLimit });
+
+    const kqlFilter = kqlQuery ? kqlToDsl(kqlQuery) : undefined;
+    const { timeField: timeFieldName, runtimeMappings } = await this.resolveQueryFields(
+      indexPattern, timeField, [...(kqlQuery ? kqlFields(kqlQuery) : []), ...(fields ?? [])]
+    );
+    const filter = this.buildSearchFilter(
+      timeFieldName, resolveRelativeTime(startTime), resolveRelativeTime(endTime), kqlFilter
+    );
+
+    // The file first: a point in time opened before a failing writer would stay open
+    const writer = await createExportWriter(
+      format, fields && fields.length > 0 ? ["_id", ...sourceFields(timeFieldName, fields)] : undefined, owner
+    );
+
+    let pitId: string | undefined;
+    let rows = 0;
+    let total = 0;
+    let searchAfter: unknown[] | undefined;
+    try {
+      pitId = await this.openPointInTime(indexPattern, ES_LOGS_CONFIG.pitKeepAlive);
+      for (;;) {
+        const size = Math.min(EXPORT_PAGE_SIZE, rowLimit - rows);
+        const query: Record<string, unknown> = {
+          size,
+          query: filter,
+          pit: { id: pitId, keep_alive: ES_LOGS_CONFIG.pitKeepAlive },
+          // _shard_doc breaks timestamp ties so no hit is skipped or repeated
+          sort: [{ [timeFieldName]: "asc" }, { _shard_doc: "asc" }],
+          track_total_hits: rows === 0,
+        };
+        this.applyRuntimeFields(query, runtimeMappings, timeFieldName, fields);
+        if (searchAfter) {
+          query.search_after = searchAfter;
+        }
+        if (fields && fields.length > 0) {
+          query._source = sourceFields(timeFieldName, fields);
+        }
+
+        const response = await this.searchPointInTime<Record<string, unknown>>(query);
+        pitId = response.pit_id || pitId;
+        const hits = response.hits.hits;
+        if (rows === 0) {
+          total = response.hits.total.value;
+        }
+
+        await writer.write(hits.map((hit) => this.toLogEntry(hit, timeFieldName)));
+        rows += hits.length;
+        searchAfter = hits[hits.length - 1]?.sort;
+
+        if (hits.length < size || rows >= rowLimit || !searchAfter) {
+          break;
+        }
+      }
+    } catch (error) {
+      await writer.discard();
+      throw error;
+    } finally {
+      const openPitId = pitId;
+      if (openPitId) {
+        releasePit(openPitId, () => this.closePointInTime(openPitId));
+      }
+    }
+
+    const written = await writer.close();
+    return {
+      uri: exportUri(writer.fileName),
+      fileName: writer.fileName,
+      format,
+      rows: written.rows,
+      bytes: written.bytes,
+      truncated: total > rows,
+      ...(written.columns && { columns: written.columns }),
+    };
+  }
+
+  /**
+   * Follow new logs for a bounded duration, polling for documents at or after
+   * the last sort value seen. Documents already returned at that exact
+   * timestamp are excluded by id, so ties are neither repeated nor skipped.
+   */
+  async tailLogs(
+    indexPattern: string,
+    startTime: string = "now",
+    kqlQuery?: string,
+    fields?: string[],
+    durationMs: number = 30000,
+    pollIntervalMs: number = 5000,
+    maxLogs: number = 200,
+    onPoll?: (logs: LogEntry[], progress: { elapsedMs: number; total: number }) => Promise<void>,
+    timeField?: string
+  ): Promise<TailSummary> {
+    validateTimeRange(startTime, "now", this.maxTimeRangeHours);
+
+    logger.debug("elasticsearch_logs_tail", {
+      index: indexPattern,
+      has_query: !!kqlQuery,
+      duration_ms: durationMs,
+    });
+
+    const effectiveMax = Math.min(maxLogs, this.maxResults);
+    const kqlFilter = kqlQuery ? kqlToDsl(kqlQuery) : undefined;
+    const { timeField: timeFieldName, runtimeMappings } = await this.resolveQueryFields(
+      indexPattern, timeField, [...(kqlQuery ? kqlFields(kqlQuery) : []), ...(fields ?? [])]
+    );
+
+    const startedAt = Date.now();
+    const deadline = startedAt + durationMs;
+    let after = resolveRelativeTime(startTime);
+    let idsAtAfter: string[] = [];
+    const summary: TailSummary = { total: 0, polls: 0, durationMs: 0, truncated: false, latest: [] };
+
+    for (;;) {
+      const size = Math.min(TAIL_BATCH_SIZE, effectiveMax - summary.total);
+      const filters: object[] = [
+        { range: { [timeFieldName]: { gte: after, format: "strict_date_optional_time_nanos" } } },
+      ];
+      if (kqlFilter) {
+        filters.push(kqlFilter);
+      }
+
+      const query: Record<string, unknown> = {
+        size,
+        query: {
+          bool: {
+            filter: filters,
+            ...(idsAtAfter.length > 0 && { must_not: [{ ids: { values: idsAtAfter } }] }),
+          },
+        },
+        sort: [{ [timeFieldName]: { order: "asc", format: "strict_date_optional_time_nanos" } }],
+      };
+      this.applyRuntimeFields(query, runtimeMappings, timeFieldName, fields);
+      if (fields && fields.length > 0) {
+        query._source = sourceFields(timeFieldName, fields);
+      }
+
+      const response = await this.search<Record<string, unknown>>(indexPattern, query);
+      const hits = response.hits.hits;
+      const logs = hits.map((hit) => this.toLogEntry(hit, timeFieldName));
+      summary.polls++;
+
+      if (hits.length > 0) {
+        const last = String(hits[hits.length - 1].sort?.[0] ?? logs[logs.length - 1].timestamp);
+        if (last !== after) {
+          after = last;
+          idsAtAfter = [];
+        }
+        idsAtAfter.push(...hits.filter((hit) => String(hit.sort?.[0]) === last).map((hit) => hit._id));
+
+        summary.total += logs.length;
+        summary.firstTimestamp ??= logs[0].timestamp;
+        summary.lastTimestamp = logs[logs.length - 1].timestamp;
+        summary.latest = [...summary.latest, ...logs].slice(-TAIL_SUMMARY_LOGS);
+      }
+
+      await onPoll?.(logs, { elapsedMs: Date.now() - startedAt, total: summary.total });
+
+      if (summary.total >= effectiveMax) {
+        summary.truncated = true;
+        break;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+      // A full page means more logs are waiting; fetch them straight away
+      if (hits.length < size) {
+        await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, remaining)));
+      }
+    }
+
+    summary.durationMs = Date.now() - startedAt;
+    return summary;
+  }
+
+  /**
+   * Get log context (surrounding logs)
+   *
+   * Neighbours share the target's values for the scope fields it has (by
+   * default its host, container, service and log file), and are paged from
+   * the target's sort position so logs in the same millisecond are neither
+   * dropped nor repeated.
+   */
+  async getLogContext(
+    indexPattern: string,
+    logId: string,
+    before: number = 10,
+    after: number = 10,
+    scopeFields: string[] = DEFAULT_CONTEXT_SCOPE_FIELDS,
+    timeField?: string
+  ): Promise<{
+    before: LogEntry[];
+    target: LogEntry | null;
+    after: LogEntry[];
+    scope: Record<string, string | number | boolean>;
+  }> {
+    logger.debug("elasticsearch_logs_context", { index: indexPattern, log_id: logId, scope_fields: scopeFields });
+
+    const { timeField: timeFieldName, runtimeMappings } = await this.resolveQueryFields(
+      indexPattern, timeField, scopeFields
+    );
+
+    // _shard_doc needs a point in time; without one, _doc still orders ties
+    // within a shard
+    let pitId: string | undefined;
+    try {
+      pitId = await this.openPointInTime(indexPattern, ES_LOGS_CONFIG.pitKeepAlive);
+    } catch (error) {
+      logger.warn("elasticsearch_logs_pit_unavailable", {
+        index: indexPattern,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    const tiebreaker = pitId ? "_shard_doc" : "_doc";
+
+    const contextSearch = async (query: Record<string, unknown>, order: "asc" | "desc") => {
+      query.sort = [{ [timeFieldName]: order }, { [tiebreaker]: order }];
+      this.applyRuntimeFields(query, runtimeMappings, timeFieldName);
+      if (!pitId) {
+        return this.search<Record<string, unknown>>(indexPattern, query);
+      }
+      query.pit = { id: pitId, keep_alive: ES_LOGS_CONFIG.pitKeepAlive };
+      const response = await this.searchPointInTime<Record<string, unknown>>(query);
+      pitId = response.pit_id || pitId;
+      return response;
+    };
+
+    try {
+      // First, get the target log and its sort position
+      const targetResponse = await contextSearch({ size: 1, query: { ids: { values: [logId] } } }, "asc");
+      const targetHit = targetResponse.hits.hits[0];
+      if (!targetHit) {
+        return { before: [], target: null, after: [], scope: {} };
+      }
+
+      const target = this.toLogEntry(targetHit, timeFieldName);
+      const scope: Record<string, string | number | boolean> = {};
+      for (const field of scopeFields) {
+        const value = readField(target.source, field);
+        if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+          scope[field] = value;
+        }
+      }
+      const neighbours = (size: number) => ({
+        size,
+        query: { bool: { filter: Object.entries(scope).map(([field, value]) => ({ term: { [field]: value } })) } },
+        search_after: targetHit.sort,
+      });
+
+      // Get logs before, nearest first
+      const beforeResponse = before > 0 ? await contextSearch(neighbours(before), "desc") : undefined;
+      const beforeLogs = (beforeResponse?.hits.hits ?? []).map((hit) => this.toLogEntry(hit, timeFieldName)).reverse();
+
+      // Get logs after
+      const afterResponse = after > 0 ? await contextSearch(neighbours(after), "asc") : undefined;
+      const afterLogs = (afterResponse?.hits.hits ?? []).map((hit) => this.toLogEntry(hit, timeFieldName));
+
+      return { before: beforeLogs, target, after: afterLogs, scope };
+    } finally {
+      if (pitId) {
+        const id = pitId;
+        releasePit(id, () => this.closePointInTime(id));
+      }
+    }
+  }
+
+  /**
+   * Group log messages into patterns, flagging patterns that are new or rare
+   * compared to a baseline window (by default the window just before)
+   */
+  async categorizeLogs(
+    indexPattern: string,
+    startTime: string,
+    endTime: string,
+    kqlQuery?: string,
+    field: string = "message",
+    limit: number = 20,
+    baseline?: { startTime: string; endTime: string },
+    timeField?: string
+  ): Promise<LogCategorization> {
+    validateTimeRange(startTime, endTime, this.maxTimeRangeHours);
+    const baselineWindow = baseline ?? precedingWindow(startTime, endTime);
+    validateTimeRange(baselineWindow.startTime, baselineWindow.endTime, this.maxTimeRangeHours);
+
+    logger.debug("elasticsearch_logs_categorize", { index: indexPattern, field, limit });
+
+    const effectiveLimit = Math.min(limit, MAX_PATTERNS);
+    const kqlFilter = kqlQuery ? kqlToDsl(kqlQuery) : undefined;
+    const queryFields = await this.resolveQueryFields(
+      indexPattern, timeField, [field, ...(kqlQuery ? kqlFields(kqlQuery) : [])]
+    );
+    const query = this.buildSearchFilter(queryFields.timeField, startTime, endTime, kqlFilter);
+
+    let result: Pick<LogCategorization, "method" | "total" | "sampled"> & {
+      patterns: Array<Omit<LogPattern, "baselineCount" | "flag">>;
+    };
+    try {
+      result = await this.categorizeText(indexPattern, query, field, effectiveLimit, queryFields);
+    } catch (error) {
+      // Clusters before 8.3 (or without the ML plugin) reject categorize_text
+      const unsupported = error instanceof ElasticsearchApiError && error.statusCode === 400 &&
+        /categorize_text|unknown aggregation/i.test(error.message);
+      if (!unsupported) {
+        throw error;
+      }
+      logger.debug("elasticsearch_logs_categorize_text_unavailable", {
+        index: indexPattern,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      result = await this.minePatterns(indexPattern, query, field, effectiveLimit, queryFields);
+    }
+
+    const baselineQuery = this.buildSearchFilter(
+      queryFields.timeField, baselineWindow.startTime, baselineWindow.endTime, kqlFilter
+    );
+    const baselineCounts = await this.countPatterns(
+      indexPattern, baselineQuery, field, result.patterns.map((p) => p.pattern), queryFields, false
+    );
+
+    const patterns = result.patterns.map((pattern, i) => {
+      const baselineCount = baselineCounts.patterns[i].count;
+      let flag: LogPattern["flag"] = null;
+      // A pattern with no static text matches nothing useful in the baseline
+      if (patternQuery(pattern.pattern)) {
+        if (baselineCount === 0) {
+          flag = "new";
+        } else if (baselineCount / baselineCounts.total < RARE_PATTERN_SHARE) {
+          flag = "rare";
+        }
+      }
+      return { ...pattern, baselineCount, flag };
+    });
+
+    return {
+      ...result,
+      baseline: { ...baselineWindow, total: baselineCounts.total },
+      patterns,
+    };
+  }
+
+  /**
+   * Patterns from the categorize_text aggregation
+   */
+  private async categorizeText(
+    indexPattern: string,
+    query: object,
+    field: string,
+    limit: number,
+    { timeField, runtimeMappings }: { timeField: string; runtimeMappings?: Record<string, RuntimeField> }
+  ): Promise<Pick<LogCategorization, "method" | "total"> & { patterns: Array<Omit<LogPattern, "baselineCount" | "flag">> }> {
+    const response = await this.search(indexPattern, {
+      ...(runtimeMappings && { runtime_mappings: runtimeMappings }),
+      size: 0,
+      track_total_hits: true,
+      query,
+      aggs: {
+        categories: {
+          categorize_text: { field, size: limit },
+          aggs: patternDetailAggs(timeField),
+        },
+      },
+    });
+
+    const buckets = (response.aggregations?.categories as { buckets: Array<Record<string, unknown>> })?.buckets || [];
+    return {
+      method: "categorize_text",
+      total: response.hits.total.value,
+      patterns: buckets.map((bucket) => ({
+        pattern: String(bucket.key),
+        count: bucket.doc_count as number,
+        ...parsePatternDetails(bucket),
+      })),
+    };
+  }
+
+  /**
+   * Patterns from the template miner over a random sample of messages,
+   * with counts taken over the whole window
+   */
+  private async minePatterns(
+    indexPattern: string,
+    query: object,
+    field: string,
+    limit: number,
+    queryFields: { timeField: string; runtimeMappings?: Record<string, RuntimeField> }
+  ): Promise<Pick<LogCategorization, "method" | "total" | "sampled"> & { patterns: Array<Omit<LogPattern, "baselineCount" | "flag">> }> {
+    const sampleQuery: Record<string, unknown> = {
+      size: TEMPLATE_MINER_SAMPLE_SIZE,
+      track_total_hits: true,
+      _source: [field],
+      query: { function_score: { query, random_score: {}, boost_mode: "replace" } },
+    };
+    this.applyRuntimeFields(sampleQuery, queryFields.runtimeMappings, queryFields.timeField, [field]);
+
+    const response = await this.search<Record<string, unknown>>(indexPattern, sampleQuery);
+    const messages = response.hits.hits
+      .map((hit) => readField(this.toLogEntry(hit, queryFields.timeField).source, field))
+      .filter((message): message is string => typeof message === "string" && message.length > 0);
+
+    const mined = mineLogPatterns(messages).slice(0, limit);
+    const counts = await this.countPatterns(
+      indexPattern, query, field, mined.map((p) => p.pattern), queryFields, true
+    );
+
+    return {
+      method: "template_miner",
+      total: response.hits.total.value,
+      sampled: messages.length,
+      patterns: mined
+        .map((p, i) => ({ pattern: p.pattern, ...counts.patterns[i] }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /**
+   * Count documents matching each pattern's static text in one request
+   */
+  private async countPatterns(
+    indexPattern: string,
+    query: object,
+    field: string,
+    patterns: string[],
+    { timeField, runtimeMappings }: { timeField: string; runtimeMappings?: Record<string, RuntimeField> },
+    withDetails: boolean
+  ): Promise<{ total: number; patterns: Array<Omit<LogPattern, "pattern" | "baselineCount" | "flag">> }> {
+    const filters = Object.fromEntries(patterns.map((pattern, i) => [
+      `p${i}`,
+      { match: { [field]: { query: patternQuery(pattern), operator: "and" } } },
+    ]));
+
+    const response = await this.search(indexPattern, {
+      ...(runtimeMappings && { runtime_mappings: runtimeMappings }),
+      size: 0,
+      track_total_hits: true,
+      query,
+      aggs: patterns.length > 0
+        ? { patterns: { filters: { filters }, ...(withDetails && { aggs: patternDetailAggs(timeField) }) } }
+        : {},
+    });
+
+    const buckets = (response.aggregations?.patterns as { buckets: Record<string, Record<string, unknown>> })?.buckets || {};
+    return {
+      total: response.hits.total.value,
+      patterns: patterns.map((_, i) => {
+        const bucket = buckets[`p${i}`] ?? { doc_count: 0 };
+        return { count: bucket.doc_count as number, ...(withDetails && parsePatternDetails(bucket)) };
+      }),
+    };
+  }
+
+  /**
+   * Find spikes, dips and level shifts in log volume, overall or per
+   * groupBy value, with the change_point aggregation where the cluster
+   * supports it and the rolling detector otherwise
+   */
+  async detectLogAnomalies(
+    indexPattern: string,
+    startTime: string,
+    endTime: string,
+    kqlQuery?: string,
+    groupBy?: string,
+    interval?: string,
+    groupLimit: number = 5,
+    timeField?: string
+  ): Promise<LogAnomalyDetection> {
+    const aggMaxHours = this.maxTimeRangeHours * 7;
+    validateTimeRange(startTime, endTime, aggMaxHours);
+
+    // Absolute bounds so drill-down windows stay valid later
+    const start = resolveRelativeTime(startTime);
+    const end = resolveRelativeTime(endTime);
+    const effectiveInterval = interval || pickInterval(parseRelativeTime(end) - parseRelativeTime(start));
+
+    logger.debug("elasticsearch_logs_detect_anomalies", {
+      index: indexPattern,
+      group_by: groupBy,
+      interval: effectiveInterval,
+    });
+
+    const kqlFilter = kqlQuery ? kqlToDsl(kqlQuery) : undefined;
+    const queryFields = await this.resolveQueryFields(
+      indexPattern, timeField, [groupBy, ...(kqlQuery ? kqlFields(kqlQuery) : [])]
+    );
+
+    const histogramAggs = (withChangePoints: boolean): Record<string, unknown> => ({
+      over_time: {
+        date_histogram: {
+          field: queryFields.timeField,
+          fixed_interval: effectiveInterval,
+          min_doc_count: 0,
+          extended_bounds: { min: start, max: end },
+        },
       },
-      sort: [{ "@timestamp": "desc" }],
-    };
+      ...(withChangePoints && { change_points: { change_point: { buckets_path: "over_time>_count" } } }),
+    });
 
-    // Limit fields if specified
-    if (fields && fields.length > 0) {
-      query._source = fields;
-    }
+    const runSearch = (withChangePoints: boolean) => this.search(indexPattern, {
+      ...(queryFields.runtimeMappings && { runtime_mappings: queryFields.runtimeMappings }),
+      size: 0,
+      query: this.buildSearchFilter(queryFields.timeField, start, end, kqlFilter),
+      aggs: groupBy
+        ? {
+          by_group: {
+            terms: { field: groupBy, size: Math.min(groupLimit, MAX_ANOMALY_GROUPS) },
+            aggs: histogramAggs(withChangePoints),
+          },
+        }
+        : histogramAggs(withChangePoints),
+    });
 
-    const response = await this.search<Record<string, unknown>>(indexPattern, query);
+    let method: LogAnomalyDetection["method"] = "change_point";
+    let response;
+    try {
+      response = await runSearch(true);
+    } catch (error) {
+      // change_point needs 8.7+ and a license with machine learning
+      const unsupported = error instanceof ElasticsearchApiError &&
+        (error.statusCode === 400 || error.statusCode === 403) &&
+        /change_point|unknown aggregation|license/i.test(error.message);
+      if (!unsupported) {
+        throw error;
+      }
+      logger.debug("elasticsearch_logs_change_point_unavailable", {
+        index: indexPattern,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      method = "rolling_mad";
+      response = await runSearch(false);
+    }
 
-    return {
-      logs: response.hits.hits.map((hit) => ({
-        id: hit._id,
-        index: hit._index,
-        timestamp: String((hit._source as Record<string, unknown>)["@timestamp"] || ""),
-        source: hit._source as Record<string, unknown>,
-      })),
-      total: response.hits.total.value,
-    };
-  }
+    const series: Array<{ group?: string; aggs: Record<string, unknown> }> = groupBy
+      ? ((response.aggregations?.by_group as { buckets: Array<Record<string, unknown>> })?.buckets || [])
+        .map((bucket) => ({ group: String(bucket.key), aggs: bucket }))
+      : [{ aggs: response.aggregations ?? {} }];
 
-  /**
-   * Get latest logs (tail)
-   */
-  async getLatestLogs(
-    indexPattern: string,
-    kqlQuery?: string,
-    limit: number = 50
-  ): Promise<LogEntry[]> {
-    const effectiveLimit = Math.min(limit, 200);
-    
-    // Latest logs use fixed 1h window - no validation needed
-    const result = await this.searchLogs(
-      indexPattern,
-      "now-1h",
-      "now",
-      kqlQuery,
-      undefined,
-      effectiveLimit
-    );
+    const anomalies = series.flatMap(({ group, aggs }) => {
+      const drillQuery = [kqlQuery && `(${kqlQuery})`, groupBy && group !== undefined && kqlPhrase(groupBy, group)]
+        .filter(Boolean)
+        .join(" and ");
+      return seriesAnomalies(aggs, method, end, drillQuery).map((anomaly) => ({ group, ...anomaly }));
+    });
+    anomalies.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 
-    return result.logs;
+    return { method, interval: effectiveInterval, series: series.length, anomalies };
   }
 
   /**
-   * Get log context (surrounding logs)
+   * Rank field values over-represented in logs matching a foreground query
+   * against a background set (by default all logs in the same time range)
    */
-  async getLogContext(
+  async logFieldCorrelations(
     indexPattern: string,
-    logId: string,
-    before: number = 10,
-    after: number = 10
-  ): Promise<{ before: LogEntry[]; target: LogEntry | null; after: LogEntry[] }> {
-    logger.debug("elasticsearch_logs_context", { index: indexPattern, log_id: logId });
+    startTime: string,
+    endTime: string,
+    foregroundQuery: string,
+    background: { query?: string; startTime?: string; endTime?: string } = {},
+    fields?: string[],
+    limit: number = 20,
+    timeField?: string
+  ): Promise<LogFieldCorrelations> {
+    const aggMaxHours = this.maxTimeRangeHours * 7;
+    validateTimeRange(startTime, endTime, aggMaxHours);
+    const backgroundStart = background.startTime ?? startTime;
+    const backgroundEnd = background.endTime ?? endTime;
+    validateTimeRange(backgroundStart, backgroundEnd, aggMaxHours);
 
-    // First, get the target log
-    const targetQuery = {
-      query: {
-        ids: { values: [logId] },
-      },
-    };
+    logger.debug("elasticsearch_logs_field_correlations", { index: indexPattern, fields: fields?.length });
 
-    const targetResponse = await this.search<Record<string, unknown>>(indexPattern, targetQuery);
-    
-    if (targetResponse.hits.hits.length === 0) {
-      return { before: [], target: null, after: [] };
-    }
+    const foregroundFilter = kqlToDsl(foregroundQuery);
+    const backgroundFilter = background.query ? kqlToDsl(background.query) : undefined;
+    const foregroundFields = kqlFields(foregroundQuery);
 
-    const targetHit = targetResponse.hits.hits[0];
-    const targetTimestamp = (targetHit._source as Record<string, unknown>)["@timestamp"];
-    const target: LogEntry = {
-      id: targetHit._id,
-      index: targetHit._index,
-      timestamp: String(targetTimestamp || ""),
-      source: targetHit._source as Record<string, unknown>,
-    };
+    const resolvedTimeField = await this.resolveTimeField(indexPattern, timeField);
+    const selected = correlationFields(
+      await this.getFields(indexPattern), fields, [resolvedTimeField, ...foregroundFields]
+    );
+    const queryFields = await this.resolveQueryFields(indexPattern, resolvedTimeField, [
+      ...foregroundFields,
+      ...(background.query ? kqlFields(background.query) : []),
+      ...selected.terms,
+    ]);
+    const backgroundQuery = this.buildSearchFilter(
+      queryFields.timeField, backgroundStart, backgroundEnd, backgroundFilter
+    );
 
-    // Get logs before
-    const beforeQuery = {
-      size: before,
-      query: {
-        bool: {
-          filter: [
-            { range: { "@timestamp": { lt: targetTimestamp } } },
-          ],
+    const aggs: Record<string, unknown> = Object.fromEntries(selected.terms.map((field, i) => [
+      `f${i}`,
+      {
+        significant_terms: {
+          field,
+          size: CORRELATION_TERMS_PER_FIELD,
+          background_filter: backgroundQuery,
         },
       },
-      sort: [{ "@timestamp": "desc" }],
-    };
+    ]));
+    if (selected.text.length > 0) {
+      // significant_text re-analyzes documents, so it only looks at a sample
+      aggs.text_sample = {
+        sampler: { shard_size: SIGNIFICANT_TEXT_SAMPLE_SIZE },
+        aggs: Object.fromEntries(selected.text.map((field, i) => [
+          `t${i}`,
+          {
+            significant_text: {
+              field,
+              size: CORRELATION_TERMS_PER_FIELD,
+              filter_duplicate_text: true,
+              background_filter: backgroundQuery,
+            },
+          },
+        ])),
+      };
+    }
 
-    const beforeResponse = await this.search<Record<string, unknown>>(indexPattern, beforeQuery);
-    const beforeLogs = beforeResponse.hits.hits.map((hit) => ({
-      id: hit._id,
-      index: hit._index,
-      timestamp: String((hit._source as Record<string, unknown>)["@timestamp"] || ""),
-      source: hit._source as Record<string, unknown>,
-    })).reverse();
+    const response = await this.search(indexPattern, {
+      ...(queryFields.runtimeMappings && { runtime_mappings: queryFields.runtimeMappings }),
+      size: 0,
+      track_total_hits: true,
+      query: this.buildSearchFilter(queryFields.timeField, startTime, endTime, foregroundFilter),
+      aggs,
+    });
 
-    // Get logs after
-    const afterQuery = {
-      size: after,
-      query: {
-        bool: {
-          filter: [
-            { range: { "@timestamp": { gt: targetTimestamp } } },
-          ],
-        },
-      },
-      sort: [{ "@timestamp": "asc" }],
+    type SignificantAgg = {
+      bg_count?: number;
+      buckets: Array<{ key: string | number; doc_count: number; bg_count: number; score: number }>;
     };
+    const foregroundTotal = response.hits.total.value;
+    let backgroundTotal = 0;
+    const correlations: FieldCorrelation[] = [];
+
+    selected.terms.forEach((field, i) => {
+      const agg = response.aggregations?.[`f${i}`] as SignificantAgg | undefined;
+      backgroundTotal = agg?.bg_count ?? backgroundTotal;
+      for (const bucket of agg?.buckets ?? []) {
+        correlations.push(toCorrelation(field, "terms", bucket, foregroundTotal, agg?.bg_count ?? 0));
+      }
+    });
 
-    const afterResponse = await this.search<Record<string, unknown>>(indexPattern, afterQuery);
-    const afterLogs = afterResponse.hits.hits.map((hit) => ({
-      id: hit._id,
-      index: hit._index,
-      timestamp: String((hit._source as Record<string, unknown>)["@timestamp"] || ""),
-      source: hit._source as Record<string, unknown>,
-    }));
+    const textSample = response.aggregations?.text_sample as Record<string, unknown> & { doc_count?: number } | undefined;
+    selected.text.forEach((field, i) => {
+      const agg = textSample?.[`t${i}`] as SignificantAgg | undefined;
+      backgroundTotal = agg?.bg_count ?? backgroundTotal;
+      for (const bucket of agg?.buckets ?? []) {
+        correlations.push(toCorrelation(field, "text", bucket, textSample?.doc_count ?? 0, agg?.bg_count ?? 0));
+      }
+    });
 
-    return { before: beforeLogs, target, after: afterLogs };
+    correlations.sort((a, b) => b.score - a.score);
+
+    return {
+      foreground: { query: foregroundQuery, startTime, endTime, total: foregroundTotal },
+      background: { query: background.query, startTime: backgroundStart, endTime: backgroundEnd, total: backgroundTotal },
+      fieldsAnalyzed: [...selected.terms, ...selected.text],
+      correlations: correlations.slice(0, limit),
+    };
   }
 
   /**
-   * Aggregate logs
+   * Aggregate logs by one or more fields
    */
   async aggregateLogs(
     indexPattern: string,
     startTime: string,
     endTime: string,
-    groupBy: string,
+    groupBy: string | string[],
     kqlQuery?: string,
     timeInterval?: string,
     metric: "count" | "avg" | "sum" | "min" | "max" = "count",
     metricField?: string,
-    limit: number = 10
-  ): Promise<AggregationBucket[]> {
+    limit: number = 10,
+    grouping: GroupingOptions = {},
+    metrics: LogMetric[] = [],
+    timeField?: string
+  ): Promise<LogAggregation> {
     // Aggregations can use a longer time range (7 days) since they're summarized
     const aggMaxHours = this.maxTimeRangeHours * 7; // 7x the normal limit for aggregations
     validateTimeRange(startTime, endTime, aggMaxHours);
     
+    const groupFields = typeof groupBy === "string" ? [groupBy] : groupBy;
     logger.debug("elasticsearch_logs_aggregate", {
       index: indexPattern,
-      group_by: groupBy,
+      group_by: groupFields,
+      mode: grouping.mode,
+      metric,
+      metrics: metrics.map((m) => m.type),
+    });
+
+    const queryFields = await this.resolveQueryFields(
+      indexPattern, timeField, aggregationFields(groupFields, kqlQuery, metricField, metrics)
+    );
+    const query = this.buildAggregationQuery(
+      queryFields, startTime, endTime, groupFields, kqlQuery, timeInterval, metric, metricField, limit, grouping, metrics
+    );
+
+    const response = await this.search(indexPattern, query);
+    return parseGroupedBuckets(response.aggregations, groupFields, grouping.mode, {
+      toSample: (hit) => this.toLogEntry(hit, queryFields.timeField),
+      metrics: metricContext(metrics, startTime, endTime, timeInterval),
+    });
+  }
+
+  /**
+   * Aggregate logs as an async search, returning partial results and a
+   * search id if it does not finish within `waitSeconds`
+   */
+  async aggregateLogsAsync(
+    indexPattern: string,
+    startTime: string,
+    endTime: string,
+    groupBy: string | string[],
+    kqlQuery?: string,
+    timeInterval?: string,
+    metric: "count" | "avg" | "sum" | "min" | "max" = "count",
+    metricField?: string,
+    limit: number = 10,
+    grouping: GroupingOptions = {},
+    metrics: LogMetric[] = [],
+    waitSeconds: number = 10,
+    timeField?: string
+  ): Promise<AsyncAggregationResult<LogAggregation>> {
+    const aggMaxHours = this.maxTimeRangeHours * 7;
+    validateTimeRange(startTime, endTime, aggMaxHours);
+
+    const groupFields = typeof groupBy === "string" ? [groupBy] : groupBy;
+    logger.debug("elasticsearch_logs_aggregate_async", {
+      index: indexPattern,
+      group_by: groupFields,
+      mode: grouping.mode,
       metric,
+      metrics: metrics.map((m) => m.type),
+      wait_seconds: waitSeconds,
+    });
+
+    const queryFields = await this.resolveQueryFields(
+      indexPattern, timeField, aggregationFields(groupFields, kqlQuery, metricField, metrics)
+    );
+    const query = this.buildAggregationQuery(
+      queryFields, startTime, endTime, groupFields, kqlQuery, timeInterval, metric, metricField, limit, grouping, metrics
+    );
+
+    const response = await this.submitAsyncSearch(indexPattern, query, {
+      waitMs: waitSeconds * 1000,
+      keepAlive: ES_LOGS_CONFIG.asyncSearchKeepAlive,
     });
 
-    const effectiveLimit = Math.min(limit, 50);
+    const running = response.is_running && !!response.id;
+    const handleGrouping = { fields: groupFields, mode: grouping.mode ?? "nested", timeField: queryFields.timeField };
+    const context = metricContext(metrics, startTime, endTime, timeInterval);
+    return {
+      status: running ? "running" : "complete",
+      isPartial: response.is_partial,
+      searchId: running
+        ? encodeAsyncSearchHandle({
+          kind: "aggregate",
+          cluster: this.getClusterName(),
+          ids: [response.id!],
+          grouping: handleGrouping,
+          ...(metrics.length > 0 && { metrics: context }),
+        })
+        : undefined,
+      result: parseGroupedBuckets(response.response.aggregations, groupFields, grouping.mode, {
+        toSample: (hit) => this.toLogEntry(hit, queryFields.timeField),
+        metrics: context,
+      }),
+    };
+  }
+
+  /**
+   * Build the grouping aggregation shared by sync and async aggregations
+   */
+  private buildAggregationQuery(
+    { timeField, runtimeMappings }: { timeField: string; runtimeMappings?: Record<string, RuntimeField> },
+    startTime: string,
+    endTime: string,
+    groupBy: string[],
+    kqlQuery: string | undefined,
+    timeInterval: string | undefined,
+    metric: "count" | "avg" | "sum" | "min" | "max",
+    metricField: string | undefined,
+    limit: number,
+    grouping: GroupingOptions = {},
+    metrics: LogMetric[] = []
+  ): object {
+    const effectiveLimit = Math.min(limit, grouping.mode === "composite" ? MAX_COMPOSITE_PAGE_SIZE : MAX_GROUPS);
 
     const filters: object[] = [
-      { range: { "@timestamp": { gte: startTime, lte: endTime } } },
+      { range: { [timeField]: { gte: startTime, lte: endTime } } },
     ];
 
     if (kqlQuery) {
-      filters.push({
-        query_string: {
-          query: kqlQuery,
-          default_operator: "AND",
-        },
-      });
+      filters.push(kqlToDsl(kqlQuery));
     }
 
-    // Build aggregation
-    const aggs: Record<string, unknown> = {
-      by_group: {
-        terms: {
-          field: groupBy,
-          size: effectiveLimit,
-        },
-        aggs: {},
-      },
-    };
-
-    const groupAggs = aggs.by_group as { aggs: Record<string, unknown> };
+    // Sub-aggregations of the innermost groups
+    const groupAggs: Record<string, unknown> = {};
 
-    // Add time histogram if requested
+    // Add time histogram if requested, with the metrics per time bucket
     if (timeInterval) {
-      groupAggs.aggs.over_time = {
+      groupAggs.over_time = {
         date_histogram: {
-          field: "@timestamp",
+          field: timeField,
           fixed_interval: timeInterval,
         },
+        ...(metrics.length > 0 && { aggs: metricAggs(metrics) }),
       };
     }
 
+    Object.assign(groupAggs, metricAggs(metrics));
+
     // Add metric aggregation if not count
     if (metric !== "count" && metricField) {
-      groupAggs.aggs.metric_value = {
+      groupAggs.metric_value = {
         [metric]: { field: metricField },
       };
     }
 
-    const query = {
+    if (grouping.samples) {
+      groupAggs.samples = {
+        top_hits: {
+          size: Math.min(grouping.samples, MAX_GROUP_SAMPLES),
+          sort: [{ [timeField]: "desc" }],
+        },
+      };
+    }
+
+    const aggs = groupingAggs(groupBy, groupAggs, effectiveLimit, grouping.mode, grouping.after);
+
+    return {
+      ...(runtimeMappings && { runtime_mappings: runtimeMappings }),
       size: 0,
       query: {
         bool: { filter: filters },
       },
       aggs,
     };
+  }
 
-    const response = await this.search(indexPattern, query);
-    const buckets = (response.aggregations?.by_group as { buckets: Array<Record<string, unknown>> })?.buckets || [];
+  /**
+   * Compare two time periods
+   */
+  async comparePeriods(
+    indexPattern: string,
+    groupBy: string,
+    period1Start: string,
+    period1End: string,
+    period2Start: string,
+    period2End: string,
+    kqlQuery?: string,
+    metric: "count" | "avg" | "sum" = "count",
+    metricField?: string,
+    metrics: LogMetric[] = [],
+    timeField?: string
+  ): Promise<PeriodComparison> {
+    // Validate both periods use aggregation limit (7x normal)
+    const aggMaxHours = this.maxTimeRangeHours * 7;
+    validateTimeRange(period1Start, period1End, aggMaxHours);
+    validateTimeRange(period2Start, period2End, aggMaxHours);
+    
+    logger.debug("elasticsearch_logs_compare", { index: indexPattern, group_by: groupBy });
 
-    return buckets.map((bucket) => {
-      const result: AggregationBucket = {
-        key: String(bucket.key),
-        doc_count: bucket.doc_count as number,
-      };
+    const timeFieldName = await this.resolveTimeField(indexPattern, timeField);
 
-      // Add time breakdown if present
-      if (bucket.over_time) {
-        const timeBuckets = (bucket.over_time as { buckets: Array<{ key_as_string: string; doc_count: number }> }).buckets;
-        result.over_time = timeBuckets.map((tb) => ({
-          time: tb.key_as_string,
-          count: tb.doc_count,
-        }));
-      }
+    // Pinned, so the group lookups search the same windows
+    const periods = comparedPeriods(period1Start, period1End, period2Start, period2End);
+
+    // Query both periods
+    const [period1Result, period2Result] = await Promise.all(periods.map(([start, end]) =>
+      this.aggregateLogs(indexPattern, start, end, groupBy, kqlQuery, undefined, metric, metricField, 50, {}, metrics, timeFieldName)
+    ));
+
+    const lookup: ComparisonLookup = {
+      indexPattern, groupBy, query: kqlQuery, metricField, timeField: timeFieldName, periods,
+    };
+    const contexts = periods.map(([start, end]) => metricContext(metrics, start, end)) as [MetricContext, MetricContext];
+    const { buckets, presence } = await this.lookupMissingGroups(
+      lookup, [period1Result.buckets, period2Result.buckets], metric, contexts
+    );
+    return buildComparison(buckets[0], buckets[1], metric, periodDurations(periods), presence);
+  }
+
+  /**
+   * Look up the groups found in only one period's top groups in the other
+   * period, filtering on their keys. Groups that merely ranked below the top
+   * groups there get their values; those with no logs there appeared or
+   * disappeared.
+   */
+  private async lookupMissingGroups(
+    lookup: ComparisonLookup,
+    buckets: [AggregationBucket[], AggregationBucket[]],
+    metric: "count" | "avg" | "sum",
+    metrics?: [MetricContext, MetricContext]
+  ): Promise<{ buckets: [AggregationBucket[], AggregationBucket[]]; presence: GroupPresence }> {
+    const requested = metrics?.[0].metrics ?? [];
+    const queryFields = await this.resolveQueryFields(
+      lookup.indexPattern, lookup.timeField, aggregationFields([lookup.groupBy], lookup.query, lookup.metricField, requested)
+    );
 
-      // Add metric value if present
-      if (bucket.metric_value) {
-        result.metric_value = (bucket.metric_value as { value: number }).value;
+    const found = await Promise.all(([0, 1] as const).map(async (period) => {
+      const keys = new Set(buckets[period].map((bucket) => bucket.key));
+      const missing = buckets[1 - period].map((bucket) => bucket.key).filter((key) => !keys.has(key));
+      if (missing.length === 0) {
+        return { buckets: [], absent: [] };
       }
 
-      return result;
+      const [start, end] = lookup.periods[period];
+      const query = this.buildAggregationQuery(
+        queryFields, start, end, [lookup.groupBy], lookup.query, undefined, metric, lookup.metricField,
+        missing.length, {}, requested
+      ) as { query: { bool: { filter: object[] } } };
+      query.query.bool.filter.push({ terms: { [lookup.groupBy]: missing } });
+
+      const response = await this.search(lookup.indexPattern, query);
+      const { buckets: lookedUp } = parseGroupedBuckets(response.aggregations, [lookup.groupBy], "nested", {
+        metrics: metrics?.[period],
+      });
+      const present = new Set(lookedUp.map((bucket) => bucket.key));
+      return { buckets: lookedUp, absent: missing.filter((key) => !present.has(key)) };
+    }));
+
+    logger.debug("elasticsearch_logs_compare_lookup", {
+      index: lookup.indexPattern,
+      appeared: found[0].absent.length,
+      disappeared: found[1].absent.length,
     });
+
+    return {
+      buckets: [[...buckets[0], ...found[0].buckets], [...buckets[1], ...found[1].buckets]],
+      presence: { appeared: found[0].absent, disappeared: found[1].absent },
+    };
   }
 
   /**
-   * Compare two time periods
+   * Compare two time periods with one async search per period
    */
-  async comparePeriods(
+  async comparePeriodsAsync(
     indexPattern: string,
     groupBy: string,
     period1Start: string,
@@ -614,65 +2466,281 @@ export class LogsElasticsearchClient extends BaseElasticsearchClient {
     period2End: string,
     kqlQuery?: string,
     metric: "count" | "avg" | "sum" = "count",
-    metricField?: string
-  ): Promise<{
-    period1: { total: number; byGroup: Record<string, number> };
-    period2: { total: number; byGroup: Record<string, number> };
-    change: { total: string; byGroup: Record<string, string> };
-  }> {
-    // Validate both periods use aggregation limit (7x normal)
+    metricField?: string,
+    metrics: LogMetric[] = [],
+    waitSeconds: number = 10,
+    timeField?: string
+  ): Promise<AsyncAggregationResult<PeriodComparison>> {
     const aggMaxHours = this.maxTimeRangeHours * 7;
     validateTimeRange(period1Start, period1End, aggMaxHours);
     validateTimeRange(period2Start, period2End, aggMaxHours);
-    
-    logger.debug("elasticsearch_logs_compare", { index: indexPattern, group_by: groupBy });
 
-    // Query both periods
-    const [period1Result, period2Result] = await Promise.all([
-      this.aggregateLogs(indexPattern, period1Start, period1End, groupBy, kqlQuery, undefined, metric, metricField, 50),
-      this.aggregateLogs(indexPattern, period2Start, period2End, groupBy, kqlQuery, undefined, metric, metricField, 50),
-    ]);
+    logger.debug("elasticsearch_logs_compare_async", {
+      index: indexPattern,
+      group_by: groupBy,
+      wait_seconds: waitSeconds,
+    });
 
-    // Calculate totals
-    const getValue = (bucket: AggregationBucket) => metric === "count" ? bucket.doc_count : (bucket.metric_value || 0);
-    
-    const period1Total = period1Result.reduce((sum, b) => sum + getValue(b), 0);
-    const period2Total = period2Result.reduce((sum, b) => sum + getValue(b), 0);
+    const queryFields = await this.resolveQueryFields(
+      indexPattern, timeField, aggregationFields([groupBy], kqlQuery, metricField, metrics)
+    );
+    const periods = comparedPeriods(period1Start, period1End, period2Start, period2End);
 
-    // Build by-group maps
-    const period1ByGroup: Record<string, number> = {};
-    const period2ByGroup: Record<string, number> = {};
+    // Both searches are kept on completion so a poll can always read both periods
+    const options = {
+      waitMs: waitSeconds * 1000,
+      keepAlive: ES_LOGS_CONFIG.asyncSearchKeepAlive,
+      keepOnCompletion: true,
+    };
+    const [period1, period2] = await Promise.all(periods.map(([start, end]) =>
+      this.submitAsyncSearch(indexPattern, this.buildAggregationQuery(
+        queryFields, start, end, [groupBy], kqlQuery, undefined, metric, metricField, 50, {}, metrics
+      ), options)
+    ));
+
+    const contexts = periods.map(([start, end]) => metricContext(metrics, start, end)) as [MetricContext, MetricContext];
+    const durationsMs = periodDurations(periods);
+    const lookup: ComparisonLookup = {
+      indexPattern, groupBy, query: kqlQuery, metricField, timeField: queryFields.timeField, periods,
+    };
+    const buckets: [AggregationBucket[], AggregationBucket[]] = [
+      parseGroupedBuckets(period1.response.aggregations, [groupBy], "nested", { metrics: contexts[0] }).buckets,
+      parseGroupedBuckets(period2.response.aggregations, [groupBy], "nested", { metrics: contexts[1] }).buckets,
+    ];
+    const running = period1.is_running || period2.is_running;
 
-    for (const bucket of period1Result) {
-      period1ByGroup[bucket.key] = getValue(bucket);
-    }
-    for (const bucket of period2Result) {
-      period2ByGroup[bucket.key] = getValue(bucket);
+    if (!running) {
+      this.deleteAsyncSearchesQuietly([period1.id, period2.id]);
+      const complete = await this.lookupMissingGroups(lookup, buckets, metric, contexts);
+      return {
+        status: "complete",
+        isPartial: period1.is_partial || period2.is_partial,
+        result: buildComparison(complete.buckets[0], complete.buckets[1], metric, durationsMs, complete.presence),
+      };
     }
 
-    // Calculate changes
-    const calculateChange = (old: number, current: number): string => {
-      if (old === 0) return current > 0 ? "+∞%" : "0%";
-      const change = ((current - old) / old) * 100;
-      const sign = change >= 0 ? "+" : "";
-      return `${sign}${Math.round(change)}%`;
+    return {
+      status: "running",
+      isPartial: true,
+      searchId: encodeAsyncSearchHandle({
+        kind: "compare",
+        cluster: this.getClusterName(),
+        ids: [period1.id!, period2.id!],
+        metric,
+        ...(metrics.length > 0 && { metrics: contexts }),
+        durationsMs,
+        lookup,
+      }),
+      result: buildComparison(buckets[0], buckets[1], metric, durationsMs),
     };
+  }
+
+  /**
+   * Poll an async aggregation started by aggregateLogsAsync or comparePeriodsAsync.
+   * Stored results are deleted once the final result has been returned.
+   */
+  async getAsyncResults(searchId: string, waitSeconds: number = 10): Promise<AsyncLogResults> {
+    const handle = decodeAsyncSearchHandle(searchId);
+    if (handle.cluster !== this.getClusterName()) {
+      throw new InvalidAsyncSearchIdError(`search id belongs to cluster '${handle.cluster}'`);
+    }
+
+    logger.debug("elasticsearch_logs_async_poll", { kind: handle.kind, wait_seconds: waitSeconds });
+
+    let responses;
+    try {
+      responses = await Promise.all(handle.ids.map((id) => this.getAsyncSearch(id, waitSeconds * 1000)));
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError && error.statusCode === 404) {
+        throw new AsyncSearchExpiredError();
+      }
+      throw error;
+    }
 
-    const changeByGroup: Record<string, string> = {};
-    const allKeys = new Set([...Object.keys(period1ByGroup), ...Object.keys(period2ByGroup)]);
-    for (const key of allKeys) {
-      changeByGroup[key] = calculateChange(period1ByGroup[key] || 0, period2ByGroup[key] || 0);
+    const running = responses.some((r) => r.is_running);
+    const isPartial = responses.some((r) => r.is_partial);
+    if (!running) {
+      this.deleteAsyncSearchesQuietly(handle.ids);
+    }
+    const status = running ? "running" : "complete";
+    const stillRunningId = running ? searchId : undefined;
+
+    if (handle.kind === "compare") {
+      // Comparisons group by a single field, whose name the buckets do not need
+      let buckets: [AggregationBucket[], AggregationBucket[]] = [
+        parseGroupedBuckets(responses[0].response.aggregations, ["group"], "nested", {
+          metrics: handle.metrics?.[0],
+        }).buckets,
+        parseGroupedBuckets(responses[1].response.aggregations, ["group"], "nested", {
+          metrics: handle.metrics?.[1],
+        }).buckets,
+      ];
+      let presence: GroupPresence | undefined;
+      if (!running) {
+        // As comparePeriodsAsync checked them before the handle was issued
+        const aggMaxHours = this.maxTimeRangeHours * 7;
+        for (const [start, end] of handle.lookup.periods) {
+          validateTimeRange(start, end, aggMaxHours);
+        }
+        ({ buckets, presence } = await this.lookupMissingGroups(handle.lookup, buckets, handle.metric, handle.metrics));
+      }
+      return {
+        kind: "compare",
+        status,
+        isPartial,
+        searchId: stillRunningId,
+        result: buildComparison(buckets[0], buckets[1], handle.metric, handle.durationsMs, presence),
+      };
     }
 
+    const grouping = handle.grouping;
     return {
-      period1: { total: period1Total, byGroup: period1ByGroup },
-      period2: { total: period2Total, byGroup: period2ByGroup },
-      change: {
-        total: calculateChange(period1Total, period2Total),
-        byGroup: changeByGroup,
-      },
+      kind: "aggregate",
+      status,
+      isPartial,
+      searchId: stillRunningId,
+      result: parseGroupedBuckets(responses[0].response.aggregations, grouping.fields, grouping.mode, {
+        toSample: (hit) => this.toLogEntry(hit, grouping.timeField),
+        metrics: handle.metrics,
+      }),
     };
   }
+
+  private deleteAsyncSearchesQuietly(ids: Array<string | undefined>): void {
+    for (const id of ids) {
+      if (!id) continue;
+      this.deleteAsyncSearch(id).catch((error) => {
+        logger.debug("elasticsearch_logs_async_delete_failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Aggregation Results
+// ============================================================================
+
+/**
+ * The two periods of a comparison, with relative times pinned to the same
+ * "now" so periods of the same length compare exactly
+ */
+function comparedPeriods(
+  period1Start: string,
+  period1End: string,
+  period2Start: string,
+  period2End: string
+): [[string, string], [string, string]] {
+  const now = Date.now();
+  return [
+    [resolveRelativeTime(period1Start, now), resolveRelativeTime(period1End, now)],
+    [resolveRelativeTime(period2Start, now), resolveRelativeTime(period2End, now)],
+  ];
+}
+
+function periodDurations(periods: [[string, string], [string, string]]): [number, number] {
+  return [
+    parseRelativeTime(periods[0][1]) - parseRelativeTime(periods[0][0]),
+    parseRelativeTime(periods[1][1]) - parseRelativeTime(periods[1][0]),
+  ];
+}
+
+/**
+ * Window of the same length just before a time range
+ */
+function precedingWindow(startTime: string, endTime: string): { startTime: string; endTime: string } {
+  const start = parseRelativeTime(startTime);
+  const end = parseRelativeTime(endTime);
+  return {
+    startTime: new Date(start - (end - start)).toISOString(),
+    endTime: new Date(start).toISOString(),
+  };
+}
+
+/**
+ * First/last seen and the latest document of a pattern bucket
+ */
+function patternDetailAggs(timeField: string): Record<string, unknown> {
+  return {
+    first_seen: { min: { field: timeField } },
+    last_seen: { max: { field: timeField } },
+    sample: { top_hits: { size: 1, sort: [{ [timeField]: "desc" }], _source: false } },
+  };
+}
+
+function parsePatternDetails(bucket: Record<string, unknown>): Pick<LogPattern, "firstSeen" | "lastSeen" | "sampleId"> {
+  const firstSeen = bucket.first_seen as { value_as_string?: string } | undefined;
+  const lastSeen = bucket.last_seen as { value_as_string?: string } | undefined;
+  const sample = bucket.sample as { hits: { hits: Array<{ _id: string }> } } | undefined;
+  return {
+    firstSeen: firstSeen?.value_as_string,
+    lastSeen: lastSeen?.value_as_string,
+    sampleId: sample?.hits.hits[0]?._id,
+  };
+}
+
+/**
+ * Anomalies in one histogram series, from its change_points result or the
+ * rolling detector. A change lasts until the next bucket, or to the end of
+ * the range for level shifts and trend changes.
+ */
+function seriesAnomalies(
+  aggs: Record<string, unknown>,
+  method: LogAnomalyDetection["method"],
+  endTime: string,
+  query: string
+): Array<Omit<LogAnomaly, "group">> {
+  const buckets = (aggs.over_time as { buckets: Array<{ key_as_string: string; doc_count: number }> })?.buckets || [];
+  const counts = buckets.map((bucket) => bucket.doc_count);
+  const bucketEnd = (index: number) => buckets[index + 1]?.key_as_string ?? endTime;
+
+  if (method === "rolling_mad") {
+    return detectChanges(counts).map((change) => ({
+      type: change.type,
+      direction: change.direction,
+      timestamp: buckets[change.start].key_as_string,
+      actual: change.actual,
+      expected: change.expected,
+      zScore: change.zScore,
+      drillDown: { startTime: buckets[change.start].key_as_string, endTime: bucketEnd(change.end), query },
+    }));
+  }
+
+  const changePoints = aggs.change_points as
+    | { type: Record<string, { p_value?: number; change_point?: number }> }
+    | undefined;
+  const [kind, details] = Object.entries(changePoints?.type ?? {})[0] ?? [];
+  const index = details?.change_point;
+  const types: Record<string, LogAnomalyType> = {
+    spike: "spike",
+    dip: "dip",
+    step_change: "level_shift",
+    trend_change: "trend_change",
+    distribution_change: "distribution_change",
+  };
+  // stationary, non_stationary and indeterminable series have nothing to report
+  if (!kind || !types[kind] || index === undefined || !buckets[index]) {
+    return [];
+  }
+
+  const type = types[kind];
+  const expected = median(counts.slice(0, index));
+  const sustained = type !== "spike" && type !== "dip";
+  const actual = sustained ? median(counts.slice(index)) : counts[index];
+  return [{
+    type,
+    direction: type === "dip" || (type !== "spike" && actual < expected) ? "down" : "up",
+    timestamp: buckets[index].key_as_string,
+    actual,
+    expected,
+    pValue: details.p_value,
+    drillDown: {
+      startTime: buckets[index].key_as_string,
+      endTime: sustained ? endTime : bucketEnd(index),
+      query,
+    },
+  }];
 }
 
 // ============================================================================
@@ -681,17 +2749,42 @@ export class LogsElasticsearchClient extends BaseElasticsearchClient {
 
 const MAX_POOL_SIZE = parseInt(process.env.MAX_CLIENT_POOL_SIZE || "50", 10);
 const CACHE_TTL_MS = parseInt(process.env.CACHE_TTL_MINUTES || "30", 10) * 60 * 1000;
+const CREDENTIAL_TTL_MS = ES_PASSTHROUGH_CONFIG.ttlMinutes * 60 * 1000;
+
+interface PoolEntry {
+  client: LogsElasticsearchClient;
+  lastUsed: number;
+  createdAt: number;
+  /** Entries holding a caller credential always expire */
+  hasCallerCredential: boolean;
+}
 
-const clientPool = new Map<string, { client: LogsElasticsearchClient; lastUsed: number; createdAt: number }>();
+const clientPool = new Map<string, PoolEntry>();
 
-function isExpired(entry: { createdAt: number }): boolean {
+function isExpired(entry: PoolEntry): boolean {
+  if (entry.hasCallerCredential) {
+    return Date.now() - entry.createdAt > CREDENTIAL_TTL_MS;
+  }
   if (CACHE_TTL_MS === 0) return false;
   return Date.now() - entry.createdAt > CACHE_TTL_MS;
 }
 
-function getConnectionFingerprint(): string {
-  // Since auth comes from env vars, all logs clients use the same connection
-  return "logs|default";
+/**
+ * Drop expired entries so caller credentials don't outlive their TTL in memory
+ */
+function evictExpired(): void {
+  for (const [key, entry] of clientPool.entries()) {
+    if (isExpired(entry)) {
+      clientPool.delete(key);
+    }
+  }
+}
+
+setInterval(evictExpired, 60 * 1000).unref();
+
+function getConnectionFingerprint(params: LogsAuthParams, credential?: CallerCredential): string {
+  // Logs clients differ by cluster profile and the (hashed) caller credential
+  return `logs|${getClusterProfile(params.cluster).name}|${credentialFingerprint(credential)}`;
 }
 
 function evictLRUIfNeeded(): void {
@@ -724,8 +2817,10 @@ export function clearLogsPool(): void {
   clientPool.clear();
 }
 
-export function createLogsClient(): LogsElasticsearchClient {
-  const fingerprint = getConnectionFingerprint();
+export function createLogsClient(params: LogsAuthParams = {}, credential?: CallerCredential): LogsElasticsearchClient {
+  evictExpired();
+
+  const fingerprint = getConnectionFingerprint(params, credential);
   const cached = clientPool.get(fingerprint);
   
   if (cached) {
@@ -737,12 +2832,12 @@ export function createLogsClient(): LogsElasticsearchClient {
     }
   }
 
-  const client = new LogsElasticsearchClient();
+  const client = new LogsElasticsearchClient(params, credential);
 
   evictLRUIfNeeded();
 
   const now = Date.now();
-  clientPool.set(fingerprint, { client, lastUsed: now, createdAt: now });
+  clientPool.set(fingerprint, { client, lastUsed: now, createdAt: now, hasCallerCredential: !!credential });
 
   return client;
 }
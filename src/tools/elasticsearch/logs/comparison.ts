@@ -0,0 +1,236 @@
+/**
+ * Period comparisons
+ *
+ * compare_log_periods compares each group's value in two periods:
+ * - counts and sums are compared per hour, so periods of different lengths
+ *   compare fairly; averages are compared as they are
+ * - each change comes as a formatted string ("+25%") and as numbers
+ * - count changes carry the p-value of a Poisson rate test: given the logs of
+ *   both periods, is period 2's share what the period lengths predict? Small
+ *   groups swing by large percentages by chance alone.
+ * - groups in only one period's top groups are looked up in the other
+ *   period (see the client); those with no logs there are listed as appeared
+ *   or disappeared
+ */
+
+import type { AggregationBucket } from "./client.js";
+import type { MetricChange, PeriodComparison } from "./async.js";
+import type { MetricValue } from "./metrics.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Change of one value between the periods
+ */
+export interface ValueChange {
+  /** Period values, per hour for counts and sums */
+  period1: number;
+  period2: number;
+  /** period2 - period1 */
+  difference: number;
+  /** Percent change; null when period 1 is 0 and period 2 is not */
+  percent: number | null;
+  /** Two-sided p-value of the Poisson rate test (count metric only) */
+  pValue?: number;
+  /** pValue below SIGNIFICANCE_LEVEL */
+  significant?: boolean;
+}
+
+/**
+ * Groups confirmed to have no logs in one of the periods
+ */
+export interface GroupPresence {
+  /** Groups with logs in period 2 only */
+  appeared: string[];
+  /** Groups with logs in period 1 only */
+  disappeared: string[];
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/** p-value below which a count change is reported as significant */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Largest combined count tested exactly; larger ones use the normal approximation */
+const EXACT_TEST_MAX_COUNT = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Complementary error function (Abramowitz and Stegun 7.1.26, error < 1.5e-7)
+ */
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const value = poly * Math.exp(-x * x);
+  return x >= 0 ? value : 2 - value;
+}
+
+/**
+ * Two-sided p-value that two Poisson counts, observed over `ms1` and `ms2`,
+ * share one rate. Given their sum n, count2 is binomial with probability
+ * ms2 / (ms1 + ms2): exact up to EXACT_TEST_MAX_COUNT, normal beyond.
+ */
+export function poissonRateTest(count1: number, ms1: number, count2: number, ms2: number): number {
+  const n = count1 + count2;
+  if (n === 0 || ms1 <= 0 || ms2 <= 0) return 1;
+  const p = ms2 / (ms1 + ms2);
+
+  if (n > EXACT_TEST_MAX_COUNT) {
+    const z = (Math.abs(count2 - n * p) - 0.5) / Math.sqrt(n * p * (1 - p));
+    return z <= 0 ? 1 : significant(erfc(z / Math.SQRT2));
+  }
+
+  // ln(i!) for i = 0..n
+  const logFactorial = [0];
+  for (let i = 1; i <= n; i++) {
+    logFactorial.push(logFactorial[i - 1] + Math.log(i));
+  }
+  const logProbability = (k: number) =>
+    logFactorial[n] - logFactorial[k] - logFactorial[n - k] + k * Math.log(p) + (n - k) * Math.log(1 - p);
+
+  // Sum the outcomes no more likely than the observed one
+  const observed = logProbability(count2);
+  let pValue = 0;
+  for (let k = 0; k <= n; k++) {
+    const logP = logProbability(k);
+    if (logP <= observed + 1e-7) {
+      pValue += Math.exp(logP);
+    }
+  }
+  return significant(Math.min(1, pValue));
+}
+
+/** Three significant digits, which keep very small p-values readable */
+function significant(value: number): number {
+  return Number(value.toPrecision(3));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// ============================================================================
+// Changes
+// ============================================================================
+
+/**
+ * Percent change between two values, e.g. "+25%"
+ */
+export function percentChange(old: number, current: number): string {
+  if (old === 0) return current > 0 ? "+∞%" : "0%";
+  const change = ((current - old) / old) * 100;
+  const sign = change >= 0 ? "+" : "";
+  return `${sign}${Math.round(change)}%`;
+}
+
+/**
+ * Percent change of each metric value; null when either period has none
+ */
+export function metricChange(old: MetricValue | undefined, current: MetricValue | undefined): MetricChange {
+  if (old !== null && typeof old === "object") {
+    const currentValues = (current ?? {}) as Record<string, number | null>;
+    return Object.fromEntries(
+      Object.entries(old).map(([key, value]) => [key, metricChange(value, currentValues[key]) as string | null])
+    );
+  }
+  return typeof old === "number" && typeof current === "number" ? percentChange(old, current) : null;
+}
+
+/**
+ * Compare per-group values of two periods. Without the period lengths
+ * (async searches started before they were recorded) values are compared as
+ * they are.
+ */
+export function buildComparison(
+  period1Result: AggregationBucket[],
+  period2Result: AggregationBucket[],
+  metric: "count" | "avg" | "sum",
+  durationsMs?: [number, number],
+  presence?: GroupPresence
+): PeriodComparison {
+  // Calculate totals
+  const getValue = (bucket: AggregationBucket) => metric === "count" ? bucket.doc_count : (bucket.metric_value || 0);
+
+  const period1Total = period1Result.reduce((sum, b) => sum + getValue(b), 0);
+  const period2Total = period2Result.reduce((sum, b) => sum + getValue(b), 0);
+
+  // Build by-group maps
+  const period1ByGroup: Record<string, number> = {};
+  const period2ByGroup: Record<string, number> = {};
+
+  for (const bucket of period1Result) {
+    period1ByGroup[bucket.key] = getValue(bucket);
+  }
+  for (const bucket of period2Result) {
+    period2ByGroup[bucket.key] = getValue(bucket);
+  }
+
+  // Averages do not grow with the length of a period
+  const perHour = metric !== "avg" && !!durationsMs && durationsMs.every((ms) => ms > 0);
+  const hours = durationsMs?.map((ms) => round(ms / HOUR_MS));
+  const normalize = (value: number, period: 0 | 1) => (perHour ? value / (durationsMs![period] / HOUR_MS) : value);
+
+  const valueChange = (old: number, current: number): ValueChange => {
+    const period1 = normalize(old, 0);
+    const period2 = normalize(current, 1);
+    const change: ValueChange = {
+      period1: round(period1),
+      period2: round(period2),
+      difference: round(period2 - period1),
+      percent: period1 === 0 ? (period2 === 0 ? 0 : null) : Math.round(((period2 - period1) / period1) * 1000) / 10,
+    };
+    if (metric === "count") {
+      const [ms1, ms2] = perHour ? durationsMs! : [1, 1];
+      change.pValue = poissonRateTest(old, ms1, current, ms2);
+      change.significant = change.pValue < SIGNIFICANCE_LEVEL;
+    }
+    return change;
+  };
+
+  const changeByGroup: Record<string, string> = {};
+  const detailsByGroup: Record<string, ValueChange> = {};
+  const allKeys = new Set([...Object.keys(period1ByGroup), ...Object.keys(period2ByGroup)]);
+  for (const key of allKeys) {
+    const old = period1ByGroup[key] || 0;
+    const current = period2ByGroup[key] || 0;
+    changeByGroup[key] = percentChange(normalize(old, 0), normalize(current, 1));
+    detailsByGroup[key] = valueChange(old, current);
+  }
+
+  const comparison: PeriodComparison = {
+    period1: { total: period1Total, byGroup: period1ByGroup, ...(hours && { hours: hours[0] }) },
+    period2: { total: period2Total, byGroup: period2ByGroup, ...(hours && { hours: hours[1] }) },
+    normalization: perHour ? "per_hour" : "none",
+    change: {
+      total: percentChange(normalize(period1Total, 0), normalize(period2Total, 1)),
+      byGroup: changeByGroup,
+      details: { total: valueChange(period1Total, period2Total), byGroup: detailsByGroup },
+    },
+    ...presence,
+  };
+
+  // Requested metrics, per group, side by side
+  if ([...period1Result, ...period2Result].some((bucket) => bucket.metrics)) {
+    const metricsByGroup = (buckets: AggregationBucket[]) =>
+      Object.fromEntries(buckets.map((bucket) => [bucket.key, bucket.metrics ?? {}]));
+    const period1Metrics = metricsByGroup(period1Result);
+    const period2Metrics = metricsByGroup(period2Result);
+
+    comparison.period1.metricsByGroup = period1Metrics;
+    comparison.period2.metricsByGroup = period2Metrics;
+    comparison.change.metricsByGroup = Object.fromEntries(Array.from(allKeys, (key) => {
+      const names = new Set([...Object.keys(period1Metrics[key] ?? {}), ...Object.keys(period2Metrics[key] ?? {})]);
+      return [key, Object.fromEntries(Array.from(names, (name) => [
+        name,
+        metricChange(period1Metrics[key]?.[name], period2Metrics[key]?.[name]),
+      ]))];
+    }));
+  }
+
+  return comparison;
+}
@@ -0,0 +1,118 @@
+/**
+ * Log field correlations
+ *
+ * log_field_correlations finds field values over-represented in a foreground
+ * set of logs (e.g. `level:error`) compared to a background set, using the
+ * `significant_terms` aggregation on aggregatable fields and
+ * `significant_text` on text fields. By default:
+ * - the background is every log in the same time range
+ * - keyword, ip, boolean and integer fields are analyzed, except the time
+ *   field and fields the foreground query filters on, which would trivially
+ *   correlate
+ *
+ * Results from all fields are ranked together by significance score, with
+ * lift (foreground share / background share) and counts in both sets.
+ */
+
+import type { LogField } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A field value over-represented in the foreground set
+ */
+export interface FieldCorrelation {
+  field: string;
+  value: string;
+  /** significant_terms for aggregatable fields, significant_text for text */
+  source: "terms" | "text";
+  foregroundCount: number;
+  backgroundCount: number;
+  /** Share of foreground logs with the value (of the sample for text fields) */
+  foregroundShare: number;
+  backgroundShare: number;
+  /** foregroundShare / backgroundShare; null when the background has no match */
+  lift: number | null;
+  score: number;
+}
+
+export interface LogFieldCorrelations {
+  foreground: { query: string; startTime: string; endTime: string; total: number };
+  background: { query?: string; startTime: string; endTime: string; total: number };
+  fieldsAnalyzed: string[];
+  correlations: FieldCorrelation[];
+}
+
+// ============================================================================
+// Field Selection
+// ============================================================================
+
+/** Field types significant_terms is run on by default */
+const CORRELATION_FIELD_TYPES = new Set(["keyword", "ip", "boolean", "long", "integer", "short", "byte"]);
+
+/** Most fields analyzed in one request */
+export const MAX_CORRELATION_FIELDS = 50;
+
+/**
+ * Split fields into significant_terms and significant_text candidates.
+ * Requested fields are used as given; otherwise aggregatable fields of the
+ * default types are picked, plus `message` when it is a text field.
+ */
+export function correlationFields(
+  fields: LogField[],
+  requested: string[] | undefined,
+  excluded: string[]
+): { terms: string[]; text: string[] } {
+  const byName = new Map(fields.map((field) => [field.name, field]));
+
+  if (requested && requested.length > 0) {
+    return {
+      terms: requested.filter((name) => byName.get(name)?.type !== "text").slice(0, MAX_CORRELATION_FIELDS),
+      text: requested.filter((name) => byName.get(name)?.type === "text"),
+    };
+  }
+
+  const terms = fields
+    .filter((field) => field.aggregatable && CORRELATION_FIELD_TYPES.has(field.type))
+    .map((field) => field.name)
+    .filter((name) => !name.startsWith("_") && !excluded.includes(name))
+    .slice(0, MAX_CORRELATION_FIELDS);
+  const text = byName.get("message")?.type === "text" && !excluded.includes("message") ? ["message"] : [];
+
+  return { terms, text };
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * A significant_terms or significant_text bucket as a correlation
+ */
+export function toCorrelation(
+  field: string,
+  source: FieldCorrelation["source"],
+  bucket: { key: string | number; doc_count: number; bg_count: number; score: number },
+  foregroundTotal: number,
+  backgroundTotal: number
+): FieldCorrelation {
+  const foregroundShare = foregroundTotal > 0 ? bucket.doc_count / foregroundTotal : 0;
+  const backgroundShare = backgroundTotal > 0 ? bucket.bg_count / backgroundTotal : 0;
+  return {
+    field,
+    value: String(bucket.key),
+    source,
+    foregroundCount: bucket.doc_count,
+    backgroundCount: bucket.bg_count,
+    foregroundShare: round(foregroundShare),
+    backgroundShare: round(backgroundShare),
+    lift: backgroundShare > 0 ? round(foregroundShare / backgroundShare) : null,
+    score: round(bucket.score),
+  };
+}
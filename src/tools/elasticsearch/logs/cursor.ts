@@ -0,0 +1,198 @@
+/**
+ * Search cursors for paging through logs
+ *
+ * A cursor is an opaque signed token (see signing.ts) holding everything
+ * needed to fetch the next page consistently: the point-in-time (PIT) id, the
+ * `search_after` sort values of the last hit and the original query with its
+ * time range resolved to absolute timestamps. Tokens that were altered are
+ * rejected, so the query cannot be changed between pages.
+ *
+ * Open PITs are tracked here so the server, not the agent, manages them:
+ * - each page extends the PIT keep-alive
+ * - the PIT is closed as soon as the last page has been served
+ * - PITs idle past their keep-alive are dropped, and the least recently used
+ *   one is closed when ES_MAX_OPEN_PITS is reached
+ */
+
+import { logger } from "../../../lib/logging.js";
+import { ES_LOGS_CONFIG } from "./schema.js";
+import { signToken, verifyToken } from "./signing.js";
+import type { RuntimeField, SearchRefinement } from "./client.js";
+import type { LogOutputOptions } from "./output.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * State carried by a search_logs cursor
+ */
+export interface SearchCursor {
+  cluster: string;
+  pitId: string;
+  searchAfter: unknown[];
+  /** Hits served so far, to know when the result set is exhausted */
+  returned: number;
+  indexPattern: string;
+  timeField: string;
+  startTime: string;
+  endTime: string;
+  query?: string;
+  fields?: string[];
+  /** Data view runtime fields the query references */
+  runtimeMappings?: Record<string, RuntimeField>;
+  /** Highlighting, projection and field budget of the original search */
+  output?: LogOutputOptions;
+  /** Filters and sort of a saved search */
+  refinement?: SearchRefinement;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when a cursor cannot be decoded or belongs to another cluster
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(`Invalid cursor: ${message}`);
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Error thrown when a cursor's point in time is no longer available
+ */
+export class CursorExpiredError extends Error {
+  constructor() {
+    super("Cursor has expired. Run search_logs again without a cursor to start a new pagination.");
+    this.name = "CursorExpiredError";
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+const CURSOR_VERSION = 1;
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return signToken({ v: CURSOR_VERSION, ...cursor });
+}
+
+export function decodeCursor(token: string): SearchCursor {
+  const parsed = verifyToken(token);
+  if (!parsed) {
+    throw new InvalidCursorError("not a search_logs cursor, or it was altered");
+  }
+
+  if (
+    parsed.v !== CURSOR_VERSION ||
+    typeof parsed.pitId !== "string" ||
+    typeof parsed.timeField !== "string" ||
+    !Array.isArray(parsed.searchAfter) ||
+    typeof parsed.indexPattern !== "string"
+  ) {
+    throw new InvalidCursorError("not a search_logs cursor");
+  }
+
+  const { v: _version, ...cursor } = parsed;
+  return cursor as unknown as SearchCursor;
+}
+
+// ============================================================================
+// Point-in-time Tracking
+// ============================================================================
+
+interface TrackedPit {
+  close: () => Promise<void>;
+  expiresAt: number;
+}
+
+const openPits = new Map<string, TrackedPit>();
+
+/**
+ * Convert an Elasticsearch time value ("30s", "5m", "1h") to milliseconds
+ */
+export function keepAliveToMs(keepAlive: string): number {
+  const match = keepAlive.match(/^(\d+)(ms|s|m|h)$/);
+  if (!match) {
+    throw new Error(`Invalid keep-alive '${keepAlive}'. Use a value like '30s', '5m' or '1h'.`);
+  }
+  const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+  return parseInt(match[1], 10) * multipliers[match[2]];
+}
+
+const PIT_KEEP_ALIVE_MS = keepAliveToMs(ES_LOGS_CONFIG.pitKeepAlive);
+
+function closeQuietly(pitId: string, pit: TrackedPit): void {
+  pit.close().catch((error) => {
+    logger.debug("elasticsearch_logs_pit_close_failed", {
+      pit_id: pitId.slice(0, 16),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+}
+
+/**
+ * Start tracking a PIT, or refresh its expiry after a page was served.
+ * Elasticsearch may hand back a new PIT id on each page; `previousId` is re-keyed.
+ */
+export function trackPit(pitId: string, close: () => Promise<void>, previousId?: string): void {
+  if (previousId && previousId !== pitId) {
+    openPits.delete(previousId);
+  }
+
+  if (!openPits.has(pitId) && openPits.size >= ES_LOGS_CONFIG.maxOpenPits) {
+    // Map iteration order is insertion order and refreshed entries are re-inserted
+    const [oldestId, oldest] = openPits.entries().next().value!;
+    openPits.delete(oldestId);
+    closeQuietly(oldestId, oldest);
+  }
+
+  openPits.delete(pitId);
+  openPits.set(pitId, { close, expiresAt: Date.now() + PIT_KEEP_ALIVE_MS });
+}
+
+/**
+ * Close a PIT once its last page has been served
+ */
+export function releasePit(pitId: string, close: () => Promise<void>): void {
+  openPits.delete(pitId);
+  closeQuietly(pitId, { close, expiresAt: 0 });
+}
+
+/**
+ * Forget a PIT that Elasticsearch has already expired
+ */
+export function forgetPit(pitId: string): void {
+  openPits.delete(pitId);
+}
+
+/**
+ * Drop PITs idle past their keep-alive; Elasticsearch has freed them already
+ */
+function sweepExpiredPits(): void {
+  const now = Date.now();
+  for (const [pitId, pit] of openPits.entries()) {
+    if (pit.expiresAt <= now) {
+      openPits.delete(pitId);
+    }
+  }
+}
+
+setInterval(sweepExpiredPits, 60 * 1000).unref();
+
+export function getOpenPitCount(): number {
+  return openPits.size;
+}
+
+/**
+ * Close every tracked PIT (shutdown and tests)
+ */
+export async function closeAllPits(): Promise<void> {
+  const pits = Array.from(openPits.values());
+  openPits.clear();
+  await Promise.allSettled(pits.map((pit) => pit.close()));
+}
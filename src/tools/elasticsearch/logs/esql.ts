@@ -0,0 +1,213 @@
+/**
+ * ES|QL guardrails
+ *
+ * Queries passed to query_esql are checked before they reach Elasticsearch:
+ * - the query must start with FROM
+ * - commands listed in ES_ESQL_DENIED_COMMANDS (default: ENRICH) are rejected
+ * - every index named by FROM or LOOKUP JOIN must match ES_ESQL_ALLOWED_INDICES
+ *   (default: logs-* plus the cluster's APM index pattern)
+ *
+ * Index checks are literal: a FROM pattern like "logs-app-*" is allowed by
+ * "logs-*", but "*" or "logs*" are not, since they could reach other indices.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EsqlPolicy {
+  /** Upper-case command names that may not appear in a query */
+  deniedCommands: string[];
+  /** Index patterns the query may read from */
+  allowedIndices: string[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when an ES|QL query is rejected by the configured policy
+ */
+export class EsqlNotAllowedError extends Error {
+  constructor(message: string) {
+    super(`ES|QL query rejected: ${message}`);
+    this.name = "EsqlNotAllowedError";
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Split a query into its piped commands, ignoring pipes inside strings,
+ * parentheses and comments
+ */
+export function splitEsqlCommands(query: string): string[] {
+  const commands: string[] = [];
+  let current = "";
+  let depth = 0;
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    // Comments
+    if (query.startsWith("//", i)) {
+      const end = query.indexOf("\n", i);
+      i = end === -1 ? query.length : end;
+      continue;
+    }
+    if (query.startsWith("/*", i)) {
+      const end = query.indexOf("*/", i + 2);
+      i = end === -1 ? query.length : end + 2;
+      current += " ";
+      continue;
+    }
+
+    // Strings: triple-quoted or double-quoted with backslash escapes
+    if (query.startsWith('"""', i)) {
+      const end = query.indexOf('"""', i + 3);
+      const stop = end === -1 ? query.length : end + 3;
+      current += query.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (char === '"') {
+      let j = i + 1;
+      while (j < query.length && query[j] !== '"') {
+        j += query[j] === "\\" ? 2 : 1;
+      }
+      current += query.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+
+    if (char === "|" && depth === 0) {
+      commands.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+    i++;
+  }
+
+  commands.push(current.trim());
+  return commands.filter(Boolean);
+}
+
+function commandName(command: string): string {
+  return command.split(/\s+/, 1)[0].toUpperCase();
+}
+
+function unquote(name: string): string {
+  return name.replace(/^"+|"+$/g, "").replace(/^`|`$/g, "");
+}
+
+/**
+ * Index patterns named by `FROM a, b METADATA _id`
+ */
+function fromSources(command: string): string[] {
+  const body = command.replace(/^FROM\s+/i, "").split(/\s+METADATA\s+/i)[0];
+  return body
+    .split(",")
+    .map((source) => unquote(source.trim()))
+    .filter(Boolean);
+}
+
+/**
+ * Branches of `FORK (...) (...)`, each a nested query
+ */
+function forkBranches(command: string): string[] {
+  const branches: string[] = [];
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < command.length; i++) {
+    if (command[i] === "(") {
+      if (depth === 0) start = i + 1;
+      depth++;
+    } else if (command[i] === ")") {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        branches.push(command.slice(start, i));
+      }
+    }
+  }
+  return branches;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Whether an index pattern from a query is covered by an allowlist pattern.
+ * The allowlist's `*` matches anything; the query's `*` is matched literally.
+ */
+export function matchesIndexPattern(source: string, allowed: string): boolean {
+  const regex = new RegExp(
+    "^" + allowed.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$"
+  );
+  return regex.test(source);
+}
+
+function checkIndex(source: string, policy: EsqlPolicy): void {
+  // Exclusions ("-logs-debug*") only narrow what is read
+  if (source.startsWith("-")) return;
+  if (!policy.allowedIndices.some((allowed) => matchesIndexPattern(source, allowed))) {
+    throw new EsqlNotAllowedError(
+      `index '${source}' is not in the allowlist (${policy.allowedIndices.join(", ")})`
+    );
+  }
+}
+
+function checkCommands(commands: string[], policy: EsqlPolicy): void {
+  for (const command of commands) {
+    const name = commandName(command);
+
+    if (policy.deniedCommands.includes(name)) {
+      throw new EsqlNotAllowedError(`command ${name} is not allowed`);
+    }
+
+    if (name === "LOOKUP") {
+      const index = command.match(/^LOOKUP\s+JOIN\s+(\S+)/i)?.[1];
+      if (index) checkIndex(unquote(index), policy);
+    }
+
+    if (name === "FORK") {
+      for (const branch of forkBranches(command)) {
+        checkCommands(splitEsqlCommands(branch), policy);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a query against the policy, returning the index patterns it reads
+ */
+export function validateEsqlQuery(query: string, policy: EsqlPolicy): { sources: string[] } {
+  const commands = splitEsqlCommands(query);
+  if (commands.length === 0) {
+    throw new EsqlNotAllowedError("query is empty");
+  }
+
+  if (commandName(commands[0]) !== "FROM") {
+    throw new EsqlNotAllowedError("query must start with FROM <index pattern>");
+  }
+
+  const sources = fromSources(commands[0]);
+  if (sources.length === 0) {
+    throw new EsqlNotAllowedError("FROM must name at least one index pattern");
+  }
+  for (const source of sources) {
+    checkIndex(source, policy);
+  }
+
+  checkCommands(commands.slice(1), policy);
+
+  return { sources };
+}
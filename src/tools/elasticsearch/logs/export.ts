@@ -0,0 +1,282 @@
+/**
+ * Log exports
+ *
+ * export_logs writes every matching log to a file in ES_EXPORT_DIR, as
+ * NDJSON (one document per line) or CSV (one column per flattened field).
+ * Files are served back through the `logs-export://{name}` MCP resource, so
+ * only names generated here can be read, never arbitrary paths. Each export
+ * has an owner file next to it, and only sessions with the same MCP principal
+ * and Elasticsearch credential as the one that wrote it can read it. Exports
+ * older than ES_EXPORT_RETENTION_HOURS are deleted when the next one starts.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, open, readFile, readdir, rm, stat, writeFile, type FileHandle } from "node:fs/promises";
+import { join } from "node:path";
+import { credentialFingerprint, type SessionAuth } from "../common/credentials.js";
+import { ES_LOGS_CONFIG } from "./schema.js";
+import type { LogEntry } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFormat = "ndjson" | "csv";
+
+/**
+ * A finished export
+ */
+export interface LogExport {
+  uri: string;
+  fileName: string;
+  format: ExportFormat;
+  rows: number;
+  bytes: number;
+  /** True when ES_EXPORT_MAX_ROWS (or the requested maxRows) cut the export short */
+  truncated: boolean;
+  /** CSV columns, in order */
+  columns?: string[];
+}
+
+/**
+ * Appends pages of logs to an export file
+ */
+export interface ExportWriter {
+  fileName: string;
+  write(logs: LogEntry[]): Promise<void>;
+  close(): Promise<{ rows: number; bytes: number; columns?: string[] }>;
+  /** Close and delete the file of a failed export */
+  discard(): Promise<void>;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when an export resource does not exist
+ */
+export class ExportNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Log export '${name}' not found. Run export_logs again to create a new export.`);
+    this.name = "ExportNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when an export is too large to read back as a resource
+ */
+export class ExportTooLargeError extends Error {
+  constructor(name: string, bytes: number, maxBytes: number) {
+    super(
+      `Log export '${name}' is ${bytes} bytes, over the ${maxBytes} bytes it can be read with (ES_EXPORT_MAX_READ_BYTES). ` +
+      "Export fewer rows or fields."
+    );
+    this.name = "ExportTooLargeError";
+  }
+}
+
+// ============================================================================
+// Flattening
+// ============================================================================
+
+/**
+ * Flatten nested objects to dot-separated keys ({ host: { name } } becomes
+ * "host.name"). Arrays are kept as values.
+ */
+export function flattenDocument(source: Record<string, unknown>, prefix: string = ""): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(source)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(flat, flattenDocument(value as Record<string, unknown>, name));
+    } else {
+      flat[name] = value;
+    }
+  }
+  return flat;
+}
+
+/**
+ * A CSV cell: objects and arrays as JSON, quoted when needed
+ */
+export function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+const EXPORT_URI_PREFIX = "logs-export://";
+
+const EXPORT_NAME_PATTERN = /^logs-\d{8}T\d{6}Z-[0-9a-f]{16}\.(ndjson|csv)$/;
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  ndjson: "application/x-ndjson",
+  csv: "text/csv",
+};
+
+export function exportUri(fileName: string): string {
+  return `${EXPORT_URI_PREFIX}${fileName}`;
+}
+
+/**
+ * Who may read an export: a hash of the MCP principal and the Elasticsearch
+ * credential of a session. Sessions with neither (stdio, or httpStream
+ * without authentication) all have the same owner.
+ */
+export function exportOwner(session?: SessionAuth): string {
+  return createHash("sha256")
+    .update(`${session?.principal?.id ?? ""}\n${credentialFingerprint(session?.esCredential)}`)
+    .digest("hex");
+}
+
+function ownerFile(path: string): string {
+  return `${path}.owner`;
+}
+
+function exportFileName(format: ExportFormat): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  return `logs-${stamp}-${randomBytes(8).toString("hex")}.${format}`;
+}
+
+/**
+ * Delete exports last written more than `maxAgeMs` ago; other files in the
+ * directory are left alone. Returns the names deleted.
+ */
+export async function pruneExports(
+  exportDir: string = ES_LOGS_CONFIG.exportDir,
+  maxAgeMs: number = ES_LOGS_CONFIG.exportRetentionHours * 60 * 60 * 1000,
+  now: number = Date.now()
+): Promise<string[]> {
+  if (maxAgeMs <= 0) return [];
+
+  const names = await readdir(exportDir).catch(() => [] as string[]);
+  const deleted: string[] = [];
+  for (const name of names.filter((entry) => EXPORT_NAME_PATTERN.test(entry))) {
+    const path = join(exportDir, name);
+    try {
+      if (now - (await stat(path)).mtimeMs > maxAgeMs) {
+        await rm(path, { force: true });
+        await rm(ownerFile(path), { force: true });
+        deleted.push(name);
+      }
+    } catch {
+      // Deleted concurrently, or unreadable: nothing to prune
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Start an export file owned by `owner`, pruning expired ones first. CSV
+ * columns are `columns` when given, otherwise the flattened fields of the
+ * first page.
+ */
+export async function createExportWriter(
+  format: ExportFormat,
+  columns?: string[],
+  owner: string = exportOwner(),
+  exportDir: string = ES_LOGS_CONFIG.exportDir
+): Promise<ExportWriter> {
+  await mkdir(exportDir, { recursive: true });
+  await pruneExports(exportDir);
+  const fileName = exportFileName(format);
+  const path = join(exportDir, fileName);
+  const file: FileHandle = await open(path, "wx");
+  try {
+    await writeFile(ownerFile(path), owner, { flag: "wx" });
+  } catch (error) {
+    await file.close();
+    await rm(path, { force: true });
+    throw error;
+  }
+
+  let csvColumns = columns && columns.length > 0 ? columns : undefined;
+  let rows = 0;
+  let bytes = 0;
+
+  const append = async (text: string) => {
+    await file.write(text);
+    bytes += Buffer.byteLength(text);
+  };
+
+  return {
+    fileName,
+    async write(logs) {
+      if (logs.length === 0) return;
+
+      if (format === "ndjson") {
+        await append(logs.map((log) => JSON.stringify({ _id: log.id, _index: log.index, ...log.source }) + "\n").join(""));
+      } else {
+        const flat: Array<Record<string, unknown>> = logs.map((log) => ({
+          _id: log.id,
+          _index: log.index,
+          ...flattenDocument(log.source),
+        }));
+        if (rows === 0) {
+          csvColumns ??= Array.from(new Set(flat.flatMap((doc) => Object.keys(doc))));
+          await append(csvColumns.map(csvValue).join(",") + "\n");
+        }
+        await append(flat.map((doc) => csvColumns!.map((column) => csvValue(doc[column])).join(",") + "\n").join(""));
+      }
+      rows += logs.length;
+    },
+    async close() {
+      // An empty CSV export still gets its header when the columns are known
+      if (format === "csv" && rows === 0 && csvColumns) {
+        await append(csvColumns.map(csvValue).join(",") + "\n");
+      }
+      await file.close();
+      return { rows, bytes, ...(format === "csv" && { columns: csvColumns ?? [] }) };
+    },
+    async discard() {
+      await file.close();
+      await rm(path, { force: true });
+      await rm(ownerFile(path), { force: true });
+    },
+  };
+}
+
+/**
+ * Read an export back for the `logs-export://{name}` resource. Exports of
+ * other owners are reported as not found, and exports over
+ * ES_EXPORT_MAX_READ_BYTES are refused rather than loaded into memory.
+ */
+export async function readExport(
+  name: string,
+  owner: string = exportOwner(),
+  exportDir: string = ES_LOGS_CONFIG.exportDir
+): Promise<{ text: string; mimeType: string; uri: string }> {
+  const match = name.match(EXPORT_NAME_PATTERN);
+  if (!match) {
+    throw new ExportNotFoundError(name);
+  }
+
+  const path = join(exportDir, name);
+  let exportOwnedBy: string;
+  let bytes: number;
+  try {
+    exportOwnedBy = await readFile(ownerFile(path), "utf-8");
+    bytes = (await stat(path)).size;
+  } catch {
+    throw new ExportNotFoundError(name);
+  }
+  if (exportOwnedBy !== owner) {
+    throw new ExportNotFoundError(name);
+  }
+  if (bytes > ES_LOGS_CONFIG.maxExportReadBytes) {
+    throw new ExportTooLargeError(name, bytes, ES_LOGS_CONFIG.maxExportReadBytes);
+  }
+
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch {
+    throw new ExportNotFoundError(name);
+  }
+  return { text, mimeType: EXPORT_MIME_TYPES[match[1] as ExportFormat], uri: exportUri(name) };
+}
@@ -0,0 +1,206 @@
+/**
+ * Log aggregation grouping
+ *
+ * aggregate_logs groups logs by one or more fields, in one of three modes:
+ * - "nested" (default): a terms aggregation per field, each inside the one
+ *   before, returned as buckets holding their sub-groups
+ * - "flat": the same aggregation, returned as one bucket per combination of
+ *   values
+ * - "composite": a composite aggregation returning every combination in key
+ *   order, a page at a time; the `after` value of a page fetches the next
+ *
+ * Time histograms, metrics and sample documents belong to the innermost
+ * groups.
+ */
+
+import { InvalidCursorError } from "./cursor.js";
+import { parseMetrics, type MetricContext } from "./metrics.js";
+import type { AggregationBucket, LogAggregation, LogEntry } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GroupingMode = "nested" | "flat" | "composite";
+
+export interface GroupingOptions {
+  mode?: GroupingMode;
+  /** `after` value of the previous composite page */
+  after?: string;
+  /** Sample documents to attach to each innermost group */
+  samples?: number;
+}
+
+type SampleHit = { _id: string; _index: string; _source: Record<string, unknown> };
+
+/**
+ * What parsing needs beyond the aggregation response
+ */
+export interface BucketParsing {
+  /** Turns sample hits into log entries */
+  toSample?: (hit: SampleHit) => LogEntry;
+  metrics?: MetricContext;
+}
+
+// ============================================================================
+// Composite Paging
+// ============================================================================
+
+export function encodeAfterKey(afterKey: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(afterKey)).toString("base64url");
+}
+
+export function decodeAfterKey(token: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(token, "base64url").toString("utf-8"));
+  } catch {
+    throw new InvalidCursorError("not an aggregate_logs 'after' value");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new InvalidCursorError("not an aggregate_logs 'after' value");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// ============================================================================
+// Aggregations
+// ============================================================================
+
+/**
+ * The by_group aggregation over `fields`, with `leafAggs` in the innermost
+ * groups. `size` is per level for terms and per page for composite.
+ */
+export function groupingAggs(
+  fields: string[],
+  leafAggs: Record<string, unknown>,
+  size: number,
+  mode: GroupingMode = "nested",
+  after?: string
+): Record<string, unknown> {
+  if (mode === "composite") {
+    return {
+      by_group: {
+        composite: {
+          size,
+          sources: fields.map((field) => ({ [field]: { terms: { field } } })),
+          ...(after && { after: decodeAfterKey(after) }),
+        },
+        aggs: leafAggs,
+      },
+    };
+  }
+
+  return fields.reduceRight<Record<string, unknown>>(
+    (aggs, field) => ({ by_group: { terms: { field, size }, aggs } }),
+    leafAggs
+  );
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Time breakdown, metrics and samples of one bucket
+ */
+function parseBucket(
+  bucket: Record<string, unknown>,
+  key: string,
+  { toSample, metrics }: BucketParsing
+): AggregationBucket {
+  const result: AggregationBucket = {
+    key,
+    doc_count: bucket.doc_count as number,
+  };
+
+  const withMetrics = metrics && metrics.metrics.length > 0 ? metrics : undefined;
+
+  // Add time breakdown if present
+  if (bucket.over_time) {
+    const timeBuckets = (bucket.over_time as { buckets: Array<Record<string, unknown>> }).buckets;
+    result.over_time = timeBuckets.map((tb) => ({
+      time: tb.key_as_string as string,
+      count: tb.doc_count as number,
+      ...(withMetrics && { metrics: parseMetrics(tb, withMetrics.metrics, withMetrics.intervalMs) }),
+    }));
+  }
+
+  // Add metric value if present
+  if (bucket.metric_value) {
+    result.metric_value = (bucket.metric_value as { value: number }).value;
+  }
+
+  if (withMetrics) {
+    result.metrics = parseMetrics(bucket, withMetrics.metrics, withMetrics.rangeMs);
+  }
+
+  if (bucket.samples && toSample) {
+    result.samples = (bucket.samples as { hits: { hits: SampleHit[] } }).hits.hits.map(toSample);
+  }
+
+  return result;
+}
+
+function parseNested(
+  aggregations: Record<string, unknown> | undefined,
+  depth: number,
+  parsing: BucketParsing
+): AggregationBucket[] {
+  const buckets = (aggregations?.by_group as { buckets: Array<Record<string, unknown>> })?.buckets || [];
+
+  return buckets.map((bucket) => {
+    const result = parseBucket(bucket, String(bucket.key), parsing);
+    if (depth > 1) {
+      result.groups = parseNested(bucket, depth - 1, parsing);
+    }
+    return result;
+  });
+}
+
+/**
+ * One bucket per combination of values, most documents first
+ */
+function flatten(buckets: AggregationBucket[], fields: string[], parents: string[] = []): AggregationBucket[] {
+  return buckets.flatMap((bucket) => {
+    const values = [...parents, bucket.key];
+    if (bucket.groups) {
+      return flatten(bucket.groups, fields, values);
+    }
+    return [{
+      ...bucket,
+      key: values.join(" | "),
+      keys: Object.fromEntries(fields.map((field, i) => [field, values[i]])),
+    }];
+  });
+}
+
+/**
+ * Turn the by_group aggregation built by groupingAggs into buckets
+ */
+export function parseGroupedBuckets(
+  aggregations: Record<string, unknown> | undefined,
+  fields: string[],
+  mode: GroupingMode = "nested",
+  parsing: BucketParsing = {}
+): LogAggregation {
+  if (mode === "composite") {
+    const composite = aggregations?.by_group as {
+      buckets: Array<Record<string, unknown>>;
+      after_key?: Record<string, unknown>;
+    } | undefined;
+    const buckets = (composite?.buckets ?? []).map((bucket) => {
+      const keys = Object.fromEntries(
+        Object.entries(bucket.key as Record<string, unknown>).map(([field, value]) => [field, String(value)])
+      );
+      return { ...parseBucket(bucket, fields.map((field) => keys[field]).join(" | "), parsing), keys };
+    });
+    return { buckets, ...(composite?.after_key && { after: encodeAfterKey(composite.after_key) }) };
+  }
+
+  const nested = parseNested(aggregations, fields.length, parsing);
+  if (mode === "flat" && fields.length > 1) {
+    return { buckets: flatten(nested, fields).sort((a, b) => b.doc_count - a.doc_count) };
+  }
+  return { buckets: nested };
+}
@@ -11,9 +11,133 @@ export {
   getLogsPoolStats,
   clearLogsPool,
   type DataView,
+  type RuntimeField,
+  type FieldFormat,
   type LogField,
   type LogEntry,
   type AggregationBucket,
+  type LogAggregation,
+  type SearchRefinement,
+  type EsqlTable,
+  type TailSummary,
 } from "./client.js";
+export {
+  EsqlNotAllowedError,
+  validateEsqlQuery,
+  type EsqlPolicy,
+} from "./esql.js";
+export {
+  InvalidCursorError,
+  CursorExpiredError,
+  getOpenPitCount,
+  closeAllPits,
+  type SearchCursor,
+} from "./cursor.js";
+export {
+  InvalidAsyncSearchIdError,
+  AsyncSearchExpiredError,
+  type AsyncAggregationResult,
+  type AsyncLogResults,
+  type ComparedPeriod,
+  type MetricChange,
+  type PeriodComparison,
+} from "./async.js";
+export {
+  KqlSyntaxError,
+  parseKql,
+  kqlToDsl,
+  kqlFields,
+  kqlPhrase,
+  type KqlNode,
+  type KqlValue,
+} from "./kql.js";
+export {
+  maskMessage,
+  mineLogPatterns,
+  type LogPattern,
+  type LogCategorization,
+  type MinedPattern,
+} from "./patterns.js";
+export {
+  detectChanges,
+  type LogAnomaly,
+  type LogAnomalyDetection,
+  type DetectedChange,
+} from "./anomalies.js";
+export {
+  correlationFields,
+  type FieldCorrelation,
+  type LogFieldCorrelations,
+} from "./correlations.js";
+export {
+  ExportNotFoundError,
+  createExportWriter,
+  flattenDocument,
+  readExport,
+  type ExportFormat,
+  type LogExport,
+} from "./export.js";
+export {
+  isProfilable,
+  type FieldProfile,
+  type LogFieldProfiles,
+} from "./profile.js";
+export {
+  groupingAggs,
+  parseGroupedBuckets,
+  type GroupingMode,
+  type GroupingOptions,
+} from "./grouping.js";
+export {
+  metricAggs,
+  metricName,
+  parseMetrics,
+  type LogMetric,
+  type MetricValue,
+  type RateUnit,
+} from "./metrics.js";
+export {
+  SIGNIFICANCE_LEVEL,
+  buildComparison,
+  poissonRateTest,
+  type GroupPresence,
+  type ValueChange,
+} from "./comparison.js";
+export {
+  SavedSearchNotFoundError,
+  filterToDsl,
+  parseSavedSearch,
+  type SavedSearch,
+  type SearchSort,
+} from "./savedsearches.js";
+export {
+  alertDrillDown,
+  logThresholdQuery,
+  parseAlert,
+  parseAlertRule,
+  type Alert,
+  type AlertDrillDown,
+  type AlertList,
+  type AlertRule,
+  type AlertStatus,
+} from "./alerts.js";
+export {
+  anomalySeverity,
+  parseAnomalyBucket,
+  parseAnomalyRecord,
+  parseMlJobs,
+  type AnomalySeverity,
+  type MlAnomalies,
+  type MlAnomalyBucket,
+  type MlAnomalyRecord,
+  type MlJob,
+} from "./ml.js";
+export {
+  formatLog,
+  truncateValue,
+  type LogOutputOptions,
+  type LogProjection,
+  type LogSummary,
+} from "./output.js";
 export * from "./tools.js";
 
@@ -0,0 +1,499 @@
+/**
+ * KQL (Kibana Query Language) parser
+ *
+ * Compiles KQL into Elasticsearch query DSL the way Kibana does:
+ * - `field:value`            match (unquoted, may span several words)
+ * - `field:"some phrase"`    match_phrase
+ * - `field:val*`             wildcard
+ * - `field:*`                exists
+ * - `field >= 10`            range (<, <=, >, >=)
+ * - `field:(a or b)`         several values for one field
+ * - `path:{ child:value }`   nested query, child fields relative to path
+ * - `value` / `"phrase"`     free text across all fields (multi_match)
+ * - `and`, `or`, `not`, `( )` case-insensitive boolean logic
+ *
+ * Syntax errors are reported as KqlSyntaxError with the offending position
+ * and the tokens that would have been accepted there.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A literal from the query. `chunks` are the literal pieces between
+ * unescaped `*` wildcards, so a plain value has exactly one chunk.
+ */
+export interface KqlValue {
+  chunks: string[];
+  quoted: boolean;
+}
+
+export type KqlRangeOperator = "lt" | "lte" | "gt" | "gte";
+
+export type KqlNode =
+  | { type: "and"; children: KqlNode[] }
+  | { type: "or"; children: KqlNode[] }
+  | { type: "not"; child: KqlNode }
+  | { type: "match"; field?: KqlValue; value: KqlValue }
+  | { type: "exists"; field: KqlValue }
+  | { type: "range"; field: KqlValue; operator: KqlRangeOperator; value: KqlValue }
+  | { type: "nested"; path: string; query: KqlNode };
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown for invalid KQL, pointing at the offending position
+ */
+export class KqlSyntaxError extends Error {
+  constructor(
+    public query: string,
+    public position: number,
+    public expected: string[],
+    public found: string
+  ) {
+    super(
+      `KQL syntax error at position ${position}: expected ${formatExpected(expected)} but ${found} found.\n` +
+      `${query}\n${"-".repeat(position)}^`
+    );
+    this.name = "KqlSyntaxError";
+  }
+}
+
+function formatExpected(expected: string[]): string {
+  if (expected.length <= 1) return expected.join("");
+  return `${expected.slice(0, -1).join(", ")} or ${expected[expected.length - 1]}`;
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type TokenKind =
+  | "lparen" | "rparen" | "lbrace" | "rbrace" | "colon" | "range"
+  | "word" | "quoted" | "and" | "or" | "not" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  start: number;
+  /** Operator text for range tokens */
+  text: string;
+  value?: KqlValue;
+}
+
+const SPECIAL_CHARACTERS = new Set(["\\", "(", ")", ":", "<", ">", '"', "{", "}"]);
+const KEYWORDS: Record<string, TokenKind> = { and: "and", or: "or", not: "not" };
+const PUNCTUATION: Record<string, TokenKind> = { "(": "lparen", ")": "rparen", "{": "lbrace", "}": "rbrace", ":": "colon" };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (PUNCTUATION[char]) {
+      tokens.push({ kind: PUNCTUATION[char], start, text: char });
+      i++;
+      continue;
+    }
+
+    if (char === "<" || char === ">") {
+      const text = query[i + 1] === "=" ? `${char}=` : char;
+      tokens.push({ kind: "range", start, text });
+      i += text.length;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = "";
+      i++;
+      while (i < query.length && query[i] !== '"') {
+        if (query[i] === "\\" && i + 1 < query.length) {
+          i++;
+        }
+        value += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        throw new KqlSyntaxError(query, query.length, ['"'], "end of input");
+      }
+      i++;
+      tokens.push({ kind: "quoted", start, text: "", value: { chunks: [value], quoted: true } });
+      continue;
+    }
+
+    // Unquoted word: runs until whitespace or a special character
+    const chunks: string[] = [""];
+    let escaped = false;
+    while (i < query.length && !/\s/.test(query[i]) && (query[i] === "\\" || !SPECIAL_CHARACTERS.has(query[i]))) {
+      if (query[i] === "\\") {
+        if (i + 1 >= query.length) {
+          throw new KqlSyntaxError(query, i + 1, ["escaped character"], "end of input");
+        }
+        chunks[chunks.length - 1] += query[i + 1];
+        escaped = true;
+        i += 2;
+      } else if (query[i] === "*") {
+        chunks.push("");
+        i++;
+      } else {
+        chunks[chunks.length - 1] += query[i];
+        i++;
+      }
+    }
+
+    const raw = query.slice(start, i);
+    const keyword = !escaped ? KEYWORDS[raw.toLowerCase()] : undefined;
+    if (keyword) {
+      tokens.push({ kind: keyword, start, text: raw });
+    } else {
+      tokens.push({ kind: "word", start, text: raw, value: { chunks, quoted: false } });
+    }
+  }
+
+  tokens.push({ kind: "eof", start: query.length, text: "" });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const RANGE_OPERATORS: Record<string, KqlRangeOperator> = { "<": "lt", "<=": "lte", ">": "gt", ">=": "gte" };
+
+function describeToken(token: Token): string {
+  if (token.kind === "eof") return "end of input";
+  if (token.kind === "quoted") return "quoted string";
+  return `"${token.text}"`;
+}
+
+class KqlParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private query: string) {
+    this.tokens = tokenize(query);
+  }
+
+  parse(): KqlNode | undefined {
+    if (this.peek().kind === "eof") {
+      return undefined;
+    }
+    const node = this.parseOr();
+    this.expect("eof", ["AND", "OR", "end of input"]);
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private fail(expected: string[]): never {
+    const token = this.peek();
+    throw new KqlSyntaxError(this.query, token.start, expected, describeToken(token));
+  }
+
+  private expect(kind: TokenKind, expected: string[]): Token {
+    if (this.peek().kind !== kind) {
+      this.fail(expected);
+    }
+    return this.next();
+  }
+
+  private parseOr(): KqlNode {
+    const children = [this.parseAnd()];
+    while (this.peek().kind === "or") {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(): KqlNode {
+    const children = [this.parseNot()];
+    while (this.peek().kind === "and") {
+      this.next();
+      children.push(this.parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseNot(): KqlNode {
+    if (this.peek().kind === "not") {
+      this.next();
+      return { type: "not", child: this.parseSubQuery() };
+    }
+    return this.parseSubQuery();
+  }
+
+  private parseSubQuery(): KqlNode {
+    if (this.peek().kind === "lparen") {
+      this.next();
+      const node = this.parseOr();
+      this.expect("rparen", ["AND", "OR", '")"']);
+      return node;
+    }
+    return this.parseExpression();
+  }
+
+  private parseExpression(): KqlNode {
+    const token = this.peek();
+    if (token.kind !== "word" && token.kind !== "quoted") {
+      this.fail(["field name", "value", "NOT", '"("']);
+    }
+
+    const following = this.peek(1).kind;
+
+    if (following === "colon") {
+      const field = this.next().value!;
+      this.next();
+      if (this.peek().kind === "lbrace") {
+        return this.parseNested(field);
+      }
+      return this.parseListOfValues(field);
+    }
+
+    if (following === "range") {
+      const field = this.next().value!;
+      const operator = RANGE_OPERATORS[this.next().text];
+      const valueToken = this.peek();
+      if (valueToken.kind !== "word" && valueToken.kind !== "quoted") {
+        this.fail(["value"]);
+      }
+      this.next();
+      return { type: "range", field, operator, value: valueToken.value! };
+    }
+
+    // Free text across all fields
+    return { type: "match", value: this.parseValue() };
+  }
+
+  private parseNested(field: KqlValue): KqlNode {
+    const brace = this.next();
+    if (field.chunks.length > 1) {
+      throw new KqlSyntaxError(this.query, brace.start, ["nested field path without wildcards"], '"{"');
+    }
+    const query = this.parseOr();
+    this.expect("rbrace", ["AND", "OR", '"}"']);
+    return { type: "nested", path: field.chunks[0], query };
+  }
+
+  private parseListOfValues(field: KqlValue): KqlNode {
+    if (this.peek().kind === "lparen") {
+      this.next();
+      const node = this.parseOrValues(field);
+      this.expect("rparen", ["AND", "OR", '")"']);
+      return node;
+    }
+
+    const value = this.parseValue();
+    if (!value.quoted && value.chunks.length === 2 && value.chunks.every((c) => c === "")) {
+      return { type: "exists", field };
+    }
+    return { type: "match", field, value };
+  }
+
+  private parseOrValues(field: KqlValue): KqlNode {
+    const children = [this.parseAndValues(field)];
+    while (this.peek().kind === "or") {
+      this.next();
+      children.push(this.parseAndValues(field));
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAndValues(field: KqlValue): KqlNode {
+    const children = [this.parseNotValues(field)];
+    while (this.peek().kind === "and") {
+      this.next();
+      children.push(this.parseNotValues(field));
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseNotValues(field: KqlValue): KqlNode {
+    if (this.peek().kind === "not") {
+      this.next();
+      return { type: "not", child: this.parseListOfValues(field) };
+    }
+    return this.parseListOfValues(field);
+  }
+
+  /**
+   * A quoted string, or consecutive unquoted words joined by single spaces
+   */
+  private parseValue(): KqlValue {
+    const token = this.peek();
+    if (token.kind === "quoted") {
+      return this.next().value!;
+    }
+    if (token.kind !== "word") {
+      this.fail(["value", '"("']);
+    }
+
+    const chunks = [...this.next().value!.chunks];
+    while (this.peek().kind === "word") {
+      const [first, ...rest] = this.next().value!.chunks;
+      chunks[chunks.length - 1] += ` ${first}`;
+      chunks.push(...rest);
+    }
+    return { chunks, quoted: false };
+  }
+}
+
+/**
+ * Parse a KQL query into an AST; undefined for an empty query
+ */
+export function parseKql(query: string): KqlNode | undefined {
+  return new KqlParser(query).parse();
+}
+
+// ============================================================================
+// Compiler
+// ============================================================================
+
+function isWildcard(value: KqlValue): boolean {
+  return value.chunks.length > 1;
+}
+
+function text(value: KqlValue): string {
+  return value.chunks.join("*");
+}
+
+function wildcardPattern(value: KqlValue): string {
+  return value.chunks.map((c) => c.replace(/[\\*?]/g, "\\$&")).join("*");
+}
+
+function queryStringPattern(value: KqlValue): string {
+  return value.chunks.map((c) => c.replace(/[+\-=&|><!(){}[\]^"~*?:\\/\s]/g, "\\$&")).join("*");
+}
+
+function withPrefix(field: KqlValue, prefix: string): KqlValue {
+  if (!prefix) return field;
+  return { ...field, chunks: [`${prefix}.${field.chunks[0]}`, ...field.chunks.slice(1)] };
+}
+
+function compile(node: KqlNode, prefix: string): Record<string, unknown> {
+  switch (node.type) {
+    case "and":
+      return { bool: { filter: node.children.map((c) => compile(c, prefix)) } };
+
+    case "or":
+      return { bool: { should: node.children.map((c) => compile(c, prefix)), minimum_should_match: 1 } };
+
+    case "not":
+      return { bool: { must_not: [compile(node.child, prefix)] } };
+
+    case "nested": {
+      const path = prefix ? `${prefix}.${node.path}` : node.path;
+      return { nested: { path, query: compile(node.query, path), score_mode: "none" } };
+    }
+
+    case "exists": {
+      const field = withPrefix(node.field, prefix);
+      if (isWildcard(field)) {
+        return { query_string: { fields: [text(field)], query: "*" } };
+      }
+      return { exists: { field: text(field) } };
+    }
+
+    case "range": {
+      const field = withPrefix(node.field, prefix);
+      if (isWildcard(field)) {
+        const op = { lt: "<", lte: "<=", gt: ">", gte: ">=" }[node.operator];
+        return { query_string: { fields: [text(field)], query: `${op}${queryStringPattern(node.value)}` } };
+      }
+      return { range: { [text(field)]: { [node.operator]: text(node.value) } } };
+    }
+
+    case "match": {
+      const { value } = node;
+
+      // Free text, or a field name with wildcards: search across fields
+      if (!node.field || isWildcard(withPrefix(node.field, prefix))) {
+        const fields = node.field ? [text(withPrefix(node.field, prefix))] : undefined;
+        if (!value.quoted && isWildcard(value)) {
+          return { query_string: { query: queryStringPattern(value), ...(fields && { fields }) } };
+        }
+        return {
+          multi_match: {
+            query: text(value),
+            type: value.quoted ? "phrase" : "best_fields",
+            lenient: true,
+            ...(fields && { fields }),
+          },
+        };
+      }
+
+      const field = text(withPrefix(node.field, prefix));
+      if (value.quoted) {
+        return { match_phrase: { [field]: text(value) } };
+      }
+      if (isWildcard(value)) {
+        return { wildcard: { [field]: { value: wildcardPattern(value) } } };
+      }
+      return { match: { [field]: text(value) } };
+    }
+  }
+}
+
+/**
+ * Compile a KQL query to Elasticsearch query DSL (match_all for an empty query)
+ */
+export function kqlToDsl(query: string): Record<string, unknown> {
+  const node = parseKql(query);
+  return node ? compile(node, "") : { match_all: {} };
+}
+
+/**
+ * Field names a KQL query references, including nested paths.
+ * Wildcard field names keep their `*`; free-text terms name no field.
+ */
+export function kqlFields(query: string): string[] {
+  const fields = new Set<string>();
+
+  const visit = (node: KqlNode, prefix: string): void => {
+    switch (node.type) {
+      case "and":
+      case "or":
+        node.children.forEach((child) => visit(child, prefix));
+        break;
+      case "not":
+        visit(node.child, prefix);
+        break;
+      case "nested":
+        visit(node.query, prefix ? `${prefix}.${node.path}` : node.path);
+        break;
+      default:
+        if (node.field) {
+          fields.add(text(withPrefix(node.field, prefix)));
+        }
+    }
+  };
+
+  const node = parseKql(query);
+  if (node) {
+    visit(node, "");
+  }
+  return Array.from(fields);
+}
+
+/**
+ * A `field:"value"` clause for one exact value, escaping quotes and backslashes
+ */
+export function kqlPhrase(field: string, value: string): string {
+  return `${field}:"${value.replace(/["\\]/g, "\\$&")}"`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Log aggregation metrics
+ *
+ * aggregate_logs and compare_log_periods compute any number of metrics per
+ * group (and per time bucket), each named so results can be told apart:
+ * - avg, sum, min, max and cardinality: one value
+ * - percentiles: one value per percent, keyed "p50", "p95", ...
+ * - stats: count, min, max, avg and sum
+ * - rate: logs per unit of time, or the sum of `field` per unit of time.
+ *   It is worked out here from the length of the bucket (the time range for
+ *   a group, the interval for a time bucket), as Elasticsearch's `rate`
+ *   aggregation only runs inside a date histogram.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RateUnit = "second" | "minute" | "hour" | "day";
+
+export type LogMetric =
+  | { type: "avg" | "sum" | "min" | "max" | "cardinality" | "stats"; field: string; name?: string }
+  | { type: "percentiles"; field: string; percents?: number[]; name?: string }
+  | { type: "rate"; field?: string; unit?: RateUnit; name?: string };
+
+/**
+ * A metric result: one number, or named values for percentiles and stats.
+ * null when the bucket has no values for the field.
+ */
+export type MetricValue = number | null | Record<string, number | null>;
+
+/**
+ * Metrics of an aggregation and the bucket lengths rates are computed over
+ */
+export interface MetricContext {
+  metrics: LogMetric[];
+  /** Length of the time range, for group rates */
+  rangeMs: number;
+  /** Length of a time bucket, for time bucket rates */
+  intervalMs?: number;
+}
+
+// ============================================================================
+// Aggregations
+// ============================================================================
+
+export const DEFAULT_PERCENTS = [50, 95, 99];
+
+const UNIT_MS: Record<RateUnit, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * The name a metric is reported under
+ */
+export function metricName(metric: LogMetric): string {
+  if (metric.name) return metric.name;
+  if (metric.type === "rate") {
+    return `rate(${metric.field ?? "count"} per ${metric.unit ?? "minute"})`;
+  }
+  return `${metric.type}(${metric.field})`;
+}
+
+/**
+ * Fields the metrics read, for runtime field lookup
+ */
+export function metricFields(metrics: LogMetric[]): string[] {
+  return metrics.flatMap((metric) => (metric.field ? [metric.field] : []));
+}
+
+/**
+ * Sub-aggregations computing the metrics, named m0, m1, ... (metric names
+ * can hold characters aggregation names cannot)
+ */
+export function metricAggs(metrics: LogMetric[]): Record<string, unknown> {
+  const aggs: Record<string, unknown> = {};
+  metrics.forEach((metric, i) => {
+    if (metric.type === "percentiles") {
+      aggs[`m${i}`] = { percentiles: { field: metric.field, percents: metric.percents ?? DEFAULT_PERCENTS } };
+    } else if (metric.type === "rate") {
+      // A count rate needs only the bucket's doc_count
+      if (metric.field) {
+        aggs[`m${i}`] = { sum: { field: metric.field } };
+      }
+    } else {
+      aggs[`m${i}`] = { [metric.type]: { field: metric.field } };
+    }
+  });
+  return aggs;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Length of a fixed interval ("30s", "15m", "1h", "1d") in milliseconds
+ */
+export function intervalToMs(interval: string): number | undefined {
+  const match = interval.match(/^(\d+)(ms|s|m|h|d)$/);
+  if (!match) return undefined;
+  const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+  return parseInt(match[1], 10) * multipliers[match[2]];
+}
+
+function round(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Read the metrics of one bucket, by metric name
+ */
+export function parseMetrics(
+  bucket: Record<string, unknown>,
+  metrics: LogMetric[],
+  bucketMs: number | undefined
+): Record<string, MetricValue> {
+  const values: Record<string, MetricValue> = {};
+  metrics.forEach((metric, i) => {
+    const result = bucket[`m${i}`] as Record<string, unknown> | undefined;
+    const name = metricName(metric);
+
+    if (metric.type === "percentiles") {
+      const percentiles = (result?.values ?? {}) as Record<string, number | null>;
+      values[name] = Object.fromEntries(
+        Object.entries(percentiles).map(([key, value]) => [`p${parseFloat(key)}`, round(value)])
+      );
+    } else if (metric.type === "stats") {
+      values[name] = {
+        count: (result?.count as number) ?? 0,
+        min: round(result?.min as number | null),
+        max: round(result?.max as number | null),
+        avg: round(result?.avg as number | null),
+        sum: round(result?.sum as number | null),
+      };
+    } else if (metric.type === "rate") {
+      const total = metric.field ? (result?.value as number | null) ?? 0 : (bucket.doc_count as number);
+      values[name] = bucketMs ? round(total / (bucketMs / UNIT_MS[metric.unit ?? "minute"])) : null;
+    } else {
+      values[name] = round(result?.value as number | null);
+    }
+  });
+  return values;
+}
@@ -0,0 +1,285 @@
+/**
+ * Machine-learning anomaly detection results
+ *
+ * Anomaly detection jobs write their results to `.ml-anomalies-*`, one
+ * document per result with a `result_type`:
+ * - `record`: one anomalous value of one detector, with its actual and
+ *   typical values, the partition/by/over field values it was split on and
+ *   the influencer values behind it
+ * - `bucket`: the overall anomaly score of one bucket span of a job
+ *
+ * Jobs created by the APM integration (group "apm") are split on
+ * `service.name` and `transaction.type`, with the environment they watch in
+ * their job tags; their results are mapped back to those.
+ */
+
+import type { MlJobsResponse, MlJobStatsResponse } from "../common/client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Severity bands of the Kibana anomaly explorer, by score */
+export type AnomalySeverity = "critical" | "major" | "minor" | "warning" | "low";
+
+export interface MlJob {
+  id: string;
+  description?: string;
+  groups: string[];
+  /** e.g. "15m" */
+  bucketSpan: string;
+  detectors: string[];
+  influencers: string[];
+  /** "opened", "closed", "failed", ... */
+  state?: string;
+  latestRecord?: string;
+  /** Set for jobs of the APM integration */
+  apm?: { environment?: string; service?: string; transactionType?: string };
+}
+
+export interface FieldValue {
+  field: string;
+  value: string;
+}
+
+export interface MlAnomalyRecord {
+  jobId: string;
+  timestamp: string;
+  score: number;
+  severity: AnomalySeverity;
+  probability: number;
+  /** Detector function, e.g. "high_mean" or "count" */
+  function: string;
+  field?: string;
+  actual?: number | number[];
+  typical?: number | number[];
+  partition?: FieldValue;
+  by?: FieldValue;
+  over?: FieldValue;
+  /** Influencer values, by field */
+  influencers: Record<string, string[]>;
+  /** APM jobs: the service, environment and transaction type it is about */
+  service?: string;
+  environment?: string;
+  transactionType?: string;
+  /** Result of a bucket still being analysed; its score may change */
+  interim?: boolean;
+}
+
+export interface MlAnomalyBucket {
+  jobId: string;
+  timestamp: string;
+  score: number;
+  severity: AnomalySeverity;
+  eventCount: number;
+  bucketSpanSeconds: number;
+  environment?: string;
+  interim?: boolean;
+}
+
+export type MlResultType = "records" | "buckets" | "all";
+
+export interface MlAnomalies {
+  jobs: MlJob[];
+  records: MlAnomalyRecord[];
+  buckets: MlAnomalyBucket[];
+  totalRecords: number;
+  totalBuckets: number;
+}
+
+/**
+ * A result document from `.ml-anomalies-*`
+ */
+export interface MlResultSource {
+  job_id: string;
+  result_type: string;
+  timestamp: number;
+  is_interim?: boolean;
+  bucket_span?: number;
+  // records
+  record_score?: number;
+  probability?: number;
+  function?: string;
+  field_name?: string;
+  actual?: number[];
+  typical?: number[];
+  partition_field_name?: string;
+  partition_field_value?: string;
+  by_field_name?: string;
+  by_field_value?: string;
+  over_field_name?: string;
+  over_field_value?: string;
+  influencers?: Array<{ influencer_field_name: string; influencer_field_values: unknown[] }>;
+  // buckets
+  anomaly_score?: number;
+  event_count?: number;
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+export const APM_JOB_GROUP = "apm";
+
+/** Jobs of the first APM integration: "<service>-<transaction type>-high_mean_response_time" */
+const APM_V1_JOB_ID = /^(.+)-([^-]+)-high_mean_response_time$/;
+
+export function anomalySeverity(score: number): AnomalySeverity {
+  if (score >= 75) return "critical";
+  if (score >= 50) return "major";
+  if (score >= 25) return "minor";
+  if (score >= 3) return "warning";
+  return "low";
+}
+
+/** Scores to one decimal, as Kibana shows them */
+function roundScore(score: number | undefined): number {
+  return Math.round((score ?? 0) * 10) / 10;
+}
+
+function isoTime(epochMs: number | undefined): string | undefined {
+  return epochMs === undefined ? undefined : new Date(epochMs).toISOString();
+}
+
+/**
+ * Merge job configurations with their stats
+ */
+export function parseMlJobs(config: MlJobsResponse, stats?: MlJobStatsResponse): MlJob[] {
+  const statsById = new Map((stats?.jobs ?? []).map((job) => [job.job_id, job]));
+
+  return config.jobs.map((job) => {
+    const groups = job.groups ?? [];
+    const jobStats = statsById.get(job.job_id);
+    const latestRecord = isoTime(jobStats?.data_counts?.latest_record_timestamp);
+    const tags = job.custom_settings?.job_tags as { environment?: string } | undefined;
+    const v1 = APM_V1_JOB_ID.exec(job.job_id);
+
+    return {
+      id: job.job_id,
+      ...(job.description && { description: job.description }),
+      groups,
+      bucketSpan: job.analysis_config.bucket_span,
+      detectors: job.analysis_config.detectors.map((detector) =>
+        detector.detector_description ?? [detector.function, detector.field_name].filter(Boolean).join(" ")
+      ),
+      influencers: job.analysis_config.influencers ?? [],
+      ...(jobStats && { state: jobStats.state }),
+      ...(latestRecord && { latestRecord }),
+      ...(groups.includes(APM_JOB_GROUP) && {
+        apm: {
+          ...(tags?.environment && { environment: tags.environment }),
+          ...(v1 && { service: v1[1], transactionType: v1[2] }),
+        },
+      }),
+    };
+  });
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Query for the results of one type scoring at least `minScore`
+ */
+export function mlResultsQuery(
+  resultType: "record" | "bucket",
+  startTime: string,
+  endTime: string,
+  minScore: number,
+  jobIds?: string[]
+): object {
+  const filter: object[] = [
+    { term: { result_type: resultType } },
+    { range: { timestamp: { gte: startTime, lte: endTime } } },
+    { range: { [resultType === "record" ? "record_score" : "anomaly_score"]: { gte: minScore } } },
+  ];
+  if (jobIds) filter.push({ terms: { job_id: jobIds } });
+  return { bool: { filter } };
+}
+
+/** Single values unwrapped; multivariate ones (e.g. lat_long) kept as arrays */
+function unwrap(values: number[] | undefined): number | number[] | undefined {
+  if (!values || values.length === 0) return undefined;
+  return values.length === 1 ? values[0] : values;
+}
+
+function fieldValue(field: string | undefined, value: string | undefined): FieldValue | undefined {
+  return field && value !== undefined ? { field, value } : undefined;
+}
+
+export function parseAnomalyRecord(source: MlResultSource, job?: MlJob): MlAnomalyRecord {
+  const score = roundScore(source.record_score);
+  const influencers: Record<string, string[]> = Object.fromEntries(
+    (source.influencers ?? []).map((influencer) => [
+      influencer.influencer_field_name,
+      influencer.influencer_field_values.map(String),
+    ])
+  );
+  const actual = unwrap(source.actual);
+  const typical = unwrap(source.typical);
+  const partition = fieldValue(source.partition_field_name, source.partition_field_value);
+  const by = fieldValue(source.by_field_name, source.by_field_value);
+  const over = fieldValue(source.over_field_name, source.over_field_value);
+
+  const record: MlAnomalyRecord = {
+    jobId: source.job_id,
+    timestamp: new Date(source.timestamp).toISOString(),
+    score,
+    severity: anomalySeverity(score),
+    probability: source.probability ?? 1,
+    function: source.function ?? "",
+    ...(source.field_name && { field: source.field_name }),
+    ...(actual !== undefined && { actual }),
+    ...(typical !== undefined && { typical }),
+    ...(partition && { partition }),
+    ...(by && { by }),
+    ...(over && { over }),
+    influencers,
+    ...(source.is_interim && { interim: true }),
+  };
+
+  if (job?.apm) {
+    Object.assign(record, apmContext([partition, by, over], influencers, job.apm));
+  }
+  return record;
+}
+
+/**
+ * Service, environment and transaction type of an APM job record, from the
+ * fields it was split on, then its influencers, then the job itself
+ */
+function apmContext(
+  splits: Array<FieldValue | undefined>,
+  influencers: Record<string, string[]>,
+  apm: NonNullable<MlJob["apm"]>
+): Pick<MlAnomalyRecord, "service" | "environment" | "transactionType"> {
+  const valueOf = (field: string): string | undefined => {
+    const split = splits.find((entry) => entry?.field === field)?.value;
+    const influenced = influencers[field]?.length === 1 ? influencers[field][0] : undefined;
+    return split ?? influenced;
+  };
+  const service = valueOf("service.name") ?? apm.service;
+  const environment = valueOf("service.environment") ?? apm.environment;
+  const transactionType = valueOf("transaction.type") ?? apm.transactionType;
+  return {
+    ...(service && { service }),
+    ...(environment && { environment }),
+    ...(transactionType && { transactionType }),
+  };
+}
+
+export function parseAnomalyBucket(source: MlResultSource, job?: MlJob): MlAnomalyBucket {
+  const score = roundScore(source.anomaly_score);
+  const environment = job?.apm?.environment;
+  return {
+    jobId: source.job_id,
+    timestamp: new Date(source.timestamp).toISOString(),
+    score,
+    severity: anomalySeverity(score),
+    eventCount: source.event_count ?? 0,
+    bucketSpanSeconds: source.bucket_span ?? 0,
+    ...(environment && { environment }),
+    ...(source.is_interim && { interim: true }),
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Search result output
+ *
+ * Full documents with stack traces or request payloads quickly fill an
+ * agent's context, so search_logs can trim what it returns:
+ * - highlight: the fragments of each field that matched the query
+ * - maxFieldChars: string values past the budget are cut and end in a marker
+ *   saying how many characters were left out
+ * - projection "summary": only the timestamp, level, service, message and
+ *   highlights of each log
+ *
+ * Options are kept in the search_logs cursor so every page looks the same.
+ */
+
+import { flattenDocument } from "./export.js";
+import type { LogEntry } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LogProjection = "full" | "summary";
+
+export interface LogOutputOptions {
+  highlight?: boolean;
+  /** Longest string value returned per field */
+  maxFieldChars?: number;
+  projection?: LogProjection;
+}
+
+/**
+ * A log in the "summary" projection
+ */
+export interface LogSummary {
+  id: string;
+  index: string;
+  timestamp: string;
+  level?: string;
+  service?: string;
+  message?: string;
+  highlight?: Record<string, string[]>;
+}
+
+// ============================================================================
+// Summary Projection
+// ============================================================================
+
+/** Fields a summary value is read from, first present wins (ECS first) */
+const SUMMARY_FIELDS: Record<"level" | "service" | "message", string[]> = {
+  level: ["log.level", "level", "severity"],
+  service: ["service.name", "service"],
+  message: ["message", "event.original"],
+};
+
+/**
+ * Fields to fetch for the summary projection
+ */
+export const SUMMARY_SOURCE_FIELDS = Object.values(SUMMARY_FIELDS).flat();
+
+function summaryValue(flat: Record<string, unknown>, candidates: string[]): string | undefined {
+  for (const field of candidates) {
+    const value = Array.isArray(flat[field]) ? (flat[field] as unknown[])[0] : flat[field];
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Truncation
+// ============================================================================
+
+export function truncationMarker(omitted: number): string {
+  return `…[truncated ${omitted} chars]`;
+}
+
+/**
+ * Cut strings longer than `maxChars`, including those nested in objects and
+ * arrays, appending the truncation marker
+ */
+export function truncateValue(value: unknown, maxChars: number): unknown {
+  if (typeof value === "string") {
+    return value.length > maxChars ? value.slice(0, maxChars) + truncationMarker(value.length - maxChars) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => truncateValue(item, maxChars));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, truncateValue(item, maxChars)])
+    );
+  }
+  return value;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Apply the projection and character budget to one search hit
+ */
+export function formatLog(log: LogEntry, options: LogOutputOptions = {}): LogEntry | LogSummary {
+  const truncate = <T>(value: T): T =>
+    options.maxFieldChars !== undefined ? (truncateValue(value, options.maxFieldChars) as T) : value;
+
+  if (options.projection === "summary") {
+    const flat = flattenDocument(log.source);
+    const summary: LogSummary = { id: log.id, index: log.index, timestamp: log.timestamp };
+    for (const [key, candidates] of Object.entries(SUMMARY_FIELDS)) {
+      const value = summaryValue(flat, candidates);
+      if (value !== undefined) {
+        summary[key as keyof typeof SUMMARY_FIELDS] = truncate(value);
+      }
+    }
+    if (log.highlight) {
+      summary.highlight = log.highlight;
+    }
+    return summary;
+  }
+
+  return { ...log, source: truncate(log.source) };
+}
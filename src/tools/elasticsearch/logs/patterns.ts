@@ -0,0 +1,154 @@
+/**
+ * Log message patterns
+ *
+ * categorize_logs groups messages into patterns with the `categorize_text`
+ * aggregation. Clusters without it fall back to the template miner here,
+ * a simplified Drain:
+ * - variable parts (UUIDs, IPs, hex ids, numbers) are masked first
+ * - messages are grouped by token count and first token
+ * - within a group a message joins the most similar pattern, and positions
+ *   where the pattern and message differ become `<*>`
+ *
+ * Either way a pattern is matched in Elasticsearch by its static tokens,
+ * which is how baseline counts are looked up.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A message pattern with where it was seen
+ */
+export interface LogPattern {
+  pattern: string;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  /** Id of a matching document, for get_log_context */
+  sampleId?: string;
+  /** Matching documents in the baseline window */
+  baselineCount: number;
+  /** "new": not in the baseline; "rare": under 1% of baseline logs */
+  flag: "new" | "rare" | null;
+}
+
+export interface LogCategorization {
+  /** How patterns were found */
+  method: "categorize_text" | "template_miner";
+  total: number;
+  /** Messages the template miner looked at (template_miner only) */
+  sampled?: number;
+  baseline: { startTime: string; endTime: string; total: number };
+  patterns: LogPattern[];
+}
+
+/**
+ * A pattern mined from a sample of messages
+ */
+export interface MinedPattern {
+  pattern: string;
+  /** Messages of the sample that matched */
+  count: number;
+}
+
+// ============================================================================
+// Masking
+// ============================================================================
+
+const PLACEHOLDER = "<*>";
+
+const MASKS: Array<[RegExp, string]> = [
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<UUID>"],
+  [/\b(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?\b/g, "<IP>"],
+  [/\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi, "<IP>"],
+  [/\b0x[0-9a-f]+\b/gi, "<HEX>"],
+  // Long hex strings (hashes, trace ids) with at least one digit
+  [/\b(?=[0-9a-f]*\d)[0-9a-f]{16,}\b/gi, "<HEX>"],
+  [/(?<![\w.])[-+]?\d+(?:\.\d+)?(?![\w.])/g, "<NUM>"],
+];
+
+const PLACEHOLDER_PATTERN = /<\*>|<UUID>|<IP>|<HEX>|<NUM>/g;
+
+/**
+ * Replace variable parts of a message with typed placeholders
+ */
+export function maskMessage(message: string): string {
+  return MASKS.reduce((masked, [regex, placeholder]) => masked.replace(regex, placeholder), message);
+}
+
+/**
+ * The static text of a pattern, for a `match` query with operator `and`
+ */
+export function patternQuery(pattern: string): string {
+  return pattern.replace(PLACEHOLDER_PATTERN, " ").replace(/\s+/g, " ").trim();
+}
+
+// ============================================================================
+// Template Miner
+// ============================================================================
+
+/** Share of equal tokens needed for a message to join a pattern */
+const SIMILARITY_THRESHOLD = 0.5;
+
+interface Cluster {
+  tokens: string[];
+  count: number;
+}
+
+function isPlaceholder(token: string): boolean {
+  return token.startsWith("<") && token.endsWith(">") && token.replace(PLACEHOLDER_PATTERN, "") === "";
+}
+
+function similarity(template: string[], tokens: string[]): number {
+  let equal = 0;
+  for (let i = 0; i < template.length; i++) {
+    if (template[i] === tokens[i]) equal++;
+  }
+  return equal / template.length;
+}
+
+/**
+ * Group messages into patterns, most frequent first
+ */
+export function mineLogPatterns(messages: string[]): MinedPattern[] {
+  // First layer: token count and first token (placeholders share one group)
+  const groups = new Map<string, Cluster[]>();
+
+  for (const message of messages) {
+    const tokens = maskMessage(message).split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) continue;
+
+    const first = isPlaceholder(tokens[0]) ? PLACEHOLDER : tokens[0];
+    const groupKey = `${tokens.length}:${first}`;
+    const clusters = groups.get(groupKey) ?? [];
+    groups.set(groupKey, clusters);
+
+    let best: Cluster | undefined;
+    let bestSimilarity = 0;
+    for (const cluster of clusters) {
+      const score = similarity(cluster.tokens, tokens);
+      if (score > bestSimilarity) {
+        best = cluster;
+        bestSimilarity = score;
+      }
+    }
+
+    if (best && bestSimilarity >= SIMILARITY_THRESHOLD) {
+      best.tokens = best.tokens.map((token, i) => (token === tokens[i] ? token : PLACEHOLDER));
+      best.count++;
+    } else {
+      clusters.push({ tokens, count: 1 });
+    }
+  }
+
+  // Clusters of one group can converge on the same pattern
+  const counts = new Map<string, number>();
+  for (const cluster of Array.from(groups.values()).flat()) {
+    const pattern = cluster.tokens.join(" ");
+    counts.set(pattern, (counts.get(pattern) ?? 0) + cluster.count);
+  }
+
+  return Array.from(counts, ([pattern, count]) => ({ pattern, count }))
+    .sort((a, b) => b.count - a.count);
+}
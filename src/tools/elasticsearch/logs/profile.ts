@@ -0,0 +1,167 @@
+/**
+ * Log field profiles
+ *
+ * profile_log_fields describes what aggregatable fields actually hold over a
+ * time range. Each field gets a `filter: exists` aggregation, so presence is
+ * its doc count over the total, with sub-aggregations by type:
+ * - every field: a cardinality estimate
+ * - keyword, ip and boolean fields: top values
+ * - numeric and date fields: stats, percentiles and a histogram
+ *   (variable_width_histogram or auto_date_histogram, so no interval is needed)
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FieldProfile {
+  name: string;
+  type: string;
+  /** Documents with a value for the field */
+  count: number;
+  /** Share of documents with a value (0-1) */
+  presence: number;
+  /** Approximate number of distinct values */
+  cardinality: number;
+  /** Most common values; percent is of documents with the field */
+  topValues?: Array<{ value: string; count: number; percent: number }>;
+  /** Numbers for numeric fields, timestamps for date fields */
+  min?: number | string;
+  max?: number | string;
+  avg?: number | string;
+  percentiles?: Record<string, number | string>;
+  histogram?: Array<{ from: number | string; to?: number | string; count: number }>;
+}
+
+export interface LogFieldProfiles {
+  total: number;
+  profiles: FieldProfile[];
+  /** Fields left out: not aggregatable, or of a type that cannot be profiled */
+  skipped: string[];
+}
+
+/**
+ * Response of one field's profileAggs
+ */
+export interface ProfileAggResult {
+  doc_count: number;
+  cardinality?: { value: number };
+  top_values?: { buckets: Array<{ key: string | number; key_as_string?: string; doc_count: number }> };
+  stats?: {
+    min: number | null;
+    max: number | null;
+    avg: number | null;
+    min_as_string?: string;
+    max_as_string?: string;
+    avg_as_string?: string;
+  };
+  percentiles?: { values: Record<string, number | string | null> };
+  histogram?: {
+    buckets: Array<{ key: number; key_as_string?: string; min?: number; max?: number; doc_count: number }>;
+  };
+}
+
+// ============================================================================
+// Aggregations
+// ============================================================================
+
+const TERMS_TYPES = new Set(["keyword", "constant_keyword", "ip", "boolean", "version"]);
+
+const NUMERIC_TYPES = new Set([
+  "long", "integer", "short", "byte", "double", "float", "half_float", "scaled_float", "unsigned_long",
+]);
+
+const DATE_TYPES = new Set(["date", "date_nanos"]);
+
+/** Percentiles reported for numeric and date fields */
+const PERCENTS = [50, 90, 95, 99];
+
+/** Buckets in a field's histogram */
+const HISTOGRAM_BUCKETS = 10;
+
+/**
+ * Whether a field of this type can be profiled
+ */
+export function isProfilable(type: string): boolean {
+  return TERMS_TYPES.has(type) || NUMERIC_TYPES.has(type) || DATE_TYPES.has(type);
+}
+
+/**
+ * The exists filter and sub-aggregations profiling one field
+ */
+export function profileAggs(field: string, type: string, topValues: number): Record<string, unknown> {
+  const aggs: Record<string, unknown> = {
+    cardinality: { cardinality: { field } },
+  };
+
+  if (TERMS_TYPES.has(type)) {
+    aggs.top_values = { terms: { field, size: topValues } };
+  } else {
+    aggs.stats = { stats: { field } };
+    aggs.percentiles = { percentiles: { field, percents: PERCENTS } };
+    aggs.histogram = DATE_TYPES.has(type)
+      ? { auto_date_histogram: { field, buckets: HISTOGRAM_BUCKETS } }
+      : { variable_width_histogram: { field, buckets: HISTOGRAM_BUCKETS } };
+  }
+
+  return { filter: { exists: { field } }, aggs };
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Turn a field's profileAggs result into a profile
+ */
+export function parseFieldProfile(name: string, type: string, result: ProfileAggResult, total: number): FieldProfile {
+  const count = result.doc_count;
+  const profile: FieldProfile = {
+    name,
+    type,
+    count,
+    presence: total > 0 ? round(count / total) : 0,
+    cardinality: result.cardinality?.value ?? 0,
+  };
+
+  if (result.top_values) {
+    profile.topValues = result.top_values.buckets.map((bucket) => ({
+      value: bucket.key_as_string ?? String(bucket.key),
+      count: bucket.doc_count,
+      percent: count > 0 ? Math.round((bucket.doc_count / count) * 1000) / 10 : 0,
+    }));
+  }
+
+  // Empty fields have null stats, which say nothing
+  if (result.stats && count > 0) {
+    const date = DATE_TYPES.has(type);
+    const stat = (value: number | null, asString?: string) =>
+      value === null ? undefined : date && asString ? asString : round(value);
+    profile.min = stat(result.stats.min, result.stats.min_as_string);
+    profile.max = stat(result.stats.max, result.stats.max_as_string);
+    profile.avg = stat(result.stats.avg, result.stats.avg_as_string);
+
+    // Date percentiles come back with "<percent>_as_string" companions
+    const values = result.percentiles?.values ?? {};
+    profile.percentiles = Object.fromEntries(
+      Object.entries(values)
+        .filter(([key, value]) => !key.endsWith("_as_string") && value !== null)
+        .map(([key, value]) => {
+          const asString = values[`${key}_as_string`];
+          return [`p${parseFloat(key)}`, date && typeof asString === "string" ? asString : round(Number(value))];
+        })
+    );
+
+    profile.histogram = (result.histogram?.buckets ?? []).map((bucket) =>
+      bucket.key_as_string !== undefined
+        ? { from: bucket.key_as_string, count: bucket.doc_count }
+        : { from: round(bucket.min ?? bucket.key), to: round(bucket.max ?? bucket.key), count: bucket.doc_count }
+    );
+  }
+
+  return profile;
+}
@@ -0,0 +1,234 @@
+/**
+ * Kibana saved searches
+ *
+ * Discover saved searches are `search` saved objects in the Kibana index.
+ * run_saved_search runs one through search_logs over a time range of the
+ * caller's choosing:
+ * - the data view is the one the saved object references, or the ad hoc data
+ *   view embedded in its search source
+ * - a KQL query is passed on as KQL, a Lucene query as a query_string filter
+ * - enabled filters are used as the query DSL Kibana stores with them
+ *   (wrapped in must_not when negated)
+ * - columns become the requested fields and the sort replaces the
+ *   newest-first default
+ */
+
+import type { SearchRefinement } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SearchSort = Array<Record<string, "asc" | "desc">>;
+
+export interface SavedSearch {
+  id: string;
+  title: string;
+  description?: string;
+  /** Id of the referenced data view; absent for ad hoc data views */
+  dataViewId?: string;
+  /** Index pattern of the data view, once resolved */
+  indexPattern?: string;
+  timeField?: string;
+  query?: { query: string; language: "kuery" | "lucene" };
+  /** Enabled filters, as query DSL */
+  filters: object[];
+  /** Enabled filters as Kibana shows them, e.g. "NOT service.name: checkout" */
+  filterLabels: string[];
+  columns: string[];
+  sort: SearchSort;
+}
+
+/**
+ * A filter as Kibana stores it: its query DSL plus display metadata
+ */
+interface KibanaFilter {
+  meta?: {
+    disabled?: boolean;
+    negate?: boolean;
+    alias?: string | null;
+    key?: string;
+    type?: string;
+    params?: unknown;
+  };
+  query?: Record<string, unknown>;
+  $state?: unknown;
+  [key: string]: unknown;
+}
+
+interface SearchSource {
+  query?: { query?: unknown; language?: string };
+  filter?: KibanaFilter[];
+  /** Data view id, or an ad hoc data view spec */
+  index?: string | { id?: string; title?: string; timeFieldName?: string };
+  indexRefName?: string;
+}
+
+/**
+ * A `search` saved object hit from the Kibana index
+ */
+export interface SavedSearchHit {
+  _id: string;
+  _source: {
+    search?: {
+      title?: string;
+      description?: string;
+      columns?: string[];
+      sort?: unknown;
+      kibanaSavedObjectMeta?: { searchSourceJSON?: string };
+    };
+    references?: Array<{ name: string; type: string; id: string }>;
+  };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown when no saved search has the requested id or title
+ */
+export class SavedSearchNotFoundError extends Error {
+  constructor(idOrTitle: string) {
+    super(`Saved search '${idOrTitle}' not found. Use list_saved_searches to see the available saved searches.`);
+    this.name = "SavedSearchNotFoundError";
+  }
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+/**
+ * Query DSL of an enabled filter; undefined for disabled or empty ones
+ */
+export function filterToDsl(filter: KibanaFilter): object | undefined {
+  const { meta, $state: _state, query, ...rest } = filter;
+  if (meta?.disabled) return undefined;
+
+  // Filters of older versions keep their DSL next to meta rather than under query
+  let dsl: Record<string, unknown> | undefined = query ?? (Object.keys(rest).length > 0 ? rest : undefined);
+  const phrase = (meta?.params as { query?: unknown } | undefined)?.query;
+  if (!dsl && meta?.type === "phrase" && meta.key && phrase !== undefined) {
+    dsl = { match_phrase: { [meta.key]: phrase } };
+  }
+  if (!dsl) return undefined;
+
+  // 6.x-7.x phrase filters: { match: { field: { query, type: "phrase" } } }
+  const match = dsl.match as Record<string, { query?: unknown; type?: string }> | undefined;
+  const [field, options] = Object.entries(match ?? {})[0] ?? [];
+  if (field && options?.type === "phrase") {
+    dsl = { match_phrase: { [field]: options.query } };
+  }
+
+  return meta?.negate ? { bool: { must_not: [dsl] } } : dsl;
+}
+
+/**
+ * A filter as Kibana shows it in the filter bar
+ */
+export function filterLabel(filter: KibanaFilter): string {
+  const meta = filter.meta ?? {};
+  const not = meta.negate ? "NOT " : "";
+  if (meta.alias) return `${not}${meta.alias}`;
+
+  const params = meta.params as Record<string, unknown> | unknown[] | undefined;
+  switch (meta.type) {
+    case "phrase":
+      return `${not}${meta.key}: ${(params as { query?: unknown } | undefined)?.query}`;
+    case "phrases":
+      return `${not}${meta.key}: ${(Array.isArray(params) ? params : []).join(" OR ")}`;
+    case "exists":
+      return `${not}${meta.key} exists`;
+    case "range": {
+      const range = (params ?? {}) as Record<string, unknown>;
+      const bounds = Object.entries(range).map(([op, value]) => `${op} ${value}`);
+      return `${not}${meta.key}: ${bounds.join(", ")}`;
+    }
+    default:
+      return `${not}${JSON.stringify(filterToDsl({ ...filter, meta: { ...meta, negate: false } }) ?? {})}`;
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Kibana stores one [field, direction] pair, or a list of them
+ */
+function parseSort(sort: unknown): SearchSort {
+  if (!Array.isArray(sort) || sort.length === 0) return [];
+  const pairs = Array.isArray(sort[0]) ? (sort as unknown[][]) : [sort];
+  return pairs
+    .filter((pair) => typeof pair[0] === "string")
+    .map((pair) => ({ [pair[0] as string]: pair[1] === "asc" ? "asc" : "desc" }));
+}
+
+function parseSearchSource(json: string | undefined): SearchSource {
+  if (!json) return {};
+  try {
+    return JSON.parse(json) as SearchSource;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Turn a `search` saved object into a saved search; the data view is
+ * resolved by the caller from `dataViewId`
+ */
+export function parseSavedSearch(hit: SavedSearchHit): SavedSearch {
+  const attributes = hit._source.search ?? {};
+  const source = parseSearchSource(attributes.kibanaSavedObjectMeta?.searchSourceJSON);
+  const references = hit._source.references ?? [];
+
+  const savedSearch: SavedSearch = {
+    id: hit._id.replace(/^search:/, ""),
+    title: attributes.title ?? "",
+    ...(attributes.description && { description: attributes.description }),
+    filters: [],
+    filterLabels: [],
+    // "_source" is Discover's "whole document" column
+    columns: (attributes.columns ?? []).filter((column) => column !== "_source"),
+    sort: parseSort(attributes.sort),
+  };
+
+  // Referenced data view (7.11+), inline id (older), or ad hoc spec (8.x)
+  const reference = references.find((ref) => ref.name === (source.indexRefName ?? "kibanaSavedObjectMeta.searchSourceJSON.index"));
+  if (reference) {
+    savedSearch.dataViewId = reference.id;
+  } else if (typeof source.index === "string") {
+    savedSearch.dataViewId = source.index;
+  } else if (source.index?.title) {
+    savedSearch.indexPattern = source.index.title;
+    savedSearch.timeField = source.index.timeFieldName;
+  }
+
+  const queryText = source.query?.query;
+  if (typeof queryText === "string" && queryText.trim()) {
+    savedSearch.query = { query: queryText, language: source.query?.language === "lucene" ? "lucene" : "kuery" };
+  }
+
+  for (const filter of source.filter ?? []) {
+    const dsl = filterToDsl(filter);
+    if (dsl) {
+      savedSearch.filters.push(dsl);
+      savedSearch.filterLabels.push(filterLabel(filter));
+    }
+  }
+
+  return savedSearch;
+}
+
+/**
+ * The filters and sort search_logs adds for a saved search. A Lucene query
+ * becomes a query_string filter; a KQL query is passed on separately.
+ */
+export function savedSearchRefinement(savedSearch: SavedSearch): SearchRefinement {
+  const lucene = savedSearch.query?.language === "lucene" ? [{ query_string: { query: savedSearch.query.query } }] : [];
+  return {
+    filters: [...lucene, ...savedSearch.filters],
+    ...(savedSearch.sort.length > 0 && { sort: savedSearch.sort }),
+  };
+}
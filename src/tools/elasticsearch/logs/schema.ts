@@ -1,14 +1,21 @@
 /**
  * Logs-specific schema definitions
  * 
- * Authentication comes from environment variables only:
- * - ES_URL: Elasticsearch URL
- * - ES_API_KEY: API key for authentication (recommended)
- * - ES_USERNAME / ES_PASSWORD: Basic auth credentials (alternative)
+ * Connections and credentials are configured at deployment, never by agents,
+ * as named cluster profiles (see ../common/clusters.ts):
+ * - the "default" profile is built from ES_URL or ES_CLOUD_ID plus
+ *   credentials (see ../common/schema.ts)
+ * - further named profiles come from ES_CLUSTERS or ES_CLUSTERS_FILE, and
+ *   ES_DEFAULT_CLUSTER picks the one used when no cluster is named
+ * - a profile's `kibanaIndex`, `maxTimeRangeHours` and
+ *   `maxResults` override the settings below
+ * Agents only choose a profile, with the optional `cluster` argument.
  */
 
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { z } from "zod";
-import { timeRangeSchema, paginationSchema } from "../common/schema.js";
+import { elasticsearchBaseAuthSchema, timeRangeSchema, paginationSchema } from "../common/schema.js";
 
 /**
  * Logs configuration from environment variables
@@ -16,15 +23,49 @@ import { timeRangeSchema, paginationSchema } from "../common/schema.js";
 export const ES_LOGS_CONFIG = {
   // Use wildcard to match all Kibana indices (supports multi-version clusters)
   kibanaIndex: process.env.ES_KIBANA_INDEX || ".kibana*",
+  // Alerts-as-data indices Kibana alerting rules write to
+  alertsIndex: process.env.ES_ALERTS_INDEX || ".alerts-*",
+  // Results indices of machine-learning anomaly detection jobs
+  mlResultsIndex: process.env.ES_ML_RESULTS_INDEX || ".ml-anomalies-*",
   maxTimeRangeHours: parseInt(process.env.ES_MAX_TIME_RANGE_HOURS || "24", 10),
   maxResults: parseInt(process.env.ES_MAX_RESULTS || "500", 10),
+  // Point-in-time keep-alive between search_logs pages, and how many may be open at once
+  pitKeepAlive: process.env.ES_PIT_KEEP_ALIVE || "5m",
+  maxOpenPits: parseInt(process.env.ES_MAX_OPEN_PITS || "100", 10),
+  // Key that signs cursors and async search ids (random per process when unset)
+  tokenSecret: process.env.ES_TOKEN_SECRET,
+  // How long Elasticsearch keeps async aggregation results around for polling
+  asyncSearchKeepAlive: process.env.ES_ASYNC_SEARCH_KEEP_ALIVE || "1h",
+  // Where export_logs writes files, and the most rows one export may hold
+  exportDir: process.env.ES_EXPORT_DIR || join(tmpdir(), "essp-mcp-exports"),
+  maxExportRows: parseInt(process.env.ES_EXPORT_MAX_ROWS || "100000", 10),
+  // Largest export the logs-export:// resource reads into memory
+  maxExportReadBytes: parseInt(process.env.ES_EXPORT_MAX_READ_BYTES || "", 10) || 50 * 1024 * 1024,
+  // Exports older than this are deleted when the next export starts (0 keeps them)
+  exportRetentionHours: parseFloat(process.env.ES_EXPORT_RETENTION_HOURS || "24"),
 };
 
 /**
- * Logs schema - no auth params exposed to agents
+ * ES|QL guardrail configuration from environment variables
+ * (allowedIndices unset means logs-* plus the cluster's APM index pattern)
+ */
+export const ES_ESQL_CONFIG = {
+  deniedCommands: (process.env.ES_ESQL_DENIED_COMMANDS ?? "ENRICH")
+    .split(",")
+    .map((c) => c.trim().toUpperCase())
+    .filter(Boolean),
+  allowedIndices: process.env.ES_ESQL_ALLOWED_INDICES
+    ? process.env.ES_ESQL_ALLOWED_INDICES.split(",").map((i) => i.trim()).filter(Boolean)
+    : undefined,
+};
+
+/**
+ * Logs schema - no auth params exposed to agents, only the cluster profile
  * Authentication comes from environment variables only.
  */
-export const logsAuthSchema = {};
+export const logsAuthSchema = {
+  ...elasticsearchBaseAuthSchema,
+};
 
 /**
  * Re-export common schemas
@@ -40,6 +81,16 @@ export const dataViewSchema = {
     .describe("Index pattern to query (e.g., 'logs-myapp-*'). Use list_log_data_views to discover available patterns."),
 };
 
+/**
+ * Time field override
+ */
+export const timeFieldSchema = {
+  timeField: z
+    .string()
+    .optional()
+    .describe("Time field to filter and sort on (default: the data view's time field, or @timestamp when no data view matches the index pattern)"),
+};
+
 /**
  * Query filter schema
  */
@@ -47,7 +98,7 @@ export const queryFilterSchema = {
   query: z
     .string()
     .optional()
-    .describe("KQL query string to filter logs (e.g., 'level:error AND service:api')"),
+    .describe("KQL query string to filter logs (e.g., 'level:error AND service:api', 'message:\"connection refused\"', 'status >= 500', 'not host.name:web-*')"),
 };
 
 /**
@@ -60,6 +111,34 @@ export const fieldSelectionSchema = {
     .describe("Specific fields to return (default: all fields). Use get_log_fields to discover available fields."),
 };
 
+/**
+ * Cursor for paging through search results
+ */
+export const cursorSchema = {
+  cursor: z
+    .string()
+    .optional()
+    .describe("Cursor from a previous search_logs response to fetch the next page. The original index pattern, query, fields, time range and output options are reused, so indexPattern and startTime can be left out."),
+};
+
+/**
+ * Async search mode for long-running aggregations
+ */
+export const asyncSearchSchema = {
+  async: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Run as an Elasticsearch async search. If it does not finish within waitSeconds, partial results and a searchId are returned; poll with get_async_log_results."),
+  waitSeconds: z
+    .number()
+    .min(1)
+    .max(60)
+    .optional()
+    .default(10)
+    .describe("Seconds to wait for an async search before returning partial results (default: 10, max: 60)"),
+};
+
 /**
  * Aggregation metric types
  */
@@ -68,6 +147,40 @@ export const aggregationMetricSchema = z
   .default("count")
   .describe("Aggregation metric type");
 
+/**
+ * Metrics computed side by side per group and time bucket
+ */
+export const aggregationMetricsSchema = z
+  .array(
+    z.union([
+      z.object({
+        type: z.enum(["avg", "sum", "min", "max", "cardinality", "stats"]),
+        field: z.string(),
+        name: z.string().optional(),
+      }),
+      z.object({
+        type: z.literal("percentiles"),
+        field: z.string(),
+        percents: z.array(z.number().min(0).max(100)).optional(),
+        name: z.string().optional(),
+      }),
+      z.object({
+        type: z.literal("rate"),
+        field: z.string().optional(),
+        unit: z.enum(["second", "minute", "hour", "day"]).optional(),
+        name: z.string().optional(),
+      }),
+    ])
+  )
+  .max(10)
+  .optional()
+  .describe(
+    "Metrics to compute per group (and per time bucket), e.g. [{type:'percentiles', field:'event.duration', percents:[50,95,99]}, " +
+    "{type:'cardinality', field:'user.id'}, {type:'rate', unit:'minute'}]. Types: avg, sum, min, max, cardinality (unique count), " +
+    "stats (count/min/max/avg/sum), percentiles (default 50/95/99) and rate (logs, or the sum of field, per unit; default minute). " +
+    "Results are keyed by 'name' (default e.g. 'percentiles(event.duration)')."
+  );
+
 /**
  * Time interval for date histograms
  */
@@ -0,0 +1,43 @@
+/**
+ * Signed tokens
+ *
+ * search_logs cursors and async search ids carry the query they continue,
+ * so agents must not be able to edit them: a token is the base64url JSON
+ * payload plus an HMAC-SHA256 of it, "<payload>.<mac>". The key is
+ * ES_TOKEN_SECRET, or a random per-process key when unset (tokens then stop
+ * verifying after a restart, and replicas cannot read each other's tokens).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { ES_LOGS_CONFIG } from "./schema.js";
+
+const key = ES_LOGS_CONFIG.tokenSecret ? Buffer.from(ES_LOGS_CONFIG.tokenSecret, "utf-8") : randomBytes(32);
+
+function mac(payload: string): Buffer {
+  return createHmac("sha256", key).update(payload).digest();
+}
+
+export function signToken(value: object): string {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${payload}.${mac(payload).toString("base64url")}`;
+}
+
+/**
+ * The payload of a token signed here; undefined when it is malformed or does
+ * not verify
+ */
+export function verifyToken(token: string): Record<string, unknown> | undefined {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return undefined;
+
+  const expected = mac(payload);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
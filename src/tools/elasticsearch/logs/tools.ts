@@ -5,15 +5,26 @@
  */
 
 import { z } from "zod";
+import type { SerializableValue } from "fastmcp";
+import { getCallerCredential, type ToolContext } from "../common/credentials.js";
 import { createLogsClient, ElasticsearchApiError } from "./client.js";
+import { decodeCursor } from "./cursor.js";
+import { decodeAsyncSearchHandle } from "./async.js";
+import { EXPORT_MIME_TYPES, exportOwner } from "./export.js";
+import { formatLog, type LogOutputOptions } from "./output.js";
 import {
   logsAuthSchema,
   timeRangeSchema,
   dataViewSchema,
+  timeFieldSchema,
   queryFilterSchema,
   fieldSelectionSchema,
+  cursorSchema,
+  asyncSearchSchema,
   aggregationMetricSchema,
+  aggregationMetricsSchema,
   timeIntervalSchema,
+  ES_LOGS_CONFIG,
 } from "./schema.js";
 
 // ============================================================================
@@ -36,42 +47,92 @@ const getFieldValuesParams = z.object({
   ...logsAuthSchema,
   ...dataViewSchema,
   ...timeRangeSchema,
+  ...timeFieldSchema,
   field: z.string().describe("Field name to get unique values for"),
   limit: z.number().optional().default(20).describe("Maximum number of values to return (default: 20)"),
 });
 
+/**
+ * How search results are returned, shared by search_logs and run_saved_search
+ */
+const logOutputParams = {
+  highlight: z.boolean().optional().default(false)
+    .describe("Return the fragments of each field that matched the query, under 'highlight'"),
+  maxFieldChars: z.number().int().positive().optional()
+    .describe("Truncate string values longer than this many characters (e.g. stack traces), marking what was cut"),
+  projection: z.enum(["full", "summary"]).optional().default("full")
+    .describe("'summary' returns only timestamp, level, service, message and highlights of each log, ignoring 'fields'"),
+};
+
+/**
+ * A cursor carries the original search, so index pattern and start time are
+ * only required without one
+ */
 const searchLogsParams = z.object({
   ...logsAuthSchema,
-  ...dataViewSchema,
-  ...timeRangeSchema,
+  indexPattern: dataViewSchema.indexPattern.optional()
+    .describe(`${dataViewSchema.indexPattern.description} Required unless 'cursor' is given.`),
+  startTime: timeRangeSchema.startTime.optional()
+    .describe(`${timeRangeSchema.startTime.description}. Required unless 'cursor' is given.`),
+  endTime: timeRangeSchema.endTime,
+  ...timeFieldSchema,
   ...queryFilterSchema,
   ...fieldSelectionSchema,
+  ...cursorSchema,
   limit: z.number().optional().default(100).describe("Maximum number of logs to return (default: 100, max: 500)"),
+  ...logOutputParams,
+}).superRefine((args, ctx) => {
+  if (args.cursor) return;
+  for (const key of ["indexPattern", "startTime"] as const) {
+    if (!args[key]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `${key} is required without a cursor` });
+    }
+  }
 });
 
 const getLogContextParams = z.object({
   ...logsAuthSchema,
   ...dataViewSchema,
+  ...timeFieldSchema,
   logId: z.string().describe("Document ID of the target log entry"),
   before: z.number().optional().default(10).describe("Number of logs to fetch before the target (default: 10)"),
   after: z.number().optional().default(10).describe("Number of logs to fetch after the target (default: 10)"),
+  scopeFields: z.array(z.string()).optional().describe(
+    "Fields whose values on the target log the surrounding logs must share, keeping context to the same stream " +
+    "(default: host.name, container.id, service.name and log.file.path, when present on the target). " +
+    "Pass an empty array for context across the whole index pattern."
+  ),
 });
 
 const aggregateLogsParams = z.object({
   ...logsAuthSchema,
   ...dataViewSchema,
   ...timeRangeSchema,
+  ...timeFieldSchema,
   ...queryFilterSchema,
-  groupBy: z.string().describe("Field to group by (e.g., 'level', 'service', 'client_ip')"),
+  groupBy: z.union([z.string(), z.array(z.string()).min(1).max(3)]).describe(
+    "Field to group by (e.g., 'level', 'service', 'client_ip'), or up to 3 fields grouped in order " +
+    "(e.g., ['service.name', 'http.response.status_code'])"
+  ),
+  grouping: z.enum(["nested", "flat", "composite"]).optional().default("nested").describe(
+    "How multi-field groups are returned: 'nested' (buckets with sub-groups), 'flat' (one bucket per combination), " +
+    "or 'composite' (every combination in key order, paged with 'after')"
+  ),
+  after: z.string().optional().describe("'nextAfter' from a previous composite page, to fetch the next page"),
+  samples: z.number().int().min(1).max(10).optional()
+    .describe("Attach this many sample documents (newest first) to each innermost group"),
   timeInterval: timeIntervalSchema,
   metric: aggregationMetricSchema,
   metricField: z.string().optional().describe("Field for metric calculation (required if metric is not 'count')"),
-  limit: z.number().optional().default(10).describe("Maximum number of groups to return (default: 10, max: 50)"),
+  metrics: aggregationMetricsSchema,
+  limit: z.number().optional().default(10).describe("Maximum number of groups to return per level (default: 10, max: 50), or combinations per composite page (max: 500)"),
+  ...asyncSearchSchema,
 });
 
 const comparePeriodsParams = z.object({
   ...logsAuthSchema,
   ...dataViewSchema,
+  ...timeFieldSchema,
   ...queryFilterSchema,
   groupBy: z.string().describe("Field to group by for comparison"),
   period1Start: z.string().describe("Start time of first period (e.g., 'now-2d')"),
@@ -80,6 +141,140 @@ const comparePeriodsParams = z.object({
   period2End: z.string().describe("End time of second period (e.g., 'now')"),
   metric: z.enum(["count", "avg", "sum"]).optional().default("count").describe("Metric to compare"),
   metricField: z.string().optional().describe("Field for metric calculation"),
+  metrics: aggregationMetricsSchema,
+  ...asyncSearchSchema,
+});
+
+const queryEsqlParams = z.object({
+  ...logsAuthSchema,
+  ...timeRangeSchema,
+  ...timeFieldSchema,
+  esql: z.string().describe("ES|QL query starting with FROM, e.g. 'FROM logs-* | WHERE log.level == \"error\" | STATS count = COUNT(*) BY service.name'. The time range is applied automatically; ENRICH and indices outside the allowlist are rejected."),
+  limit: z.number().optional().default(100).describe("Maximum number of rows to return (default: 100, max: 500)"),
+});
+
+const categorizeLogsParams = z.object({
+  ...logsAuthSchema,
+  ...dataViewSchema,
+  ...timeRangeSchema,
+  ...timeFieldSchema,
+  ...queryFilterSchema,
+  field: z.string().optional().default("message").describe("Text field holding the log message (default: message)"),
+  limit: z.number().optional().default(20).describe("Maximum number of patterns to return (default: 20, max: 100)"),
+  baselineStart: z.string().optional().describe("Start of the baseline window new/rare patterns are judged against (default: the window of the same length just before startTime)"),
+  baselineEnd: z.string().optional().describe("End of the baseline window (default: startTime)"),
+});
+
+const detectLogAnomaliesParams = z.object({
+  ...logsAuthSchema,
+  ...dataViewSchema,
+  ...timeRangeSchema,
+  ...timeFieldSchema,
+  ...queryFilterSchema,
+  groupBy: z.string().optional().describe("Field to detect anomalies per value of (e.g., 'service.name'); omit for overall volume"),
+  interval: z.string().optional().describe("Histogram bucket interval (e.g., '5m', '1h'; default: about 60 buckets over the time range)"),
+  groupLimit: z.number().optional().default(5).describe("Number of groupBy values (by log volume) to analyze (default: 5, max: 20)"),
+});
+
+const logFieldCorrelationsParams = z.object({
+  ...logsAuthSchema,
+  ...dataViewSchema,
+  ...timeRangeSchema,
+  ...timeFieldSchema,
+  foregroundQuery: z.string().describe("KQL query selecting the logs to explain (e.g., 'level:error', 'http.response.status_code >= 500')"),
+  backgroundQuery: z.string().optional().describe("KQL query selecting the logs to compare against (default: all logs)"),
+  backgroundStart: z.string().optional().describe("Start of the background time window (default: startTime)"),
+  backgroundEnd: z.string().optional().describe("End of the background time window (default: endTime)"),
+  fields: z.array(z.string()).optional().describe("Fields to analyze (default: aggregatable keyword, ip, boolean and integer fields, plus message). Use get_log_fields to discover available fields."),
+  limit: z.number().optional().default(20).describe("Maximum number of field values to return (default: 20)"),
+});
+
+const tailLogsParams = z.object({
+  ...logsAuthSchema,
+  ...dataViewSchema,
+  ...timeFieldSchema,
+  ...queryFilterSchema,
+  ...fieldSelectionSchema,
+  startTime: z.string().optional().default("now").describe("Follow logs from this time (default: now, i.e. only new logs; e.g. 'now-5m' to include recent ones)"),
+  durationSeconds: z.number().min(1).max(120).optional().default(30).describe("How long to follow logs (default: 30, max: 120)"),
+  pollIntervalSeconds: z.number().min(1).max(30).optional().default(5).describe("Seconds between polls (default: 5)"),
+  maxLogs: z.number().optional().default(200).describe("Stop after this many logs (default: 200)"),
+});
+
+const exportLogsParams = z.object({
+  ...logsAuthSchema,
+  ...dataViewSchema,
+  ...timeRangeSchema,
+  ...timeFieldSchema,
+  ...queryFilterSchema,
+  fields: z.array(z.string()).optional().describe("Fields to export, as CSV columns in this order (default: all fields; CSV columns are then taken from the first page)"),
+  format: z.enum(["ndjson", "csv"]).optional().default("ndjson").describe("File format (default: ndjson)"),
+  maxRows: z.number().int().positive().optional().describe(`Stop after this many rows (default and max: ${ES_LOGS_CONFIG.maxExportRows})`),
+});
+
+const profileLogFieldsParams = z.object({
+  ...logsAuthSchema,
+  ...dataViewSchema,
+  ...timeRangeSchema,
+  ...timeFieldSchema,
+  ...queryFilterSchema,
+  fields: z.array(z.string()).optional().describe("Fields to profile (default: all aggregatable fields). Use get_log_fields to discover available fields."),
+  topValues: z.number().min(1).max(20).optional().default(5).describe("Top values to return per keyword field (default: 5, max: 20)"),
+});
+
+const listSavedSearchesParams = z.object({
+  ...logsAuthSchema,
+  filterPattern: z.string().optional().describe("Filter saved searches by title or description (case-insensitive)"),
+});
+
+const runSavedSearchParams = z.object({
+  ...logsAuthSchema,
+  ...timeRangeSchema,
+  savedSearch: z.string().describe("Id or title of the saved search. Use list_saved_searches to discover saved searches."),
+  limit: z.number().optional().default(100).describe("Maximum number of logs to return (default: 100, max: 500)"),
+  ...logOutputParams,
+});
+
+/**
+ * Narrowing shared by list_alert_rules and get_alerts
+ */
+const alertFilterParams = {
+  ruleTypes: z.array(z.string()).optional()
+    .describe("Only these rule types, e.g. ['logs.alert.document.count', 'apm.error_rate']"),
+  tags: z.array(z.string()).optional().describe("Only rules with at least one of these tags"),
+  service: z.string().optional().describe("Only rules and alerts of this APM service"),
+};
+
+const listAlertRulesParams = z.object({
+  ...logsAuthSchema,
+  ...alertFilterParams,
+});
+
+const getAlertsParams = z.object({
+  ...logsAuthSchema,
+  ...timeRangeSchema,
+  ...alertFilterParams,
+  status: z.enum(["active", "recovered", "all"]).optional().default("active")
+    .describe("Alerts to return: still active (default), recovered, or all"),
+  limit: z.number().optional().default(50).describe("Maximum number of alerts to return (default: 50, max: 500)"),
+});
+
+const getMlAnomaliesParams = z.object({
+  ...logsAuthSchema,
+  ...timeRangeSchema,
+  jobIds: z.array(z.string()).optional()
+    .describe("Anomaly detection job ids, job groups (e.g. 'apm') or wildcards (default: all jobs)"),
+  minScore: z.number().min(0).max(100).optional().default(50)
+    .describe("Minimum anomaly score, 0-100 (default: 50; 75+ is critical, 50+ major, 25+ minor)"),
+  resultType: z.enum(["records", "buckets", "all"]).optional().default("all")
+    .describe("'records' for individual anomalies with actual and typical values, 'buckets' for overall scores per bucket span, or both"),
+  limit: z.number().optional().default(50).describe("Maximum number of records and of buckets to return (default: 50, max: 500)"),
+});
+
+const getAsyncResultsParams = z.object({
+  ...logsAuthSchema,
+  searchId: z.string().describe("searchId returned by aggregate_logs or compare_log_periods in async mode"),
+  waitSeconds: asyncSearchSchema.waitSeconds,
 });
 
 // ============================================================================
@@ -90,9 +285,9 @@ export const listDataViewsTool = {
   name: "list_log_data_views",
   description: "List available log data views (index patterns) from Kibana. ONLY use when user explicitly asks about logs, log files, or raw log data. For application errors/performance, use APM tools first.",
   parameters: listDataViewsParams,
-  execute: async (args: z.infer<typeof listDataViewsParams>) => {
+  execute: async (args: z.infer<typeof listDataViewsParams>, context?: ToolContext) => {
     try {
-      const client = createLogsClient();
+      const client = createLogsClient(args, getCallerCredential(context));
       const dataViews = await client.listDataViews(args.filterPattern);
 
       return JSON.stringify({
@@ -116,11 +311,11 @@ export const listDataViewsTool = {
 
 export const getLogFieldsTool = {
   name: "get_log_fields",
-  description: "Get available fields for a log index pattern. ONLY use when user explicitly asks about logs. For application errors/performance, use APM tools first.",
+  description: "Get available fields for a log index pattern, including runtime fields, scripted fields and field formats from its Kibana data view. ONLY use when user explicitly asks about logs. For application errors/performance, use APM tools first.",
   parameters: getLogFieldsParams,
-  execute: async (args: z.infer<typeof getLogFieldsParams>) => {
+  execute: async (args: z.infer<typeof getLogFieldsParams>, context?: ToolContext) => {
     try {
-      const client = createLogsClient();
+      const client = createLogsClient(args, getCallerCredential(context));
       let fields = await client.getFields(args.indexPattern);
 
       // Filter by type if specified
@@ -142,6 +337,10 @@ export const getLogFieldsTool = {
           type: f.type,
           searchable: f.searchable,
           aggregatable: f.aggregatable,
+          ...(f.runtime && { runtime: true }),
+          ...(f.scripted && { scripted: true }),
+          ...(f.format && { format: f.format }),
+          ...(f.customLabel && { customLabel: f.customLabel }),
         })),
         count: fields.length,
       }, null, 2);
@@ -158,16 +357,18 @@ export const getFieldValuesTool = {
   name: "get_log_field_values",
   description: "Get unique values for a log field. ONLY use when user explicitly asks about logs. For application errors/performance, use APM tools first. Returns top values by document count.",
   parameters: getFieldValuesParams,
-  execute: async (args: z.infer<typeof getFieldValuesParams>) => {
+  execute: async (args: z.infer<typeof getFieldValuesParams>, context?: ToolContext) => {
     try {
-      const client = createLogsClient();
+      const client = createLogsClient(args, getCallerCredential(context));
       const requestedLimit = args.limit || 20;
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
       const values = await client.getFieldValues(
         args.indexPattern,
         args.field,
         args.startTime,
         args.endTime,
-        requestedLimit
+        requestedLimit,
+        timeField
       );
 
       const mightHaveMore = values.length >= requestedLimit;
@@ -178,6 +379,7 @@ export const getFieldValuesTool = {
         values,
         count: values.length,
         mightHaveMoreValues: mightHaveMore,
+        timeField,
         timeRange: {
           start: args.startTime,
           end: args.endTime,
@@ -200,37 +402,75 @@ export const getFieldValuesTool = {
 
 export const searchLogsTool = {
   name: "search_logs",
-  description: "Search raw log entries. ONLY use when user explicitly asks about logs, log files, or raw log data. For application errors/performance, use APM tools (get_apm_errors, get_apm_transactions) first. Results capped at 500 - check 'truncated' field.",
+  description: "Search raw log entries. ONLY use when user explicitly asks about logs, log files, or raw log data. For application errors/performance, use APM tools (get_apm_errors, get_apm_transactions) first. Pages are capped at 500 - when 'nextCursor' is set, pass it back as 'cursor' to get the next page.",
   parameters: searchLogsParams,
-  execute: async (args: z.infer<typeof searchLogsParams>) => {
+  execute: async (args: z.infer<typeof searchLogsParams>, context?: ToolContext) => {
     try {
-      const client = createLogsClient();
+      if (args.cursor) {
+        // The cursor pins cluster, index, query and time range of the original search
+        const cluster = decodeCursor(args.cursor).cluster;
+        const client = createLogsClient({ ...args, cluster }, getCallerCredential(context));
+        const page = await client.searchLogsPage(args.cursor, args.limit);
+
+        return JSON.stringify({
+          indexPattern: page.search.indexPattern,
+          query: page.search.query || null,
+          logs: page.logs.map((log) => formatLog(log, page.search.output)),
+          count: page.logs.length,
+          totalMatches: page.total,
+          offset: page.search.returned,
+          nextCursor: page.cursor || null,
+          timeField: page.search.timeField,
+          timeRange: {
+            start: page.search.startTime,
+            end: page.search.endTime,
+          },
+        }, null, 2);
+      }
+
+      // Both are required without a cursor; see searchLogsParams
+      const indexPattern = args.indexPattern as string;
+      const startTime = args.startTime as string;
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(indexPattern, args.timeField);
+      const output: LogOutputOptions = {
+        highlight: args.highlight,
+        maxFieldChars: args.maxFieldChars,
+        projection: args.projection,
+      };
       const result = await client.searchLogs(
-        args.indexPattern,
-        args.startTime,
+        indexPattern,
+        startTime,
         args.endTime,
         args.query,
         args.fields,
-        args.limit
+        args.limit,
+        output,
+        {},
+        timeField
       );
 
       const isTruncated = result.total > result.logs.length;
       const response: Record<string, unknown> = {
-        indexPattern: args.indexPattern,
+        indexPattern,
         query: args.query || null,
-        logs: result.logs,
+        logs: result.logs.map((log) => formatLog(log, output)),
         count: result.logs.length,
         totalMatches: result.total,
         truncated: isTruncated,
+        nextCursor: result.cursor || null,
+        timeField,
         timeRange: {
-          start: args.startTime,
+          start: startTime,
           end: args.endTime,
         },
       };
 
       // Add explicit warning when results are truncated
       if (isTruncated) {
-        response.warning = `Results truncated: showing ${result.logs.length} of ${result.total} matching logs. For complete analysis, use aggregate_logs tool or narrow your time range/query.`;
+        response.warning = result.cursor
+          ? `Results truncated: showing ${result.logs.length} of ${result.total} matching logs. Pass 'nextCursor' as 'cursor' to get the next page, or use aggregate_logs for complete analysis.`
+          : `Results truncated: showing ${result.logs.length} of ${result.total} matching logs. For complete analysis, use aggregate_logs tool or narrow your time range/query.`;
       }
 
       return JSON.stringify(response, null, 2);
@@ -247,17 +487,20 @@ export const getLogContextTool = {
   name: "get_log_context",
   description: "Get logs before and after a specific log entry. ONLY use when user explicitly asks about logs. For tracing requests, use get_apm_trace instead.",
   parameters: getLogContextParams,
-  execute: async (args: z.infer<typeof getLogContextParams>) => {
+  execute: async (args: z.infer<typeof getLogContextParams>, context?: ToolContext) => {
     try {
-      const client = createLogsClient();
-      const context = await client.getLogContext(
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const logContext = await client.getLogContext(
         args.indexPattern,
         args.logId,
         args.before,
-        args.after
+        args.after,
+        args.scopeFields,
+        timeField
       );
 
-      if (!context.target) {
+      if (!logContext.target) {
         return JSON.stringify({
           error: `Log entry with ID '${args.logId}' not found`,
         }, null, 2);
@@ -266,10 +509,12 @@ export const getLogContextTool = {
       return JSON.stringify({
         indexPattern: args.indexPattern,
         targetLogId: args.logId,
-        before: context.before,
-        target: context.target,
-        after: context.after,
-        totalContext: context.before.length + 1 + context.after.length,
+        timeField,
+        scope: logContext.scope,
+        before: logContext.before,
+        target: logContext.target,
+        after: logContext.after,
+        totalContext: logContext.before.length + 1 + logContext.after.length,
       }, null, 2);
     } catch (error) {
       if (error instanceof ElasticsearchApiError) {
@@ -282,49 +527,88 @@ export const getLogContextTool = {
 
 export const aggregateLogsTool = {
   name: "aggregate_logs",
-  description: "Aggregate raw logs by a field. ONLY use when user explicitly asks about log analytics. For error rates/latency trends, use APM tools (get_apm_error_rate, get_apm_latency) first. Returns top groups (max 50).",
+  description: "Aggregate raw logs by one or more fields. ONLY use when user explicitly asks about log analytics. For error rates/latency trends, use APM tools (get_apm_error_rate, get_apm_latency) first. Returns top groups (max 50 per level); use grouping='composite' to page through every combination.",
   parameters: aggregateLogsParams,
-  execute: async (args: z.infer<typeof aggregateLogsParams>) => {
+  execute: async (args: z.infer<typeof aggregateLogsParams>, context?: ToolContext) => {
     try {
       // Validate metricField is provided when needed
       if (args.metric !== "count" && !args.metricField) {
         throw new Error(`metricField is required when metric is '${args.metric}'`);
       }
 
-      const client = createLogsClient();
-      const buckets = await client.aggregateLogs(
-        args.indexPattern,
-        args.startTime,
-        args.endTime,
-        args.groupBy,
-        args.query,
-        args.timeInterval,
-        args.metric,
-        args.metricField,
-        args.limit
-      );
+      if (args.after && args.grouping !== "composite") {
+        throw new Error("after is only used with grouping 'composite'");
+      }
+
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const grouping = { mode: args.grouping, after: args.after, samples: args.samples };
+      const aggregation = args.async
+        ? await client.aggregateLogsAsync(
+          args.indexPattern,
+          args.startTime,
+          args.endTime,
+          args.groupBy,
+          args.query,
+          args.timeInterval,
+          args.metric,
+          args.metricField,
+          args.limit,
+          grouping,
+          args.metrics,
+          args.waitSeconds,
+          timeField
+        )
+        : undefined;
+      const { buckets, after } = aggregation
+        ? aggregation.result
+        : await client.aggregateLogs(
+          args.indexPattern,
+          args.startTime,
+          args.endTime,
+          args.groupBy,
+          args.query,
+          args.timeInterval,
+          args.metric,
+          args.metricField,
+          args.limit,
+          grouping,
+          args.metrics,
+          timeField
+        );
 
+      const composite = args.grouping === "composite";
       const effectiveLimit = Math.min(args.limit || 10, 50);
-      const mightHaveMore = buckets.length >= effectiveLimit;
+      const mightHaveMore = composite ? !!after : buckets.length >= effectiveLimit;
       
       const response: Record<string, unknown> = {
         indexPattern: args.indexPattern,
         groupBy: args.groupBy,
+        grouping: args.grouping,
         metric: args.metric,
         metricField: args.metricField || null,
+        ...(args.metrics && { metrics: args.metrics }),
         timeInterval: args.timeInterval || null,
         query: args.query || null,
         buckets,
         bucketCount: buckets.length,
         mightHaveMoreGroups: mightHaveMore,
+        ...(composite && { nextAfter: after ?? null }),
+        timeField,
         timeRange: {
           start: args.startTime,
           end: args.endTime,
         },
       };
 
-      if (mightHaveMore) {
-        response.note = `Showing top ${buckets.length} groups by ${args.metric}. There may be additional groups not shown. Add filters to narrow results.`;
+      if (composite && after) {
+        response.note = `Showing ${buckets.length} combinations. Pass 'nextAfter' as 'after' to get the next page; the last page returns no combinations.`;
+      } else if (mightHaveMore) {
+        response.note = `Showing top ${buckets.length} groups by ${args.metric}. There may be additional groups not shown. Add filters to narrow results, or use grouping 'composite' to page through all of them.`;
+      }
+
+      if (aggregation) {
+        Object.assign(response, asyncStatus(aggregation));
       }
 
       return JSON.stringify(response, null, 2);
@@ -339,32 +623,55 @@ export const aggregateLogsTool = {
 
 export const comparePeriodsTool = {
   name: "compare_log_periods",
-  description: "Compare log metrics between two time periods. ONLY use when user explicitly asks about log trends. For application error rate changes, use APM tools first.",
+  description: "Compare log metrics between two time periods. Counts and sums are compared per hour, so periods may differ in length; count changes come with a p-value and a 'significant' flag, and groups with logs in only one period are listed as 'appeared' or 'disappeared'. ONLY use when user explicitly asks about log trends. For application error rate changes, use APM tools first.",
   parameters: comparePeriodsParams,
-  execute: async (args: z.infer<typeof comparePeriodsParams>) => {
+  execute: async (args: z.infer<typeof comparePeriodsParams>, context?: ToolContext) => {
     try {
       if (args.metric !== "count" && !args.metricField) {
         throw new Error(`metricField is required when metric is '${args.metric}'`);
       }
 
-      const client = createLogsClient();
-      const comparison = await client.comparePeriods(
-        args.indexPattern,
-        args.groupBy,
-        args.period1Start,
-        args.period1End,
-        args.period2Start,
-        args.period2End,
-        args.query,
-        args.metric,
-        args.metricField
-      );
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const asyncComparison = args.async
+        ? await client.comparePeriodsAsync(
+          args.indexPattern,
+          args.groupBy,
+          args.period1Start,
+          args.period1End,
+          args.period2Start,
+          args.period2End,
+          args.query,
+          args.metric,
+          args.metricField,
+          args.metrics,
+          args.waitSeconds,
+          timeField
+        )
+        : undefined;
+      const comparison = asyncComparison
+        ? asyncComparison.result
+        : await client.comparePeriods(
+          args.indexPattern,
+          args.groupBy,
+          args.period1Start,
+          args.period1End,
+          args.period2Start,
+          args.period2End,
+          args.query,
+          args.metric,
+          args.metricField,
+          args.metrics,
+          timeField
+        );
 
       return JSON.stringify({
         indexPattern: args.indexPattern,
         groupBy: args.groupBy,
         metric: args.metric,
+        ...(args.metrics && { metrics: args.metrics }),
         query: args.query || null,
+        timeField,
         period1: {
           timeRange: { start: args.period1Start, end: args.period1End },
           ...comparison.period1,
@@ -373,7 +680,11 @@ export const comparePeriodsTool = {
           timeRange: { start: args.period2Start, end: args.period2End },
           ...comparison.period2,
         },
+        normalization: comparison.normalization,
         change: comparison.change,
+        appeared: comparison.appeared,
+        disappeared: comparison.disappeared,
+        ...(asyncComparison ? asyncStatus(asyncComparison) : {}),
       }, null, 2);
     } catch (error) {
       if (error instanceof ElasticsearchApiError) {
@@ -384,6 +695,595 @@ export const comparePeriodsTool = {
   },
 };
 
+export const queryEsqlTool = {
+  name: "query_esql",
+  description: "Run an ES|QL query against log and APM indices and get a compact table (columns + rows). Prefer this over search_apm for ad-hoc filtering and stats. Rows are capped at 500 - check 'truncated'.",
+  parameters: queryEsqlParams,
+  execute: async (args: z.infer<typeof queryEsqlParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const table = await client.queryEsql(args.esql, args.startTime, args.endTime, args.limit, args.timeField);
+
+      const response: Record<string, unknown> = {
+        sources: table.sources,
+        columns: table.columns.map((c) => `${c.name}:${c.type}`),
+        rows: table.rows,
+        rowCount: table.rows.length,
+        truncated: table.truncated,
+        timeField: table.timeField,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+      };
+
+      if (table.truncated) {
+        response.warning = `Results truncated to ${table.rows.length} rows. Aggregate with STATS or narrow the query.`;
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`ES|QL query failed: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const categorizeLogsTool = {
+  name: "categorize_logs",
+  description: "Group log messages into patterns (e.g. 'Connection to <IP> timed out after <NUM> ms') with counts, first/last seen and a sample log id for get_log_context. Patterns that are new or rare compared to a baseline window are flagged. Use this instead of reading hundreds of similar lines with search_logs.",
+  parameters: categorizeLogsParams,
+  execute: async (args: z.infer<typeof categorizeLogsParams>, context?: ToolContext) => {
+    try {
+      if (!args.baselineStart !== !args.baselineEnd) {
+        throw new Error("baselineStart and baselineEnd must be given together");
+      }
+
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const categorization = await client.categorizeLogs(
+        args.indexPattern,
+        args.startTime,
+        args.endTime,
+        args.query,
+        args.field,
+        args.limit,
+        args.baselineStart && args.baselineEnd
+          ? { startTime: args.baselineStart, endTime: args.baselineEnd }
+          : undefined,
+        timeField
+      );
+
+      const response: Record<string, unknown> = {
+        indexPattern: args.indexPattern,
+        field: args.field,
+        query: args.query || null,
+        method: categorization.method,
+        totalMatches: categorization.total,
+        patterns: categorization.patterns,
+        patternCount: categorization.patterns.length,
+        newPatterns: categorization.patterns.filter((p) => p.flag === "new").length,
+        timeField,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+        baseline: {
+          timeRange: { start: categorization.baseline.startTime, end: categorization.baseline.endTime },
+          total: categorization.baseline.total,
+        },
+      };
+
+      if (categorization.sampled !== undefined) {
+        response.note = `categorize_text is not available on this cluster; patterns were mined from a random sample of ${categorization.sampled} messages and counted over the whole time range.`;
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to categorize logs: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const detectLogAnomaliesTool = {
+  name: "detect_log_anomalies",
+  description: "Detect spikes, dips and level shifts in log volume over time, overall or per groupBy value (e.g. per service). Each anomaly has its timestamp, actual vs expected logs per bucket, direction, and a drillDown time range and KQL query to pass to search_logs or categorize_logs. Use this instead of scanning aggregate_logs over_time buckets by eye.",
+  parameters: detectLogAnomaliesParams,
+  execute: async (args: z.infer<typeof detectLogAnomaliesParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const detection = await client.detectLogAnomalies(
+        args.indexPattern,
+        args.startTime,
+        args.endTime,
+        args.query,
+        args.groupBy,
+        args.interval,
+        args.groupLimit,
+        timeField
+      );
+
+      const response: Record<string, unknown> = {
+        indexPattern: args.indexPattern,
+        groupBy: args.groupBy || null,
+        query: args.query || null,
+        method: detection.method,
+        interval: detection.interval,
+        seriesAnalyzed: detection.series,
+        anomalies: detection.anomalies,
+        anomalyCount: detection.anomalies.length,
+        timeField,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+      };
+
+      if (detection.method === "rolling_mad") {
+        response.note = "The change_point aggregation is not available on this cluster; anomalies were found with a rolling median/MAD z-score (|z| >= 3.5).";
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to detect log anomalies: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const logFieldCorrelationsTool = {
+  name: "log_field_correlations",
+  description: "Find field values over-represented in a foreground set of logs (e.g. 'level:error') compared to a background (all logs, another query or another time window), using significant_terms across aggregatable fields and significant_text on message. Returns field:value pairs ranked by significance with lift and counts in both sets. Use this to find what errors have in common before picking a groupBy field.",
+  parameters: logFieldCorrelationsParams,
+  execute: async (args: z.infer<typeof logFieldCorrelationsParams>, context?: ToolContext) => {
+    try {
+      if (!args.backgroundStart !== !args.backgroundEnd) {
+        throw new Error("backgroundStart and backgroundEnd must be given together");
+      }
+
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const result = await client.logFieldCorrelations(
+        args.indexPattern,
+        args.startTime,
+        args.endTime,
+        args.foregroundQuery,
+        { query: args.backgroundQuery, startTime: args.backgroundStart, endTime: args.backgroundEnd },
+        args.fields,
+        args.limit,
+        timeField
+      );
+
+      return JSON.stringify({
+        indexPattern: args.indexPattern,
+        foreground: {
+          query: result.foreground.query,
+          timeRange: { start: result.foreground.startTime, end: result.foreground.endTime },
+          total: result.foreground.total,
+        },
+        background: {
+          query: result.background.query || null,
+          timeRange: { start: result.background.startTime, end: result.background.endTime },
+          total: result.background.total,
+        },
+        fieldsAnalyzed: result.fieldsAnalyzed.length,
+        correlations: result.correlations,
+        timeField,
+      }, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to find log field correlations: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const tailLogsTool = {
+  name: "tail_logs",
+  description: "Follow new logs live for up to 2 minutes, like `tail -f`. Each batch of new logs is streamed as an MCP log notification with progress updates; the final result summarizes how many logs arrived and repeats the most recent ones. Use search_logs for logs that already exist.",
+  parameters: tailLogsParams,
+  execute: async (args: z.infer<typeof tailLogsParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const durationMs = args.durationSeconds * 1000;
+
+      const summary = await client.tailLogs(
+        args.indexPattern,
+        args.startTime,
+        args.query,
+        args.fields,
+        durationMs,
+        args.pollIntervalSeconds * 1000,
+        args.maxLogs,
+        async (logs, progress) => {
+          if (logs.length > 0) {
+            // Log sources are parsed JSON, so they serialize as-is
+            context?.log?.info(`tail_logs: ${logs.length} new logs (${progress.total} total)`, {
+              logs: logs as unknown as SerializableValue,
+            });
+          }
+          await context?.reportProgress?.({ progress: Math.min(progress.elapsedMs, durationMs), total: durationMs });
+        },
+        timeField
+      );
+
+      const response: Record<string, unknown> = {
+        indexPattern: args.indexPattern,
+        query: args.query || null,
+        totalLogs: summary.total,
+        polls: summary.polls,
+        durationSeconds: Math.round(summary.durationMs / 1000),
+        truncated: summary.truncated,
+        firstTimestamp: summary.firstTimestamp ?? null,
+        lastTimestamp: summary.lastTimestamp ?? null,
+        latest: summary.latest,
+        timeField,
+      };
+
+      if (summary.truncated) {
+        response.warning = `Stopped after ${summary.total} logs (maxLogs). Narrow the query, or run tail_logs again with startTime set to lastTimestamp.`;
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to tail logs: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const exportLogsTool = {
+  name: "export_logs",
+  description: "Export all logs matching a query (beyond search_logs' 500 per page) to an NDJSON or CSV file, e.g. to attach to an incident ticket. Returns a logs-export:// resource URI to read the file, with the row count and size in bytes.",
+  parameters: exportLogsParams,
+  execute: async (args: z.infer<typeof exportLogsParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const result = await client.exportLogs(
+        args.indexPattern,
+        args.startTime,
+        args.endTime,
+        args.query,
+        args.fields,
+        args.format,
+        args.maxRows,
+        timeField,
+        exportOwner(context?.session)
+      );
+
+      const response: Record<string, unknown> = {
+        uri: result.uri,
+        mimeType: EXPORT_MIME_TYPES[result.format],
+        format: result.format,
+        rows: result.rows,
+        bytes: result.bytes,
+        truncated: result.truncated,
+        indexPattern: args.indexPattern,
+        query: args.query || null,
+        timeField,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+      };
+
+      if (result.columns) {
+        response.columns = result.columns;
+      }
+      if (result.truncated) {
+        response.warning = `Export stopped at ${result.rows} rows. Narrow the query or time range to export the rest.`;
+      }
+      if (result.bytes > ES_LOGS_CONFIG.maxExportReadBytes) {
+        response.warning = `The file is too large to read through its URI (limit: ${ES_LOGS_CONFIG.maxExportReadBytes} bytes). Export fewer rows or fields.`;
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to export logs: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const profileLogFieldsTool = {
+  name: "profile_log_fields",
+  description: "Profile which fields are actually populated in a time range: for each aggregatable field its presence ratio, cardinality estimate, top values with percentages (keyword fields), and min/max/avg, percentiles and a histogram (numeric and date fields). Use this before building queries or picking a groupBy field.",
+  parameters: profileLogFieldsParams,
+  execute: async (args: z.infer<typeof profileLogFieldsParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const timeField = await client.resolveTimeField(args.indexPattern, args.timeField);
+      const result = await client.profileFields(
+        args.indexPattern,
+        args.startTime,
+        args.endTime,
+        args.query,
+        args.fields,
+        args.topValues,
+        timeField
+      );
+
+      return JSON.stringify({
+        indexPattern: args.indexPattern,
+        query: args.query || null,
+        totalDocuments: result.total,
+        profiles: result.profiles,
+        fieldCount: result.profiles.length,
+        skipped: result.skipped,
+        timeField,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+      }, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to profile log fields: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const listSavedSearchesTool = {
+  name: "list_saved_searches",
+  description: "List Discover saved searches from Kibana with their data view, query, filters, columns and sort. ONLY use when user explicitly asks about logs or saved searches. For application errors/performance, use APM tools first.",
+  parameters: listSavedSearchesParams,
+  execute: async (args: z.infer<typeof listSavedSearchesParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const savedSearches = await client.listSavedSearches(args.filterPattern);
+
+      return JSON.stringify({
+        savedSearches: savedSearches.map((search) => ({
+          id: search.id,
+          title: search.title,
+          description: search.description,
+          indexPattern: search.indexPattern ?? null,
+          timeField: search.timeField,
+          query: search.query ?? null,
+          filters: search.filterLabels,
+          columns: search.columns,
+          sort: search.sort,
+        })),
+        count: savedSearches.length,
+        filter: args.filterPattern || null,
+      }, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to list saved searches: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const runSavedSearchTool = {
+  name: "run_saved_search",
+  description: "Run a Kibana Discover saved search over a time range, with its data view, query, filters, columns and sort. Pages are capped at 500 - when 'nextCursor' is set, pass it to search_logs as 'cursor' to get the next page.",
+  parameters: runSavedSearchParams,
+  execute: async (args: z.infer<typeof runSavedSearchParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const output: LogOutputOptions = {
+        highlight: args.highlight,
+        maxFieldChars: args.maxFieldChars,
+        projection: args.projection,
+      };
+      const result = await client.runSavedSearch(args.savedSearch, args.startTime, args.endTime, args.limit, output);
+      const { savedSearch } = result;
+
+      const isTruncated = result.total > result.logs.length;
+      const response: Record<string, unknown> = {
+        savedSearch: {
+          id: savedSearch.id,
+          title: savedSearch.title,
+          query: savedSearch.query ?? null,
+          filters: savedSearch.filterLabels,
+          columns: savedSearch.columns,
+          sort: savedSearch.sort,
+        },
+        indexPattern: savedSearch.indexPattern,
+        logs: result.logs.map((log) => formatLog(log, output)),
+        count: result.logs.length,
+        totalMatches: result.total,
+        truncated: isTruncated,
+        nextCursor: result.cursor || null,
+        timeField: result.timeField,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+      };
+
+      if (isTruncated) {
+        response.warning = result.cursor
+          ? `Results truncated: showing ${result.logs.length} of ${result.total} matching logs. Pass 'nextCursor' to search_logs as 'cursor' to get the next page.`
+          : `Results truncated: showing ${result.logs.length} of ${result.total} matching logs. Narrow the time range to see the rest.`;
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to run saved search: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const listAlertRulesTool = {
+  name: "list_alert_rules",
+  description: "List Kibana alerting rules with their type, parameters, schedule and last execution status. Filter by rule type, tags or service. Use get_alerts for the alerts they raised.",
+  parameters: listAlertRulesParams,
+  execute: async (args: z.infer<typeof listAlertRulesParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const rules = await client.listAlertRules({ ruleTypes: args.ruleTypes, tags: args.tags, service: args.service });
+
+      return JSON.stringify({
+        rules,
+        count: rules.length,
+      }, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to list alert rules: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const getAlertsTool = {
+  name: "get_alerts",
+  description: "Get the alerts Kibana alerting rules raised over a time range, active or recovered, newest first. Alerts of log threshold and APM rules include a 'drillDown': the search_logs or APM tool call, with arguments, that shows the documents behind the alert.",
+  parameters: getAlertsParams,
+  execute: async (args: z.infer<typeof getAlertsParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const status = args.status ?? "active";
+      const result = await client.getAlerts(
+        args.startTime,
+        args.endTime,
+        status === "all" ? [] : [status],
+        { ruleTypes: args.ruleTypes, tags: args.tags, service: args.service },
+        args.limit
+      );
+
+      const response: Record<string, unknown> = {
+        summary: result.summary,
+        alerts: result.alerts,
+        count: result.alerts.length,
+        totalMatches: result.total,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+      };
+
+      if (result.total > result.alerts.length) {
+        response.warning = `Results truncated: showing ${result.alerts.length} of ${result.total} alerts. Narrow the time range or filter by rule type, tags or service.`;
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to get alerts: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const getMlAnomaliesTool = {
+  name: "get_ml_anomalies",
+  description: "List machine-learning anomaly detection jobs and get their anomalies scoring above a threshold over a time range, highest first. Records include actual vs typical values, partition/by/over field values and influencers; results of APM jobs are mapped to service, environment and transaction type.",
+  parameters: getMlAnomaliesParams,
+  execute: async (args: z.infer<typeof getMlAnomaliesParams>, context?: ToolContext) => {
+    try {
+      const client = createLogsClient(args, getCallerCredential(context));
+      const minScore = args.minScore ?? 50;
+      const resultType = args.resultType ?? "all";
+      const result = await client.getMlAnomalies(
+        args.startTime,
+        args.endTime,
+        args.jobIds ?? [],
+        minScore,
+        resultType,
+        args.limit
+      );
+
+      const response: Record<string, unknown> = {
+        jobs: result.jobs,
+        ...(resultType !== "buckets" && { records: result.records, totalRecords: result.totalRecords }),
+        ...(resultType !== "records" && { buckets: result.buckets, totalBuckets: result.totalBuckets }),
+        minScore,
+        timeRange: {
+          start: args.startTime,
+          end: args.endTime,
+        },
+      };
+
+      if (result.jobs.length === 0) {
+        response.warning = args.jobIds?.length
+          ? `No anomaly detection jobs match ${args.jobIds.join(", ")}.`
+          : "No anomaly detection jobs are configured on this cluster.";
+      } else if (result.totalRecords > result.records.length || result.totalBuckets > result.buckets.length) {
+        response.warning = "Results truncated: only the highest scores are shown. Raise minScore or narrow the time range or jobs to see the rest.";
+      }
+
+      return JSON.stringify(response, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to get ML anomalies: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+export const getAsyncResultsTool = {
+  name: "get_async_log_results",
+  description: "Poll a long-running aggregate_logs or compare_log_periods search started with async=true. Returns partial results until status is 'complete'; the final result can only be fetched once.",
+  parameters: getAsyncResultsParams,
+  execute: async (args: z.infer<typeof getAsyncResultsParams>, context?: ToolContext) => {
+    try {
+      // The search id pins the cluster the search runs on
+      const cluster = decodeAsyncSearchHandle(args.searchId).cluster;
+      const client = createLogsClient({ ...args, cluster }, getCallerCredential(context));
+      const results = await client.getAsyncResults(args.searchId, args.waitSeconds);
+
+      const response: Record<string, unknown> = { kind: results.kind };
+      if (results.kind === "compare") {
+        Object.assign(response, results.result);
+      } else {
+        response.buckets = results.result.buckets;
+        response.bucketCount = results.result.buckets.length;
+        if (results.result.after) {
+          response.nextAfter = results.result.after;
+        }
+      }
+
+      return JSON.stringify({ ...response, ...asyncStatus(results) }, null, 2);
+    } catch (error) {
+      if (error instanceof ElasticsearchApiError) {
+        throw new Error(`Failed to get async log results: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+};
+
+/**
+ * Status fields added to responses of async aggregations
+ */
+function asyncStatus(result: { status: string; isPartial: boolean; searchId?: string }): Record<string, unknown> {
+  const status: Record<string, unknown> = {
+    status: result.status,
+    isPartial: result.isPartial,
+    searchId: result.searchId || null,
+  };
+  if (result.status === "running") {
+    status.pollHint = "Search is still running and these results are partial. Call get_async_log_results with this searchId to get the final result.";
+  }
+  return status;
+}
+
 /**
  * All Logs tools exported as an array
  */
@@ -395,5 +1295,18 @@ export const logsTools = [
   getLogContextTool,
   aggregateLogsTool,
   comparePeriodsTool,
+  getAsyncResultsTool,
+  queryEsqlTool,
+  categorizeLogsTool,
+  detectLogAnomaliesTool,
+  logFieldCorrelationsTool,
+  tailLogsTool,
+  exportLogsTool,
+  profileLogFieldsTool,
+  listSavedSearchesTool,
+  runSavedSearchTool,
+  listAlertRulesTool,
+  getAlertsTool,
+  getMlAnomaliesTool,
 ];
 
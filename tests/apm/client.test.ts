@@ -11,6 +11,7 @@ import {
   ElasticsearchApiError,
 } from '../../src/tools/elasticsearch/apm/client.js';
 import { resetCircuitBreaker } from '../../src/tools/elasticsearch/common/client.js';
+import { UnknownClusterError } from '../../src/tools/elasticsearch/common/clusters.js';
 
 // Mock response helpers
 function mockSuccessResponse(data: object) {
@@ -396,6 +397,10 @@ describe('Connection Pool', () => {
     expect(stats.size).toBe(2);
   });
 
+  it('should reject unknown clusters', () => {
+    expect(() => createApmClient({ cluster: 'nope' })).toThrow(UnknownClusterError);
+  });
+
   it('should clear pool', () => {
     createApmClient({});
     createApmClient({ apmIndex: 'other-*' });
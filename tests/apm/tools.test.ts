@@ -78,6 +78,24 @@ describe('APM Tools', () => {
       expect(parsed.status).toBe('healthy');
       expect(parsed.component).toBe('elasticsearch-apm');
       expect(parsed.clusterName).toBe('test-cluster');
+      expect(parsed.cluster).toBe('default');
+      expect(parsed.authMethod).toBe('api_key');
+      expect(parsed.credentialSource).toBe('config');
+    });
+
+    it('should report the session credential when one is passed through', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          cluster_name: 'test-cluster',
+          version: { number: '8.0.0' },
+        })
+      );
+
+      const result = await apmHealthCheckTool.execute({}, { session: { esCredential: { bearerToken: 'tok' } } });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.authMethod).toBe('bearer');
+      expect(parsed.credentialSource).toBe('caller');
     });
 
     it('should return unhealthy status on failure', async () => {
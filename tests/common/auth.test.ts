@@ -0,0 +1,145 @@
+/**
+ * Tests for Elasticsearch authentication helpers
+ */
+
+import { describe, it, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import {
+  InvalidCloudIdError,
+  decodeCloudId,
+  resolveAuth,
+} from '../../src/tools/elasticsearch/common/auth.js';
+
+function cloudId(name: string, data: string): string {
+  return `${name}:${Buffer.from(data).toString('base64')}`;
+}
+
+describe('Elasticsearch Auth', () => {
+  describe('decodeCloudId', () => {
+    it('should decode Elasticsearch and Kibana endpoints', () => {
+      const endpoints = decodeCloudId(cloudId('my-deployment', 'us-east-1.aws.found.io$es123$kb456'));
+
+      expect(endpoints.deploymentName).toBe('my-deployment');
+      expect(endpoints.esUrl).toBe('https://es123.us-east-1.aws.found.io:443');
+      expect(endpoints.kibanaUrl).toBe('https://kb456.us-east-1.aws.found.io:443');
+    });
+
+    it('should keep an explicit port', () => {
+      const endpoints = decodeCloudId(cloudId('dep', 'europe-west1.gcp.cloud.es.io:9243$es123$kb456'));
+      expect(endpoints.esUrl).toBe('https://es123.europe-west1.gcp.cloud.es.io:9243');
+    });
+
+    it('should allow a missing Kibana id', () => {
+      const endpoints = decodeCloudId(cloudId('dep', 'host.example.com$es123'));
+      expect(endpoints.kibanaUrl).toBeUndefined();
+    });
+
+    it('should reject malformed ids', () => {
+      expect(() => decodeCloudId('no-separator')).toThrow(InvalidCloudIdError);
+      expect(() => decodeCloudId(cloudId('dep', 'host-only'))).toThrow(InvalidCloudIdError);
+    });
+  });
+
+  describe('resolveAuth', () => {
+    it('should encode id:key API keys', () => {
+      const auth = resolveAuth({ apiKey: 'id:key' });
+      expect(auth.method).toBe('api_key');
+      expect(auth.header).toBe(`ApiKey ${Buffer.from('id:key').toString('base64')}`);
+    });
+
+    it('should use pre-encoded API keys as-is', () => {
+      expect(resolveAuth({ apiKey: 'encoded' }).header).toBe('ApiKey encoded');
+    });
+
+    it('should send service account tokens as Bearer', () => {
+      const auth = resolveAuth({ serviceToken: 'svc-token', username: 'u', password: 'p' });
+      expect(auth.method).toBe('service_account');
+      expect(auth.header).toBe('Bearer svc-token');
+    });
+
+    it('should send bearer tokens', () => {
+      const auth = resolveAuth({ bearerToken: 'access-token' });
+      expect(auth.method).toBe('bearer');
+      expect(auth.header).toBe('Bearer access-token');
+    });
+
+    it('should fall back to basic auth', () => {
+      const auth = resolveAuth({ username: 'elastic', password: 'secret' });
+      expect(auth.method).toBe('basic');
+      expect(auth.header).toBe(`Basic ${Buffer.from('elastic:secret').toString('base64')}`);
+    });
+
+    it('should prefer API key over tokens', () => {
+      expect(resolveAuth({ apiKey: 'k', serviceToken: 's', bearerToken: 'b' }).method).toBe('api_key');
+    });
+
+    it('should report none without credentials', () => {
+      expect(resolveAuth({})).toEqual({ method: 'none' });
+    });
+  });
+});
+
+describe('Cloud ID configuration', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should build the default profile from ES_CLOUD_ID', async () => {
+    delete process.env.ES_URL;
+    delete process.env.ES_API_KEY;
+    process.env.ES_CLOUD_ID = cloudId('dep', 'cloud.example.com$es123$kb456');
+    process.env.ES_SERVICE_TOKEN = 'svc-token';
+
+    const { createApmClient } = await import('../../src/tools/elasticsearch/apm/client.js');
+    const { getClusterProfile } = await import('../../src/tools/elasticsearch/common/clusters.js');
+
+    expect(getClusterProfile().url).toBe('https://es123.cloud.example.com:443');
+    expect(getClusterProfile().kibanaUrl).toBe('https://kb456.cloud.example.com:443');
+    expect(createApmClient({}).getAuthMethod()).toBe('service_account');
+  });
+
+  it('should report the Kibana endpoint in apm_health_check', async () => {
+    process.env.ES_CLOUD_ID = cloudId('dep', 'cloud.example.com$es123$kb456');
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ ok: true, json: () => Promise.resolve({ cluster_name: 'cloud', version: { number: '8.0.0' } }) })
+    );
+
+    const { apmHealthCheckTool } = await import('../../src/tools/elasticsearch/apm/tools.js');
+    const parsed = JSON.parse(await apmHealthCheckTool.execute({}));
+
+    expect(parsed.kibanaUrl).toBe('https://kb456.cloud.example.com:443');
+  });
+
+  it('should prefer ES_URL over the Cloud ID endpoint', async () => {
+    process.env.ES_CLOUD_ID = cloudId('dep', 'cloud.example.com$es123$kb456');
+
+    const { getClusterProfile } = await import('../../src/tools/elasticsearch/common/clusters.js');
+
+    expect(getClusterProfile().url).toBe('http://localhost:9200');
+    expect(getClusterProfile().kibanaUrl).toBe('https://kb456.cloud.example.com:443');
+  });
+
+  it('should accept cloudId in named profiles', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify({
+      cloud: { cloudId: cloudId('dep', 'cloud.example.com$abc$def'), bearerToken: 'token' },
+    });
+
+    const { getClusterProfile } = await import('../../src/tools/elasticsearch/common/clusters.js');
+
+    expect(getClusterProfile('cloud').url).toBe('https://abc.cloud.example.com:443');
+  });
+
+  it('should require url or cloudId in named profiles', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify({ broken: { apiKey: 'k' } });
+
+    await expect(import('../../src/tools/elasticsearch/common/clusters.js')).rejects.toThrow(
+      'either url or cloudId is required'
+    );
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for named cluster profiles
+ */
+
+import { describe, it, expect, beforeEach, afterAll, jest } from '@jest/globals';
+
+// Mock response helpers
+function mockSuccessResponse(data: object) {
+  return Promise.resolve({
+    ok: true,
+    json: () => Promise.resolve(data),
+  });
+}
+
+function mockErrorResponse(status: number, message: string) {
+  return Promise.resolve({
+    ok: false,
+    status,
+    text: () => Promise.resolve(JSON.stringify({ error: { reason: message } })),
+  });
+}
+
+const CLUSTERS = {
+  prod: {
+    url: 'https://prod.example.com:9200',
+    apiKey: 'prod-key',
+    apmIndex: 'apm-prod*',
+    kibanaIndex: '.kibana-prod*',
+    maxTimeRangeHours: 6,
+    maxResults: 100,
+  },
+  staging: {
+    url: 'https://staging.example.com:9200',
+    username: 'elastic',
+    password: 'secret',
+  },
+};
+
+describe('Cluster Profiles', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should expose a default profile from ES_URL', async () => {
+    const { getClusterProfile, listClusterNames, ES_DEFAULT_CLUSTER } = await import(
+      '../../src/tools/elasticsearch/common/clusters.js'
+    );
+
+    expect(listClusterNames()).toEqual(['default']);
+    expect(ES_DEFAULT_CLUSTER).toBe('default');
+    expect(getClusterProfile().url).toBe('http://localhost:9200');
+    expect(getClusterProfile().apiKey).toBe('test-api-key');
+  });
+
+  it('should load named profiles from ES_CLUSTERS', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify(CLUSTERS);
+    const { getClusterProfile, listClusterNames } = await import(
+      '../../src/tools/elasticsearch/common/clusters.js'
+    );
+
+    expect(listClusterNames()).toEqual(['default', 'prod', 'staging']);
+    expect(getClusterProfile('prod').url).toBe('https://prod.example.com:9200');
+    expect(getClusterProfile('staging').username).toBe('elastic');
+  });
+
+  it('should honour ES_DEFAULT_CLUSTER', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify(CLUSTERS);
+    process.env.ES_DEFAULT_CLUSTER = 'staging';
+    const { getClusterProfile } = await import('../../src/tools/elasticsearch/common/clusters.js');
+
+    expect(getClusterProfile().name).toBe('staging');
+  });
+
+  it('should default to the first profile when ES_URL is not set', async () => {
+    delete process.env.ES_URL;
+    process.env.ES_CLUSTERS = JSON.stringify(CLUSTERS);
+    const { ES_DEFAULT_CLUSTER, listClusterNames } = await import(
+      '../../src/tools/elasticsearch/common/clusters.js'
+    );
+
+    expect(listClusterNames()).toEqual(['prod', 'staging']);
+    expect(ES_DEFAULT_CLUSTER).toBe('prod');
+  });
+
+  it('should throw UnknownClusterError for unknown names', async () => {
+    const { getClusterProfile, UnknownClusterError } = await import(
+      '../../src/tools/elasticsearch/common/clusters.js'
+    );
+
+    expect(() => getClusterProfile('nope')).toThrow(UnknownClusterError);
+    expect(() => getClusterProfile('nope')).toThrow('Available clusters: default');
+  });
+
+  it('should reject invalid configuration', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify({ prod: { apiKey: 'missing-url' } });
+
+    await expect(import('../../src/tools/elasticsearch/common/clusters.js')).rejects.toThrow(
+      'Invalid cluster configuration'
+    );
+  });
+
+  it('should apply profile indices and limits to clients', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify(CLUSTERS);
+    const { createApmClient } = await import('../../src/tools/elasticsearch/apm/client.js');
+    const { createLogsClient, TimeRangeExceededError } = await import(
+      '../../src/tools/elasticsearch/logs/client.js'
+    );
+
+    expect(createApmClient({ cluster: 'prod' }).getIndex()).toBe('apm-prod*');
+    expect(createApmClient({ cluster: 'staging' }).getIndex()).toBe('apm-test*');
+
+    const logsClient = createLogsClient({ cluster: 'prod' });
+    await expect(logsClient.searchLogs('logs-*', 'now-12h', 'now')).rejects.toThrow(TimeRangeExceededError);
+  });
+
+  it('should send requests to the selected cluster with its credentials', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify(CLUSTERS);
+    const { createLogsClient } = await import('../../src/tools/elasticsearch/logs/client.js');
+
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      mockSuccessResponse({ hits: { total: { value: 0 }, hits: [] } })
+    );
+
+    await createLogsClient({ cluster: 'staging' }).searchLogs('logs-*', 'now-1h', 'now');
+
+    const [url, options] = (global.fetch as jest.Mock).mock.calls.find(
+      ([callUrl]) => (callUrl as string).includes('/logs-*/_search')
+    ) as [string, RequestInit];
+    expect(url).toBe('https://staging.example.com:9200/logs-*/_search');
+    expect((options.headers as Record<string, string>)['Authorization']).toBe(
+      `Basic ${Buffer.from('elastic:secret').toString('base64')}`
+    );
+  });
+
+  it('should pool clients per cluster', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify(CLUSTERS);
+    const { createLogsClient, getLogsPoolStats } = await import(
+      '../../src/tools/elasticsearch/logs/client.js'
+    );
+
+    const prod = createLogsClient({ cluster: 'prod' });
+    const staging = createLogsClient({ cluster: 'staging' });
+
+    expect(prod).not.toBe(staging);
+    expect(createLogsClient({ cluster: 'prod' })).toBe(prod);
+    expect(getLogsPoolStats().size).toBe(2);
+  });
+
+  it('should keep circuit breakers separate per cluster', async () => {
+    process.env.ES_CLUSTERS = JSON.stringify({
+      a: { url: 'http://shared:9200' },
+      b: { url: 'http://shared:9200' },
+    });
+    const { createApmClient } = await import('../../src/tools/elasticsearch/apm/client.js');
+    const { getCircuitBreakerStats } = await import('../../src/tools/elasticsearch/common/client.js');
+
+    (global.fetch as jest.Mock).mockImplementation(() => mockErrorResponse(500, 'boom'));
+    await createApmClient({ cluster: 'a' }).testConnection();
+
+    const stats = getCircuitBreakerStats();
+    expect(stats['a|shared:9200'].failures).toBe(1);
+    expect(stats['b|shared:9200']).toBeUndefined();
+  });
+});
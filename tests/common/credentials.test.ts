@@ -0,0 +1,113 @@
+/**
+ * Tests for per-caller Elasticsearch credential passthrough
+ */
+
+import { describe, it, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import {
+  CredentialRequiredError,
+  extractCallerCredential,
+  getCallerCredential,
+  credentialFingerprint,
+} from '../../src/tools/elasticsearch/common/credentials.js';
+
+describe('Caller Credentials', () => {
+  describe('extractCallerCredential', () => {
+    it('should read an ApiKey authorization header', () => {
+      expect(extractCallerCredential({ 'x-elasticsearch-authorization': 'ApiKey abc123' })).toEqual({ apiKey: 'abc123' });
+    });
+
+    it('should read a Bearer authorization header', () => {
+      expect(extractCallerCredential({ 'x-elasticsearch-authorization': 'Bearer tok' })).toEqual({ bearerToken: 'tok' });
+    });
+
+    it('should read the API key shorthand header', () => {
+      expect(extractCallerCredential({ 'x-elasticsearch-api-key': 'id:key' })).toEqual({ apiKey: 'id:key' });
+    });
+
+    it('should reject unsupported schemes', () => {
+      expect(() => extractCallerCredential({ 'x-elasticsearch-authorization': 'Basic Zm9vOmJhcg==' })).toThrow(
+        CredentialRequiredError
+      );
+    });
+
+    it('should return undefined without headers', () => {
+      expect(extractCallerCredential({})).toBeUndefined();
+    });
+  });
+
+  describe('getCallerCredential', () => {
+    it('should read the credential from the session', () => {
+      expect(getCallerCredential({ session: { esCredential: { apiKey: 'k' } } })).toEqual({ apiKey: 'k' });
+    });
+
+    it('should handle missing context or session', () => {
+      expect(getCallerCredential()).toBeUndefined();
+      expect(getCallerCredential({})).toBeUndefined();
+    });
+  });
+
+  describe('credentialFingerprint', () => {
+    it('should use a fixed key for config credentials', () => {
+      expect(credentialFingerprint()).toBe('env');
+    });
+
+    it('should hash credentials without exposing them', () => {
+      const fingerprint = credentialFingerprint({ apiKey: 'secret-key' });
+      expect(fingerprint).toHaveLength(32);
+      expect(fingerprint).not.toContain('secret-key');
+      expect(credentialFingerprint({ apiKey: 'secret-key' })).toBe(fingerprint);
+      expect(credentialFingerprint({ bearerToken: 'secret-key' })).not.toBe(fingerprint);
+    });
+  });
+});
+
+describe('authenticateCaller', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should ignore headers when passthrough is off', async () => {
+    const { authenticateCaller } = await import('../../src/tools/elasticsearch/common/credentials.js');
+    expect(authenticateCaller({ 'x-elasticsearch-api-key': 'k' })).toBeUndefined();
+  });
+
+  it('should accept missing credentials when optional', async () => {
+    process.env.ES_CREDENTIAL_PASSTHROUGH = 'optional';
+    const { authenticateCaller } = await import('../../src/tools/elasticsearch/common/credentials.js');
+
+    expect(authenticateCaller({})).toBeUndefined();
+    expect(authenticateCaller({ 'x-elasticsearch-api-key': 'k' })).toEqual({ apiKey: 'k' });
+  });
+
+  it('should reject sessions without credentials when required', async () => {
+    process.env.ES_CREDENTIAL_PASSTHROUGH = 'required';
+    const { authenticateCaller } = await import('../../src/tools/elasticsearch/common/credentials.js');
+
+    expect(() => authenticateCaller({})).toThrow('Authentication required');
+  });
+
+  it('should expire pooled caller clients after the credential TTL', async () => {
+    process.env.ES_CREDENTIAL_TTL_MINUTES = '1';
+    const { createLogsClient, getLogsPoolStats } = await import('../../src/tools/elasticsearch/logs/client.js');
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    createLogsClient({}, { apiKey: 'caller-key' });
+    createLogsClient({});
+    expect(getLogsPoolStats().size).toBe(2);
+
+    spy.mockReturnValue(now + 2 * 60 * 1000);
+    createLogsClient({});
+    expect(getLogsPoolStats().size).toBe(1);
+
+    spy.mockRestore();
+  });
+});
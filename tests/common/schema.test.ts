@@ -2,7 +2,7 @@
  * Tests for common schema definitions
  */
 
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, jest } from '@jest/globals';
 import { z } from 'zod';
 import {
   ES_BASE_CONFIG,
@@ -32,6 +32,23 @@ describe('Common Schema', () => {
     });
   });
 
+  describe('ES_PASSTHROUGH_CONFIG', () => {
+    it('should fall back to a 15 minute credential TTL for invalid values', async () => {
+      const original = process.env.ES_CREDENTIAL_TTL_MINUTES;
+      try {
+        for (const value of ['fifteen', '0', '-1']) {
+          process.env.ES_CREDENTIAL_TTL_MINUTES = value;
+          jest.resetModules();
+          const { ES_PASSTHROUGH_CONFIG } = await import('../../src/tools/elasticsearch/common/schema.js');
+          expect(ES_PASSTHROUGH_CONFIG.ttlMinutes).toBe(15);
+        }
+      } finally {
+        if (original === undefined) delete process.env.ES_CREDENTIAL_TTL_MINUTES;
+        else process.env.ES_CREDENTIAL_TTL_MINUTES = original;
+      }
+    });
+  });
+
   describe('timeRangeSchema', () => {
     const schema = z.object(timeRangeSchema);
 
@@ -109,8 +126,26 @@ describe('Common Schema', () => {
   });
 
   describe('elasticsearchBaseAuthSchema', () => {
-    it('should be an empty object (auth from env vars only)', () => {
-      expect(elasticsearchBaseAuthSchema).toEqual({});
+    const schema = z.object(elasticsearchBaseAuthSchema);
+
+    it('should only expose the cluster selector (auth from env vars only)', () => {
+      expect(Object.keys(elasticsearchBaseAuthSchema)).toEqual(['cluster']);
+    });
+
+    it('should make cluster optional', () => {
+      const result = schema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.cluster).toBeUndefined();
+      }
+    });
+
+    it('should accept a cluster name', () => {
+      const result = schema.safeParse({ cluster: 'prod' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.cluster).toBe('prod');
+      }
     });
   });
 });
@@ -0,0 +1,108 @@
+/**
+ * Tests for Elasticsearch TLS configuration
+ */
+
+import { describe, it, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import {
+  TlsConfigurationError,
+  normalizeFingerprint,
+  hasTlsSettings,
+  getTlsDispatcher,
+  clearTlsDispatchers,
+} from '../../src/tools/elasticsearch/common/tls.js';
+
+const FINGERPRINT = 'AB:'.repeat(31) + 'AB';
+
+describe('TLS Configuration', () => {
+  beforeEach(() => {
+    clearTlsDispatchers();
+  });
+
+  describe('normalizeFingerprint', () => {
+    it('should strip separators and upper-case', () => {
+      expect(normalizeFingerprint('ab:cd:ef')).toBe('ABCDEF');
+      expect(normalizeFingerprint('AB CD EF')).toBe('ABCDEF');
+    });
+  });
+
+  describe('hasTlsSettings', () => {
+    it('should be false for missing or empty config', () => {
+      expect(hasTlsSettings(undefined)).toBe(false);
+      expect(hasTlsSettings({ insecure: false })).toBe(false);
+    });
+
+    it('should be true when any setting is present', () => {
+      expect(hasTlsSettings({ caFingerprint: FINGERPRINT })).toBe(true);
+      expect(hasTlsSettings({ insecure: true })).toBe(true);
+    });
+  });
+
+  describe('getTlsDispatcher', () => {
+    it('should return undefined without TLS settings', () => {
+      expect(getTlsDispatcher('default', {})).toBeUndefined();
+    });
+
+    it('should build and cache a dispatcher per cluster', () => {
+      const first = getTlsDispatcher('prod', { caFingerprint: FINGERPRINT });
+      const second = getTlsDispatcher('prod', { caFingerprint: FINGERPRINT });
+      expect(first).toBeDefined();
+      expect(first).toBe(second);
+      expect(getTlsDispatcher('staging', { insecure: true })).not.toBe(first);
+    });
+
+    it('should require both client cert and key', () => {
+      expect(() => getTlsDispatcher('prod', { clientCertPath: '/tmp/cert.pem' })).toThrow(TlsConfigurationError);
+    });
+
+    it('should reject malformed fingerprints', () => {
+      expect(() => getTlsDispatcher('prod', { caFingerprint: 'AB:CD' })).toThrow('64 hex characters');
+    });
+
+    it('should report unreadable certificate files', () => {
+      expect(() => getTlsDispatcher('prod', { caCertPath: '/nonexistent/ca.pem' })).toThrow(
+        'Unable to read CA bundle at /nonexistent/ca.pem'
+      );
+    });
+  });
+});
+
+describe('Client TLS wiring', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should pass the dispatcher on every request when TLS is configured', async () => {
+    process.env.ES_TLS_INSECURE = 'true';
+    const { createApmClient } = await import('../../src/tools/elasticsearch/apm/client.js');
+
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ ok: true, json: () => Promise.resolve({ cluster_name: 'test' }) })
+    );
+
+    await createApmClient({}).testConnection();
+
+    const [, options] = (global.fetch as jest.Mock).mock.calls[0] as [string, { dispatcher?: unknown }];
+    expect(options.dispatcher).toBeDefined();
+  });
+
+  it('should not set a dispatcher without TLS settings', async () => {
+    const { createApmClient } = await import('../../src/tools/elasticsearch/apm/client.js');
+
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ ok: true, json: () => Promise.resolve({ cluster_name: 'test' }) })
+    );
+
+    await createApmClient({}).testConnection();
+
+    const [, options] = (global.fetch as jest.Mock).mock.calls[0] as [string, { dispatcher?: unknown }];
+    expect(options.dispatcher).toBeUndefined();
+  });
+});
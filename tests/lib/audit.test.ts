@@ -0,0 +1,68 @@
+/**
+ * Tests for tool call audit logging
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { withToolAudit } from '../../src/lib/audit.js';
+import { logger } from '../../src/lib/logging.js';
+
+describe('withToolAudit', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const context = {
+    session: { principal: { id: 'alice', method: 'jwt' as const, expiresAt: Date.now() + 60 * 60 * 1000 } },
+    sessionId: 'session-1',
+  };
+
+  it('should log successful calls with the principal', async () => {
+    const info = jest.spyOn(logger, 'info').mockReturnValue(logger);
+    const tool = withToolAudit({
+      name: 'search_logs',
+      execute: async (args: { query: string }) => `ok:${args.query}`,
+    });
+
+    await expect(tool.execute({ query: 'error' }, context as never)).resolves.toBe('ok:error');
+    expect(info).toHaveBeenCalledWith('mcp_tool_call', expect.objectContaining({
+      tool: 'search_logs',
+      principal: 'alice',
+      auth_method: 'jwt',
+      session_id: 'session-1',
+      outcome: 'success',
+    }));
+  });
+
+  it('should log and rethrow failures', async () => {
+    const info = jest.spyOn(logger, 'info').mockReturnValue(logger);
+    const tool = withToolAudit({
+      name: 'search_logs',
+      execute: async () => {
+        throw new Error('boom');
+      },
+    });
+
+    await expect(tool.execute()).rejects.toThrow('boom');
+    expect(info).toHaveBeenCalledWith('mcp_tool_call', expect.objectContaining({
+      principal: 'anonymous',
+      outcome: 'error',
+      error: 'boom',
+    }));
+  });
+
+  it('should reject calls once the session has expired', async () => {
+    const info = jest.spyOn(logger, 'info').mockReturnValue(logger);
+    const execute = jest.fn(async () => 'ok');
+    const tool = withToolAudit({ name: 'search_logs', execute });
+    const expired = { ...context, session: { principal: { ...context.session.principal, expiresAt: Date.now() - 1 } } };
+
+    await expect(tool.execute({} as never, expired as never)).rejects.toThrow('Unauthorized: session expired');
+    expect(execute).not.toHaveBeenCalled();
+    expect(info).toHaveBeenCalledWith('mcp_tool_call', expect.objectContaining({ outcome: 'error' }));
+  });
+
+  it('should keep the rest of the tool definition', () => {
+    const tool = { name: 'x', description: 'd', execute: async () => 'ok' };
+    expect(withToolAudit(tool).description).toBe('d');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for MCP endpoint authentication
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SignJWT, exportJWK, generateKeyPair, type KeyLike } from 'jose';
+import {
+  McpAuthenticationError,
+  assertSessionActive,
+  createMcpAuthenticator,
+  type McpAuthConfig,
+} from '../../src/lib/auth.js';
+
+const STATIC_TOKEN = 'static-token-0123456789';
+
+describe('MCP Endpoint Authentication', () => {
+  let dir: string;
+  let privateKey: KeyLike;
+  let config: McpAuthConfig;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-auth-'));
+
+    const tokensFile = join(dir, 'tokens.json');
+    writeFileSync(tokensFile, JSON.stringify([{ principal: 'ci-bot', token: STATIC_TOKEN }]));
+
+    const keys = await generateKeyPair('RS256');
+    privateKey = keys.privateKey;
+    const jwk = await exportJWK(keys.publicKey);
+    const jwksFile = join(dir, 'jwks.json');
+    writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...jwk, kid: 'test', alg: 'RS256' }] }));
+
+    config = {
+      tokensFile,
+      jwksFile,
+      jwtIssuer: 'https://idp.example.com',
+      jwtAudience: ['mcp-server'],
+      principalClaim: 'sub',
+      clockToleranceSeconds: 0,
+      sessionMaxMinutes: 60,
+    };
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function signJwt(claims: { iss?: string; aud?: string; sub?: string; exp?: string } = {}) {
+    const jwt = new SignJWT({})
+      .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+      .setIssuedAt()
+      .setIssuer(claims.iss ?? 'https://idp.example.com')
+      .setAudience(claims.aud ?? 'mcp-server')
+      .setExpirationTime(claims.exp ?? '5m');
+    if (claims.sub !== '') {
+      jwt.setSubject(claims.sub ?? 'alice');
+    }
+    return jwt.sign(privateKey);
+  }
+
+  it('should be disabled when nothing is configured', () => {
+    expect(createMcpAuthenticator({ ...config, tokensFile: undefined, jwksFile: undefined })).toBeUndefined();
+  });
+
+  it('should accept a static token', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    await expect(authenticate({ authorization: `Bearer ${STATIC_TOKEN}` })).resolves.toEqual({
+      id: 'ci-bot',
+      method: 'token',
+      expiresAt: expect.any(Number),
+    });
+  });
+
+  it('should accept a valid JWT', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    const token = await signJwt();
+    await expect(authenticate({ authorization: `Bearer ${token}` })).resolves.toEqual({
+      id: 'alice',
+      method: 'jwt',
+      expiresAt: expect.any(Number),
+    });
+  });
+
+  it('should end sessions at the JWT expiry or the maximum session length', async () => {
+    const authenticate = createMcpAuthenticator({ ...config, sessionMaxMinutes: 60 })!;
+    const now = Date.now();
+
+    const shortLived = await authenticate({ authorization: `Bearer ${await signJwt({ exp: '5m' })}` });
+    expect(shortLived.expiresAt).toBeLessThanOrEqual(now + 5 * 60 * 1000 + 1000);
+    expect(shortLived.expiresAt).toBeGreaterThan(now + 4 * 60 * 1000);
+
+    const longLived = await authenticate({ authorization: `Bearer ${await signJwt({ exp: '1d' })}` });
+    expect(longLived.expiresAt).toBeLessThanOrEqual(Date.now() + 60 * 60 * 1000);
+
+    const staticToken = await authenticate({ authorization: `Bearer ${STATIC_TOKEN}` });
+    expect(staticToken.expiresAt).toBeLessThanOrEqual(Date.now() + 60 * 60 * 1000);
+  });
+
+  it('should reject requests of expired sessions', () => {
+    const principal = { id: 'alice', method: 'jwt' as const, expiresAt: 1000 };
+    expect(() => assertSessionActive(principal, 999)).not.toThrow();
+    expect(() => assertSessionActive(principal, 1000)).toThrow('Unauthorized: session expired');
+    expect(() => assertSessionActive(undefined)).not.toThrow();
+  });
+
+  it('should reject a missing Authorization header', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    await expect(authenticate({})).rejects.toThrow('Unauthorized: missing Authorization header');
+  });
+
+  it('should reject a non-bearer scheme', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    await expect(authenticate({ authorization: 'Basic dXNlcjpwYXNz' })).rejects.toThrow(McpAuthenticationError);
+  });
+
+  it('should reject an unknown static token', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    await expect(authenticate({ authorization: 'Bearer not-a-known-token' })).rejects.toThrow('invalid token');
+  });
+
+  it('should reject a JWT with the wrong issuer', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    const token = await signJwt({ iss: 'https://evil.example.com' });
+    await expect(authenticate({ authorization: `Bearer ${token}` })).rejects.toThrow('invalid JWT');
+  });
+
+  it('should reject a JWT with the wrong audience', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    const token = await signJwt({ aud: 'another-service' });
+    await expect(authenticate({ authorization: `Bearer ${token}` })).rejects.toThrow('invalid JWT');
+  });
+
+  it('should reject an expired JWT', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    const token = await signJwt({ exp: '-1m' });
+    await expect(authenticate({ authorization: `Bearer ${token}` })).rejects.toThrow('invalid JWT');
+  });
+
+  it('should reject a JWT without a principal claim', async () => {
+    const authenticate = createMcpAuthenticator(config)!;
+    const token = await signJwt({ sub: '' });
+    await expect(authenticate({ authorization: `Bearer ${token}` })).rejects.toThrow("missing the 'sub' claim");
+  });
+
+  it('should reject a tokens file with short tokens', () => {
+    const tokensFile = join(dir, 'short.json');
+    writeFileSync(tokensFile, JSON.stringify([{ principal: 'x', token: 'short' }]));
+    expect(() => createMcpAuthenticator({ ...config, tokensFile })).toThrow('Invalid MCP tokens file');
+  });
+
+  it('should fall back to a 60 minute session cap for invalid values', async () => {
+    const original = process.env.MCP_SESSION_MAX_MINUTES;
+    try {
+      for (const value of ['abc', '', '0', '-5']) {
+        process.env.MCP_SESSION_MAX_MINUTES = value;
+        jest.resetModules();
+        const { MCP_AUTH_CONFIG } = await import('../../src/lib/auth.js');
+        expect(MCP_AUTH_CONFIG.sessionMaxMinutes).toBe(60);
+      }
+    } finally {
+      if (original === undefined) delete process.env.MCP_SESSION_MAX_MINUTES;
+      else process.env.MCP_SESSION_MAX_MINUTES = original;
+    }
+  });
+});
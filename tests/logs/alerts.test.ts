@@ -0,0 +1,224 @@
+/**
+ * Tests for Kibana alerting rules and alerts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  alertDrillDown,
+  alertsQuery,
+  logThresholdQuery,
+  matchesRuleFilters,
+  parseAlert,
+  parseAlertRule,
+  type AlertRule,
+} from '../../src/tools/elasticsearch/logs/alerts.js';
+
+const logThresholdRule: AlertRule = {
+  id: 'r1',
+  name: 'Checkout errors',
+  ruleType: 'logs.alert.document.count',
+  enabled: true,
+  muted: false,
+  tags: ['checkout'],
+  schedule: '1m',
+  params: {
+    timeSize: 5,
+    timeUnit: 'm',
+    criteria: [
+      { field: 'log.level', comparator: 'equals', value: 'error' },
+      { field: 'http.response.status_code', comparator: 'more than or equals', value: 500 },
+    ],
+    groupBy: ['host.name'],
+  },
+};
+
+describe('Kibana Alerts', () => {
+  describe('parseAlertRule', () => {
+    it('should read the rule type, schedule and last execution', () => {
+      const rule = parseAlertRule({
+        _id: 'alert:r2',
+        _source: {
+          alert: {
+            name: 'Checkout error rate',
+            alertTypeId: 'apm.transaction_error_rate',
+            consumer: 'apm',
+            enabled: true,
+            muteAll: false,
+            tags: ['checkout'],
+            schedule: { interval: '1m' },
+            params: { serviceName: 'checkout', threshold: 10 },
+            executionStatus: {
+              status: 'error',
+              lastExecutionDate: '2024-01-01T10:00:00.000Z',
+              lastDuration: 120,
+              error: { message: 'index_not_found_exception' },
+            },
+            lastRun: { outcome: 'failed' },
+          },
+        },
+      });
+
+      expect(rule).toEqual({
+        id: 'r2',
+        name: 'Checkout error rate',
+        ruleType: 'apm.transaction_error_rate',
+        consumer: 'apm',
+        enabled: true,
+        muted: false,
+        tags: ['checkout'],
+        schedule: '1m',
+        params: { serviceName: 'checkout', threshold: 10 },
+        lastExecution: {
+          status: 'error',
+          date: '2024-01-01T10:00:00.000Z',
+          outcome: 'failed',
+          durationMs: 120,
+          error: 'index_not_found_exception',
+        },
+      });
+    });
+
+    it('should leave out the last execution of rules that never ran', () => {
+      const rule = parseAlertRule({ _id: 'alert:r3', _source: { alert: { name: 'New', alertTypeId: '.es-query', enabled: false } } });
+
+      expect(rule.enabled).toBe(false);
+      expect(rule.lastExecution).toBeUndefined();
+    });
+  });
+
+  describe('matchesRuleFilters', () => {
+    it('should filter by rule type, any tag and service', () => {
+      const apmRule = { ...logThresholdRule, ruleType: 'apm.error_rate', params: { serviceName: 'checkout' } };
+
+      expect(matchesRuleFilters(logThresholdRule, { ruleTypes: ['logs.alert.document.count'], tags: ['checkout', 'other'] })).toBe(true);
+      expect(matchesRuleFilters(logThresholdRule, { tags: ['other'] })).toBe(false);
+      expect(matchesRuleFilters(logThresholdRule, { service: 'checkout' })).toBe(false);
+      expect(matchesRuleFilters(apmRule, { service: 'checkout' })).toBe(true);
+    });
+  });
+
+  describe('alertsQuery', () => {
+    it('should match alerts overlapping the time range', () => {
+      expect(alertsQuery('now-1h', 'now', ['active'], { ruleTypes: ['apm.error_rate'], service: 'checkout' })).toEqual({
+        bool: {
+          filter: [
+            { range: { 'kibana.alert.start': { lte: 'now' } } },
+            {
+              bool: {
+                should: [
+                  { bool: { must_not: { exists: { field: 'kibana.alert.end' } } } },
+                  { range: { 'kibana.alert.end': { gte: 'now-1h' } } },
+                ],
+                minimum_should_match: 1,
+              },
+            },
+            { terms: { 'kibana.alert.status': ['active'] } },
+            { terms: { 'kibana.alert.rule.rule_type_id': ['apm.error_rate'] } },
+            { term: { 'service.name': 'checkout' } },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('parseAlert', () => {
+    it('should read dotted and nested alert fields and the group', () => {
+      const alert = parseAlert({
+        '@timestamp': '2024-01-01T10:06:00.000Z',
+        'kibana.alert.uuid': 'a1',
+        'kibana.alert.status': 'recovered',
+        'kibana.alert.rule.uuid': 'r1',
+        'kibana.alert.rule.name': 'Checkout errors',
+        'kibana.alert.rule.rule_type_id': 'logs.alert.document.count',
+        'kibana.alert.rule.tags': ['checkout'],
+        'kibana.alert.start': '2024-01-01T10:00:00.000Z',
+        'kibana.alert.end': '2024-01-01T10:05:00.000Z',
+        'kibana.alert.duration.us': 300000000,
+        'kibana.alert.reason': '12 log entries in the last 5 mins for web-1. Alert when ≥ 10.',
+        'kibana.alert.instance.id': 'web-1',
+        'kibana.alert.group': [{ field: 'host.name', value: 'web-1' }],
+        kibana: { alert: { evaluation: { value: 12, threshold: 10 } } },
+      });
+
+      expect(alert).toEqual({
+        id: 'a1',
+        status: 'recovered',
+        ruleId: 'r1',
+        ruleName: 'Checkout errors',
+        ruleType: 'logs.alert.document.count',
+        tags: ['checkout'],
+        start: '2024-01-01T10:00:00.000Z',
+        end: '2024-01-01T10:05:00.000Z',
+        durationMs: 300000,
+        reason: '12 log entries in the last 5 mins for web-1. Alert when ≥ 10.',
+        instance: 'web-1',
+        group: { 'host.name': 'web-1' },
+        evaluation: { value: 12, threshold: 10 },
+      });
+    });
+  });
+
+  describe('logThresholdQuery', () => {
+    it('should turn criteria and group values into KQL', () => {
+      expect(logThresholdQuery(logThresholdRule.params, { 'host.name': 'web-1' })).toBe(
+        'log.level:"error" and http.response.status_code >= 500 and host.name:"web-1"'
+      );
+      expect(logThresholdQuery({ criteria: [{ field: 'message', comparator: 'does not match phrase', value: 'health check' }] }))
+        .toBe('not message:"health check"');
+    });
+  });
+
+  describe('alertDrillDown', () => {
+    const alert = parseAlert({
+      'kibana.alert.uuid': 'a1',
+      'kibana.alert.rule.uuid': 'r1',
+      'kibana.alert.rule.rule_type_id': 'logs.alert.document.count',
+      'kibana.alert.start': '2024-01-01T10:00:00.000Z',
+      'kibana.alert.group': [{ field: 'host.name', value: 'web-1' }],
+    });
+
+    it('should search the logs a log threshold rule counted', () => {
+      expect(alertDrillDown(alert, logThresholdRule, 'logs-*')).toEqual({
+        tool: 'search_logs',
+        arguments: {
+          indexPattern: 'logs-*',
+          query: 'log.level:"error" and http.response.status_code >= 500 and host.name:"web-1"',
+          startTime: '2024-01-01T09:55:00.000Z',
+          endTime: 'now',
+        },
+      });
+    });
+
+    it('should call the APM tool of the rule type for the alert service', () => {
+      const apmAlert = {
+        ...alert,
+        ruleType: 'apm.transaction_duration',
+        service: 'checkout',
+        end: '2024-01-01T10:30:00.000Z',
+      };
+      const apmRule = {
+        ...logThresholdRule,
+        ruleType: 'apm.transaction_duration',
+        params: { serviceName: 'checkout', transactionType: 'request', windowSize: 5, windowUnit: 'm' },
+      };
+
+      expect(alertDrillDown(apmAlert, apmRule, 'logs-*')).toEqual({
+        tool: 'get_apm_latency',
+        arguments: {
+          serviceName: 'checkout',
+          transactionType: 'request',
+          startTime: '2024-01-01T09:55:00.000Z',
+          endTime: '2024-01-01T10:30:00.000Z',
+        },
+      });
+      expect(alertDrillDown({ ...apmAlert, ruleType: 'apm.error_rate' }, undefined, 'logs-*')).toEqual({
+        tool: 'get_apm_errors',
+        arguments: { serviceName: 'checkout', startTime: '2024-01-01T10:00:00.000Z', endTime: '2024-01-01T10:30:00.000Z' },
+      });
+    });
+
+    it('should not link alerts of other rule types', () => {
+      expect(alertDrillDown({ ...alert, ruleType: '.es-query' }, undefined, 'logs-*')).toBeUndefined();
+    });
+  });
+});
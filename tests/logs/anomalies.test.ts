@@ -0,0 +1,60 @@
+/**
+ * Tests for log volume anomaly detection
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { detectChanges, median, pickInterval } from '../../src/tools/elasticsearch/logs/anomalies.js';
+
+describe('Log Anomalies', () => {
+  const steady = [100, 104, 97, 101, 99, 103, 98, 102, 100, 96];
+
+  describe('median', () => {
+    it('should handle odd, even and empty inputs', () => {
+      expect(median([3, 1, 2])).toBe(2);
+      expect(median([4, 1, 3, 2])).toBe(2.5);
+      expect(median([])).toBe(0);
+    });
+  });
+
+  describe('detectChanges', () => {
+    it('should find a spike', () => {
+      const changes = detectChanges([...steady, 400, ...steady]);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ type: 'spike', direction: 'up', start: 10, end: 10, actual: 400, expected: 100 });
+      expect(changes[0].zScore).toBeGreaterThan(3.5);
+    });
+
+    it('should find a dip', () => {
+      const changes = detectChanges([...steady, 5, ...steady]);
+
+      expect(changes).toEqual([expect.objectContaining({ type: 'dip', direction: 'down', start: 10, actual: 5 })]);
+    });
+
+    it('should report a sustained change once, as a level shift', () => {
+      const changes = detectChanges([...steady, 300, 305, 298, 302]);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ type: 'level_shift', direction: 'up', start: 10, actual: 301, expected: 100 });
+    });
+
+    it('should not flag noise or small counts on a flat baseline', () => {
+      expect(detectChanges(steady)).toEqual([]);
+      expect(detectChanges([0, 0, 0, 0, 0, 0, 1, 0, 2, 0])).toEqual([]);
+    });
+
+    it('should not score buckets without enough history', () => {
+      expect(detectChanges([100, 100, 900, 100])).toEqual([]);
+    });
+  });
+
+  describe('pickInterval', () => {
+    it('should pick the smallest interval giving at most 60 buckets', () => {
+      const hour = 60 * 60 * 1000;
+      expect(pickInterval(hour)).toBe('1m');
+      expect(pickInterval(24 * hour)).toBe('30m');
+      expect(pickInterval(7 * 24 * hour)).toBe('3h');
+      expect(pickInterval(365 * 24 * hour)).toBe('1d');
+    });
+  });
+});
@@ -2,7 +2,8 @@
  * Tests for Logs Elasticsearch Client
  */
 
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { readdir, rm } from 'node:fs/promises';
 import {
   LogsElasticsearchClient,
   TimeRangeExceededError,
@@ -12,6 +13,16 @@ import {
   ElasticsearchApiError,
 } from '../../src/tools/elasticsearch/logs/client.js';
 import { resetCircuitBreaker } from '../../src/tools/elasticsearch/common/client.js';
+import {
+  CursorExpiredError,
+  InvalidCursorError,
+  closeAllPits,
+  decodeCursor,
+  encodeCursor,
+  getOpenPitCount,
+} from '../../src/tools/elasticsearch/logs/cursor.js';
+import { readExport } from '../../src/tools/elasticsearch/logs/export.js';
+import { ES_LOGS_CONFIG } from '../../src/tools/elasticsearch/logs/schema.js';
 
 // Mock response helpers
 function mockSuccessResponse(data: object) {
@@ -29,6 +40,16 @@ function mockErrorResponse(status: number, message: string) {
   });
 }
 
+// Kibana data views, looked up to find an index pattern's time field
+function mockDataViewResponse(dataViews: object[] = []) {
+  return mockSuccessResponse({
+    hits: {
+      total: { value: dataViews.length },
+      hits: dataViews.map((dataView, i) => ({ _id: `data-view:${i}`, _source: { 'data-view': dataView } })),
+    },
+  });
+}
+
 describe('Logs Elasticsearch Client', () => {
   beforeEach(() => {
     resetCircuitBreaker();
@@ -165,6 +186,55 @@ describe('Logs Elasticsearch Client', () => {
     });
   });
 
+  describe('resolveTimeField', () => {
+    function mockDataViews() {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          hits: {
+            total: { value: 2 },
+            hits: [
+              { _id: 'data-view:app', _source: { 'data-view': { title: 'logs-app-*', name: 'App logs', timeFieldName: 'event.ingested' } } },
+              { _id: 'data-view:raw', _source: { 'data-view': { title: 'logs-raw-*' } } },
+            ],
+          },
+        })
+      );
+    }
+
+    it('should use the time field of the matching data view', async () => {
+      mockDataViews();
+      const client = createLogsClient();
+
+      expect(await client.resolveTimeField('logs-app-*')).toBe('event.ingested');
+      expect(await client.resolveTimeField('App logs')).toBe('event.ingested');
+      // Data views are looked up once and cached
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to @timestamp without a data view or time field', async () => {
+      mockDataViews();
+      const client = createLogsClient();
+
+      expect(await client.resolveTimeField('logs-raw-*')).toBe('@timestamp');
+      expect(await client.resolveTimeField('logs-other-*')).toBe('@timestamp');
+    });
+
+    it('should prefer an explicit override without looking up data views', async () => {
+      const client = createLogsClient();
+
+      expect(await client.resolveTimeField('logs-app-*', 'timestamp')).toBe('timestamp');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to @timestamp when the Kibana index is not readable', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockErrorResponse(403, 'no permissions for [indices:data/read/search]')
+      );
+
+      expect(await createLogsClient().resolveTimeField('logs-app-*')).toBe('@timestamp');
+    });
+  });
+
   describe('getFields', () => {
     it('should return field mappings', async () => {
       (global.fetch as jest.Mock).mockImplementation(() =>
@@ -229,6 +299,162 @@ describe('Logs Elasticsearch Client', () => {
       expect(methodField).toBeDefined();
       expect(methodField?.type).toBe('keyword');
     });
+
+    it('should include runtime fields, formats and labels from the data view', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url) => {
+        if (url.includes('.kibana')) {
+          return mockSuccessResponse({
+            hits: {
+              total: { value: 1 },
+              hits: [{
+                _id: 'index-pattern:app',
+                _source: {
+                  'index-pattern': {
+                    title: 'logs-*',
+                    runtimeFieldMap: JSON.stringify({
+                      status_class: { type: 'keyword', script: { source: "emit(doc['status'].value / 100 + 'xx')" } },
+                      client: { type: 'composite', script: { source: 'emit(...)' }, fields: { os: { type: 'keyword' } } },
+                    }),
+                    fieldFormatMap: JSON.stringify({ bytes: { id: 'bytes' } }),
+                    fieldAttrs: JSON.stringify({ status_class: { customLabel: 'Status class', count: 3 } }),
+                  },
+                },
+              }],
+            },
+          });
+        }
+        return mockSuccessResponse({
+          'logs-app': { mappings: { properties: { bytes: { type: 'long' }, status: { type: 'long' } } } },
+        });
+      });
+
+      const fields = await createLogsClient().getFields('logs-*');
+
+      expect(fields.map((f) => f.name)).toEqual(['bytes', 'client.os', 'status', 'status_class']);
+      expect(fields.find((f) => f.name === 'status_class')).toEqual({
+        name: 'status_class',
+        type: 'keyword',
+        searchable: true,
+        aggregatable: true,
+        runtime: true,
+        customLabel: 'Status class',
+      });
+      expect(fields.find((f) => f.name === 'client.os')?.runtime).toBe(true);
+      expect(fields.find((f) => f.name === 'bytes')?.format).toEqual({ id: 'bytes' });
+      expect(fields.find((f) => f.name === 'status')?.runtime).toBeUndefined();
+    });
+  });
+
+  describe('runtime fields', () => {
+    const STATUS_CLASS = { type: 'keyword', script: { source: "emit(doc['status'].value / 100 + 'xx')" } };
+
+    function mockRuntimeSearch(response: object) {
+      const searches: Array<Record<string, unknown>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse([
+            { title: 'logs-*', runtimeFieldMap: JSON.stringify({ status_class: STATUS_CLASS, unused: STATUS_CLASS }) },
+          ]);
+        }
+        searches.push(JSON.parse(options.body));
+        return mockSuccessResponse(response);
+      });
+      return searches;
+    }
+
+    it('should add runtime mappings and return runtime values when a search references them', async () => {
+      const searches = mockRuntimeSearch({
+        hits: {
+          total: { value: 1 },
+          hits: [{ _id: 'log-1', _index: 'logs-app', _source: { '@timestamp': '2024-01-01T12:00:00Z' }, fields: { status_class: ['5xx'] } }],
+        },
+      });
+
+      const result = await createLogsClient().searchLogs('logs-*', 'now-1h', 'now', 'status_class:5xx', ['status_class']);
+
+      expect(searches[0].runtime_mappings).toEqual({ status_class: STATUS_CLASS });
+      expect(searches[0].fields).toEqual(['status_class']);
+      expect(result.logs[0].source.status_class).toBe('5xx');
+    });
+
+    it('should return highlighted fragments when requested', async () => {
+      const searches = mockRuntimeSearch({
+        hits: {
+          total: { value: 1 },
+          hits: [{
+            _id: 'log-1',
+            _index: 'logs-app',
+            _source: { '@timestamp': '2024-01-01T12:00:00Z', message: 'Payment failed' },
+            highlight: { message: ['<em>Payment</em> failed'] },
+          }],
+        },
+      });
+
+      const result = await createLogsClient().searchLogs(
+        'logs-*', 'now-1h', 'now', 'Payment', undefined, 100, { highlight: true }
+      );
+
+      expect(searches[0].highlight.fields).toEqual({ '*': {} });
+      expect(result.logs[0].highlight).toEqual({ message: ['<em>Payment</em> failed'] });
+    });
+
+    it('should not add runtime mappings when no runtime field is referenced', async () => {
+      const searches = mockRuntimeSearch({ hits: { total: { value: 0 }, hits: [] } });
+
+      await createLogsClient().searchLogs('logs-*', 'now-1h', 'now', 'level:error');
+
+      expect(searches[0].runtime_mappings).toBeUndefined();
+      expect(searches[0].fields).toBeUndefined();
+    });
+
+    it('should add runtime mappings to aggregations grouped by a runtime field', async () => {
+      const searches = mockRuntimeSearch({
+        hits: { total: { value: 0 }, hits: [] },
+        aggregations: { by_group: { buckets: [{ key: '5xx', doc_count: 3 }] } },
+      });
+
+      const { buckets } = await createLogsClient().aggregateLogs('logs-*', 'now-1h', 'now', 'status_class');
+
+      expect(searches[0].runtime_mappings).toEqual({ status_class: STATUS_CLASS });
+      expect(buckets[0].key).toBe('5xx');
+    });
+
+    it('should run painless scripted fields as runtime fields', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse([{
+            title: 'logs-*',
+            fields: JSON.stringify([
+              { name: 'status', type: 'number', scripted: false },
+              { name: 'status_kb', type: 'number', scripted: true, lang: 'painless', script: "doc['bytes'].value / 1024" },
+              { name: 'legacy', type: 'number', scripted: true, lang: 'expression', script: "doc['bytes'].value" },
+            ]),
+          }]);
+        }
+        if (options.method === 'GET') {
+          return mockSuccessResponse({ 'logs-app': { mappings: { properties: { bytes: { type: 'long' } } } } });
+        }
+        searches.push(JSON.parse(options.body));
+        return mockSuccessResponse({ hits: { total: { value: 0 }, hits: [] }, aggregations: { by_group: { buckets: [] } } });
+      });
+      const client = createLogsClient();
+
+      const fields = await client.getFields('logs-*');
+      await client.searchLogs('logs-*', 'now-1h', 'now', 'status_kb > 10', ['status_kb']);
+      await client.aggregateLogs('logs-*', 'now-1h', 'now', 'status_kb');
+
+      expect(fields.find((f) => f.name === 'status_kb')).toEqual({
+        name: 'status_kb', type: 'double', searchable: true, aggregatable: true, scripted: true,
+      });
+      expect(fields.find((f) => f.name === 'legacy')).toBeUndefined();
+      const mapping = searches[0].runtime_mappings.status_kb;
+      expect(mapping.type).toBe('double');
+      expect(mapping.script.source).toContain("scripted(() -> { doc['bytes'].value / 1024 })");
+      expect(mapping.script.source).toContain('emit(((Number) v).doubleValue())');
+      expect(searches[0].fields).toEqual(['status_kb']);
+      expect(Object.keys(searches[1].runtime_mappings)).toEqual(['status_kb']);
+    });
   });
 
   describe('getFieldValues', () => {
@@ -300,12 +526,12 @@ describe('Logs Elasticsearch Client', () => {
 
     it('should filter with KQL query', async () => {
       (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
         const body = JSON.parse(options.body);
-        // Verify query_string filter is included
-        const hasQueryString = body.query.bool.filter.some(
-          (f: object) => 'query_string' in f
-        );
-        expect(hasQueryString).toBe(true);
+        // Verify the KQL is compiled to query DSL
+        expect(body.query.bool.filter).toContainEqual({ match: { level: 'error' } });
         return mockSuccessResponse({
           hits: { total: { value: 0 }, hits: [] },
         });
@@ -315,8 +541,19 @@ describe('Logs Elasticsearch Client', () => {
       await client.searchLogs('logs-*', 'now-1h', 'now', 'level:error');
     });
 
+    it('should report KQL syntax errors before querying', async () => {
+      const client = createLogsClient();
+      await expect(client.searchLogs('logs-*', 'now-1h', 'now', 'level:(error')).rejects.toThrow(
+        'KQL syntax error at position 12'
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
     it('should respect limit', async () => {
       (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
         const body = JSON.parse(options.body);
         expect(body.size).toBe(50);
         return mockSuccessResponse({
@@ -330,6 +567,9 @@ describe('Logs Elasticsearch Client', () => {
 
     it('should enforce max results', async () => {
       (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
         const body = JSON.parse(options.body);
         expect(body.size).toBeLessThanOrEqual(500);
         return mockSuccessResponse({
@@ -343,76 +583,117 @@ describe('Logs Elasticsearch Client', () => {
   });
 
   describe('getLogContext', () => {
-    it('should return surrounding logs', async () => {
-      // First call for target log
-      // Second call for before logs
-      // Third call for after logs
-      let callCount = 0;
-      (global.fetch as jest.Mock).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          return mockSuccessResponse({
-            hits: {
-              total: { value: 1 },
-              hits: [
-                {
-                  _id: 'target-log',
-                  _index: 'logs-*',
-                  _source: {
-                    '@timestamp': '2024-01-01T12:00:00Z',
-                    message: 'Target log',
-                  },
-                },
-              ],
-            },
-          });
-        } else if (callCount === 2) {
-          return mockSuccessResponse({
-            hits: {
-              total: { value: 1 },
-              hits: [
-                {
-                  _id: 'before-log',
-                  _index: 'logs-*',
-                  _source: {
-                    '@timestamp': '2024-01-01T11:59:59Z',
-                    message: 'Before log',
-                  },
-                },
-              ],
-            },
-          });
-        } else {
+    const contextHit = (id: string, timestamp: string, sort: number[]) => ({
+      _id: id,
+      _index: 'logs-app',
+      _source: { '@timestamp': timestamp, host: { name: 'web-1' }, service: { name: 'api' }, message: id },
+      sort,
+    });
+
+    it('should page from the target position within the same stream', async () => {
+      const searches: Array<Record<string, any>> = [];
+      let closed = false;
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_pit?keep_alive=')) {
+          return mockSuccessResponse({ id: 'pit-1' });
+        }
+        if (url.endsWith('/_pit') && options.method === 'DELETE') {
+          closed = true;
+          return mockSuccessResponse({ succeeded: true });
+        }
+        const body = JSON.parse(options.body);
+        searches.push(body);
+        if (body.query.ids) {
           return mockSuccessResponse({
-            hits: {
-              total: { value: 1 },
-              hits: [
-                {
-                  _id: 'after-log',
-                  _index: 'logs-*',
-                  _source: {
-                    '@timestamp': '2024-01-01T12:00:01Z',
-                    message: 'After log',
-                  },
-                },
-              ],
-            },
+            pit_id: 'pit-1',
+            hits: { total: { value: 1 }, hits: [contextHit('target-log', '2024-01-01T12:00:00Z', [1704110400000, 7])] },
           });
         }
+        // Newest first for the logs before the target
+        const hits = body.sort[0]['@timestamp'] === 'desc'
+          ? [
+            contextHit('tied-before', '2024-01-01T12:00:00Z', [1704110400000, 6]),
+            contextHit('before-log', '2024-01-01T11:59:59Z', [1704110399000, 2]),
+          ]
+          : [contextHit('tied-after', '2024-01-01T12:00:00Z', [1704110400000, 8])];
+        return mockSuccessResponse({ pit_id: 'pit-1', hits: { total: { value: hits.length }, hits } });
       });
 
       const client = createLogsClient();
-      const context = await client.getLogContext('logs-*', 'target-log', 1, 1);
+      const context = await client.getLogContext('logs-*', 'target-log', 2, 1);
+
+      expect(context.target?.id).toBe('target-log');
+      expect(context.before.map((log) => log.id)).toEqual(['before-log', 'tied-before']);
+      expect(context.after.map((log) => log.id)).toEqual(['tied-after']);
+      expect(context.scope).toEqual({ 'host.name': 'web-1', 'service.name': 'api' });
+
+      const [targetQuery, beforeQuery, afterQuery] = searches;
+      expect(targetQuery.pit).toEqual({ id: 'pit-1', keep_alive: '5m' });
+      expect(beforeQuery.sort).toEqual([{ '@timestamp': 'desc' }, { _shard_doc: 'desc' }]);
+      expect(beforeQuery.search_after).toEqual([1704110400000, 7]);
+      expect(beforeQuery.query.bool.filter).toEqual([
+        { term: { 'host.name': 'web-1' } },
+        { term: { 'service.name': 'api' } },
+      ]);
+      expect(afterQuery.sort).toEqual([{ '@timestamp': 'asc' }, { _shard_doc: 'asc' }]);
+      expect(afterQuery.search_after).toEqual([1704110400000, 7]);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(closed).toBe(true);
+    });
+
+    it('should search the whole index pattern with no scope fields', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_pit')) {
+          return mockSuccessResponse({ id: 'pit-1', succeeded: true });
+        }
+        const body = JSON.parse(options.body);
+        searches.push(body);
+        return mockSuccessResponse({
+          hits: { total: { value: 1 }, hits: [contextHit('target-log', '2024-01-01T12:00:00Z', [1704110400000, 7])] },
+        });
+      });
+
+      const context = await createLogsClient().getLogContext('logs-*', 'target-log', 1, 1, []);
+
+      expect(context.scope).toEqual({});
+      expect(searches[1].query.bool.filter).toEqual([]);
+    });
+
+    it('should break ties with _doc when a point in time cannot be opened', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_pit')) {
+          return mockErrorResponse(403, 'action [indices:data/read/open_point_in_time] is unauthorized');
+        }
+        expect(url).toContain('/logs-*/_search');
+        const body = JSON.parse(options.body);
+        searches.push(body);
+        return mockSuccessResponse({
+          hits: { total: { value: 1 }, hits: [contextHit('target-log', '2024-01-01T12:00:00Z', [1704110400000, 7])] },
+        });
+      });
+
+      const context = await createLogsClient().getLogContext('logs-*', 'target-log', 1, 1);
 
-      expect(context.target).not.toBeNull();
       expect(context.target?.id).toBe('target-log');
-      expect(context.before).toHaveLength(1);
-      expect(context.after).toHaveLength(1);
+      expect(searches[0].pit).toBeUndefined();
+      expect(searches[1].sort).toEqual([{ '@timestamp': 'desc' }, { _doc: 'desc' }]);
     });
 
     it('should return null target when not found', async () => {
       (global.fetch as jest.Mock).mockImplementation(() =>
         mockSuccessResponse({
+          id: 'pit-1',
           hits: { total: { value: 0 }, hits: [] },
         })
       );
@@ -444,7 +725,7 @@ describe('Logs Elasticsearch Client', () => {
       );
 
       const client = createLogsClient();
-      const buckets = await client.aggregateLogs(
+      const { buckets } = await client.aggregateLogs(
         'logs-*',
         'now-1h',
         'now',
@@ -456,11 +737,16 @@ describe('Logs Elasticsearch Client', () => {
       expect(buckets[0].doc_count).toBe(100);
     });
 
-    it('should include time histogram when requested', async () => {
+    it('should include time histogram on the data view time field when requested', async () => {
       (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse([{ title: 'logs-*', timeFieldName: 'event.created' }]);
+        }
         const body = JSON.parse(options.body);
         const groupAggs = body.aggs.by_group.aggs;
+        expect(body.query.bool.filter[0].range['event.created']).toBeDefined();
         expect(groupAggs.over_time).toBeDefined();
+        expect(groupAggs.over_time.date_histogram.field).toBe('event.created');
         expect(groupAggs.over_time.date_histogram.fixed_interval).toBe('1h');
         return mockSuccessResponse({
           hits: { total: { value: 0 }, hits: [] },
@@ -481,6 +767,9 @@ describe('Logs Elasticsearch Client', () => {
 
     it('should include metric aggregation for non-count metrics', async () => {
       (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
         const body = JSON.parse(options.body);
         const groupAggs = body.aggs.by_group.aggs;
         expect(groupAggs.metric_value).toBeDefined();
@@ -505,6 +794,195 @@ describe('Logs Elasticsearch Client', () => {
     });
   });
 
+  describe('aggregateLogs grouping', () => {
+    function mockAggregation(aggregations: Record<string, unknown>): Array<Record<string, any>> {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        searches.push(JSON.parse(options.body));
+        return mockSuccessResponse({ hits: { total: { value: 0 }, hits: [] }, aggregations });
+      });
+      return searches;
+    }
+
+    const nestedResponse = {
+      by_group: {
+        buckets: [
+          {
+            key: 'api',
+            doc_count: 30,
+            by_group: { buckets: [{ key: 200, doc_count: 25 }, { key: 500, doc_count: 5 }] },
+          },
+          {
+            key: 'web',
+            doc_count: 40,
+            by_group: { buckets: [{ key: 200, doc_count: 40 }] },
+          },
+        ],
+      },
+    };
+
+    it('should nest a terms aggregation per field with metrics in the innermost groups', async () => {
+      const searches = mockAggregation(nestedResponse);
+
+      const { buckets } = await createLogsClient().aggregateLogs(
+        'logs-*', 'now-1h', 'now', ['service.name', 'http.response.status_code'], undefined, undefined, 'avg', 'event.duration'
+      );
+
+      const outer = searches[0].aggs.by_group;
+      expect(outer.terms).toEqual({ field: 'service.name', size: 10 });
+      expect(outer.aggs.by_group.terms).toEqual({ field: 'http.response.status_code', size: 10 });
+      expect(outer.aggs.by_group.aggs.metric_value).toEqual({ avg: { field: 'event.duration' } });
+      expect(outer.aggs.metric_value).toBeUndefined();
+      expect(buckets[0]).toEqual({
+        key: 'api',
+        doc_count: 30,
+        groups: [{ key: '200', doc_count: 25 }, { key: '500', doc_count: 5 }],
+      });
+    });
+
+    it('should flatten nested groups into combinations, most documents first', async () => {
+      mockAggregation(nestedResponse);
+
+      const { buckets } = await createLogsClient().aggregateLogs(
+        'logs-*', 'now-1h', 'now', ['service.name', 'http.response.status_code'], undefined, undefined, 'count',
+        undefined, 10, { mode: 'flat' }
+      );
+
+      expect(buckets.map((b) => [b.key, b.doc_count])).toEqual([['web | 200', 40], ['api | 200', 25], ['api | 500', 5]]);
+      expect(buckets[2].keys).toEqual({ 'service.name': 'api', 'http.response.status_code': '500' });
+    });
+
+    it('should page composite combinations with an after key', async () => {
+      const searches = mockAggregation({
+        by_group: {
+          after_key: { 'service.name': 'web', 'http.response.status_code': 200 },
+          buckets: [
+            { key: { 'service.name': 'api', 'http.response.status_code': 500 }, doc_count: 5 },
+            { key: { 'service.name': 'web', 'http.response.status_code': 200 }, doc_count: 40 },
+          ],
+        },
+      });
+      const client = createLogsClient();
+
+      const page = await client.aggregateLogs(
+        'logs-*', 'now-1h', 'now', ['service.name', 'http.response.status_code'], undefined, undefined, 'count',
+        undefined, 2, { mode: 'composite' }
+      );
+      await client.aggregateLogs(
+        'logs-*', 'now-1h', 'now', ['service.name', 'http.response.status_code'], undefined, undefined, 'count',
+        undefined, 2, { mode: 'composite', after: page.after }
+      );
+
+      expect(searches[0].aggs.by_group.composite).toEqual({
+        size: 2,
+        sources: [
+          { 'service.name': { terms: { field: 'service.name' } } },
+          { 'http.response.status_code': { terms: { field: 'http.response.status_code' } } },
+        ],
+      });
+      expect(page.buckets[0]).toEqual({
+        key: 'api | 500',
+        doc_count: 5,
+        keys: { 'service.name': 'api', 'http.response.status_code': '500' },
+      });
+      expect(searches[1].aggs.by_group.composite.after).toEqual({ 'service.name': 'web', 'http.response.status_code': 200 });
+    });
+
+    it('should attach sample documents to each group', async () => {
+      const searches = mockAggregation({
+        by_group: {
+          buckets: [{
+            key: 'error',
+            doc_count: 2,
+            samples: {
+              hits: {
+                hits: [{ _id: 'log-1', _index: 'logs-app', _source: { '@timestamp': '2024-01-01T12:00:00Z', message: 'boom' } }],
+              },
+            },
+          }],
+        },
+      });
+
+      const { buckets } = await createLogsClient().aggregateLogs(
+        'logs-*', 'now-1h', 'now', 'level', undefined, undefined, 'count', undefined, 10, { samples: 20 }
+      );
+
+      expect(searches[0].aggs.by_group.aggs.samples).toEqual({
+        top_hits: { size: 10, sort: [{ '@timestamp': 'desc' }] },
+      });
+      expect(buckets[0].samples).toEqual([{
+        id: 'log-1',
+        index: 'logs-app',
+        timestamp: '2024-01-01T12:00:00Z',
+        source: { '@timestamp': '2024-01-01T12:00:00Z', message: 'boom' },
+      }]);
+    });
+
+    it('should reject an after value it did not issue', async () => {
+      mockAggregation({});
+
+      await expect(createLogsClient().aggregateLogs(
+        'logs-*', 'now-1h', 'now', ['level'], undefined, undefined, 'count', undefined, 10,
+        { mode: 'composite', after: 'not-json' }
+      )).rejects.toThrow("Invalid cursor: not an aggregate_logs 'after' value");
+    });
+  });
+
+  describe('aggregateLogs metrics', () => {
+    it('should compute metrics per group and per time bucket', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        searches.push(JSON.parse(options.body));
+        return mockSuccessResponse({
+          hits: { total: { value: 0 }, hits: [] },
+          aggregations: {
+            by_group: {
+              buckets: [{
+                key: 'checkout',
+                doc_count: 600,
+                m0: { values: { '95.0': 950 } },
+                m1: { value: 31 },
+                over_time: {
+                  buckets: [{ key_as_string: '2024-01-01T12:00:00.000Z', doc_count: 60, m0: { values: { '95.0': 900 } }, m1: { value: 7 } }],
+                },
+              }],
+            },
+          },
+        });
+      });
+
+      const { buckets } = await createLogsClient().aggregateLogs(
+        'logs-*', '2024-01-01T12:00:00Z', '2024-01-01T13:00:00Z', 'service.name', 'level:error', '10m', 'count',
+        undefined, 10, {}, [
+          { type: 'percentiles', field: 'event.duration', percents: [95] },
+          { type: 'cardinality', field: 'user.id' },
+          { type: 'rate', unit: 'minute' },
+        ]
+      );
+
+      const groupAggs = searches[0].aggs.by_group.aggs;
+      expect(groupAggs.m0).toEqual({ percentiles: { field: 'event.duration', percents: [95] } });
+      expect(groupAggs.m1).toEqual({ cardinality: { field: 'user.id' } });
+      expect(groupAggs.over_time.aggs).toEqual({ m0: groupAggs.m0, m1: groupAggs.m1 });
+      expect(buckets[0].metrics).toEqual({
+        'percentiles(event.duration)': { p95: 950 },
+        'cardinality(user.id)': 31,
+        'rate(count per minute)': 10,
+      });
+      expect(buckets[0].over_time![0].metrics).toEqual({
+        'percentiles(event.duration)': { p95: 900 },
+        'cardinality(user.id)': 7,
+        'rate(count per minute)': 6,
+      });
+    });
+  });
+
   describe('comparePeriods', () => {
     it('should compare two time periods', async () => {
       (global.fetch as jest.Mock).mockImplementation(() =>
@@ -535,37 +1013,379 @@ describe('Logs Elasticsearch Client', () => {
       expect(comparison.period2.total).toBe(300);
       expect(comparison.change.total).toBe('+0%');
     });
-  });
-});
 
-describe('Logs Connection Pool', () => {
-  beforeEach(() => {
-    clearLogsPool();
-    resetCircuitBreaker();
-  });
+    it('should compare requested metrics per group', async () => {
+      let call = 0;
+      (global.fetch as jest.Mock).mockImplementation((url) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        call++;
+        const p95 = call === 1 ? 200 : 300;
+        return mockSuccessResponse({
+          hits: { total: { value: 0 }, hits: [] },
+          aggregations: {
+            by_group: { buckets: [{ key: 'api', doc_count: 10, m0: { values: { '95.0': p95 } }, m1: { value: 4 } }] },
+          },
+        });
+      });
 
-  it('should start with empty pool', () => {
-    const stats = getLogsPoolStats();
-    expect(stats.size).toBe(0);
-  });
+      const comparison = await createLogsClient().comparePeriods(
+        'logs-*', 'service.name', 'now-2h', 'now-1h', 'now-1h', 'now', undefined, 'count', undefined, [
+          { type: 'percentiles', field: 'event.duration', percents: [95] },
+          { type: 'cardinality', field: 'user.id', name: 'users' },
+        ]
+      );
 
-  it('should add client to pool', () => {
-    createLogsClient();
-    const stats = getLogsPoolStats();
-    expect(stats.size).toBe(1);
-  });
+      expect(comparison.period1.metricsByGroup).toEqual({ api: { 'percentiles(event.duration)': { p95: 200 }, users: 4 } });
+      expect(comparison.period2.metricsByGroup).toEqual({ api: { 'percentiles(event.duration)': { p95: 300 }, users: 4 } });
+      expect(comparison.change.metricsByGroup).toEqual({ api: { 'percentiles(event.duration)': { p95: '+50%' }, users: '+0%' } });
+    });
 
-  it('should reuse cached client', () => {
-    const client1 = createLogsClient();
-    const client2 = createLogsClient();
-    expect(client1).toBe(client2);
-    
-    const stats = getLogsPoolStats();
-    expect(stats.size).toBe(1);
-  });
+    it('should look up groups missing from either top list in the other period', async () => {
+      const lookups: Array<{ gte: string; keys: string[] }> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        const body = JSON.parse(options.body);
+        const gte = body.query.bool.filter[0].range['@timestamp'].gte;
+        const terms = body.query.bool.filter.find((filter: { terms?: object }) => filter.terms);
+        const period1 = gte === '2026-10-18T00:00:00Z';
+        if (terms) {
+          lookups.push({ gte, keys: terms.terms['service.name'] });
+          const buckets = period1 ? [] : [{ key: 'worker', doc_count: 24 }];
+          return mockSuccessResponse({ hits: { total: { value: 0 }, hits: [] }, aggregations: { by_group: { buckets } } });
+        }
+        const buckets = period1
+          ? [{ key: 'api', doc_count: 10 }, { key: 'worker', doc_count: 5 }]
+          : [{ key: 'api', doc_count: 480 }, { key: 'db', doc_count: 48 }];
+        return mockSuccessResponse({ hits: { total: { value: 0 }, hits: [] }, aggregations: { by_group: { buckets } } });
+      });
 
-  it('should clear pool', () => {
-    createLogsClient();
+      const comparison = await createLogsClient().comparePeriods(
+        'logs-*', 'service.name',
+        '2026-10-18T00:00:00Z', '2026-10-18T01:00:00Z',
+        '2026-10-18T01:00:00Z', '2026-10-19T01:00:00Z'
+      );
+
+      expect(lookups).toEqual([
+        { gte: '2026-10-18T00:00:00Z', keys: ['db'] },
+        { gte: '2026-10-18T01:00:00Z', keys: ['worker'] },
+      ]);
+      expect(comparison.appeared).toEqual(['db']);
+      expect(comparison.disappeared).toEqual([]);
+      expect(comparison.period2.byGroup).toEqual({ api: 480, db: 48, worker: 24 });
+      expect(comparison.normalization).toBe('per_hour');
+      expect(comparison.change.byGroup).toMatchObject({ api: '+100%', worker: '-80%' });
+      expect(comparison.change.details.byGroup.api.significant).toBe(true);
+    });
+  });
+
+  describe('runSavedSearch', () => {
+    const savedSearchHits = [{
+      _id: 'search:s1',
+      _source: {
+        search: {
+          title: 'Checkout errors',
+          columns: ['message'],
+          sort: [['@timestamp', 'asc']],
+          kibanaSavedObjectMeta: {
+            searchSourceJSON: JSON.stringify({
+              query: { query: 'log.level:error', language: 'kuery' },
+              filter: [{
+                meta: { type: 'phrase', key: 'service.name', params: { query: 'checkout' }, negate: true },
+                query: { match_phrase: { 'service.name': 'checkout' } },
+              }],
+              indexRefName: 'kibanaSavedObjectMeta.searchSourceJSON.index',
+            }),
+          },
+        },
+        references: [{ name: 'kibanaSavedObjectMeta.searchSourceJSON.index', type: 'index-pattern', id: 'dv-1' }],
+      },
+    }];
+
+    function mockSavedSearches(onSearch: (url: string, body: Record<string, unknown>) => void = () => {}) {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        const body = JSON.parse(options.body as string);
+        if (url.includes('.kibana') && body.query.term?.type === 'search') {
+          return mockSuccessResponse({ hits: { total: { value: 1 }, hits: savedSearchHits } });
+        }
+        if (url.includes('.kibana')) {
+          return mockSuccessResponse({
+            hits: {
+              total: { value: 1 },
+              hits: [{ _id: 'data-view:dv-1', _source: { 'data-view': { title: 'logs-shop-*', timeFieldName: 'event.created' } } }],
+            },
+          });
+        }
+        onSearch(url, body);
+        return mockSuccessResponse({ hits: { total: { value: 0, relation: 'eq' }, hits: [] } });
+      });
+    }
+
+    it('should list saved searches with their data views', async () => {
+      mockSavedSearches();
+
+      const savedSearches = await createLogsClient().listSavedSearches('checkout');
+
+      expect(savedSearches).toHaveLength(1);
+      expect(savedSearches[0]).toMatchObject({
+        id: 's1',
+        indexPattern: 'logs-shop-*',
+        timeField: 'event.created',
+        filterLabels: ['NOT service.name: checkout'],
+      });
+    });
+
+    it('should run the saved query, filters, columns and sort on its data view', async () => {
+      const searches: Array<{ url: string; body: Record<string, unknown> }> = [];
+      mockSavedSearches((url, body) => searches.push({ url, body }));
+
+      const result = await createLogsClient().runSavedSearch('checkout errors', 'now-1h', 'now');
+
+      expect(result.savedSearch.id).toBe('s1');
+      expect(result.timeField).toBe('event.created');
+      expect(searches).toHaveLength(1);
+      expect(searches[0].url).toContain('/logs-shop-*/_search');
+      expect(searches[0].body.query).toEqual({
+        bool: {
+          filter: [
+            { range: { 'event.created': { gte: 'now-1h', lte: 'now' } } },
+            { match: { 'log.level': 'error' } },
+            { bool: { must_not: [{ match_phrase: { 'service.name': 'checkout' } }] } },
+          ],
+        },
+      });
+      expect(searches[0].body.sort).toEqual([{ '@timestamp': 'asc' }]);
+      expect(searches[0].body._source).toEqual(['event.created', 'message']);
+    });
+
+    it('should report unknown saved searches', async () => {
+      mockSavedSearches();
+
+      await expect(createLogsClient().runSavedSearch('nope', 'now-1h', 'now')).rejects.toThrow(
+        "Saved search 'nope' not found"
+      );
+    });
+  });
+
+  describe('alerts', () => {
+    const ruleHits = [
+      {
+        _id: 'alert:r1',
+        _source: {
+          alert: {
+            name: 'Checkout errors',
+            alertTypeId: 'logs.alert.document.count',
+            tags: ['checkout'],
+            schedule: { interval: '1m' },
+            params: {
+              logView: { logViewId: 'shop', type: 'log-view-reference' },
+              timeSize: 5,
+              timeUnit: 'm',
+              criteria: [{ field: 'log.level', comparator: 'equals', value: 'error' }],
+            },
+            executionStatus: { status: 'active', lastExecutionDate: '2024-01-01T10:00:00.000Z' },
+          },
+        },
+      },
+      {
+        _id: 'alert:r2',
+        _source: { alert: { name: 'Checkout latency', alertTypeId: 'apm.transaction_duration', params: { serviceName: 'checkout' } } },
+      },
+    ];
+
+    function mockAlerts(onAlertSearch: (url: string, body: Record<string, unknown>) => void = () => {}) {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        const body = JSON.parse(options.body as string);
+        if (url.includes('.kibana') && body.query.term?.type === 'alert') {
+          return mockSuccessResponse({ hits: { total: { value: 2 }, hits: ruleHits } });
+        }
+        if (url.includes('.kibana')) {
+          return mockSuccessResponse({
+            hits: {
+              total: { value: 2 },
+              hits: [
+                ruleHits[0],
+                { _id: 'infrastructure-monitoring-log-view:shop', _source: { 'infrastructure-monitoring-log-view': { logIndices: { type: 'index_name', indexName: 'logs-shop-*' } } } },
+              ],
+            },
+          });
+        }
+        onAlertSearch(url, body);
+        return mockSuccessResponse({
+          hits: {
+            total: { value: 3, relation: 'eq' },
+            hits: [
+              {
+                _id: 'a1',
+                _source: {
+                  'kibana.alert.uuid': 'a1',
+                  'kibana.alert.status': 'active',
+                  'kibana.alert.rule.uuid': 'r1',
+                  'kibana.alert.rule.rule_type_id': 'logs.alert.document.count',
+                  'kibana.alert.start': '2024-01-01T10:00:00.000Z',
+                },
+              },
+              {
+                _id: 'a2',
+                _source: {
+                  'kibana.alert.uuid': 'a2',
+                  'kibana.alert.status': 'active',
+                  'kibana.alert.rule.uuid': 'r2',
+                  'kibana.alert.rule.rule_type_id': 'apm.transaction_duration',
+                  'kibana.alert.start': '2024-01-01T09:00:00.000Z',
+                  'service.name': 'checkout',
+                },
+              },
+            ],
+          },
+          aggregations: { by_status: { buckets: [{ key: 'active', doc_count: 2 }, { key: 'recovered', doc_count: 1 }] } },
+        });
+      });
+    }
+
+    it('should list rules by name, filtered by tag', async () => {
+      mockAlerts();
+
+      const rules = await createLogsClient().listAlertRules({ tags: ['checkout'] });
+
+      expect(rules).toHaveLength(1);
+      expect(rules[0]).toMatchObject({ id: 'r1', schedule: '1m', lastExecution: { status: 'active' } });
+    });
+
+    it('should link alerts to the documents behind them', async () => {
+      const searches: Array<{ url: string; body: Record<string, unknown> }> = [];
+      mockAlerts((url, body) => searches.push({ url, body }));
+
+      const result = await createLogsClient().getAlerts('now-1h', 'now', ['active'], {}, 10);
+
+      expect(searches[0].url).toContain('/.alerts-*/_search');
+      expect(searches[0].body.sort).toEqual([{ 'kibana.alert.start': 'desc' }]);
+      expect(result.summary).toEqual({ active: 2, recovered: 1 });
+      expect(result.total).toBe(3);
+      expect(result.alerts[0].drillDown).toEqual({
+        tool: 'search_logs',
+        arguments: { indexPattern: 'logs-shop-*', query: 'log.level:"error"', startTime: '2024-01-01T09:55:00.000Z', endTime: 'now' },
+      });
+      expect(result.alerts[1].drillDown).toEqual({
+        tool: 'get_apm_latency',
+        arguments: { serviceName: 'checkout', startTime: '2024-01-01T09:00:00.000Z', endTime: 'now' },
+      });
+    });
+
+    it('should limit alerts to the search time range', async () => {
+      await expect(createLogsClient().getAlerts('now-48h', 'now')).rejects.toThrow(TimeRangeExceededError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMlAnomalies', () => {
+    function mockMl(jobs: object[], onSearch: (url: string, body: Record<string, unknown>) => void = () => {}) {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/_ml/anomaly_detectors/') && url.includes('/_stats')) {
+          return mockSuccessResponse({ count: 0, jobs: [] });
+        }
+        if (url.includes('/_ml/anomaly_detectors/')) {
+          return mockSuccessResponse({ count: jobs.length, jobs });
+        }
+        const body = JSON.parse(options.body as string);
+        onSearch(url, body);
+        const resultType = (body.query.bool.filter[0] as { term: { result_type: string } }).term.result_type;
+        const hits = resultType === 'record'
+          ? [{ _id: 'r', _index: '.ml-anomalies-shared', _source: { job_id: 'apm-prod-tx', result_type: 'record', timestamp: 1704103200000, record_score: 90, function: 'high_mean', partition_field_name: 'service.name', partition_field_value: 'checkout' } }]
+          : [];
+        return mockSuccessResponse({ hits: { total: { value: hits.length, relation: 'eq' }, hits } });
+      });
+    }
+
+    it('should resolve job groups to job ids and map APM records to services', async () => {
+      const searches: Array<{ url: string; body: Record<string, unknown> }> = [];
+      mockMl(
+        [{ job_id: 'apm-prod-tx', groups: ['apm'], analysis_config: { bucket_span: '15m', detectors: [] }, custom_settings: { job_tags: { environment: 'prod' } } }],
+        (url, body) => searches.push({ url, body })
+      );
+
+      const result = await createLogsClient().getMlAnomalies('now-24h', 'now', ['apm'], 75, 'all', 10);
+
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('/_ml/anomaly_detectors/apm?allow_no_match=true');
+      expect(searches).toHaveLength(2);
+      expect(searches[0].url).toContain('/.ml-anomalies-*/_search');
+      expect(searches[0].body.query).toMatchObject({ bool: { filter: expect.arrayContaining([{ terms: { job_id: ['apm-prod-tx'] } }]) } });
+      expect(result.records[0]).toMatchObject({ service: 'checkout', environment: 'prod', severity: 'critical' });
+      expect(result.buckets).toEqual([]);
+    });
+
+    it('should not search results when no job matches', async () => {
+      const searches: string[] = [];
+      mockMl([], (url) => searches.push(url));
+
+      const result = await createLogsClient().getMlAnomalies('now-24h', 'now', ['missing-*']);
+
+      expect(searches).toEqual([]);
+      expect(result.jobs).toEqual([]);
+    });
+
+    it('should limit anomalies to the search time range', async () => {
+      await expect(createLogsClient().getMlAnomalies('now-48h', 'now')).rejects.toThrow(TimeRangeExceededError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Logs Connection Pool', () => {
+  beforeEach(() => {
+    clearLogsPool();
+    resetCircuitBreaker();
+  });
+
+  it('should start with empty pool', () => {
+    const stats = getLogsPoolStats();
+    expect(stats.size).toBe(0);
+  });
+
+  it('should add client to pool', () => {
+    createLogsClient();
+    const stats = getLogsPoolStats();
+    expect(stats.size).toBe(1);
+  });
+
+  it('should reuse cached client', () => {
+    const client1 = createLogsClient();
+    const client2 = createLogsClient();
+    expect(client1).toBe(client2);
+    
+    const stats = getLogsPoolStats();
+    expect(stats.size).toBe(1);
+  });
+
+  it('should create separate clients per caller credential', () => {
+    const shared = createLogsClient();
+    const callerA = createLogsClient({}, { apiKey: 'key-a' });
+    const callerB = createLogsClient({}, { bearerToken: 'token-b' });
+
+    expect(callerA).not.toBe(shared);
+    expect(callerA).not.toBe(callerB);
+    expect(createLogsClient({}, { apiKey: 'key-a' })).toBe(callerA);
+    expect(getLogsPoolStats().size).toBe(3);
+  });
+
+  it('should send the caller credential instead of the configured one', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      mockSuccessResponse({ hits: { total: { value: 0 }, hits: [] } })
+    );
+
+    const client = createLogsClient({}, { bearerToken: 'caller-token' });
+    await client.searchLogs('logs-*', 'now-1h', 'now');
+
+    const [, options] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit];
+    expect((options.headers as Record<string, string>)['Authorization']).toBe('Bearer caller-token');
+    expect(client.getCredentialSource()).toBe('caller');
+  });
+
+  it('should clear pool', () => {
+    createLogsClient();
     
     let stats = getLogsPoolStats();
     expect(stats.size).toBe(1);
@@ -575,5 +1395,734 @@ describe('Logs Connection Pool', () => {
     stats = getLogsPoolStats();
     expect(stats.size).toBe(0);
   });
+
+  describe('categorizeLogs', () => {
+    const patternDetails = (id: string) => ({
+      first_seen: { value_as_string: '2024-01-01T10:00:00.000Z' },
+      last_seen: { value_as_string: '2024-01-01T11:00:00.000Z' },
+      sample: { hits: { hits: [{ _id: id }] } },
+    });
+
+    it('should use categorize_text and flag new and rare patterns against the preceding window', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        const body = JSON.parse(options.body);
+        searches.push(body);
+        if (body.aggs.categories) {
+          return mockSuccessResponse({
+            hits: { total: { value: 120 }, hits: [] },
+            aggregations: {
+              categories: {
+                buckets: [
+                  { key: 'Connection timed out', doc_count: 100, ...patternDetails('log-1') },
+                  { key: 'Disk full', doc_count: 15, ...patternDetails('log-2') },
+                  { key: 'User logged in', doc_count: 5, ...patternDetails('log-3') },
+                ],
+              },
+            },
+          });
+        }
+        return mockSuccessResponse({
+          hits: { total: { value: 1000 }, hits: [] },
+          aggregations: {
+            patterns: { buckets: { p0: { doc_count: 0 }, p1: { doc_count: 5 }, p2: { doc_count: 400 } } },
+          },
+        });
+      });
+
+      const result = await createLogsClient().categorizeLogs(
+        'logs-*', '2024-01-01T10:00:00.000Z', '2024-01-01T11:00:00.000Z', 'level:error'
+      );
+
+      expect(result.method).toBe('categorize_text');
+      expect(result.total).toBe(120);
+      expect(result.baseline).toEqual({
+        startTime: '2024-01-01T09:00:00.000Z',
+        endTime: '2024-01-01T10:00:00.000Z',
+        total: 1000,
+      });
+      expect(result.patterns.map((p) => [p.pattern, p.flag])).toEqual([
+        ['Connection timed out', 'new'],
+        ['Disk full', 'rare'],
+        ['User logged in', null],
+      ]);
+      expect(result.patterns[0]).toMatchObject({ count: 100, sampleId: 'log-1', baselineCount: 0 });
+
+      expect(searches[0].aggs.categories.categorize_text).toEqual({ field: 'message', size: 20 });
+      const baselineSearch = searches[1];
+      expect(baselineSearch.query.bool.filter[0].range['@timestamp']).toEqual({
+        gte: '2024-01-01T09:00:00.000Z',
+        lte: '2024-01-01T10:00:00.000Z',
+      });
+      expect(baselineSearch.aggs.patterns.filters.filters.p0).toEqual({
+        match: { message: { query: 'Connection timed out', operator: 'and' } },
+      });
+    });
+
+    it('should fall back to the template miner when categorize_text is not supported', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        const body = JSON.parse(options.body);
+        searches.push(body);
+        if (body.aggs?.categories) {
+          return mockErrorResponse(400, 'Unknown aggregation type [categorize_text]');
+        }
+        if (body.query.function_score) {
+          return mockSuccessResponse({
+            hits: {
+              total: { value: 50 },
+              hits: ['10.0.0.1', '10.0.0.2', '10.0.0.3'].map((ip, i) => ({
+                _id: `log-${i}`,
+                _index: 'logs-app',
+                _source: { message: `Connection to ${ip} timed out` },
+              })),
+            },
+          });
+        }
+        return mockSuccessResponse({
+          hits: { total: { value: 50 }, hits: [] },
+          aggregations: { patterns: { buckets: { p0: { doc_count: 50, ...patternDetails('log-9') } } } },
+        });
+      });
+
+      const result = await createLogsClient().categorizeLogs('logs-*', 'now-1h', 'now');
+
+      expect(result.method).toBe('template_miner');
+      expect(result.sampled).toBe(3);
+      expect(result.patterns).toEqual([{
+        pattern: 'Connection to <IP> timed out',
+        count: 50,
+        firstSeen: '2024-01-01T10:00:00.000Z',
+        lastSeen: '2024-01-01T11:00:00.000Z',
+        sampleId: 'log-9',
+        baselineCount: 50,
+        flag: null,
+      }]);
+      expect(searches[2].aggs.patterns.filters.filters.p0.match.message.query).toBe('Connection to timed out');
+    });
+
+    it('should not hide other errors behind the fallback', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url) =>
+        url.includes('.kibana')
+          ? mockDataViewResponse()
+          : mockErrorResponse(400, 'failed to create query: field [message] does not exist')
+      );
+
+      await expect(createLogsClient().categorizeLogs('logs-*', 'now-1h', 'now')).rejects.toThrow(ElasticsearchApiError);
+    });
+  });
+
+  describe('detectLogAnomalies', () => {
+    const histogram = (counts: number[]) => ({
+      buckets: counts.map((count, i) => ({
+        key_as_string: new Date(Date.UTC(2024, 0, 1, 10, i * 5)).toISOString(),
+        doc_count: count,
+      })),
+    });
+
+    it('should report change points per group with drill-down queries', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        searches.push(JSON.parse(options.body));
+        return mockSuccessResponse({
+          hits: { total: { value: 900 }, hits: [] },
+          aggregations: {
+            by_group: {
+              buckets: [
+                {
+                  key: 'checkout',
+                  doc_count: 700,
+                  over_time: histogram([50, 50, 50, 50, 250, 250]),
+                  change_points: { bucket: { key: '2024-01-01T10:20:00.000Z' }, type: { step_change: { p_value: 0.0001, change_point: 4 } } },
+                },
+                {
+                  key: 'cart "v2"',
+                  doc_count: 200,
+                  over_time: histogram([40, 40, 40, 40, 40, 0]),
+                  change_points: { type: { stationary: {} } },
+                },
+              ],
+            },
+          },
+        });
+      });
+
+      const result = await createLogsClient().detectLogAnomalies(
+        'logs-*', '2024-01-01T10:00:00.000Z', '2024-01-01T10:30:00.000Z', 'level:error', 'service.name'
+      );
+
+      expect(result.method).toBe('change_point');
+      expect(result.interval).toBe('1m');
+      expect(result.series).toBe(2);
+      expect(result.anomalies).toEqual([{
+        group: 'checkout',
+        type: 'level_shift',
+        direction: 'up',
+        timestamp: '2024-01-01T10:20:00.000Z',
+        actual: 250,
+        expected: 50,
+        pValue: 0.0001,
+        drillDown: {
+          startTime: '2024-01-01T10:20:00.000Z',
+          endTime: '2024-01-01T10:30:00.000Z',
+          query: '(level:error) and service.name:"checkout"',
+        },
+      }]);
+
+      const byGroup = searches[0].aggs.by_group;
+      expect(byGroup.terms).toEqual({ field: 'service.name', size: 5 });
+      expect(byGroup.aggs.over_time.date_histogram).toEqual({
+        field: '@timestamp',
+        fixed_interval: '1m',
+        min_doc_count: 0,
+        extended_bounds: { min: '2024-01-01T10:00:00.000Z', max: '2024-01-01T10:30:00.000Z' },
+      });
+      expect(byGroup.aggs.change_points).toEqual({ change_point: { buckets_path: 'over_time>_count' } });
+    });
+
+    it('should fall back to the rolling detector when change_point is not supported', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        const body = JSON.parse(options.body);
+        searches.push(body);
+        if (body.aggs.change_points) {
+          return mockErrorResponse(400, 'Unknown aggregation type [change_point]');
+        }
+        return mockSuccessResponse({
+          hits: { total: { value: 1500 }, hits: [] },
+          aggregations: { over_time: histogram([100, 104, 97, 101, 99, 103, 400, 98, 102]) },
+        });
+      });
+
+      const result = await createLogsClient().detectLogAnomalies(
+        'logs-*', '2024-01-01T10:00:00.000Z', '2024-01-01T10:45:00.000Z', undefined, undefined, '5m'
+      );
+
+      expect(result.method).toBe('rolling_mad');
+      expect(result.series).toBe(1);
+      expect(result.anomalies).toHaveLength(1);
+      expect(result.anomalies[0]).toMatchObject({
+        type: 'spike',
+        direction: 'up',
+        timestamp: '2024-01-01T10:30:00.000Z',
+        actual: 400,
+        drillDown: { startTime: '2024-01-01T10:30:00.000Z', endTime: '2024-01-01T10:35:00.000Z', query: '' },
+      });
+      expect(result.anomalies[0].group).toBeUndefined();
+      expect(searches).toHaveLength(2);
+      expect(searches[1].aggs.over_time.date_histogram.fixed_interval).toBe('5m');
+    });
+
+    it('should not hide other errors behind the fallback', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url) =>
+        url.includes('.kibana')
+          ? mockDataViewResponse()
+          : mockErrorResponse(400, 'failed to create query: field [level] does not exist')
+      );
+
+      await expect(createLogsClient().detectLogAnomalies('logs-*', 'now-1h', 'now')).rejects.toThrow(ElasticsearchApiError);
+    });
+  });
+
+  describe('profileFields', () => {
+    it('should batch profile aggregations for aggregatable fields and skip the rest', async () => {
+      const searches: Array<Record<string, any>> = [];
+      const properties: Record<string, { type: string }> = { message: { type: 'text' }, location: { type: 'geo_point' } };
+      for (let i = 0; i < 25; i++) {
+        properties[`field${String(i).padStart(2, '0')}`] = { type: 'keyword' };
+      }
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_mapping')) {
+          return mockSuccessResponse({ 'logs-app': { mappings: { properties } } });
+        }
+        const body = JSON.parse(options.body);
+        searches.push(body);
+        return mockSuccessResponse({
+          hits: { total: { value: 100 }, hits: [] },
+          aggregations: Object.fromEntries(Object.keys(body.aggs).map((key) => [
+            key,
+            { doc_count: 50, cardinality: { value: 2 }, top_values: { buckets: [{ key: 'a', doc_count: 50 }] } },
+          ])),
+        });
+      });
+
+      const result = await createLogsClient().profileFields('logs-*', 'now-1h', 'now', 'level:error');
+
+      expect(searches.map((body) => Object.keys(body.aggs).length)).toEqual([20, 5]);
+      expect(searches[0].aggs.f0.filter).toEqual({ exists: { field: 'field00' } });
+      expect(searches[0].query.bool.filter[1]).toEqual({ match: { level: 'error' } });
+      expect(result.total).toBe(100);
+      expect(result.profiles).toHaveLength(25);
+      expect(result.profiles[0]).toMatchObject({ name: 'field00', presence: 0.5, topValues: [{ value: 'a', percent: 100 }] });
+      expect(result.skipped.sort()).toEqual(['location', 'message']);
+    });
+
+    it('should report requested fields that do not exist as skipped', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_mapping')) {
+          return mockSuccessResponse({ 'logs-app': { mappings: { properties: { level: { type: 'keyword' } } } } });
+        }
+        return mockSuccessResponse({ hits: { total: { value: 0 }, hits: [] }, aggregations: {} });
+      });
+
+      const result = await createLogsClient().profileFields('logs-*', 'now-1h', 'now', undefined, ['level', 'missing']);
+
+      expect(result.profiles.map((p) => p.name)).toEqual(['level']);
+      expect(result.skipped).toEqual(['missing']);
+    });
+  });
+
+  describe('exportLogs', () => {
+    afterAll(async () => {
+      await rm(ES_LOGS_CONFIG.exportDir, { recursive: true, force: true });
+    });
+
+    const hit = (i: number) => ({
+      _id: `log-${i}`,
+      _index: 'logs-app',
+      _source: { '@timestamp': '2024-01-01T10:00:00.000Z', host: { name: 'web-1' }, message: `line ${i}` },
+      sort: [1704103200000, i],
+    });
+
+    it('should page through a point in time up to the row cap', async () => {
+      const pitSearches: Array<Record<string, any>> = [];
+      let closed = false;
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_pit?keep_alive=')) {
+          return mockSuccessResponse({ id: 'pit-1' });
+        }
+        if (url.endsWith('/_pit') && options.method === 'DELETE') {
+          closed = true;
+          return mockSuccessResponse({ succeeded: true });
+        }
+        const body = JSON.parse(options.body);
+        pitSearches.push(body);
+        const offset = (pitSearches.length - 1) * 1000;
+        return mockSuccessResponse({
+          pit_id: 'pit-1',
+          hits: { total: { value: 3000, relation: 'eq' }, hits: Array.from({ length: body.size }, (_, i) => hit(offset + i)) },
+        });
+      });
+
+      const result = await createLogsClient().exportLogs(
+        'logs-*', 'now-1h', 'now', undefined, ['host.name', 'message'], 'csv', 5000
+      );
+
+      expect(result).toMatchObject({ format: 'csv', rows: 2500, truncated: true });
+      expect(result.columns).toEqual(['_id', '@timestamp', 'host.name', 'message']);
+      expect(pitSearches.map((body) => body.size)).toEqual([1000, 1000, 500]);
+      expect(pitSearches[0].sort).toEqual([{ '@timestamp': 'asc' }, { _shard_doc: 'asc' }]);
+      expect(pitSearches[0].search_after).toBeUndefined();
+      expect(pitSearches[1].search_after).toEqual([1704103200000, 999]);
+      expect(closed).toBe(true);
+
+      const exported = await readExport(result.fileName);
+      const lines = exported.text.trim().split('\n');
+      expect(lines).toHaveLength(2501);
+      expect(lines[1]).toBe('log-0,2024-01-01T10:00:00.000Z,web-1,line 0');
+      expect(result.bytes).toBe(Buffer.byteLength(exported.text));
+      expect(result.uri).toBe(`logs-export://${result.fileName}`);
+    });
+
+    it('should delete the partial file when a page fails', async () => {
+      let searches = 0;
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_pit?keep_alive=')) {
+          return mockSuccessResponse({ id: 'pit-1' });
+        }
+        if (options.method === 'DELETE') {
+          return mockSuccessResponse({ succeeded: true });
+        }
+        searches++;
+        return searches === 1
+          ? mockSuccessResponse({ hits: { total: { value: 3000, relation: 'eq' }, hits: Array.from({ length: 1000 }, (_, i) => hit(i)) } })
+          : mockErrorResponse(400, 'search_phase_execution_exception');
+      });
+      const before = await readdir(ES_LOGS_CONFIG.exportDir).catch(() => []);
+
+      await expect(createLogsClient().exportLogs('logs-*', 'now-1h', 'now')).rejects.toThrow(ElasticsearchApiError);
+      expect(await readdir(ES_LOGS_CONFIG.exportDir)).toEqual(before);
+    });
+
+    it('should leave no file when the point in time cannot be opened', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        return mockErrorResponse(403, 'action [indices:data/read/open_point_in_time] is unauthorized');
+      });
+      const before = await readdir(ES_LOGS_CONFIG.exportDir).catch(() => []);
+
+      await expect(createLogsClient().exportLogs('logs-*', 'now-1h', 'now')).rejects.toThrow(ElasticsearchApiError);
+      expect(await readdir(ES_LOGS_CONFIG.exportDir)).toEqual(before);
+    });
+  });
+
+  describe('tailLogs', () => {
+    const hit = (id: string, time: string) => ({
+      _id: id,
+      _index: 'logs-app',
+      _source: { '@timestamp': time, message: id },
+      sort: [time],
+    });
+
+    it('should poll past the last timestamp without repeating or skipping ties', async () => {
+      const searches: Array<Record<string, any>> = [];
+      const pages = [
+        [hit('a', '2024-01-01T10:00:00.000Z'), hit('b', '2024-01-01T10:00:01.000Z'), hit('c', '2024-01-01T10:00:01.000Z')],
+        [hit('d', '2024-01-01T10:00:01.000Z')],
+      ];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        searches.push(JSON.parse(options.body));
+        const hits = pages[searches.length - 1] ?? [];
+        return mockSuccessResponse({ hits: { total: { value: hits.length }, hits } });
+      });
+
+      const polls: Array<[number, number]> = [];
+      const summary = await createLogsClient().tailLogs(
+        'logs-*', 'now-5m', 'level:error', undefined, 60, 10, 200,
+        async (logs, progress) => { polls.push([logs.length, progress.total]); }
+      );
+
+      expect(summary.total).toBe(4);
+      expect(summary.truncated).toBe(false);
+      expect(summary.firstTimestamp).toBe('2024-01-01T10:00:00.000Z');
+      expect(summary.lastTimestamp).toBe('2024-01-01T10:00:01.000Z');
+      expect(summary.latest.map((log) => log.id)).toEqual(['a', 'b', 'c', 'd']);
+      expect(summary.polls).toBe(searches.length);
+      expect(polls.slice(0, 2)).toEqual([[3, 3], [1, 4]]);
+
+      expect(searches[0].query.bool.filter[0].range['@timestamp'].gte).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(searches[0].query.bool.must_not).toBeUndefined();
+      expect(searches[0].sort).toEqual([{ '@timestamp': { order: 'asc', format: 'strict_date_optional_time_nanos' } }]);
+      expect(searches[1].query.bool.filter[0].range['@timestamp'].gte).toBe('2024-01-01T10:00:01.000Z');
+      expect(searches[1].query.bool.must_not).toEqual([{ ids: { values: ['b', 'c'] } }]);
+      expect(searches[2].query.bool.must_not).toEqual([{ ids: { values: ['b', 'c', 'd'] } }]);
+    });
+
+    it('should stop once maxLogs is reached', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url) =>
+        url.includes('.kibana')
+          ? mockDataViewResponse()
+          : mockSuccessResponse({
+            hits: { total: { value: 2 }, hits: [hit('a', '2024-01-01T10:00:00.000Z'), hit('b', '2024-01-01T10:00:01.000Z')] },
+          })
+      );
+
+      const summary = await createLogsClient().tailLogs('logs-*', 'now', undefined, undefined, 60000, 5000, 2);
+
+      expect(summary).toMatchObject({ total: 2, polls: 1, truncated: true });
+    });
+
+    it('should not start further back than the maximum time range', async () => {
+      await expect(createLogsClient().tailLogs('logs-*', 'now-48h')).rejects.toThrow(TimeRangeExceededError);
+    });
+  });
+
+  describe('logFieldCorrelations', () => {
+    it('should rank significant values across fields against the background', async () => {
+      const searches: Array<Record<string, any>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if (url.includes('.kibana')) {
+          return mockDataViewResponse();
+        }
+        if (url.includes('/_mapping')) {
+          return mockSuccessResponse({
+            'logs-app': {
+              mappings: {
+                properties: {
+                  '@timestamp': { type: 'date' },
+                  message: { type: 'text' },
+                  level: { type: 'keyword' },
+                  host: { properties: { name: { type: 'keyword' } } },
+                },
+              },
+            },
+          });
+        }
+        searches.push(JSON.parse(options.body));
+        return mockSuccessResponse({
+          hits: { total: { value: 200 }, hits: [] },
+          aggregations: {
+            f0: {
+              doc_count: 200,
+              bg_count: 10000,
+              buckets: [{ key: 'web-3', doc_count: 150, bg_count: 300, score: 4.2 }],
+            },
+            text_sample: {
+              doc_count: 100,
+              t0: {
+                doc_count: 100,
+                bg_count: 10000,
+                buckets: [{ key: 'refused', doc_count: 90, bg_count: 100, score: 7.5 }],
+              },
+            },
+          },
+        });
+      });
+
+      const result = await createLogsClient().logFieldCorrelations(
+        'logs-*', '2024-01-01T10:00:00.000Z', '2024-01-01T11:00:00.000Z', 'level:error',
+        { startTime: '2024-01-01T00:00:00.000Z', endTime: '2024-01-01T10:00:00.000Z' }
+      );
+
+      expect(result.fieldsAnalyzed).toEqual(['host.name', 'message']);
+      expect(result.foreground.total).toBe(200);
+      expect(result.background).toEqual({
+        query: undefined,
+        startTime: '2024-01-01T00:00:00.000Z',
+        endTime: '2024-01-01T10:00:00.000Z',
+        total: 10000,
+      });
+      expect(result.correlations.map((c) => [c.field, c.value, c.source, c.lift])).toEqual([
+        ['message', 'refused', 'text', 90],
+        ['host.name', 'web-3', 'terms', 25],
+      ]);
+
+      const search = searches[0];
+      expect(search.query.bool.filter[1]).toEqual({ match: { level: 'error' } });
+      expect(search.aggs.f0.significant_terms).toEqual({
+        field: 'host.name',
+        size: 5,
+        background_filter: {
+          bool: {
+            filter: [{ range: { '@timestamp': { gte: '2024-01-01T00:00:00.000Z', lte: '2024-01-01T10:00:00.000Z' } } }],
+          },
+        },
+      });
+      expect(search.aggs.text_sample.aggs.t0.significant_text.field).toBe('message');
+    });
+  });
 });
 
+
+describe('Logs search pagination', () => {
+  const hit = (i: number) => ({
+    _id: `log-${i}`,
+    _index: 'logs-app',
+    _source: { '@timestamp': '2024-01-01T12:00:00Z' },
+    sort: [1704110400000, i],
+  });
+
+  beforeEach(async () => {
+    resetCircuitBreaker();
+    clearLogsPool();
+    (global.fetch as jest.Mock).mockReset();
+    await closeAllPits();
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  /**
+   * Route requests: plain search, PIT open/close and PIT searches
+   */
+  function mockPagination(total: number, pages: number[]) {
+    const pitSearches: Array<Record<string, unknown>> = [];
+    let served = 0;
+    (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+      const body = options.body ? JSON.parse(options.body as string) : undefined;
+      if (url.includes('/_pit?keep_alive=')) {
+        return mockSuccessResponse({ id: 'pit-1' });
+      }
+      if (url.endsWith('/_pit') && options.method === 'DELETE') {
+        return mockSuccessResponse({ succeeded: true });
+      }
+      if (url.includes('.kibana')) {
+        return mockSuccessResponse({ hits: { total: { value: 0, relation: 'eq' }, hits: [] } });
+      }
+      if (url.endsWith('/logs-*/_search')) {
+        return mockSuccessResponse({
+          hits: { total: { value: total, relation: 'eq' }, hits: Array.from({ length: body.size }, (_, i) => hit(i)) },
+        });
+      }
+      pitSearches.push(body);
+      const count = pages[pitSearches.length - 1] ?? 0;
+      const hits = Array.from({ length: count }, (_, i) => hit(served + i));
+      served += count;
+      return mockSuccessResponse({
+        pit_id: 'pit-1',
+        hits: { total: { value: total, relation: 'eq' }, hits },
+      });
+    });
+    return pitSearches;
+  }
+
+  it('should search once and close the point in time when everything fits on one page', async () => {
+    const pitSearches = mockPagination(1, [1]);
+
+    const result = await createLogsClient().searchLogs('logs-*', 'now-1h', 'now');
+
+    expect(result.cursor).toBeUndefined();
+    expect(pitSearches).toHaveLength(1);
+    const calls = (global.fetch as jest.Mock).mock.calls as Array<[string, RequestInit]>;
+    expect(calls.some(([url]) => url.endsWith('/logs-*/_search'))).toBe(false);
+    expect(calls.some(([url, options]) => url.endsWith('/_pit') && options.method === 'DELETE')).toBe(true);
+  });
+
+  it('should return a cursor and serve the first page from a point in time', async () => {
+    const pitSearches = mockPagination(5, [2]);
+
+    const result = await createLogsClient().searchLogs('logs-*', 'now-1h', 'now', 'level:error', ['message'], 2);
+
+    expect(result.logs).toHaveLength(2);
+    expect(result.cursor).toBeDefined();
+    expect(pitSearches[0].pit).toEqual({ id: 'pit-1', keep_alive: '5m' });
+    expect(pitSearches[0].sort).toEqual([{ '@timestamp': 'desc' }, { _shard_doc: 'asc' }]);
+    expect(pitSearches[0].search_after).toBeUndefined();
+    // The first page is not searched outside the point in time as well
+    expect((global.fetch as jest.Mock).mock.calls.some(([url]) => (url as string).endsWith('/logs-*/_search'))).toBe(false);
+
+    const cursor = decodeCursor(result.cursor!);
+    expect(cursor.pitId).toBe('pit-1');
+    expect(cursor.searchAfter).toEqual([1704110400000, 1]);
+    expect(cursor.returned).toBe(2);
+    expect(cursor.query).toBe('level:error');
+    expect(cursor.fields).toEqual(['message']);
+    // Relative times are pinned so later pages cover the same window
+    expect(cursor.startTime).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(getOpenPitCount()).toBe(1);
+  });
+
+  it('should keep highlighting and the summary projection on later pages', async () => {
+    const pitSearches = mockPagination(5, [2, 2]);
+    const client = createLogsClient();
+
+    const first = await client.searchLogs(
+      'logs-*', 'now-1h', 'now', 'level:error', ['host.name'], 2, { highlight: true, projection: 'summary' }
+    );
+    const second = await client.searchLogsPage(first.cursor!, 2);
+
+    for (const search of pitSearches) {
+      expect(search.highlight).toMatchObject({ fields: { '*': {} }, max_analyzed_offset: 100000 });
+      expect(search._source).toEqual(['@timestamp', 'log.level', 'level', 'severity', 'service.name', 'service', 'message', 'event.original']);
+    }
+    expect(second.search.output).toEqual({ highlight: true, projection: 'summary' });
+  });
+
+  it('should keep filters and sort on later pages', async () => {
+    const pitSearches = mockPagination(5, [2, 2]);
+    const client = createLogsClient();
+    const refinement = {
+      filters: [{ bool: { must_not: [{ match_phrase: { 'service.name': 'checkout' } }] } }],
+      sort: [{ 'log.level': 'asc' as const }],
+    };
+
+    const first = await client.searchLogs('logs-*', 'now-1h', 'now', undefined, undefined, 2, {}, refinement);
+    await client.searchLogsPage(first.cursor!, 2);
+
+    for (const search of pitSearches) {
+      expect((search.query as { bool: { filter: object[] } }).bool.filter).toContainEqual(refinement.filters[0]);
+      expect(search.sort).toEqual([{ 'log.level': 'asc' }, { _shard_doc: 'asc' }]);
+    }
+  });
+
+  it('should page with search_after and close the point in time after the last page', async () => {
+    const pitSearches = mockPagination(5, [2, 2, 1]);
+    const client = createLogsClient();
+
+    const first = await client.searchLogs('logs-*', 'now-1h', 'now', undefined, undefined, 2);
+    const second = await client.searchLogsPage(first.cursor!, 2);
+    const third = await client.searchLogsPage(second.cursor!, 2);
+
+    expect(pitSearches[1].search_after).toEqual([1704110400000, 1]);
+    expect(pitSearches[2].search_after).toEqual([1704110400000, 3]);
+    expect(second.logs.map((l) => l.id)).toEqual(['log-2', 'log-3']);
+    expect(third.logs.map((l) => l.id)).toEqual(['log-4']);
+    expect(third.cursor).toBeUndefined();
+    expect(getOpenPitCount()).toBe(0);
+
+    const closeCall = (global.fetch as jest.Mock).mock.calls.find(
+      ([, options]) => (options as RequestInit).method === 'DELETE'
+    );
+    expect(closeCall).toBeDefined();
+  });
+
+  it('should report an expired cursor', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      mockErrorResponse(404, 'No search context found for id [1]')
+    );
+    const cursor = encodeCursor({
+      cluster: 'default',
+      pitId: 'pit-gone',
+      searchAfter: [1, 2],
+      returned: 2,
+      indexPattern: 'logs-*',
+      timeField: '@timestamp',
+      startTime: '2024-01-01T00:00:00.000Z',
+      endTime: '2024-01-01T01:00:00.000Z',
+    });
+
+    await expect(createLogsClient().searchLogsPage(cursor)).rejects.toThrow(CursorExpiredError);
+  });
+
+  it('should reject malformed cursors and cursors for another cluster', async () => {
+    await expect(createLogsClient().searchLogsPage('garbage')).rejects.toThrow(InvalidCursorError);
+
+    const cursor = encodeCursor({
+      cluster: 'other',
+      pitId: 'pit-1',
+      searchAfter: [1],
+      returned: 1,
+      indexPattern: 'logs-*',
+      timeField: '@timestamp',
+      startTime: 'now-1h',
+      endTime: 'now',
+    });
+    await expect(createLogsClient().searchLogsPage(cursor)).rejects.toThrow("cluster 'other'");
+  });
+
+  it('should check the time range of every page', async () => {
+    const cursor = encodeCursor({
+      cluster: 'default',
+      pitId: 'pit-1',
+      searchAfter: [1],
+      returned: 1,
+      indexPattern: 'logs-*',
+      timeField: '@timestamp',
+      startTime: '2024-01-01T00:00:00.000Z',
+      endTime: '2024-01-05T00:00:00.000Z',
+    });
+
+    await expect(createLogsClient().searchLogsPage(cursor)).rejects.toThrow(TimeRangeExceededError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to a single page when a point in time cannot be opened', async () => {
+    (global.fetch as jest.Mock).mockImplementation((url: string) =>
+      url.includes('/_pit')
+        ? mockErrorResponse(403, 'action [indices:data/read/open_point_in_time] is unauthorized')
+        : mockSuccessResponse({ hits: { total: { value: 10, relation: 'eq' }, hits: [hit(0)] } })
+    );
+
+    const result = await createLogsClient().searchLogs('logs-*', 'now-1h', 'now', undefined, undefined, 1);
+
+    expect(result.logs).toHaveLength(1);
+    expect(result.cursor).toBeUndefined();
+  });
+});
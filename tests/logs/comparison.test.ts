@@ -0,0 +1,92 @@
+/**
+ * Tests for period comparisons
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildComparison,
+  poissonRateTest,
+} from '../../src/tools/elasticsearch/logs/comparison.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Period Comparisons', () => {
+  describe('poissonRateTest', () => {
+    it('should find no difference between equal rates', () => {
+      expect(poissonRateTest(10, HOUR, 10, HOUR)).toBe(1);
+      expect(poissonRateTest(10, HOUR, 240, 24 * HOUR)).toBe(1);
+      expect(poissonRateTest(0, HOUR, 0, HOUR)).toBe(1);
+    });
+
+    it('should test small counts exactly', () => {
+      // Both all-in-one-period outcomes of 10 logs: 2 / 2^10
+      expect(poissonRateTest(0, HOUR, 10, HOUR)).toBe(0.00195);
+      expect(poissonRateTest(2, HOUR, 4, HOUR)).toBeGreaterThan(0.05);
+    });
+
+    it('should approximate large counts', () => {
+      expect(poissonRateTest(1000, HOUR, 1200, HOUR)).toBeLessThan(0.001);
+      expect(poissonRateTest(1000, HOUR, 1010, HOUR)).toBeGreaterThan(0.05);
+    });
+  });
+
+  describe('buildComparison', () => {
+    const period1 = [{ key: 'api', doc_count: 10 }, { key: 'worker', doc_count: 5 }];
+    const period2 = [{ key: 'api', doc_count: 240 }, { key: 'db', doc_count: 24 }];
+
+    it('should compare counts per hour of each period', () => {
+      const comparison = buildComparison(period1, period2, 'count', [HOUR, 24 * HOUR], {
+        appeared: ['db'],
+        disappeared: ['worker'],
+      });
+
+      expect(comparison.normalization).toBe('per_hour');
+      expect(comparison.period1).toMatchObject({ total: 15, hours: 1, byGroup: { api: 10, worker: 5 } });
+      expect(comparison.period2).toMatchObject({ total: 264, hours: 24 });
+      expect(comparison.change.total).toBe('-27%');
+      expect(comparison.change.byGroup).toEqual({ api: '+0%', worker: '-100%', db: '+∞%' });
+      expect(comparison.change.details.byGroup.api).toEqual({
+        period1: 10, period2: 10, difference: 0, percent: 0, pValue: 1, significant: false,
+      });
+      expect(comparison.change.details.byGroup.db).toMatchObject({ period1: 0, period2: 1, percent: null });
+      expect(comparison.change.details.total).toMatchObject({ period1: 15, period2: 11, percent: -26.7 });
+      expect(comparison.appeared).toEqual(['db']);
+      expect(comparison.disappeared).toEqual(['worker']);
+    });
+
+    it('should flag count changes unlikely to be chance', () => {
+      const comparison = buildComparison(
+        [{ key: 'api', doc_count: 1000 }, { key: 'web', doc_count: 3 }],
+        [{ key: 'api', doc_count: 2000 }, { key: 'web', doc_count: 6 }],
+        'count',
+        [HOUR, HOUR]
+      );
+
+      expect(comparison.change.byGroup).toEqual({ api: '+100%', web: '+100%' });
+      expect(comparison.change.details.byGroup.api.significant).toBe(true);
+      expect(comparison.change.details.byGroup.web.significant).toBe(false);
+    });
+
+    it('should compare averages as they are, without a test', () => {
+      const comparison = buildComparison(
+        [{ key: 'api', doc_count: 10, metric_value: 200 }],
+        [{ key: 'api', doc_count: 240, metric_value: 300 }],
+        'avg',
+        [HOUR, 24 * HOUR]
+      );
+
+      expect(comparison.normalization).toBe('none');
+      expect(comparison.change.byGroup.api).toBe('+50%');
+      expect(comparison.change.details.byGroup.api).toEqual({ period1: 200, period2: 300, difference: 100, percent: 50 });
+    });
+
+    it('should compare values as they are without period lengths', () => {
+      const comparison = buildComparison(period1, period2, 'count');
+
+      expect(comparison.normalization).toBe('none');
+      expect(comparison.period1.hours).toBeUndefined();
+      expect(comparison.change.byGroup.api).toBe('+2300%');
+      expect(comparison.appeared).toBeUndefined();
+    });
+  });
+});
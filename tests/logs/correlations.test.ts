@@ -0,0 +1,57 @@
+/**
+ * Tests for log field correlations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { correlationFields, toCorrelation } from '../../src/tools/elasticsearch/logs/correlations.js';
+import type { LogField } from '../../src/tools/elasticsearch/logs/client.js';
+
+describe('Log Field Correlations', () => {
+  const field = (name: string, type: string, aggregatable = true): LogField => ({ name, type, searchable: true, aggregatable });
+  const fields = [
+    field('@timestamp', 'date'),
+    field('message', 'text', false),
+    field('level', 'keyword'),
+    field('host.name', 'keyword'),
+    field('http.response.status_code', 'long'),
+    field('event.duration', 'double'),
+    field('client.ip', 'ip'),
+    field('_tier', 'keyword'),
+  ];
+
+  describe('correlationFields', () => {
+    it('should pick aggregatable fields of the default types plus message', () => {
+      expect(correlationFields(fields, undefined, ['@timestamp', 'level'])).toEqual({
+        terms: ['host.name', 'http.response.status_code', 'client.ip'],
+        text: ['message'],
+      });
+    });
+
+    it('should use requested fields as given, splitting out text fields', () => {
+      expect(correlationFields(fields, ['level', 'message', 'event.duration'], ['level'])).toEqual({
+        terms: ['level', 'event.duration'],
+        text: ['message'],
+      });
+    });
+  });
+
+  describe('toCorrelation', () => {
+    it('should compute shares and lift', () => {
+      expect(toCorrelation('host.name', 'terms', { key: 'web-3', doc_count: 80, bg_count: 100, score: 1.23456 }, 100, 10000)).toEqual({
+        field: 'host.name',
+        value: 'web-3',
+        source: 'terms',
+        foregroundCount: 80,
+        backgroundCount: 100,
+        foregroundShare: 0.8,
+        backgroundShare: 0.01,
+        lift: 80,
+        score: 1.2346,
+      });
+    });
+
+    it('should leave lift empty when the background has no match', () => {
+      expect(toCorrelation('code', 'terms', { key: 503, doc_count: 5, bg_count: 0, score: 2 }, 10, 0).lift).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for search cursors and point-in-time tracking
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  InvalidCursorError,
+  closeAllPits,
+  decodeCursor,
+  encodeCursor,
+  forgetPit,
+  getOpenPitCount,
+  keepAliveToMs,
+  releasePit,
+  trackPit,
+  type SearchCursor,
+} from '../../src/tools/elasticsearch/logs/cursor.js';
+
+const CURSOR: SearchCursor = {
+  cluster: 'default',
+  pitId: 'pit-1',
+  searchAfter: [1704110400000, 7],
+  returned: 100,
+  indexPattern: 'logs-*',
+  timeField: '@timestamp',
+  startTime: '2024-01-01T00:00:00.000Z',
+  endTime: '2024-01-01T01:00:00.000Z',
+  query: 'level:error',
+};
+
+describe('Search Cursor', () => {
+  beforeEach(async () => {
+    await closeAllPits();
+  });
+
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip cursor state', () => {
+      const token = encodeCursor(CURSOR);
+      expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(token)).toEqual(CURSOR);
+    });
+
+    it('should reject tokens that are not cursors', () => {
+      expect(() => decodeCursor('not-a-cursor')).toThrow(InvalidCursorError);
+      expect(() => decodeCursor(Buffer.from('{"v":2}').toString('base64url'))).toThrow(InvalidCursorError);
+    });
+
+    it('should reject cursors that were edited', () => {
+      const [, signature] = encodeCursor(CURSOR).split('.');
+      const widened = Buffer.from(JSON.stringify({ v: 1, ...CURSOR, startTime: '2020-01-01T00:00:00.000Z' })).toString('base64url');
+
+      expect(() => decodeCursor(`${widened}.${signature}`)).toThrow('or it was altered');
+      expect(() => decodeCursor(widened)).toThrow(InvalidCursorError);
+    });
+  });
+
+  describe('keepAliveToMs', () => {
+    it('should convert Elasticsearch time values', () => {
+      expect(keepAliveToMs('30s')).toBe(30000);
+      expect(keepAliveToMs('5m')).toBe(300000);
+      expect(keepAliveToMs('1h')).toBe(3600000);
+    });
+
+    it('should reject unsupported values', () => {
+      expect(() => keepAliveToMs('5 minutes')).toThrow('Invalid keep-alive');
+    });
+  });
+
+  describe('point-in-time tracking', () => {
+    it('should track, re-key and release PITs', async () => {
+      const close = jest.fn(() => Promise.resolve());
+
+      trackPit('pit-1', close);
+      trackPit('pit-2', close, 'pit-1');
+      expect(getOpenPitCount()).toBe(1);
+
+      releasePit('pit-2', close);
+      expect(getOpenPitCount()).toBe(0);
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forget expired PITs without closing them', () => {
+      const close = jest.fn(() => Promise.resolve());
+      trackPit('pit-1', close);
+      forgetPit('pit-1');
+      expect(getOpenPitCount()).toBe(0);
+      expect(close).not.toHaveBeenCalled();
+    });
+
+    it('should close every tracked PIT', async () => {
+      const close = jest.fn(() => Promise.resolve());
+      trackPit('pit-1', close);
+      trackPit('pit-2', close);
+
+      await closeAllPits();
+
+      expect(close).toHaveBeenCalledTimes(2);
+      expect(getOpenPitCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for ES|QL guardrails
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  EsqlNotAllowedError,
+  matchesIndexPattern,
+  splitEsqlCommands,
+  validateEsqlQuery,
+  type EsqlPolicy,
+} from '../../src/tools/elasticsearch/logs/esql.js';
+
+const POLICY: EsqlPolicy = {
+  deniedCommands: ['ENRICH'],
+  allowedIndices: ['logs-*', 'apm-*'],
+};
+
+describe('ES|QL Guardrails', () => {
+  describe('splitEsqlCommands', () => {
+    it('should split on top-level pipes only', () => {
+      expect(splitEsqlCommands('FROM logs-* | WHERE message == "a | b" | LIMIT 5')).toEqual([
+        'FROM logs-*',
+        'WHERE message == "a | b"',
+        'LIMIT 5',
+      ]);
+    });
+
+    it('should ignore comments', () => {
+      expect(splitEsqlCommands('FROM logs-* // | ENRICH x\n| LIMIT 5 /* | ENRICH y */')).toEqual([
+        'FROM logs-*',
+        'LIMIT 5',
+      ]);
+    });
+  });
+
+  describe('matchesIndexPattern', () => {
+    it('should treat query wildcards literally', () => {
+      expect(matchesIndexPattern('logs-app-*', 'logs-*')).toBe(true);
+      expect(matchesIndexPattern('logs-app', 'logs-*')).toBe(true);
+      expect(matchesIndexPattern('*', 'logs-*')).toBe(false);
+      expect(matchesIndexPattern('logs*', 'logs-*')).toBe(false);
+      expect(matchesIndexPattern('remote:logs-app', 'logs-*')).toBe(false);
+    });
+  });
+
+  describe('validateEsqlQuery', () => {
+    it('should accept queries on allowed indices', () => {
+      const result = validateEsqlQuery(
+        'FROM logs-app-*, apm-traces METADATA _id | STATS count = COUNT(*) BY service.name',
+        POLICY
+      );
+      expect(result.sources).toEqual(['logs-app-*', 'apm-traces']);
+    });
+
+    it('should require FROM', () => {
+      expect(() => validateEsqlQuery('ROW a = 1', POLICY)).toThrow('must start with FROM');
+      expect(() => validateEsqlQuery('', POLICY)).toThrow(EsqlNotAllowedError);
+    });
+
+    it('should reject indices outside the allowlist', () => {
+      expect(() => validateEsqlQuery('FROM .security-7', POLICY)).toThrow("index '.security-7' is not in the allowlist");
+      expect(() => validateEsqlQuery('FROM logs-*, *', POLICY)).toThrow("index '*'");
+    });
+
+    it('should allow exclusions', () => {
+      expect(validateEsqlQuery('FROM logs-*, -logs-debug*', POLICY).sources).toHaveLength(2);
+    });
+
+    it('should reject denied commands', () => {
+      expect(() => validateEsqlQuery('FROM logs-* | enrich hosts ON host.name', POLICY)).toThrow(
+        'command ENRICH is not allowed'
+      );
+    });
+
+    it('should check LOOKUP JOIN indices and FORK branches', () => {
+      expect(() => validateEsqlQuery('FROM logs-* | LOOKUP JOIN users ON user.id', POLICY)).toThrow("index 'users'");
+      expect(() =>
+        validateEsqlQuery('FROM logs-* | FORK (WHERE a > 1 | LIMIT 5) (ENRICH hosts)', POLICY)
+      ).toThrow('command ENRICH is not allowed');
+    });
+  });
+});
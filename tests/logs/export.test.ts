@@ -0,0 +1,134 @@
+/**
+ * Tests for log exports
+ */
+
+import { describe, it, expect, afterAll } from '@jest/globals';
+import { rm, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  ExportNotFoundError,
+  ExportTooLargeError,
+  createExportWriter,
+  csvValue,
+  exportOwner,
+  flattenDocument,
+  pruneExports,
+  readExport,
+} from '../../src/tools/elasticsearch/logs/export.js';
+import { ES_LOGS_CONFIG } from '../../src/tools/elasticsearch/logs/schema.js';
+
+describe('Log Exports', () => {
+  afterAll(async () => {
+    await rm(ES_LOGS_CONFIG.exportDir, { recursive: true, force: true });
+  });
+
+  const log = (id: string, source: Record<string, unknown>) => ({ id, index: 'logs-app', timestamp: '', source });
+
+  describe('flattenDocument', () => {
+    it('should flatten nested objects and keep arrays', () => {
+      expect(flattenDocument({ host: { name: 'web-1', os: { family: 'linux' } }, tags: ['a', 'b'], 'event.code': 4 })).toEqual({
+        'host.name': 'web-1',
+        'host.os.family': 'linux',
+        tags: ['a', 'b'],
+        'event.code': 4,
+      });
+    });
+  });
+
+  describe('csvValue', () => {
+    it('should quote cells with commas, quotes or newlines', () => {
+      expect(csvValue('plain')).toBe('plain');
+      expect(csvValue('a, "b"\nc')).toBe('"a, ""b""\nc"');
+      expect(csvValue(['x', 'y'])).toBe('"[""x"",""y""]"');
+      expect(csvValue(undefined)).toBe('');
+    });
+  });
+
+  describe('createExportWriter', () => {
+    it('should write NDJSON and read it back as a resource', async () => {
+      const writer = await createExportWriter('ndjson');
+      await writer.write([log('1', { message: 'first' }), log('2', { message: 'second' })]);
+      const result = await writer.close();
+
+      const exported = await readExport(writer.fileName);
+      expect(exported.mimeType).toBe('application/x-ndjson');
+      expect(exported.uri).toBe(`logs-export://${writer.fileName}`);
+      expect(exported.text.trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+        { _id: '1', _index: 'logs-app', message: 'first' },
+        { _id: '2', _index: 'logs-app', message: 'second' },
+      ]);
+      expect(result).toEqual({ rows: 2, bytes: Buffer.byteLength(exported.text) });
+    });
+
+    it('should write CSV with flattened columns from the first page', async () => {
+      const writer = await createExportWriter('csv');
+      await writer.write([log('1', { host: { name: 'web-1' }, message: 'a,b' })]);
+      await writer.write([log('2', { host: { name: 'web-2' }, extra: true })]);
+      const result = await writer.close();
+
+      expect(result.columns).toEqual(['_id', '_index', 'host.name', 'message']);
+      expect((await readExport(writer.fileName)).text).toBe(
+        '_id,_index,host.name,message\n1,logs-app,web-1,"a,b"\n2,logs-app,web-2,\n'
+      );
+    });
+
+    it('should delete the file of a discarded export', async () => {
+      const writer = await createExportWriter('csv', ['_id', 'message']);
+      await writer.write([log('1', { message: 'partial' })]);
+      await writer.discard();
+
+      await expect(readExport(writer.fileName)).rejects.toThrow(ExportNotFoundError);
+    });
+  });
+
+  describe('pruneExports', () => {
+    it('should delete expired exports and leave other files alone', async () => {
+      const writer = await createExportWriter('ndjson');
+      await writer.close();
+      const other = join(ES_LOGS_CONFIG.exportDir, 'notes.txt');
+      await writeFile(other, 'keep');
+      const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+      await utimes(join(ES_LOGS_CONFIG.exportDir, writer.fileName), dayAgo, dayAgo);
+      await utimes(other, dayAgo, dayAgo);
+
+      expect(await pruneExports(ES_LOGS_CONFIG.exportDir, 0)).toEqual([]);
+      expect(await pruneExports()).toEqual([writer.fileName]);
+      await expect(readExport(writer.fileName)).rejects.toThrow(ExportNotFoundError);
+      await rm(other);
+    });
+  });
+
+  describe('readExport', () => {
+    it('should only read names generated by the writer', async () => {
+      await expect(readExport('../../etc/passwd')).rejects.toThrow(ExportNotFoundError);
+      await expect(readExport('logs-20240101T000000Z-0123456789abcdef.ndjson')).rejects.toThrow(ExportNotFoundError);
+    });
+
+    it('should only serve an export to sessions of its owner', async () => {
+      const alice = { principal: { id: 'alice', method: 'token' as const, expiresAt: Infinity }, esCredential: { apiKey: 'alice-key' } };
+      const writer = await createExportWriter('ndjson', undefined, exportOwner(alice));
+      await writer.write([log('1', { message: 'dls filtered' })]);
+      await writer.close();
+
+      expect((await readExport(writer.fileName, exportOwner({ ...alice }))).text).toContain('dls filtered');
+      await expect(readExport(writer.fileName, exportOwner({ ...alice, principal: { ...alice.principal, id: 'bob' } })))
+        .rejects.toThrow(ExportNotFoundError);
+      await expect(readExport(writer.fileName, exportOwner({ ...alice, esCredential: { apiKey: 'other-key' } })))
+        .rejects.toThrow(ExportNotFoundError);
+      await expect(readExport(writer.fileName)).rejects.toThrow(ExportNotFoundError);
+    });
+
+    it('should refuse exports over the read limit', async () => {
+      const writer = await createExportWriter('ndjson');
+      await writer.write([log('1', { message: 'x'.repeat(100) })]);
+      await writer.close();
+      const maxBytes = ES_LOGS_CONFIG.maxExportReadBytes;
+      ES_LOGS_CONFIG.maxExportReadBytes = 100;
+      try {
+        await expect(readExport(writer.fileName)).rejects.toThrow(ExportTooLargeError);
+      } finally {
+        ES_LOGS_CONFIG.maxExportReadBytes = maxBytes;
+      }
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for log aggregation grouping
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  decodeAfterKey,
+  encodeAfterKey,
+  groupingAggs,
+  parseGroupedBuckets,
+} from '../../src/tools/elasticsearch/logs/grouping.js';
+
+describe('Log Aggregation Grouping', () => {
+  describe('groupingAggs', () => {
+    it('should keep a single field a plain terms aggregation', () => {
+      expect(groupingAggs(['level'], {}, 10)).toEqual({
+        by_group: { terms: { field: 'level', size: 10 }, aggs: {} },
+      });
+    });
+
+    it('should put the innermost aggregations under the last field', () => {
+      const leaf = { metric_value: { max: { field: 'bytes' } } };
+      expect(groupingAggs(['a', 'b', 'c'], leaf, 5)).toEqual({
+        by_group: {
+          terms: { field: 'a', size: 5 },
+          aggs: {
+            by_group: {
+              terms: { field: 'b', size: 5 },
+              aggs: { by_group: { terms: { field: 'c', size: 5 }, aggs: leaf } },
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('after keys', () => {
+    it('should round-trip composite after keys', () => {
+      const afterKey = { 'service.name': 'api', 'http.response.status_code': 500 };
+      expect(decodeAfterKey(encodeAfterKey(afterKey))).toEqual(afterKey);
+    });
+
+    it('should reject values that are not after keys', () => {
+      expect(() => decodeAfterKey(Buffer.from('[1,2]').toString('base64url'))).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('parseGroupedBuckets', () => {
+    it('should leave out the after key when the composite has none', () => {
+      expect(parseGroupedBuckets({ by_group: { buckets: [] } }, ['a', 'b'], 'composite')).toEqual({ buckets: [] });
+    });
+
+    it('should return single-field flat grouping as plain buckets', () => {
+      const result = parseGroupedBuckets(
+        { by_group: { buckets: [{ key: 'error', doc_count: 3, metric_value: { value: 12.5 } }] } },
+        ['level'],
+        'flat'
+      );
+      expect(result.buckets).toEqual([{ key: 'error', doc_count: 3, metric_value: 12.5 }]);
+    });
+  });
+});
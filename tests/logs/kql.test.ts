@@ -0,0 +1,146 @@
+/**
+ * Tests for the KQL parser
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { KqlSyntaxError, kqlFields, kqlToDsl } from '../../src/tools/elasticsearch/logs/kql.js';
+
+describe('KQL Parser', () => {
+  describe('field expressions', () => {
+    it('should compile field:value to match', () => {
+      expect(kqlToDsl('level:error')).toEqual({ match: { level: 'error' } });
+    });
+
+    it('should keep multi-word unquoted values together', () => {
+      expect(kqlToDsl('message: connection refused')).toEqual({ match: { message: 'connection refused' } });
+    });
+
+    it('should compile quoted values to match_phrase', () => {
+      expect(kqlToDsl('message:"connection refused"')).toEqual({
+        match_phrase: { message: 'connection refused' },
+      });
+    });
+
+    it('should compile wildcards to wildcard queries', () => {
+      expect(kqlToDsl('host.name:web-*')).toEqual({ wildcard: { 'host.name': { value: 'web-*' } } });
+    });
+
+    it('should treat escaped wildcards literally', () => {
+      expect(kqlToDsl('path:a\\*b')).toEqual({ match: { path: 'a*b' } });
+    });
+
+    it('should compile field:* to exists', () => {
+      expect(kqlToDsl('error.message:*')).toEqual({ exists: { field: 'error.message' } });
+    });
+
+    it('should compile range operators', () => {
+      expect(kqlToDsl('http.response.status_code >= 500')).toEqual({
+        range: { 'http.response.status_code': { gte: '500' } },
+      });
+      expect(kqlToDsl('@timestamp < "2024-01-01"')).toEqual({ range: { '@timestamp': { lt: '2024-01-01' } } });
+    });
+
+    it('should expand value lists for one field', () => {
+      expect(kqlToDsl('level:(error or warn)')).toEqual({
+        bool: {
+          should: [{ match: { level: 'error' } }, { match: { level: 'warn' } }],
+          minimum_should_match: 1,
+        },
+      });
+    });
+
+    it('should compile nested queries with relative field names', () => {
+      expect(kqlToDsl('user:{ first:Alice and last:White }')).toEqual({
+        nested: {
+          path: 'user',
+          query: {
+            bool: { filter: [{ match: { 'user.first': 'Alice' } }, { match: { 'user.last': 'White' } }] },
+          },
+          score_mode: 'none',
+        },
+      });
+    });
+  });
+
+  describe('free text', () => {
+    it('should search across fields', () => {
+      expect(kqlToDsl('timeout')).toEqual({
+        multi_match: { query: 'timeout', type: 'best_fields', lenient: true },
+      });
+      expect(kqlToDsl('"read timeout"')).toEqual({
+        multi_match: { query: 'read timeout', type: 'phrase', lenient: true },
+      });
+    });
+  });
+
+  describe('boolean logic', () => {
+    it('should give AND precedence over OR', () => {
+      expect(kqlToDsl('a:1 or b:2 and c:3')).toEqual({
+        bool: {
+          should: [
+            { match: { a: '1' } },
+            { bool: { filter: [{ match: { b: '2' } }, { match: { c: '3' } }] } },
+          ],
+          minimum_should_match: 1,
+        },
+      });
+    });
+
+    it('should compile NOT to must_not, case-insensitively', () => {
+      expect(kqlToDsl('NOT level:debug')).toEqual({ bool: { must_not: [{ match: { level: 'debug' } }] } });
+    });
+
+    it('should honour parentheses', () => {
+      expect(kqlToDsl('not (a:1 or b:2)')).toEqual({
+        bool: {
+          must_not: [{ bool: { should: [{ match: { a: '1' } }, { match: { b: '2' } }], minimum_should_match: 1 } }],
+        },
+      });
+    });
+
+    it('should match everything for an empty query', () => {
+      expect(kqlToDsl('  ')).toEqual({ match_all: {} });
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('should report position and expected tokens', () => {
+      try {
+        kqlToDsl('level:(error');
+        throw new Error('expected a syntax error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(KqlSyntaxError);
+        const syntaxError = error as KqlSyntaxError;
+        expect(syntaxError.position).toBe(12);
+        expect(syntaxError.expected).toEqual(['AND', 'OR', '")"']);
+        expect(syntaxError.message).toContain('expected AND, OR or ")" but end of input found');
+      }
+    });
+
+    it('should reject a missing AND between expressions', () => {
+      expect(() => kqlToDsl('level:error service:api')).toThrow(
+        'KQL syntax error at position 19: expected AND, OR or end of input but ":" found'
+      );
+    });
+
+    it('should reject a missing value', () => {
+      expect(() => kqlToDsl('level:')).toThrow('expected value or "(" but end of input found');
+    });
+
+    it('should reject unterminated strings', () => {
+      expect(() => kqlToDsl('message:"oops')).toThrow(KqlSyntaxError);
+    });
+  });
+
+  describe('kqlFields', () => {
+    it('should list referenced fields, including nested paths and wildcards', () => {
+      expect(kqlFields('level:error and not (duration_ms > 100 or user.*:bob) and items:{ sku:A1 } and "free text"')).toEqual(
+        ['level', 'duration_ms', 'user.*', 'items.sku']
+      );
+    });
+
+    it('should return no fields for an empty query', () => {
+      expect(kqlFields('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for log aggregation metrics
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  intervalToMs,
+  metricAggs,
+  metricName,
+  parseMetrics,
+  type LogMetric,
+} from '../../src/tools/elasticsearch/logs/metrics.js';
+
+const metrics: LogMetric[] = [
+  { type: 'percentiles', field: 'event.duration' },
+  { type: 'cardinality', field: 'user.id', name: 'users' },
+  { type: 'stats', field: 'http.response.bytes' },
+  { type: 'rate', unit: 'second' },
+  { type: 'rate', field: 'http.response.bytes', unit: 'minute' },
+];
+
+describe('Log Aggregation Metrics', () => {
+  describe('metricName', () => {
+    it('should name metrics by type and field unless named', () => {
+      expect(metrics.map(metricName)).toEqual([
+        'percentiles(event.duration)',
+        'users',
+        'stats(http.response.bytes)',
+        'rate(count per second)',
+        'rate(http.response.bytes per minute)',
+      ]);
+    });
+  });
+
+  describe('metricAggs', () => {
+    it('should build one aggregation per metric, none for a count rate', () => {
+      expect(metricAggs(metrics)).toEqual({
+        m0: { percentiles: { field: 'event.duration', percents: [50, 95, 99] } },
+        m1: { cardinality: { field: 'user.id' } },
+        m2: { stats: { field: 'http.response.bytes' } },
+        m4: { sum: { field: 'http.response.bytes' } },
+      });
+    });
+  });
+
+  describe('parseMetrics', () => {
+    it('should read values and compute rates over the bucket length', () => {
+      const values = parseMetrics({
+        doc_count: 120,
+        m0: { values: { '50.0': 12.3456, '95.0': 80, '99.0': null } },
+        m1: { value: 42 },
+        m2: { count: 120, min: 10, max: 5000, avg: 250.25, sum: 30030 },
+        m4: { value: 30030 },
+      }, metrics, 60 * 1000);
+
+      expect(values).toEqual({
+        'percentiles(event.duration)': { p50: 12.346, p95: 80, p99: null },
+        users: 42,
+        'stats(http.response.bytes)': { count: 120, min: 10, max: 5000, avg: 250.25, sum: 30030 },
+        'rate(count per second)': 2,
+        'rate(http.response.bytes per minute)': 30030,
+      });
+    });
+
+    it('should report rates as null when the bucket length is unknown', () => {
+      expect(parseMetrics({ doc_count: 5 }, [{ type: 'rate' }], undefined)).toEqual({ 'rate(count per minute)': null });
+    });
+  });
+
+  describe('intervalToMs', () => {
+    it('should convert fixed intervals', () => {
+      expect(intervalToMs('15m')).toBe(15 * 60 * 1000);
+      expect(intervalToMs('1d')).toBe(24 * 60 * 60 * 1000);
+      expect(intervalToMs('1M')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for machine-learning anomaly detection results
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  anomalySeverity,
+  mlResultsQuery,
+  parseAnomalyBucket,
+  parseAnomalyRecord,
+  parseMlJobs,
+} from '../../src/tools/elasticsearch/logs/ml.js';
+
+const apmJobConfig = {
+  job_id: 'apm-production-8f2c-apm_tx_metrics',
+  groups: ['apm'],
+  analysis_config: {
+    bucket_span: '15m',
+    detectors: [{ detector_description: 'high latency by transaction type for an APM service', function: 'high_mean', field_name: 'transaction_latency' }],
+    influencers: ['transaction.type', 'service.name'],
+  },
+  custom_settings: { job_tags: { environment: 'production', apm_ml_version: 3 } },
+};
+
+describe('ML Anomalies', () => {
+  describe('anomalySeverity', () => {
+    it('should use the anomaly explorer bands', () => {
+      expect(anomalySeverity(92)).toBe('critical');
+      expect(anomalySeverity(50)).toBe('major');
+      expect(anomalySeverity(30)).toBe('minor');
+      expect(anomalySeverity(3)).toBe('warning');
+      expect(anomalySeverity(1)).toBe('low');
+    });
+  });
+
+  describe('parseMlJobs', () => {
+    it('should merge job stats and read APM job tags', () => {
+      const jobs = parseMlJobs(
+        {
+          count: 2,
+          jobs: [
+            apmJobConfig,
+            {
+              job_id: 'checkout-request-high_mean_response_time',
+              groups: ['apm'],
+              analysis_config: { bucket_span: '15m', detectors: [{ function: 'high_mean', field_name: 'transaction.duration.us' }] },
+            },
+          ],
+        },
+        {
+          count: 1,
+          jobs: [{ job_id: 'apm-production-8f2c-apm_tx_metrics', state: 'opened', data_counts: { latest_record_timestamp: 1704103200000 } }],
+        }
+      );
+
+      expect(jobs[0]).toEqual({
+        id: 'apm-production-8f2c-apm_tx_metrics',
+        groups: ['apm'],
+        bucketSpan: '15m',
+        detectors: ['high latency by transaction type for an APM service'],
+        influencers: ['transaction.type', 'service.name'],
+        state: 'opened',
+        latestRecord: '2024-01-01T10:00:00.000Z',
+        apm: { environment: 'production' },
+      });
+      expect(jobs[1].detectors).toEqual(['high_mean transaction.duration.us']);
+      expect(jobs[1].state).toBeUndefined();
+      expect(jobs[1].apm).toEqual({ service: 'checkout', transactionType: 'request' });
+    });
+  });
+
+  describe('mlResultsQuery', () => {
+    it('should filter on result type, time, score and jobs', () => {
+      expect(mlResultsQuery('bucket', 'now-24h', 'now', 75, ['job-1'])).toEqual({
+        bool: {
+          filter: [
+            { term: { result_type: 'bucket' } },
+            { range: { timestamp: { gte: 'now-24h', lte: 'now' } } },
+            { range: { anomaly_score: { gte: 75 } } },
+            { terms: { job_id: ['job-1'] } },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('parseAnomalyRecord', () => {
+    it('should read values, split fields and influencers', () => {
+      const record = parseAnomalyRecord({
+        job_id: 'log-rate',
+        result_type: 'record',
+        timestamp: 1704103200000,
+        record_score: 81.26,
+        probability: 0.00001,
+        function: 'count',
+        actual: [1520],
+        typical: [210.5],
+        partition_field_name: 'event.dataset',
+        partition_field_value: 'nginx.access',
+        influencers: [{ influencer_field_name: 'host.name', influencer_field_values: ['web-1', 'web-2'] }],
+        is_interim: true,
+      });
+
+      expect(record).toEqual({
+        jobId: 'log-rate',
+        timestamp: '2024-01-01T10:00:00.000Z',
+        score: 81.3,
+        severity: 'critical',
+        probability: 0.00001,
+        function: 'count',
+        actual: 1520,
+        typical: 210.5,
+        partition: { field: 'event.dataset', value: 'nginx.access' },
+        influencers: { 'host.name': ['web-1', 'web-2'] },
+        interim: true,
+      });
+    });
+
+    it('should map APM job records to service, environment and transaction type', () => {
+      const [job] = parseMlJobs({ count: 1, jobs: [apmJobConfig] });
+
+      const record = parseAnomalyRecord({
+        job_id: job.id,
+        result_type: 'record',
+        timestamp: 1704103200000,
+        record_score: 64,
+        function: 'high_mean',
+        field_name: 'transaction_latency',
+        actual: [850000],
+        typical: [120000],
+        partition_field_name: 'service.name',
+        partition_field_value: 'checkout',
+        by_field_name: 'transaction.type',
+        by_field_value: 'request',
+      }, job);
+
+      expect(record).toMatchObject({
+        service: 'checkout',
+        environment: 'production',
+        transactionType: 'request',
+        by: { field: 'transaction.type', value: 'request' },
+      });
+    });
+  });
+
+  describe('parseAnomalyBucket', () => {
+    it('should read the bucket score and the APM job environment', () => {
+      const [job] = parseMlJobs({ count: 1, jobs: [apmJobConfig] });
+
+      expect(parseAnomalyBucket({
+        job_id: job.id,
+        result_type: 'bucket',
+        timestamp: 1704103200000,
+        anomaly_score: 40.04,
+        event_count: 1200,
+        bucket_span: 900,
+      }, job)).toEqual({
+        jobId: job.id,
+        timestamp: '2024-01-01T10:00:00.000Z',
+        score: 40,
+        severity: 'minor',
+        eventCount: 1200,
+        bucketSpanSeconds: 900,
+        environment: 'production',
+      });
+    });
+  });
+});
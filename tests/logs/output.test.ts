@@ -0,0 +1,74 @@
+/**
+ * Tests for search result output options
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { formatLog, truncateValue } from '../../src/tools/elasticsearch/logs/output.js';
+
+const log = {
+  id: 'log-1',
+  index: 'logs-app',
+  timestamp: '2024-01-01T12:00:00Z',
+  source: {
+    '@timestamp': '2024-01-01T12:00:00Z',
+    log: { level: 'error' },
+    service: { name: 'checkout' },
+    message: 'Payment failed',
+    error: { stack_trace: 'x'.repeat(50), frames: ['a'.repeat(20), 'short'] },
+  },
+  highlight: { message: ['<em>Payment</em> failed'] },
+};
+
+describe('Search Result Output', () => {
+  describe('truncateValue', () => {
+    it('should cut long strings with a marker saying how much was left out', () => {
+      expect(truncateValue('abcdefghij', 4)).toBe('abcd…[truncated 6 chars]');
+      expect(truncateValue('abcd', 4)).toBe('abcd');
+    });
+
+    it('should cut strings nested in objects and arrays and leave other values alone', () => {
+      expect(truncateValue({ a: { b: 'abcdef' }, c: ['abcdef', 42], d: null }, 3)).toEqual({
+        a: { b: 'abc…[truncated 3 chars]' },
+        c: ['abc…[truncated 3 chars]', 42],
+        d: null,
+      });
+    });
+  });
+
+  describe('formatLog', () => {
+    it('should return logs unchanged by default', () => {
+      expect(formatLog(log)).toEqual(log);
+    });
+
+    it('should apply the field budget to the full source', () => {
+      const formatted = formatLog(log, { maxFieldChars: 15 }) as typeof log;
+
+      expect(formatted.source.error.stack_trace).toBe(`${'x'.repeat(15)}…[truncated 35 chars]`);
+      expect(formatted.source.error.frames).toEqual([`${'a'.repeat(15)}…[truncated 5 chars]`, 'short']);
+      expect(formatted.source.message).toBe('Payment failed');
+      expect(formatted.highlight).toEqual(log.highlight);
+    });
+
+    it('should project summaries from ECS and plain field names', () => {
+      expect(formatLog(log, { projection: 'summary', maxFieldChars: 8 })).toEqual({
+        id: 'log-1',
+        index: 'logs-app',
+        timestamp: '2024-01-01T12:00:00Z',
+        level: 'error',
+        service: 'checkout',
+        message: 'Payment …[truncated 6 chars]',
+        highlight: { message: ['<em>Payment</em> failed'] },
+      });
+
+      const plain = { ...log, source: { level: 'WARN', service: 'api', message: 'Slow query' }, highlight: undefined };
+      expect(formatLog(plain, { projection: 'summary' })).toEqual({
+        id: 'log-1',
+        index: 'logs-app',
+        timestamp: '2024-01-01T12:00:00Z',
+        level: 'WARN',
+        service: 'api',
+        message: 'Slow query',
+      });
+    });
+  });
+});
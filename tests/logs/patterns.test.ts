@@ -0,0 +1,54 @@
+/**
+ * Tests for log message pattern mining
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { maskMessage, mineLogPatterns, patternQuery } from '../../src/tools/elasticsearch/logs/patterns.js';
+
+describe('Log Patterns', () => {
+  describe('maskMessage', () => {
+    it('should mask UUIDs, IPs, hex ids and numbers', () => {
+      expect(maskMessage('request 3f2b8c1e-9a4d-4e2f-8b1a-0c9d8e7f6a5b from 10.0.0.12:8080 took 125 ms')).toBe(
+        'request <UUID> from <IP> took <NUM> ms'
+      );
+      expect(maskMessage('pointer 0x7ffd1a2b trace 4bf92f3577b34da6a3ce929d0e0e4736 status=500')).toBe(
+        'pointer <HEX> trace <HEX> status=<NUM>'
+      );
+    });
+
+    it('should leave numbers inside words alone', () => {
+      expect(maskMessage('upstream v2 responded in 15ms')).toBe('upstream v2 responded in 15ms');
+    });
+  });
+
+  describe('patternQuery', () => {
+    it('should keep only the static text', () => {
+      expect(patternQuery('Connection to <IP> timed out after <NUM> ms (<*>)')).toBe('Connection to timed out after ms ( )');
+      expect(patternQuery('<NUM> <*>')).toBe('');
+    });
+  });
+
+  describe('mineLogPatterns', () => {
+    it('should group messages that differ in variable tokens', () => {
+      const patterns = mineLogPatterns([
+        'User alice logged in from 10.0.0.1',
+        'User bob logged in from 10.0.0.2',
+        'User carol logged in from 10.0.0.3',
+        'Disk /dev/sda1 is 91% full',
+        'Cache miss for key session:42',
+      ]);
+
+      expect(patterns[0]).toEqual({ pattern: 'User <*> logged in from <IP>', count: 3 });
+      expect(patterns).toHaveLength(3);
+    });
+
+    it('should keep messages of different lengths apart', () => {
+      const patterns = mineLogPatterns(['job done', 'job done in 3 steps']);
+      expect(patterns.map((p) => p.pattern).sort()).toEqual(['job done', 'job done in <NUM> steps']);
+    });
+
+    it('should skip empty messages', () => {
+      expect(mineLogPatterns(['', '   '])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for log field profiles
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isProfilable, parseFieldProfile, profileAggs } from '../../src/tools/elasticsearch/logs/profile.js';
+
+describe('Log Field Profiles', () => {
+  describe('profileAggs', () => {
+    it('should request top values for keyword fields', () => {
+      expect(profileAggs('host.name', 'keyword', 5)).toEqual({
+        filter: { exists: { field: 'host.name' } },
+        aggs: {
+          cardinality: { cardinality: { field: 'host.name' } },
+          top_values: { terms: { field: 'host.name', size: 5 } },
+        },
+      });
+    });
+
+    it('should request stats, percentiles and a histogram for numeric and date fields', () => {
+      const numeric = profileAggs('event.duration', 'long', 5).aggs as Record<string, unknown>;
+      expect(Object.keys(numeric)).toEqual(['cardinality', 'stats', 'percentiles', 'histogram']);
+      expect(numeric.histogram).toEqual({ variable_width_histogram: { field: 'event.duration', buckets: 10 } });
+
+      const date = profileAggs('event.created', 'date', 5).aggs as Record<string, unknown>;
+      expect(date.histogram).toEqual({ auto_date_histogram: { field: 'event.created', buckets: 10 } });
+    });
+  });
+
+  describe('isProfilable', () => {
+    it('should reject types without useful aggregations', () => {
+      expect(isProfilable('keyword')).toBe(true);
+      expect(isProfilable('date_nanos')).toBe(true);
+      expect(isProfilable('text')).toBe(false);
+      expect(isProfilable('geo_point')).toBe(false);
+    });
+  });
+
+  describe('parseFieldProfile', () => {
+    it('should report presence and top value percentages of documents with the field', () => {
+      const profile = parseFieldProfile('level', 'keyword', {
+        doc_count: 80,
+        cardinality: { value: 3 },
+        top_values: { buckets: [{ key: 'info', doc_count: 60 }, { key: 'error', doc_count: 20 }] },
+      }, 100);
+
+      expect(profile).toEqual({
+        name: 'level',
+        type: 'keyword',
+        count: 80,
+        presence: 0.8,
+        cardinality: 3,
+        topValues: [
+          { value: 'info', count: 60, percent: 75 },
+          { value: 'error', count: 20, percent: 25 },
+        ],
+      });
+    });
+
+    it('should report numeric distributions', () => {
+      const profile = parseFieldProfile('event.duration', 'long', {
+        doc_count: 50,
+        cardinality: { value: 42 },
+        stats: { min: 1, max: 900, avg: 120.12345 },
+        percentiles: { values: { '50.0': 80, '90.0': 300, '95.0': 450, '99.0': 880 } },
+        histogram: { buckets: [{ key: 10, min: 1, max: 99, doc_count: 30 }, { key: 500, min: 100, max: 900, doc_count: 20 }] },
+      }, 50);
+
+      expect(profile).toMatchObject({
+        min: 1,
+        max: 900,
+        avg: 120.123,
+        percentiles: { p50: 80, p90: 300, p95: 450, p99: 880 },
+        histogram: [{ from: 1, to: 99, count: 30 }, { from: 100, to: 900, count: 20 }],
+      });
+    });
+
+    it('should report dates as timestamps', () => {
+      const profile = parseFieldProfile('event.created', 'date', {
+        doc_count: 10,
+        cardinality: { value: 10 },
+        stats: {
+          min: 1704067200000,
+          max: 1704070800000,
+          avg: 1704069000000,
+          min_as_string: '2024-01-01T00:00:00.000Z',
+          max_as_string: '2024-01-01T01:00:00.000Z',
+          avg_as_string: '2024-01-01T00:30:00.000Z',
+        },
+        percentiles: { values: { '50.0': 1704069000000, '50.0_as_string': '2024-01-01T00:30:00.000Z' } },
+        histogram: { buckets: [{ key: 1704067200000, key_as_string: '2024-01-01T00:00:00.000Z', doc_count: 10 }] },
+      }, 10);
+
+      expect(profile).toMatchObject({
+        min: '2024-01-01T00:00:00.000Z',
+        max: '2024-01-01T01:00:00.000Z',
+        avg: '2024-01-01T00:30:00.000Z',
+        percentiles: { p50: '2024-01-01T00:30:00.000Z' },
+        histogram: [{ from: '2024-01-01T00:00:00.000Z', count: 10 }],
+      });
+    });
+
+    it('should leave out stats of a field with no values', () => {
+      const profile = parseFieldProfile('event.duration', 'long', {
+        doc_count: 0,
+        cardinality: { value: 0 },
+        stats: { min: null, max: null, avg: null },
+      }, 100);
+
+      expect(profile).toEqual({ name: 'event.duration', type: 'long', count: 0, presence: 0, cardinality: 0 });
+    });
+  });
+});
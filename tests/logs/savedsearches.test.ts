@@ -0,0 +1,130 @@
+/**
+ * Tests for Kibana saved searches
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  filterLabel,
+  filterToDsl,
+  parseSavedSearch,
+  savedSearchRefinement,
+  type SavedSearchHit,
+} from '../../src/tools/elasticsearch/logs/savedsearches.js';
+
+function savedSearchHit(searchSource: object, attributes: object = {}, references: SavedSearchHit['_source']['references'] = []): SavedSearchHit {
+  return {
+    _id: 'search:checkout-errors',
+    _source: {
+      search: {
+        title: 'Checkout errors',
+        kibanaSavedObjectMeta: { searchSourceJSON: JSON.stringify(searchSource) },
+        ...attributes,
+      },
+      references,
+    },
+  };
+}
+
+describe('Kibana Saved Searches', () => {
+  describe('filterToDsl', () => {
+    it('should use the stored query of phrase and phrases filters', () => {
+      expect(filterToDsl({
+        meta: { type: 'phrase', key: 'service.name', params: { query: 'checkout' } },
+        query: { match_phrase: { 'service.name': 'checkout' } },
+      })).toEqual({ match_phrase: { 'service.name': 'checkout' } });
+
+      const phrases = { bool: { should: [{ match_phrase: { 'log.level': 'error' } }], minimum_should_match: 1 } };
+      expect(filterToDsl({ meta: { type: 'phrases', key: 'log.level', params: ['error'] }, query: phrases })).toEqual(phrases);
+    });
+
+    it('should wrap negated filters in must_not and skip disabled ones', () => {
+      expect(filterToDsl({
+        meta: { negate: true, type: 'exists', key: 'error.code' },
+        exists: { field: 'error.code' },
+        $state: { store: 'appState' },
+      })).toEqual({ bool: { must_not: [{ exists: { field: 'error.code' } }] } });
+
+      expect(filterToDsl({ meta: { disabled: true }, query: { match_all: {} } })).toBeUndefined();
+    });
+
+    it('should convert legacy phrase filters', () => {
+      expect(filterToDsl({
+        meta: { type: 'phrase', key: 'host.name' },
+        query: { match: { 'host.name': { query: 'web-1', type: 'phrase' } } },
+      })).toEqual({ match_phrase: { 'host.name': 'web-1' } });
+
+      expect(filterToDsl({ meta: { type: 'phrase', key: 'host.name', params: { query: 'web-2' } } }))
+        .toEqual({ match_phrase: { 'host.name': 'web-2' } });
+    });
+  });
+
+  describe('filterLabel', () => {
+    it('should describe filters as the filter bar does', () => {
+      expect(filterLabel({ meta: { negate: true, type: 'phrase', key: 'service.name', params: { query: 'checkout' } } }))
+        .toBe('NOT service.name: checkout');
+      expect(filterLabel({ meta: { type: 'phrases', key: 'log.level', params: ['error', 'warn'] } }))
+        .toBe('log.level: error OR warn');
+      expect(filterLabel({ meta: { type: 'range', key: 'http.response.status_code', params: { gte: 500, lt: 600 } } }))
+        .toBe('http.response.status_code: gte 500, lt 600');
+      expect(filterLabel({ meta: { alias: 'Slow requests', type: 'custom' }, query: { range: { duration: { gte: 1 } } } }))
+        .toBe('Slow requests');
+      expect(filterLabel({ meta: { type: 'custom' }, query: { term: { tenant: 'a' } } })).toBe('{"term":{"tenant":"a"}}');
+    });
+  });
+
+  describe('parseSavedSearch', () => {
+    it('should read the data view reference, query, filters, columns and sort', () => {
+      const savedSearch = parseSavedSearch(savedSearchHit(
+        {
+          query: { query: 'log.level:error', language: 'kuery' },
+          filter: [
+            { meta: { type: 'phrase', key: 'service.name', params: { query: 'checkout' }, negate: true }, query: { match_phrase: { 'service.name': 'checkout' } } },
+            { meta: { disabled: true, type: 'exists', key: 'trace.id' }, query: { exists: { field: 'trace.id' } } },
+          ],
+          indexRefName: 'kibanaSavedObjectMeta.searchSourceJSON.index',
+        },
+        { description: 'Errors outside checkout', columns: ['_source'], sort: [['@timestamp', 'asc'], ['log.level', 'desc']] },
+        [{ name: 'kibanaSavedObjectMeta.searchSourceJSON.index', type: 'index-pattern', id: 'logs-dv' }]
+      ));
+
+      expect(savedSearch).toEqual({
+        id: 'checkout-errors',
+        title: 'Checkout errors',
+        description: 'Errors outside checkout',
+        dataViewId: 'logs-dv',
+        query: { query: 'log.level:error', language: 'kuery' },
+        filters: [{ bool: { must_not: [{ match_phrase: { 'service.name': 'checkout' } }] } }],
+        filterLabels: ['NOT service.name: checkout'],
+        columns: [],
+        sort: [{ '@timestamp': 'asc' }, { 'log.level': 'desc' }],
+      });
+    });
+
+    it('should take ad hoc data views and single sort pairs', () => {
+      const savedSearch = parseSavedSearch(savedSearchHit(
+        { index: { id: 'adhoc', title: 'logs-app-*', timeFieldName: 'event.created' } },
+        { columns: ['message', 'host.name'], sort: ['event.created', 'desc'] }
+      ));
+
+      expect(savedSearch.dataViewId).toBeUndefined();
+      expect(savedSearch.indexPattern).toBe('logs-app-*');
+      expect(savedSearch.timeField).toBe('event.created');
+      expect(savedSearch.columns).toEqual(['message', 'host.name']);
+      expect(savedSearch.sort).toEqual([{ 'event.created': 'desc' }]);
+      expect(savedSearch.query).toBeUndefined();
+    });
+  });
+
+  describe('savedSearchRefinement', () => {
+    it('should turn a Lucene query into a query_string filter', () => {
+      const savedSearch = parseSavedSearch(savedSearchHit({
+        query: { query: 'status:[500 TO 599]', language: 'lucene' },
+        filter: [{ meta: { type: 'exists', key: 'error.code' }, query: { exists: { field: 'error.code' } } }],
+      }));
+
+      expect(savedSearchRefinement(savedSearch)).toEqual({
+        filters: [{ query_string: { query: 'status:[500 TO 599]' } }, { exists: { field: 'error.code' } }],
+      });
+    });
+  });
+});
@@ -32,8 +32,8 @@ describe('Logs Schema', () => {
   });
 
   describe('logsAuthSchema', () => {
-    it('should be an empty object (auth from env vars only)', () => {
-      expect(logsAuthSchema).toEqual({});
+    it('should only expose the cluster selector (auth from env vars only)', () => {
+      expect(Object.keys(logsAuthSchema)).toEqual(['cluster']);
     });
   });
 
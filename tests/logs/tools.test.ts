@@ -2,7 +2,8 @@
  * Tests for Logs MCP Tools
  */
 
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import { rm } from 'node:fs/promises';
 import {
   listDataViewsTool,
   getLogFieldsTool,
@@ -11,10 +12,28 @@ import {
   getLogContextTool,
   aggregateLogsTool,
   comparePeriodsTool,
+  getAsyncResultsTool,
+  queryEsqlTool,
+  categorizeLogsTool,
+  detectLogAnomaliesTool,
+  logFieldCorrelationsTool,
+  tailLogsTool,
+  exportLogsTool,
+  profileLogFieldsTool,
+  listSavedSearchesTool,
+  runSavedSearchTool,
+  listAlertRulesTool,
+  getAlertsTool,
+  getMlAnomaliesTool,
   logsTools,
 } from '../../src/tools/elasticsearch/logs/tools.js';
 import { clearLogsPool } from '../../src/tools/elasticsearch/logs/client.js';
 import { resetCircuitBreaker } from '../../src/tools/elasticsearch/common/client.js';
+import { encodeCursor } from '../../src/tools/elasticsearch/logs/cursor.js';
+import { encodeAsyncSearchHandle } from '../../src/tools/elasticsearch/logs/async.js';
+import { signToken } from '../../src/tools/elasticsearch/logs/signing.js';
+import { ES_LOGS_CONFIG } from '../../src/tools/elasticsearch/logs/schema.js';
+import { ExportNotFoundError, exportOwner, readExport } from '../../src/tools/elasticsearch/logs/export.js';
 
 // Mock response helpers
 function mockSuccessResponse(data: object) {
@@ -32,8 +51,8 @@ describe('Logs Tools', () => {
   });
 
   describe('logsTools array', () => {
-    it('should contain 7 tools', () => {
-      expect(logsTools).toHaveLength(7);
+    it('should contain 20 tools', () => {
+      expect(logsTools).toHaveLength(20);
     });
 
     it('should have all expected tool names', () => {
@@ -45,6 +64,19 @@ describe('Logs Tools', () => {
       expect(toolNames).toContain('get_log_context');
       expect(toolNames).toContain('aggregate_logs');
       expect(toolNames).toContain('compare_log_periods');
+      expect(toolNames).toContain('get_async_log_results');
+      expect(toolNames).toContain('query_esql');
+      expect(toolNames).toContain('categorize_logs');
+      expect(toolNames).toContain('detect_log_anomalies');
+      expect(toolNames).toContain('log_field_correlations');
+      expect(toolNames).toContain('tail_logs');
+      expect(toolNames).toContain('export_logs');
+      expect(toolNames).toContain('profile_log_fields');
+      expect(toolNames).toContain('list_saved_searches');
+      expect(toolNames).toContain('run_saved_search');
+      expect(toolNames).toContain('list_alert_rules');
+      expect(toolNames).toContain('get_alerts');
+      expect(toolNames).toContain('get_ml_anomalies');
     });
   });
 
@@ -229,6 +261,14 @@ describe('Logs Tools', () => {
       expect(searchLogsTool.name).toBe('search_logs');
     });
 
+    it('should require indexPattern and startTime only without a cursor', () => {
+      expect(searchLogsTool.parameters.safeParse({ cursor: 'abc' }).success).toBe(true);
+
+      const result = searchLogsTool.parameters.safeParse({ indexPattern: 'logs-*' });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((issue) => issue.path)).toEqual([['startTime']]);
+    });
+
     it('should return logs', async () => {
       (global.fetch as jest.Mock).mockImplementation(() =>
         mockSuccessResponse({
@@ -260,6 +300,48 @@ describe('Logs Tools', () => {
       expect(parsed.logs[0].id).toBe('log-1');
     });
 
+    it('should return summaries with truncated messages', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          hits: {
+            total: { value: 1 },
+            hits: [
+              {
+                _id: 'log-1',
+                _index: 'logs-2024.01.01',
+                _source: {
+                  '@timestamp': '2024-01-01T12:00:00Z',
+                  log: { level: 'error' },
+                  message: 'NullPointerException at com.example.Checkout',
+                },
+                highlight: { message: ['<em>NullPointerException</em> at com.example.Checkout'] },
+              },
+            ],
+          },
+        })
+      );
+
+      const result = await searchLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        query: 'NullPointerException',
+        highlight: true,
+        maxFieldChars: 20,
+        projection: 'summary',
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.logs[0]).toEqual({
+        id: 'log-1',
+        index: 'logs-2024.01.01',
+        timestamp: '2024-01-01T12:00:00Z',
+        level: 'error',
+        message: 'NullPointerException…[truncated 24 chars]',
+        highlight: { message: ['<em>NullPointerException</em> at com.example.Checkout'] },
+      });
+    });
+
     it('should include truncation warning', async () => {
       (global.fetch as jest.Mock).mockImplementation(() =>
         mockSuccessResponse({
@@ -284,6 +366,52 @@ describe('Logs Tools', () => {
       expect(parsed.truncated).toBe(true);
       expect(parsed.warning).toContain('truncated');
     });
+
+    it('should fetch the next page from a cursor', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          pit_id: 'pit-1',
+          hits: {
+            total: { value: 3, relation: 'eq' },
+            hits: [
+              {
+                _id: 'log-3',
+                _index: 'logs-app',
+                _source: { '@timestamp': '2024-01-01T11:00:00Z' },
+                sort: [1704106800000, 3],
+              },
+            ],
+          },
+        })
+      );
+
+      const cursor = encodeCursor({
+        cluster: 'default',
+        pitId: 'pit-1',
+        searchAfter: [1704110400000, 2],
+        returned: 2,
+        indexPattern: 'logs-app-*',
+        timeField: '@timestamp',
+        startTime: '2024-01-01T00:00:00.000Z',
+        endTime: '2024-01-01T12:00:00.000Z',
+        query: 'level:error',
+      });
+
+      const result = await searchLogsTool.execute({
+        indexPattern: 'ignored-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        cursor,
+        limit: 2,
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.indexPattern).toBe('logs-app-*');
+      expect(parsed.query).toBe('level:error');
+      expect(parsed.offset).toBe(2);
+      expect(parsed.logs[0].id).toBe('log-3');
+      expect(parsed.nextCursor).toBeNull();
+    });
   });
 
   describe('getLogContextTool', () => {
@@ -291,11 +419,30 @@ describe('Logs Tools', () => {
       expect(getLogContextTool.name).toBe('get_log_context');
     });
 
-    it('should return context', async () => {
-      let callCount = 0;
-      (global.fetch as jest.Mock).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
+    it('should return context ordered by the data view time field', async () => {
+      const contextQueries: Array<Record<string, unknown>> = [];
+      (global.fetch as jest.Mock).mockImplementation((url, options) => {
+        if ((url as string).includes('.kibana')) {
+          return mockSuccessResponse({
+            hits: {
+              total: { value: 1 },
+              hits: [
+                {
+                  _id: 'index-pattern:app-logs',
+                  _index: '.kibana',
+                  _source: {
+                    'index-pattern': { title: 'logs-*', timeFieldName: 'event.created' },
+                  },
+                },
+              ],
+            },
+          });
+        }
+        if ((url as string).includes('/_pit')) {
+          return mockSuccessResponse({ id: 'pit-1', succeeded: true });
+        }
+        const body = JSON.parse((options as RequestInit).body as string);
+        if (body.query.ids) {
           return mockSuccessResponse({
             hits: {
               total: { value: 1 },
@@ -303,12 +450,14 @@ describe('Logs Tools', () => {
                 {
                   _id: 'target',
                   _index: 'logs-*',
-                  _source: { '@timestamp': '2024-01-01T12:00:00Z' },
+                  _source: { event: { created: '2024-01-01T12:00:00Z' }, service: { name: 'api' } },
+                  sort: [1704110400000, 3],
                 },
               ],
             },
           });
         }
+        contextQueries.push(body);
         return mockSuccessResponse({
           hits: { total: { value: 0 }, hits: [] },
         });
@@ -321,7 +470,12 @@ describe('Logs Tools', () => {
       const parsed = JSON.parse(result);
 
       expect(parsed.targetLogId).toBe('target');
-      expect(parsed.target).not.toBeNull();
+      expect(parsed.timeField).toBe('event.created');
+      expect(parsed.target.timestamp).toBe('2024-01-01T12:00:00Z');
+      expect(parsed.scope).toEqual({ 'service.name': 'api' });
+      expect(contextQueries[0].sort).toEqual([{ 'event.created': 'desc' }, { _shard_doc: 'desc' }]);
+      expect(contextQueries[1].sort).toEqual([{ 'event.created': 'asc' }, { _shard_doc: 'asc' }]);
+      expect(contextQueries[1].search_after).toEqual([1704110400000, 3]);
     });
 
     it('should return error when log not found', async () => {
@@ -375,6 +529,71 @@ describe('Logs Tools', () => {
       expect(parsed.buckets[0].key).toBe('error');
     });
 
+    it('should return a composite page with the after value for the next one', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          hits: { total: { value: 0 }, hits: [] },
+          aggregations: {
+            by_group: {
+              after_key: { 'service.name': 'api', level: 'error' },
+              buckets: [{ key: { 'service.name': 'api', level: 'error' }, doc_count: 7 }],
+            },
+          },
+        })
+      );
+
+      const parsed = JSON.parse(await aggregateLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        groupBy: ['service.name', 'level'],
+        grouping: 'composite',
+        metric: 'count',
+        limit: 1,
+      }));
+
+      expect(parsed.buckets).toEqual([{ key: 'api | error', doc_count: 7, keys: { 'service.name': 'api', level: 'error' } }]);
+      expect(parsed.mightHaveMoreGroups).toBe(true);
+      expect(typeof parsed.nextAfter).toBe('string');
+      expect(parsed.note).toContain("Pass 'nextAfter' as 'after'");
+    });
+
+    it('should return requested metrics per group', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          hits: { total: { value: 0 }, hits: [] },
+          aggregations: {
+            by_group: { buckets: [{ key: 'error', doc_count: 3, m0: { count: 3, min: 1, max: 9, avg: 4, sum: 12 } }] },
+          },
+        })
+      );
+
+      const parsed = JSON.parse(await aggregateLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        groupBy: 'level',
+        metric: 'count',
+        metrics: [{ type: 'stats', field: 'event.duration', name: 'duration' }],
+      }));
+
+      expect(parsed.metrics).toEqual([{ type: 'stats', field: 'event.duration', name: 'duration' }]);
+      expect(parsed.buckets[0].metrics).toEqual({ duration: { count: 3, min: 1, max: 9, avg: 4, sum: 12 } });
+    });
+
+    it('should reject after without composite grouping', async () => {
+      await expect(
+        aggregateLogsTool.execute({
+          indexPattern: 'logs-*',
+          startTime: 'now-1h',
+          endTime: 'now',
+          groupBy: 'level',
+          metric: 'count',
+          after: 'abc',
+        })
+      ).rejects.toThrow("after is only used with grouping 'composite'");
+    });
+
     it('should require metricField for non-count metrics', async () => {
       await expect(
         aggregateLogsTool.execute({
@@ -440,5 +659,622 @@ describe('Logs Tools', () => {
       ).rejects.toThrow('metricField is required');
     });
   });
-});
 
+  describe('async aggregations', () => {
+    const byGroup = (buckets: Array<[string, number]>) => ({
+      by_group: { buckets: buckets.map(([key, doc_count]) => ({ key, doc_count })) },
+    });
+    const aggregateHandle = {
+      kind: 'aggregate' as const,
+      cluster: 'default',
+      ids: ['es-async-1'] as [string],
+      grouping: { fields: ['service.name'], mode: 'nested' as const, timeField: '@timestamp' },
+    };
+
+    it('should return partial results and a searchId when still running', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        expect(url).toContain('/logs-*/_async_search?wait_for_completion_timeout=5000ms');
+        return mockSuccessResponse({
+          id: 'es-async-1',
+          is_partial: true,
+          is_running: true,
+          response: { hits: { total: { value: 10 }, hits: [] }, aggregations: byGroup([['error', 10]]) },
+        });
+      });
+
+      const result = await aggregateLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        timeField: '@timestamp',
+        groupBy: 'level',
+        metric: 'count',
+        async: true,
+        waitSeconds: 5,
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.status).toBe('running');
+      expect(parsed.isPartial).toBe(true);
+      expect(parsed.searchId).toBeTruthy();
+      expect(parsed.buckets[0]).toEqual({ key: 'error', doc_count: 10 });
+    });
+
+    it('should return complete results without a searchId', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          is_partial: false,
+          is_running: false,
+          response: { hits: { total: { value: 3 }, hits: [] }, aggregations: byGroup([['info', 3]]) },
+        })
+      );
+
+      const result = await aggregateLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        groupBy: 'level',
+        metric: 'count',
+        async: true,
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.status).toBe('complete');
+      expect(parsed.searchId).toBeNull();
+    });
+
+    it('should compare periods asynchronously and poll the final comparison', async () => {
+      let submitted = 0;
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (options.method === 'DELETE') {
+          return mockSuccessResponse({ acknowledged: true });
+        }
+        if (url.includes('/_async_search?')) {
+          submitted++;
+          expect(url).toContain('keep_on_completion=true');
+          return mockSuccessResponse({
+            id: `es-async-${submitted}`,
+            is_partial: true,
+            is_running: true,
+            response: { hits: { total: { value: 0 }, hits: [] } },
+          });
+        }
+        const period = url.includes('es-async-1') ? [['api', 10]] : [['api', 15]];
+        return mockSuccessResponse({
+          id: 'ignored',
+          is_partial: false,
+          is_running: false,
+          response: { hits: { total: { value: 0 }, hits: [] }, aggregations: byGroup(period as Array<[string, number]>) },
+        });
+      });
+
+      const started = JSON.parse(await comparePeriodsTool.execute({
+        indexPattern: 'logs-*',
+        groupBy: 'service',
+        period1Start: 'now-2d',
+        period1End: 'now-1d',
+        period2Start: 'now-1d',
+        period2End: 'now',
+        metric: 'count',
+        async: true,
+      }));
+      expect(started.status).toBe('running');
+      // Groups are only looked up once both searches are complete
+      expect(started.appeared).toBeUndefined();
+
+      const polled = JSON.parse(await getAsyncResultsTool.execute({ searchId: started.searchId }));
+
+      expect(polled.kind).toBe('compare');
+      expect(polled.status).toBe('complete');
+      expect(polled.period1.byGroup).toEqual({ api: 10 });
+      expect(polled.period2.byGroup).toEqual({ api: 15 });
+      expect(polled.change.byGroup.api).toBe('+50%');
+      expect(polled.normalization).toBe('per_hour');
+      expect(polled.change.details.byGroup.api).toMatchObject({ percent: 50, significant: false });
+      expect(polled.appeared).toEqual([]);
+      expect(polled.disappeared).toEqual([]);
+    });
+
+    it('should report expired search ids clearly', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          ok: false,
+          status: 404,
+          text: () => Promise.resolve(JSON.stringify({ error: { reason: 'es-async-1' } })),
+        })
+      );
+
+      const searchId = encodeAsyncSearchHandle(aggregateHandle);
+
+      await expect(getAsyncResultsTool.execute({ searchId })).rejects.toThrow('Async search has expired');
+    });
+
+    it('should reject search ids it did not issue', async () => {
+      await expect(getAsyncResultsTool.execute({ searchId: 'FmRldE8zREVEUzA2' })).rejects.toThrow('Invalid search id');
+    });
+
+    it('should reject search ids that were edited', async () => {
+      const [payload, signature] = encodeAsyncSearchHandle(aggregateHandle).split('.');
+      const edited = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      edited.ids = ['es-async-2'];
+      const searchId = `${Buffer.from(JSON.stringify(edited)).toString('base64url')}.${signature}`;
+
+      await expect(getAsyncResultsTool.execute({ searchId })).rejects.toThrow('or it was altered');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject search ids of an older handle version', async () => {
+      const searchId = signToken({ v: 1, kind: 'aggregate', cluster: 'default', ids: ['es-async-1'] });
+
+      await expect(getAsyncResultsTool.execute({ searchId })).rejects.toThrow('not an async log search id');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should check the time range of comparison lookups', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() => mockSuccessResponse({
+        id: 'ignored',
+        is_partial: false,
+        is_running: false,
+        response: { hits: { total: { value: 0 }, hits: [] }, aggregations: byGroup([['api', 1]]) },
+      }));
+
+      const searchId = encodeAsyncSearchHandle({
+        kind: 'compare',
+        cluster: 'default',
+        ids: ['es-async-1', 'es-async-2'],
+        metric: 'count',
+        durationsMs: [3600000, 3600000],
+        lookup: {
+          indexPattern: 'logs-*',
+          groupBy: 'service',
+          timeField: '@timestamp',
+          periods: [['2024-01-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z'], ['2024-03-01T00:00:00.000Z', '2024-03-01T01:00:00.000Z']],
+        },
+      });
+
+      await expect(getAsyncResultsTool.execute({ searchId })).rejects.toThrow('Time range');
+    });
+  });
+
+  describe('queryEsqlTool', () => {
+    it('should return a compact table with the time filter applied to the requested time field', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        const body = JSON.parse(options.body as string);
+        expect(url).toContain('/_query');
+        expect(body.query).toMatch(/\| LIMIT 3$/);
+        expect(body.filter).toEqual({ range: { 'event.ingested': { gte: 'now-1h', lte: 'now' } } });
+        return mockSuccessResponse({
+          columns: [{ name: 'count', type: 'long' }, { name: 'service.name', type: 'keyword' }],
+          values: [[10, 'api'], [5, 'web'], [1, 'worker']],
+        });
+      });
+
+      const result = await queryEsqlTool.execute({
+        esql: 'FROM logs-* | STATS count = COUNT(*) BY service.name',
+        startTime: 'now-1h',
+        endTime: 'now',
+        timeField: 'event.ingested',
+        limit: 2,
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.timeField).toBe('event.ingested');
+      expect(parsed.columns).toEqual(['count:long', 'service.name:keyword']);
+      expect(parsed.rows).toEqual([[10, 'api'], [5, 'web']]);
+      expect(parsed.truncated).toBe(true);
+    });
+
+    it('should reject queries outside the allowlist without calling Elasticsearch', async () => {
+      await expect(queryEsqlTool.execute({
+        esql: 'FROM .kibana | LIMIT 1',
+        startTime: 'now-1h',
+        endTime: 'now',
+      })).rejects.toThrow('ES|QL query rejected');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the time range limit', async () => {
+      await expect(queryEsqlTool.execute({
+        esql: 'FROM logs-*',
+        startTime: 'now-7d',
+        endTime: 'now',
+      })).rejects.toThrow('exceeds maximum allowed');
+    });
+  });
+
+  describe('categorizeLogsTool', () => {
+    it('should have correct name', () => {
+      expect(categorizeLogsTool.name).toBe('categorize_logs');
+    });
+
+    it('should return patterns with the baseline window', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        const body = JSON.parse(options.body as string);
+        if (body.aggs?.categories) {
+          return mockSuccessResponse({
+            hits: { total: { value: 7 }, hits: [] },
+            aggregations: { categories: { buckets: [{ key: 'Payment declined', doc_count: 7 }] } },
+          });
+        }
+        return mockSuccessResponse({
+          hits: { total: { value: 0 }, hits: [] },
+          aggregations: { patterns: { buckets: { p0: { doc_count: 0 } } } },
+        });
+      });
+
+      const result = await categorizeLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        timeField: '@timestamp',
+        field: 'message',
+        limit: 20,
+        baselineStart: 'now-25h',
+        baselineEnd: 'now-24h',
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.method).toBe('categorize_text');
+      expect(parsed.patterns[0]).toMatchObject({ pattern: 'Payment declined', count: 7, flag: 'new' });
+      expect(parsed.newPatterns).toBe(1);
+      expect(parsed.baseline.timeRange).toEqual({ start: 'now-25h', end: 'now-24h' });
+    });
+
+    it('should require both ends of the baseline window', async () => {
+      await expect(categorizeLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        field: 'message',
+        limit: 20,
+        baselineStart: 'now-25h',
+      })).rejects.toThrow('baselineStart and baselineEnd must be given together');
+    });
+  });
+
+  describe('detectLogAnomaliesTool', () => {
+    it('should have correct name', () => {
+      expect(detectLogAnomaliesTool.name).toBe('detect_log_anomalies');
+    });
+
+    it('should note when the rolling detector was used', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        const body = JSON.parse(options.body as string);
+        if (body.aggs?.change_points) {
+          return Promise.resolve({
+            ok: false,
+            status: 400,
+            text: () => Promise.resolve('Unknown aggregation type [change_point]'),
+          });
+        }
+        return mockSuccessResponse({
+          hits: { total: { value: 0 }, hits: [] },
+          aggregations: { over_time: { buckets: [] } },
+        });
+      });
+
+      const result = await detectLogAnomaliesTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        timeField: '@timestamp',
+        groupLimit: 5,
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.method).toBe('rolling_mad');
+      expect(parsed.interval).toBe('1m');
+      expect(parsed.anomalies).toEqual([]);
+      expect(parsed.note).toContain('rolling median/MAD');
+    });
+  });
+
+  describe('logFieldCorrelationsTool', () => {
+    it('should have correct name', () => {
+      expect(logFieldCorrelationsTool.name).toBe('log_field_correlations');
+    });
+
+    it('should require both ends of the background window', async () => {
+      await expect(logFieldCorrelationsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        foregroundQuery: 'level:error',
+        backgroundEnd: 'now-1h',
+        limit: 20,
+      })).rejects.toThrow('backgroundStart and backgroundEnd must be given together');
+    });
+  });
+
+  describe('tailLogsTool', () => {
+    it('should have correct name', () => {
+      expect(tailLogsTool.name).toBe('tail_logs');
+    });
+
+    it('should stream batches as log and progress notifications', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() =>
+        mockSuccessResponse({
+          hits: {
+            total: { value: 1 },
+            hits: [{ _id: 'log-1', _index: 'logs-app', _source: { '@timestamp': '2024-01-01T10:00:00.000Z' }, sort: ['2024-01-01T10:00:00.000Z'] }],
+          },
+        })
+      );
+      const log = { info: jest.fn() };
+      const reportProgress = jest.fn((_progress: { progress: number; total?: number }) => Promise.resolve());
+
+      const result = await tailLogsTool.execute({
+        indexPattern: 'logs-*',
+        timeField: '@timestamp',
+        startTime: 'now',
+        durationSeconds: 1,
+        pollIntervalSeconds: 1,
+        maxLogs: 1,
+      }, { log, reportProgress });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.totalLogs).toBe(1);
+      expect(parsed.truncated).toBe(true);
+      expect(parsed.latest[0].id).toBe('log-1');
+      expect(log.info).toHaveBeenCalledWith('tail_logs: 1 new logs (1 total)', {
+        logs: [expect.objectContaining({ id: 'log-1' })],
+      });
+      expect(reportProgress).toHaveBeenCalledWith(expect.objectContaining({ total: 1000 }));
+    });
+  });
+
+  describe('exportLogsTool', () => {
+    afterAll(async () => {
+      await rm(ES_LOGS_CONFIG.exportDir, { recursive: true, force: true });
+    });
+
+    it('should return the export as a resource URI', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/_pit?keep_alive=')) {
+          return mockSuccessResponse({ id: 'pit-1' });
+        }
+        if (options.method === 'DELETE') {
+          return mockSuccessResponse({ succeeded: true });
+        }
+        return mockSuccessResponse({
+          hits: {
+            total: { value: 1, relation: 'eq' },
+            hits: [{ _id: 'log-1', _index: 'logs-app', _source: { message: 'hello' }, sort: [1, 0] }],
+          },
+        });
+      });
+
+      const result = await exportLogsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        timeField: '@timestamp',
+        format: 'ndjson',
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.uri).toMatch(/^logs-export:\/\/logs-.*\.ndjson$/);
+      expect(parsed.mimeType).toBe('application/x-ndjson');
+      expect(parsed.rows).toBe(1);
+      expect(parsed.truncated).toBe(false);
+    });
+
+    it('should make the export readable only by the session that wrote it', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/_pit?keep_alive=')) {
+          return mockSuccessResponse({ id: 'pit-1' });
+        }
+        if (options.method === 'DELETE') {
+          return mockSuccessResponse({ succeeded: true });
+        }
+        return mockSuccessResponse({ hits: { total: { value: 0, relation: 'eq' }, hits: [] } });
+      });
+      const session = { principal: { id: 'alice', method: 'jwt' as const, expiresAt: Infinity } };
+
+      const parsed = JSON.parse(await exportLogsTool.execute(
+        { indexPattern: 'logs-*', startTime: 'now-1h', endTime: 'now', timeField: '@timestamp', format: 'ndjson' },
+        { session }
+      ));
+      const name = parsed.uri.replace('logs-export://', '');
+
+      await expect(readExport(name, exportOwner(session))).resolves.toMatchObject({ uri: parsed.uri });
+      await expect(readExport(name)).rejects.toThrow(ExportNotFoundError);
+    });
+  });
+
+  describe('profileLogFieldsTool', () => {
+    it('should have correct name', () => {
+      expect(profileLogFieldsTool.name).toBe('profile_log_fields');
+    });
+
+    it('should return profiles and skipped fields', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/_mapping')) {
+          return mockSuccessResponse({
+            'logs-app': { mappings: { properties: { level: { type: 'keyword' }, message: { type: 'text' } } } },
+          });
+        }
+        return mockSuccessResponse({
+          hits: { total: { value: 10 }, hits: [] },
+          aggregations: { f0: { doc_count: 10, cardinality: { value: 1 }, top_values: { buckets: [{ key: 'info', doc_count: 10 }] } } },
+        });
+      });
+
+      const result = await profileLogFieldsTool.execute({
+        indexPattern: 'logs-*',
+        startTime: 'now-1h',
+        endTime: 'now',
+        timeField: '@timestamp',
+        topValues: 5,
+      });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.totalDocuments).toBe(10);
+      expect(parsed.profiles).toEqual([expect.objectContaining({ name: 'level', presence: 1 })]);
+      expect(parsed.skipped).toEqual(['message']);
+    });
+  });
+
+  describe('saved search tools', () => {
+    const savedSearchHit = {
+      _id: 'search:s1',
+      _source: {
+        search: {
+          title: 'Slow checkouts',
+          columns: ['message'],
+          kibanaSavedObjectMeta: {
+            searchSourceJSON: JSON.stringify({
+              query: { query: 'duration > 1000', language: 'lucene' },
+              filter: [{ meta: { type: 'exists', key: 'trace.id' }, query: { exists: { field: 'trace.id' } } }],
+              index: { title: 'logs-shop-*', timeFieldName: '@timestamp' },
+            }),
+          },
+        },
+      },
+    };
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        const body = JSON.parse(options.body as string);
+        if (url.includes('.kibana')) {
+          const hits = body.query.term?.type === 'search' ? [savedSearchHit] : [];
+          return mockSuccessResponse({ hits: { total: { value: hits.length }, hits } });
+        }
+        expect(body.query.bool.filter).toContainEqual({ query_string: { query: 'duration > 1000' } });
+        return mockSuccessResponse({
+          hits: {
+            total: { value: 1, relation: 'eq' },
+            hits: [{ _id: 'log-1', _index: 'logs-shop', _source: { '@timestamp': '2026-10-19T10:00:00Z', message: 'slow' } }],
+          },
+        });
+      });
+    });
+
+    it('should list saved searches with readable filters', async () => {
+      const parsed = JSON.parse(await listSavedSearchesTool.execute({}));
+
+      expect(parsed.count).toBe(1);
+      expect(parsed.savedSearches[0]).toMatchObject({
+        id: 's1',
+        title: 'Slow checkouts',
+        indexPattern: 'logs-shop-*',
+        query: { query: 'duration > 1000', language: 'lucene' },
+        filters: ['trace.id exists'],
+      });
+    });
+
+    it('should run a saved search over the given time range', async () => {
+      const parsed = JSON.parse(await runSavedSearchTool.execute({
+        savedSearch: 's1',
+        startTime: 'now-1h',
+        endTime: 'now',
+        limit: 100,
+      }));
+
+      expect(parsed.savedSearch.title).toBe('Slow checkouts');
+      expect(parsed.indexPattern).toBe('logs-shop-*');
+      expect(parsed.logs.map((log: { id: string }) => log.id)).toEqual(['log-1']);
+      expect(parsed.nextCursor).toBeNull();
+    });
+  });
+
+  describe('alert tools', () => {
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        const body = JSON.parse(options.body as string);
+        if (url.includes('.kibana')) {
+          return mockSuccessResponse({
+            hits: {
+              total: { value: 1 },
+              hits: [{ _id: 'alert:r1', _source: { alert: { name: 'Checkout errors', alertTypeId: 'apm.error_rate', params: { serviceName: 'checkout' } } } }],
+            },
+          });
+        }
+        expect(body.query.bool.filter).not.toContainEqual(expect.objectContaining({ terms: expect.anything() }));
+        return mockSuccessResponse({
+          hits: {
+            total: { value: 2, relation: 'eq' },
+            hits: [{
+              _id: 'a1',
+              _source: {
+                'kibana.alert.uuid': 'a1',
+                'kibana.alert.status': 'recovered',
+                'kibana.alert.rule.uuid': 'r1',
+                'kibana.alert.rule.rule_type_id': 'apm.error_rate',
+                'kibana.alert.start': '2026-10-19T09:00:00.000Z',
+                'kibana.alert.end': '2026-10-19T09:10:00.000Z',
+                'service.name': 'checkout',
+              },
+            }],
+          },
+          aggregations: { by_status: { buckets: [{ key: 'recovered', doc_count: 2 }] } },
+        });
+      });
+    });
+
+    it('should list alert rules', async () => {
+      const parsed = JSON.parse(await listAlertRulesTool.execute({ service: 'checkout' }));
+
+      expect(parsed.count).toBe(1);
+      expect(parsed.rules[0]).toMatchObject({ id: 'r1', ruleType: 'apm.error_rate' });
+    });
+
+    it('should get alerts of any status with drill-downs', async () => {
+      const parsed = JSON.parse(await getAlertsTool.execute({
+        startTime: 'now-24h',
+        endTime: 'now',
+        status: 'all',
+        limit: 1,
+      }));
+
+      expect(parsed.summary).toEqual({ recovered: 2 });
+      expect(parsed.alerts[0].drillDown).toEqual({
+        tool: 'get_apm_errors',
+        arguments: { serviceName: 'checkout', startTime: '2026-10-19T09:00:00.000Z', endTime: '2026-10-19T09:10:00.000Z' },
+      });
+      expect(parsed.warning).toContain('showing 1 of 2 alerts');
+    });
+  });
+
+  describe('get_ml_anomalies', () => {
+    it('should return only the requested result type', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/_ml/anomaly_detectors/')) {
+          return mockSuccessResponse({
+            count: 1,
+            jobs: url.includes('/_stats')
+              ? [{ job_id: 'log-rate', state: 'opened' }]
+              : [{ job_id: 'log-rate', analysis_config: { bucket_span: '15m', detectors: [{ function: 'count' }] } }],
+          });
+        }
+        return mockSuccessResponse({
+          hits: {
+            total: { value: 2, relation: 'eq' },
+            hits: [{ _id: 'b', _index: '.ml-anomalies-shared', _source: { job_id: 'log-rate', result_type: 'bucket', timestamp: 1704103200000, anomaly_score: 55, event_count: 10, bucket_span: 900 } }],
+          },
+        });
+      });
+
+      const parsed = JSON.parse(await getMlAnomaliesTool.execute({
+        startTime: 'now-24h',
+        endTime: 'now',
+        resultType: 'buckets',
+        limit: 1,
+      }));
+
+      expect(parsed.jobs[0]).toMatchObject({ id: 'log-rate', state: 'opened' });
+      expect(parsed.records).toBeUndefined();
+      expect(parsed.buckets[0]).toMatchObject({ score: 55, severity: 'major' });
+      expect(parsed.minScore).toBe(50);
+      expect(parsed.warning).toContain('Results truncated');
+    });
+
+    it('should say when no job matches', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() => mockSuccessResponse({ count: 0, jobs: [] }));
+
+      const parsed = JSON.parse(await getMlAnomaliesTool.execute({ startTime: 'now-24h', endTime: 'now', jobIds: ['nope'] }));
+
+      expect(parsed.warning).toBe('No anomaly detection jobs match nope.');
+    });
+  });
+});
@@ -4,6 +4,8 @@
  * Sets up global mocks and test environment
  */
 
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { jest, beforeEach } from '@jest/globals';
 
 // Mock environment variables for tests
@@ -13,6 +15,8 @@ process.env.ES_APM_INDEX = 'apm-test*';
 process.env.ES_KIBANA_INDEX = '.kibana-test*';
 process.env.ES_MAX_TIME_RANGE_HOURS = '24';
 process.env.ES_MAX_RESULTS = '500';
+process.env.ES_EXPORT_DIR = join(tmpdir(), `essp-mcp-exports-test-${process.pid}`);
+process.env.ES_EXPORT_MAX_ROWS = '2500';
 process.env.LOG_LEVEL = 'error'; // Suppress logs during tests
 
 // Mock fetch globally